@@ -2,25 +2,47 @@
  * AreaChart - Basic area chart component
  */
 
-import { Text } from 'ink';
 import React, { useMemo } from 'react';
-import { linearScale } from '../utils/scale';
+import { type GapMode, isPresent } from '../utils/gaps';
+import { type ScaleType, scaleByType } from '../utils/scale';
+import { CanvasLines } from './common/CanvasLines';
 import { type AxisConfig, ChartContainer } from './common/ChartContainer';
+import { ChartOverview } from './common/ChartOverview';
+import { ChartTooltip } from './common/ChartTooltip';
+import {
+    type ChartOverlays,
+    type OverlayLabels,
+    createLinearOverlayScales,
+    drawAnnotationPoints,
+    drawOverlayLines,
+    includeThresholds,
+    resolveOverlayLabels,
+} from './common/chartOverlays';
 import type { TimeSeriesChartProps } from './common/chartTypes';
 import {
     type ChartSeries,
+    GAP_MARKER_COLOR,
+    type StackLayer,
+    type StackMode,
     computeBaselineY,
-    defaultTickFormat,
+    drawCursor,
     getPixelDimensions,
+    resolvePointX,
+    resolveValueDomain,
     useChartLayoutSimple,
 } from './common/chartUtils';
 import { useChartCore } from './common/useChartCore';
-import { DEFAULT_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
+import { useChartInteraction } from './common/useChartInteraction';
+import { FILL_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
+import { useChartStack } from './common/useChartStack';
 
 /**
  * AreaChart component props
  */
-export type AreaChartProps = TimeSeriesChartProps;
+export type AreaChartProps = TimeSeriesChartProps & {
+    /** Stacking mode (default 'none') */
+    stacking?: StackMode;
+};
 
 /**
  * Fill area between two Y values at a given X position
@@ -43,6 +65,40 @@ function fillVerticalLine(
     }
 }
 
+/**
+ * Area point in pixel space (base = bottom edge of the fill)
+ */
+interface AreaPoint {
+    x: number;
+    y: number;
+    base: number;
+}
+
+/**
+ * Fill the area between two consecutive points and draw the top edge
+ */
+function fillAreaSegment(
+    renderer: ReturnType<typeof useChartRenderer>,
+    canvas: ReturnType<ReturnType<typeof useChartRenderer>['createCanvas']>,
+    from: AreaPoint,
+    to: AreaPoint,
+    color?: string,
+): void {
+    const startX = Math.min(from.x, to.x);
+    const endX = Math.max(from.x, to.x);
+
+    for (let px = startX; px <= endX; px++) {
+        const t = endX === startX ? 0 : (px - from.x) / (to.x - from.x);
+        const py = Math.floor(from.y + (to.y - from.y) * t);
+        const pyBase = Math.round(from.base + (to.base - from.base) * t);
+        fillVerticalLine(renderer, canvas, px, py, pyBase, color);
+    }
+    renderer.drawLine(canvas, from.x, from.y, to.x, to.y, {
+        active: true,
+        ...(color ? { color } : {}),
+    });
+}
+
 /**
  * Render area chart drawing logic
  */
@@ -54,63 +110,143 @@ function renderAreaChartCanvas(params: {
     min: number;
     max: number;
     maxLength: number;
+    xMin: number;
+    xMax: number;
     colors: string[];
-}): Array<Array<{ text: string; color?: string }>> {
-    const { renderer, series, canvasWidth, canvasHeight, min, max, maxLength, colors } = params;
+    gapMode: GapMode;
+    /** Stacked layers (index-aligned with series); absent when not stacked */
+    layers?: StackLayer[] | undefined;
+    /** Inspection cursor index (null when inactive) */
+    cursorIndex: number | null;
+    overlays: ChartOverlays;
+    yScale: ScaleType;
+}): { lines: Array<Array<{ text: string; color?: string }>>; labels: OverlayLabels } {
+    const {
+        renderer,
+        series,
+        canvasWidth,
+        canvasHeight,
+        min,
+        max,
+        maxLength,
+        xMin,
+        xMax,
+        colors,
+        gapMode,
+        layers,
+        cursorIndex,
+        overlays,
+        yScale,
+    } = params;
 
     if (series.length === 0 || maxLength === 0) {
-        return [];
+        return { lines: [], labels: { side: [], bottom: [] } };
     }
 
     const { pixelWidth, pixelHeight } = getPixelDimensions(renderer, canvasWidth, canvasHeight);
     const canvas = renderer.createCanvas(pixelWidth, pixelHeight);
-    const baselineY = computeBaselineY({ min, max, pixelHeight });
-    const xStep = maxLength > 1 ? (pixelWidth - 1) / (maxLength - 1) : 0;
+    const overlayScales = createLinearOverlayScales({
+        min,
+        max,
+        xMin,
+        xMax,
+        pixelWidth,
+        pixelHeight,
+        yScale,
+    });
+    drawOverlayLines(renderer, canvas, overlays, overlayScales);
+    const baselineY = computeBaselineY({ min, max, pixelHeight, scale: yScale });
 
     const scaleValue = (value: number): number => {
         if (max === min) {
             return Math.round((pixelHeight - 1) / 2);
         }
-        return Math.round(linearScale(value, [min, max], [pixelHeight - 1, 0]));
+        return Math.round(scaleByType(value, [min, max], [pixelHeight - 1, 0], yScale));
     };
 
-    // Sort series by max value (descending) to draw largest areas first (background)
-    const sortedData = series
-        .map((s, i) => {
-            const maxVal = Math.max(...s.data);
-            return { series: s, color: colors[i], maxVal };
-        })
-        .sort((a, b) => b.maxVal - a.maxVal);
+    // Unstacked: sort series by max value (descending) to draw largest areas first (background)
+    // Stacked: layers do not overlap, draw in stack order
+    const orderedData = series.map((s, i) => {
+        // Reduced rather than spread (long series exceed the argument limit); a series of
+        // gaps draws nothing and sorts as if it sat on the axis minimum
+        const peak = s.data.reduce<number>(
+            (acc, value) => (isPresent(value) && value > acc ? value : acc),
+            Number.NEGATIVE_INFINITY,
+        );
+        const maxVal = Number.isFinite(peak) ? peak : min;
+        return { series: s, color: colors[i], maxVal, layer: layers?.[i] };
+    });
+    if (!layers) {
+        orderedData.sort((a, b) => b.maxVal - a.maxVal);
+    }
 
-    for (const { series: item, color } of sortedData) {
-        let prevPoint: { x: number; y: number } | null = null;
+    for (const { series: item, color, layer } of orderedData) {
+        let prevPoint: AreaPoint | null = null;
 
         for (let idx = 0; idx < item.data.length; idx++) {
-            const value = item.data[idx];
-            if (value === undefined) continue;
-            const point = { x: Math.round(idx * xStep), y: scaleValue(value) };
+            const value = layer ? layer.upper[idx] : item.data[idx];
+            const x = resolvePointX({
+                series: item,
+                index: idx,
+                xMin,
+                xMax,
+                pixelWidth,
+                length: maxLength,
+            });
 
-            if (prevPoint) {
-                const startX = Math.min(prevPoint.x, point.x);
-                const endX = Math.max(prevPoint.x, point.x);
-
-                for (let px = startX; px <= endX; px++) {
-                    const t = endX === startX ? 0 : (px - prevPoint.x) / (point.x - prevPoint.x);
-                    const py = Math.floor(prevPoint.y + (point.y - prevPoint.y) * t);
-                    fillVerticalLine(renderer, canvas, px, py, baselineY, color);
+            if (!isPresent(value)) {
+                if (gapMode === 'marker') {
+                    renderer.setPixel(canvas, x, baselineY, {
+                        active: true,
+                        color: GAP_MARKER_COLOR,
+                    });
+                }
+                // Only 'connect' keeps the area running across the gap
+                if (gapMode !== 'connect') {
+                    prevPoint = null;
                 }
-                renderer.drawLine(canvas, prevPoint.x, prevPoint.y, point.x, point.y, {
-                    active: true,
-                    ...(color ? { color } : {}),
-                });
+                continue;
+            }
+
+            // Stacked areas fill down to the layer below instead of the baseline
+            const lower = layer?.lower[idx];
+            const base = isPresent(lower) ? scaleValue(lower) : baselineY;
+            const point: AreaPoint = { x, y: scaleValue(value), base };
+
+            if (prevPoint) {
+                fillAreaSegment(renderer, canvas, prevPoint, point, color);
             } else {
-                fillVerticalLine(renderer, canvas, point.x, point.y, baselineY, color);
+                fillVerticalLine(renderer, canvas, point.x, point.y, point.base, color);
             }
             prevPoint = point;
         }
     }
 
-    return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
+    drawAnnotationPoints(renderer, canvas, overlays, overlayScales);
+
+    const cursorSeries = series[0];
+    if (cursorIndex !== null && cursorSeries) {
+        const x = resolvePointX({
+            series: cursorSeries,
+            index: cursorIndex,
+            xMin,
+            xMax,
+            pixelWidth,
+            length: maxLength,
+        });
+        drawCursor(renderer, canvas, x);
+    }
+
+    return {
+        lines: renderer.renderCanvas(canvas, pixelWidth, pixelHeight),
+        labels: resolveOverlayLabels({
+            overlays,
+            scales: overlayScales,
+            resolution: renderer.getResolution(),
+            pixelWidth,
+            pixelHeight,
+        }),
+    };
 }
 
 export const AreaChart: React.FC<AreaChartProps> = (props) => {
@@ -126,25 +262,57 @@ export const AreaChart: React.FC<AreaChartProps> = (props) => {
         yTickCount = 5,
         xTickFormat,
         yTickFormat,
-        rendererChain = DEFAULT_RENDERER_CHAIN,
+        rendererChain = FILL_RENDERER_CHAIN,
         xIntegerScale = true,
         yIntegerScale = false,
+        yScale = 'linear',
+        gapMode = 'break',
+        stacking = 'none',
+        interactive = false,
+        showOverview = false,
+        thresholds,
+        bands,
+        annotations,
     } = props;
 
     const renderXAxis = showXAxis ?? showAxis;
     const renderYAxis = showYAxis ?? showAxis;
 
     // 1. Use common Hooks
-    const { series, min, max, maxLength, colors, legendItems } = useChartCore(props);
-    const renderer = useChartRenderer(props, rendererChain);
+    const core = useChartCore(props);
+    const { xScale, colors } = core;
+    const view = useChartInteraction(props, core.series);
+    const { series, maxLength, xMin, xMax, cursorIndex } = view;
+    const stack = useChartStack({
+        series,
+        min: view.min,
+        max: view.max,
+        legendItems: core.legendItems,
+        stacking,
+        reverseLegend: legendPosition === 'right',
+    });
+    const { layers, legendItems, tickFormat } = stack;
+    const extent = includeThresholds(stack.min, stack.max, thresholds);
+    const { min, max } = resolveValueDomain(extent.min, extent.max, yScale, series);
+    const overlays = useMemo(
+        () => ({ thresholds, bands, annotations }),
+        [thresholds, bands, annotations],
+    );
+    const renderer = useChartRenderer(props, rendererChain, colors);
+    const resolvedXScale = props.xScale ?? xScale;
+    const resolvedYTickFormat = yTickFormat ?? tickFormat;
 
     // 2. Layout calculation (use simplified API)
-    const layout = useChartLayoutSimple(props, min, max);
+    const layout = useChartLayoutSimple(
+        { ...props, ...(resolvedYTickFormat ? { yTickFormat: resolvedYTickFormat } : {}) },
+        min,
+        max,
+    );
 
     const { plotWidth: canvasWidth, plotHeight: canvasHeight } = layout;
 
     // 3. Draw area chart (component-specific logic)
-    const coloredLines = useMemo(
+    const { lines: coloredLines, labels: overlayLabels } = useMemo(
         () =>
             renderAreaChartCanvas({
                 renderer,
@@ -154,9 +322,32 @@ export const AreaChart: React.FC<AreaChartProps> = (props) => {
                 min,
                 max,
                 maxLength,
+                xMin,
+                xMax,
                 colors,
+                gapMode,
+                layers,
+                cursorIndex,
+                overlays,
+                yScale,
             }),
-        [renderer, series, canvasWidth, canvasHeight, min, max, maxLength, colors],
+        [
+            renderer,
+            series,
+            canvasWidth,
+            canvasHeight,
+            min,
+            max,
+            maxLength,
+            xMin,
+            xMax,
+            colors,
+            gapMode,
+            layers,
+            cursorIndex,
+            overlays,
+            yScale,
+        ],
     );
 
     if (coloredLines.length === 0) {
@@ -168,16 +359,20 @@ export const AreaChart: React.FC<AreaChartProps> = (props) => {
         min,
         max,
         tickCount: yTickCount,
-        tickFormat: yTickFormat ?? defaultTickFormat,
+        scale: yScale,
+        // Log scales pick their own label format unless one is given
+        ...(resolvedYTickFormat ? { tickFormat: resolvedYTickFormat } : {}),
         ...(yIntegerScale !== undefined && { integerScale: yIntegerScale }),
         ...(yAxisLabel ? { label: yAxisLabel } : {}),
     };
 
     const xAxisConfig: AxisConfig = {
-        min: 0,
-        max: Math.max(0, maxLength - 1),
+        min: xMin,
+        max: xMax,
         tickCount: xTickCount,
-        tickFormat: xTickFormat ?? defaultTickFormat,
+        scale: resolvedXScale,
+        // Time scale picks its own label format unless one is given
+        ...(xTickFormat ? { tickFormat: xTickFormat } : {}),
         ...(xIntegerScale !== undefined && { integerScale: xIntegerScale }),
         ...(xAxisLabel ? { label: xAxisLabel } : {}),
     };
@@ -189,23 +384,35 @@ export const AreaChart: React.FC<AreaChartProps> = (props) => {
             showYAxis={renderYAxis}
             xAxisConfig={xAxisConfig}
             yAxisConfig={yAxisConfig}
+            overlayLabels={overlayLabels}
             showLegend={showLegend}
             legendPosition={legendPosition}
             legendItems={legendItems}
+            overview={
+                showOverview ? (
+                    <ChartOverview
+                        data={core.series[0]?.data ?? []}
+                        viewport={view.viewport}
+                        width={canvasWidth}
+                        color={core.series[0]?.color ?? colors[0]}
+                    />
+                ) : undefined
+            }
+            tooltip={
+                interactive ? (
+                    <ChartTooltip
+                        series={series}
+                        colors={colors}
+                        index={cursorIndex}
+                        indexOffset={view.indexOffset}
+                        xScale={resolvedXScale}
+                        xTickFormat={xTickFormat}
+                        yTickFormat={yTickFormat}
+                    />
+                ) : undefined
+            }
         >
-            {coloredLines.map((segments, i) => (
-                <Text key={`chart-line-${i}`}>
-                    {segments.map((segment, j) =>
-                        segment.color ? (
-                            <Text key={`seg-${i}-${j}`} color={segment.color}>
-                                {segment.text}
-                            </Text>
-                        ) : (
-                            <Text key={`seg-${i}-${j}`}>{segment.text}</Text>
-                        ),
-                    )}
-                </Text>
-            ))}
+            <CanvasLines lines={coloredLines} />
         </ChartContainer>
     );
 };
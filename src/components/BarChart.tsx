@@ -2,21 +2,40 @@
  * BarChart Basic bar chart component
  */
 
-import { Text } from 'ink';
 import React, { useMemo } from 'react';
 import type { Renderer } from '../core/renderer';
-import { linearScale } from '../utils/scale';
+import { type GapMode, type SeriesValue, fillGaps, isPresent } from '../utils/gaps';
+import { type ScaleType, scaleByType } from '../utils/scale';
+import { CanvasLines } from './common/CanvasLines';
 import { type AxisConfig, ChartContainer } from './common/ChartContainer';
+import { ChartOverview } from './common/ChartOverview';
+import { ChartTooltip } from './common/ChartTooltip';
+import {
+    type ChartOverlays,
+    type OverlayLabels,
+    type OverlayScales,
+    drawAnnotationPoints,
+    drawOverlayLines,
+    includeThresholds,
+    resolveOverlayLabels,
+} from './common/chartOverlays';
 import type { TimeSeriesChartProps } from './common/chartTypes';
 import {
     type ChartSeries,
+    GAP_MARKER_COLOR,
+    type StackLayer,
+    type StackMode,
     computeBaselineY,
-    defaultTickFormat,
+    drawCursor,
     getPixelDimensions,
+    resolvePointX,
+    resolveValueDomain,
     useChartLayoutSimple,
 } from './common/chartUtils';
 import { useChartCore } from './common/useChartCore';
+import { useChartInteraction } from './common/useChartInteraction';
 import { BAR_CHART_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
+import { useChartStack } from './common/useChartStack';
 
 // ============================================================================
 // Layout Helpers (Pure Functions)
@@ -165,6 +184,89 @@ function computeHorizontalLayout(params: {
 // Renderers
 // ============================================================================
 
+/**
+ * Fill an inclusive pixel rectangle
+ */
+function fillRect(
+    renderer: Renderer,
+    canvas: ReturnType<Renderer['createCanvas']>,
+    rect: { x0: number; y0: number; x1: number; y1: number },
+    color?: string,
+): void {
+    for (let yy = rect.y0; yy <= rect.y1; yy++) {
+        for (let xx = rect.x0; xx <= rect.x1; xx++) {
+            renderer.setPixel(canvas, xx, yy, {
+                active: true,
+                ...(color ? { color } : {}),
+            });
+        }
+    }
+}
+
+/**
+ * Value and base of one bar (stacked bars start on the layer below instead of the baseline)
+ */
+function resolveBarValue(
+    series: ChartSeries[],
+    layers: StackLayer[] | undefined,
+    seriesIndex: number,
+    index: number,
+): { value: SeriesValue; base: number | null } {
+    const layer = layers?.[seriesIndex];
+    if (layer) {
+        return { value: layer.upper[index], base: layer.lower[index] ?? null };
+    }
+    return { value: series[seriesIndex]?.data[index], base: null };
+}
+
+/**
+ * Category index an annotation X position falls on (null when outside the visible data)
+ *
+ * Plain series use the (viewport-offset) index, point series the nearest X value.
+ */
+function resolveCategoryIndex(
+    s: ChartSeries | undefined,
+    x: number,
+    xMin: number,
+    xMax: number,
+    maxLength: number,
+): number | null {
+    if (x < xMin || x > xMax) return null;
+    if (!s?.x) {
+        const index = Math.round(x - xMin);
+        return index < maxLength ? index : null;
+    }
+    let nearest = 0;
+    s.x.forEach((value, i) => {
+        if (Math.abs(value - x) < Math.abs((s.x?.[nearest] ?? value) - x)) {
+            nearest = i;
+        }
+    });
+    return nearest;
+}
+
+type ColoredLines = ReturnType<Renderer['renderCanvas']>;
+
+function finishCanvas(
+    renderer: Renderer,
+    canvas: ReturnType<Renderer['createCanvas']>,
+    overlays: ChartOverlays,
+    scales: OverlayScales,
+    size: { pixelWidth: number; pixelHeight: number },
+): { lines: ColoredLines; labels: OverlayLabels } {
+    const { pixelWidth, pixelHeight } = size;
+    return {
+        lines: renderer.renderCanvas(canvas, pixelWidth, pixelHeight),
+        labels: resolveOverlayLabels({
+            overlays,
+            scales,
+            resolution: renderer.getResolution(),
+            pixelWidth,
+            pixelHeight,
+        }),
+    };
+}
+
 function renderVertical(params: {
     renderer: Renderer;
     series: ChartSeries[];
@@ -173,9 +275,18 @@ function renderVertical(params: {
     min: number;
     max: number;
     maxLength: number;
+    xMin: number;
+    xMax: number;
     colors: string[];
+    gapMode: GapMode;
+    layers?: StackLayer[] | undefined;
+    cursorIndex: number | null;
+    overlays: ChartOverlays;
+    yScale: ScaleType;
 }) {
-    const { renderer, series, width, height, min, max, maxLength, colors } = params;
+    const { renderer, series, width, height, min, max, maxLength, xMin, xMax, colors, gapMode } =
+        params;
+    const { layers, cursorIndex, overlays, yScale } = params;
     const { pixelWidth, pixelHeight } = getPixelDimensions(renderer, width, height);
     const canvas = renderer.createCanvas(pixelWidth, pixelHeight);
 
@@ -186,40 +297,79 @@ function renderVertical(params: {
     const { groupWidth, barWidth, barGap, groupPadding } = computeVerticalLayout({
         pixelWidth,
         categoryCount: maxLength,
-        seriesCount: series.length,
+        // Stacked series share a single bar per group
+        seriesCount: layers ? 1 : series.length,
         alignment,
     });
 
-    const baselineY = computeBaselineY({ min, max, pixelHeight });
+    const baselineY = computeBaselineY({ min, max, pixelHeight, scale: yScale });
     const scaleValue = (val: number) => {
         if (max === min) return Math.round((pixelHeight - 1) / 2);
-        return Math.round(linearScale(val, [min, max], [pixelHeight - 1, 0]));
+        return Math.round(scaleByType(val, [min, max], [pixelHeight - 1, 0], yScale));
     };
 
+    // Groups are laid out by index, or centered on their real X value when provided
+    const resolveGroupLeft = (s: ChartSeries | undefined, i: number) => {
+        if (!s?.x) return i * groupWidth + groupPadding;
+        const center = resolvePointX({
+            series: s,
+            index: i,
+            xMin,
+            xMax,
+            pixelWidth,
+            length: maxLength,
+        });
+        const left = alignDown(center - groupWidth / 2, alignment);
+        return Math.min(Math.max(0, left), Math.max(0, pixelWidth - groupWidth)) + groupPadding;
+    };
+    const slots = layers ? 1 : series.length;
+    const groupCenter = (i: number) =>
+        resolveGroupLeft(series[0], i) + Math.floor((slots * barWidth + (slots - 1) * barGap) / 2);
+
+    const overlayScales: OverlayScales = {
+        value: scaleValue,
+        category: (x) => {
+            const index = resolveCategoryIndex(series[0], x, xMin, xMax, maxLength);
+            return index === null ? null : groupCenter(index);
+        },
+    };
+    drawOverlayLines(renderer, canvas, overlays, overlayScales);
+
     // Render
     for (let i = 0; i < maxLength; i++) {
-        const groupLeft = i * groupWidth + groupPadding;
         for (let j = 0; j < series.length; j++) {
-            const val = series[j]?.data[i] ?? 0;
-            const yVal = scaleValue(val);
-            const x = groupLeft + j * (barWidth + barGap);
-            const xEnd = Math.min(pixelWidth - 1, x + barWidth - 1);
+            const data = series[j]?.data ?? [];
+            if (i >= data.length) continue;
 
-            const yStart = Math.min(yVal, baselineY);
-            const yEnd = Math.max(yVal, baselineY);
-            const color = colors[j];
+            const { value: val, base } = resolveBarValue(series, layers, j, i);
+            const slot = layers ? 0 : j;
+            const x = resolveGroupLeft(series[j], i) + slot * (barWidth + barGap);
+            const xEnd = Math.min(pixelWidth - 1, x + barWidth - 1);
 
-            for (let yy = yStart; yy <= yEnd; yy++) {
-                for (let xx = x; xx <= xEnd; xx++) {
-                    renderer.setPixel(canvas, xx, yy, {
-                        active: true,
-                        ...(color ? { color } : {}),
-                    });
+            if (!isPresent(val)) {
+                if (gapMode === 'marker') {
+                    const marker = { x0: x, y0: baselineY, x1: xEnd, y1: baselineY };
+                    fillRect(renderer, canvas, marker, GAP_MARKER_COLOR);
                 }
+                continue;
             }
+
+            const yVal = scaleValue(val);
+            const yBase = base === null ? baselineY : scaleValue(base);
+
+            const yStart = Math.min(yVal, yBase);
+            const yEnd = Math.max(yVal, yBase);
+            fillRect(renderer, canvas, { x0: x, y0: yStart, x1: xEnd, y1: yEnd }, colors[j]);
         }
     }
-    return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
+
+    drawAnnotationPoints(renderer, canvas, overlays, overlayScales);
+
+    // Cursor runs through the middle of the selected group
+    if (cursorIndex !== null) {
+        drawCursor(renderer, canvas, groupCenter(cursorIndex));
+    }
+    return finishCanvas(renderer, canvas, overlays, overlayScales, { pixelWidth, pixelHeight });
 }
 
 function renderHorizontal(params: {
@@ -230,9 +380,18 @@ function renderHorizontal(params: {
     min: number;
     max: number;
     maxLength: number;
+    xMin: number;
+    xMax: number;
     colors: string[];
+    gapMode: GapMode;
+    layers?: StackLayer[] | undefined;
+    cursorIndex: number | null;
+    overlays: ChartOverlays;
+    yScale: ScaleType;
 }) {
-    const { renderer, series, width, height, min, max, maxLength, colors } = params;
+    const { renderer, series, width, height, min, max, maxLength, colors, gapMode, layers } =
+        params;
+    const { xMin, xMax, cursorIndex, overlays, yScale } = params;
 
     const resolution = renderer.getResolution();
 
@@ -247,14 +406,15 @@ function renderHorizontal(params: {
     const { groupHeight, barHeight, barGap, groupPadding } = computeHorizontalLayout({
         pixelHeight,
         categoryCount: maxLength,
-        seriesCount: series.length,
+        // Stacked series share a single bar per group
+        seriesCount: layers ? 1 : series.length,
         alignment,
     });
 
     // Scale X
     const scaleValue = (val: number) => {
         if (max === min) return Math.round((pixelWidth - 1) / 2);
-        return Math.round(linearScale(val, [min, max], [0, pixelWidth - 1]));
+        return Math.round(scaleByType(val, [min, max], [0, pixelWidth - 1], yScale));
     };
 
     // Baseline X
@@ -263,37 +423,63 @@ function renderHorizontal(params: {
     else if (max < 0) baselineVal = max;
     const baselineX = scaleValue(baselineVal);
 
+    const slots = layers ? 1 : series.length;
+    const groupCenter = (i: number) =>
+        i * groupHeight + groupPadding + Math.floor((slots * barHeight + (slots - 1) * barGap) / 2);
+
+    // Values run across the canvas, categories down it
+    const overlayScales: OverlayScales = {
+        value: scaleValue,
+        category: (x) => {
+            const index = resolveCategoryIndex(series[0], x, xMin, xMax, maxLength);
+            return index === null ? null : groupCenter(index);
+        },
+        orientation: 'horizontal',
+    };
+    drawOverlayLines(renderer, canvas, overlays, overlayScales);
+
     // Render
     // Note: We use the *calculated* groupHeight for rendering positions strictly.
     // This allows the "Tight Layout" to act effectively.
     for (let i = 0; i < maxLength; i++) {
         const groupTop = i * groupHeight + groupPadding;
         for (let j = 0; j < series.length; j++) {
-            const val = series[j]?.data[i] ?? 0;
-            const xVal = scaleValue(val);
+            const data = series[j]?.data ?? [];
+            if (i >= data.length) continue;
 
-            const y = groupTop + j * (barHeight + barGap);
+            const { value: val, base } = resolveBarValue(series, layers, j, i);
+            const slot = layers ? 0 : j;
+            const y = groupTop + slot * (barHeight + barGap);
             const yEnd = Math.min(pixelHeight - 1, y + barHeight - 1); // Clamp to canvas
 
             // Check if we are checking out of bounds (which safe tightening prevents, but for safety)
             if (y >= pixelHeight) continue;
 
-            const xStart = Math.min(xVal, baselineX);
-            const xEndFill = Math.max(xVal, baselineX);
-            const color = colors[j];
-
-            for (let yy = y; yy <= yEnd; yy++) {
-                for (let xx = xStart; xx <= xEndFill; xx++) {
-                    renderer.setPixel(canvas, xx, yy, {
-                        active: true,
-                        ...(color ? { color } : {}),
-                    });
+            if (!isPresent(val)) {
+                if (gapMode === 'marker') {
+                    const marker = { x0: baselineX, y0: y, x1: baselineX, y1: yEnd };
+                    fillRect(renderer, canvas, marker, GAP_MARKER_COLOR);
                 }
+                continue;
             }
+
+            const xVal = scaleValue(val);
+            const xBase = base === null ? baselineX : scaleValue(base);
+
+            const xStart = Math.min(xVal, xBase);
+            const xEndFill = Math.max(xVal, xBase);
+            fillRect(renderer, canvas, { x0: xStart, y0: y, x1: xEndFill, y1: yEnd }, colors[j]);
         }
     }
 
-    return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
+    drawAnnotationPoints(renderer, canvas, overlays, overlayScales);
+
+    // Cursor runs through the middle of the selected group
+    if (cursorIndex !== null) {
+        drawCursor(renderer, canvas, groupCenter(cursorIndex), 'horizontal');
+    }
+
+    return finishCanvas(renderer, canvas, overlays, overlayScales, { pixelWidth, pixelHeight });
 }
 
 // ============================================================================
@@ -306,6 +492,9 @@ function renderHorizontal(params: {
 export type BarChartProps = TimeSeriesChartProps & {
     /** Orientation (default 'vertical') */
     orientation?: 'vertical' | 'horizontal';
+
+    /** Stacking mode (default 'none') */
+    stacking?: StackMode;
 };
 
 export const BarChart: React.FC<BarChartProps> = (props) => {
@@ -325,22 +514,66 @@ export const BarChart: React.FC<BarChartProps> = (props) => {
         rendererChain = BAR_CHART_RENDERER_CHAIN,
         xIntegerScale,
         yIntegerScale,
+        yScale = 'linear',
+        gapMode = 'break',
+        stacking = 'none',
+        interactive = false,
+        showOverview = false,
+        thresholds,
+        bands,
+        annotations,
     } = props;
 
     const renderXAxis = showXAxis ?? showAxis;
     const renderYAxis = showYAxis ?? showAxis;
 
     // 1. Core Data
-    const { series, min, max, maxLength, colors, legendItems } = useChartCore(props);
-    const renderer = useChartRenderer(props, rendererChain);
+    const core = useChartCore(props);
+    const { xScale, colors } = core;
+    const view = useChartInteraction(props, core.series);
+    const { maxLength, xMin, xMax, cursorIndex } = view;
+
+    // 'connect' bridges gaps with interpolated bars
+    const series = useMemo(
+        () =>
+            gapMode === 'connect'
+                ? view.series.map((s) => ({ ...s, data: fillGaps(s.data) }))
+                : view.series,
+        [view.series, gapMode],
+    );
+    const stack = useChartStack({
+        series,
+        min: view.min,
+        max: view.max,
+        legendItems: core.legendItems,
+        stacking,
+        // Horizontal stacks grow left to right, matching the legend's reading order
+        reverseLegend: orientation === 'vertical' && legendPosition === 'right',
+    });
+    const { layers, legendItems, tickFormat } = stack;
+    const extent = includeThresholds(stack.min, stack.max, thresholds);
+    const { min, max } = resolveValueDomain(extent.min, extent.max, yScale, series);
+    const overlays = useMemo(
+        () => ({ thresholds, bands, annotations }),
+        [thresholds, bands, annotations],
+    );
+    const renderer = useChartRenderer(props, rendererChain, colors);
+    const resolvedXScale = props.xScale ?? xScale;
+    const resolvedYTickFormat = yTickFormat ?? tickFormat;
 
     // 2. Layout
-    const layout = useChartLayoutSimple(props, min, max);
+    const layout = useChartLayoutSimple(
+        { ...props, ...(resolvedYTickFormat ? { yTickFormat: resolvedYTickFormat } : {}) },
+        min,
+        max,
+    );
     const { plotWidth: canvasWidth, plotHeight: canvasHeight } = layout;
 
     // 3. Render Chart Lines
-    const coloredLines = useMemo(() => {
-        if (series.length === 0 || maxLength === 0) return [];
+    const { lines: coloredLines, labels: overlayLabels } = useMemo(() => {
+        if (series.length === 0 || maxLength === 0) {
+            return { lines: [], labels: { side: [], bottom: [] } };
+        }
 
         if (orientation === 'horizontal') {
             return renderHorizontal({
@@ -351,7 +584,14 @@ export const BarChart: React.FC<BarChartProps> = (props) => {
                 min,
                 max,
                 maxLength,
+                xMin,
+                xMax,
                 colors,
+                gapMode,
+                layers,
+                cursorIndex,
+                overlays,
+                yScale,
             });
         }
         return renderVertical({
@@ -362,9 +602,33 @@ export const BarChart: React.FC<BarChartProps> = (props) => {
             min,
             max,
             maxLength,
+            xMin,
+            xMax,
             colors,
+            gapMode,
+            layers,
+            cursorIndex,
+            overlays,
+            yScale,
         });
-    }, [renderer, series, canvasWidth, canvasHeight, min, max, maxLength, colors, orientation]);
+    }, [
+        renderer,
+        series,
+        canvasWidth,
+        canvasHeight,
+        min,
+        max,
+        maxLength,
+        xMin,
+        xMax,
+        colors,
+        orientation,
+        gapMode,
+        layers,
+        cursorIndex,
+        overlays,
+        yScale,
+    ]);
 
     if (coloredLines.length === 0) return null;
 
@@ -373,16 +637,20 @@ export const BarChart: React.FC<BarChartProps> = (props) => {
         min,
         max,
         tickCount: yTickCount,
-        tickFormat: yTickFormat ?? defaultTickFormat,
+        scale: yScale,
+        // Log scales pick their own label format unless one is given
+        ...(resolvedYTickFormat ? { tickFormat: resolvedYTickFormat } : {}),
         ...(yIntegerScale !== undefined && { integerScale: yIntegerScale }),
         ...(yAxisLabel ? { label: yAxisLabel } : {}),
     };
 
     const xAxisConfig: AxisConfig = {
-        min: 0,
-        max: Math.max(0, maxLength - 1),
+        min: xMin,
+        max: xMax,
         tickCount: xTickCount,
-        tickFormat: xTickFormat ?? defaultTickFormat,
+        scale: resolvedXScale,
+        // Time scale picks its own label format unless one is given
+        ...(xTickFormat ? { tickFormat: xTickFormat } : {}),
         integerScale: xIntegerScale ?? true,
         ...(xAxisLabel ? { label: xAxisLabel } : {}),
     };
@@ -397,22 +665,32 @@ export const BarChart: React.FC<BarChartProps> = (props) => {
             showLegend={showLegend}
             legendPosition={legendPosition}
             legendItems={legendItems}
+            overlayLabels={overlayLabels}
+            overview={
+                showOverview ? (
+                    <ChartOverview
+                        data={core.series[0]?.data ?? []}
+                        viewport={view.viewport}
+                        width={canvasWidth}
+                        color={core.series[0]?.color ?? colors[0]}
+                    />
+                ) : undefined
+            }
+            tooltip={
+                interactive ? (
+                    <ChartTooltip
+                        series={view.series}
+                        colors={colors}
+                        index={cursorIndex}
+                        indexOffset={view.indexOffset}
+                        xScale={resolvedXScale}
+                        xTickFormat={xTickFormat}
+                        yTickFormat={yTickFormat}
+                    />
+                ) : undefined
+            }
         >
-            {coloredLines.map((segments, i) => (
-                <Text key={`chart-line-${i}`}>
-                    {segments.map((segment, j) => (
-                        <Text
-                            key={`seg-${i}-${j}`}
-                            {...(segment.color ? { color: segment.color } : {})}
-                            {...(segment.backgroundColor
-                                ? { backgroundColor: segment.backgroundColor }
-                                : {})}
-                        >
-                            {segment.text}
-                        </Text>
-                    ))}
-                </Text>
-            ))}
+            <CanvasLines lines={coloredLines} />
         </ChartContainer>
     );
 };
@@ -1,12 +1,13 @@
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React, { useMemo } from 'react';
 import { useTheme } from '../theme/ThemeContext';
 import { type FontStyle, renderBigString } from './BigNumber/font';
+import { Text } from './common/Text';
 
 /**
  * Trend arrow character set
  */
-const TREND_ARROWS = {
+export const TREND_ARROWS = {
     unicode: { up: '▲', down: '▼', neutral: '─' },
     ascii: { up: '^', down: 'v', neutral: '-' },
 } as const;
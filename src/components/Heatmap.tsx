@@ -1,7 +1,9 @@
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React, { useMemo } from 'react';
 import { useTheme } from '../theme/ThemeContext';
-import { createGradient } from '../utils/gradient';
+import { colorToChalk } from '../utils/gradient';
+import { useInkHud } from './InkHudProvider';
+import { Text } from './common/Text';
 
 /**
  * Character set configuration
@@ -11,6 +13,14 @@ const CHAR_SETS = {
     ascii: '#',
 } as const;
 
+/**
+ * Shades from low to high, used in place of the gradient when colors are off
+ */
+const MONO_SHADES = {
+    unicode: ['░', '▒', '▓', '█'],
+    ascii: ['.', ':', '*', '#'],
+} as const;
+
 export interface HeatmapProps {
     /**
      * Data matrix (2D array)
@@ -39,6 +49,7 @@ export interface HeatmapProps {
 
     /**
      * Custom character (overrides variant setting)
+     * Without colors (monochrome terminals) the variant's shades show intensity instead.
      */
     char?: string;
 }
@@ -65,7 +76,9 @@ const findMinMax = (data: number[][]) => {
 
 export const Heatmap: React.FC<HeatmapProps> = ({ data, colors, variant = 'unicode', char }) => {
     const theme = useTheme();
+    const { colorDepth, resolveColor } = useInkHud();
     const effectiveColors = colors ?? theme.heatmapGradient;
+    const mono = colorDepth === 'mono';
 
     // Select character based on variant
     const effectiveChar = char ?? CHAR_SETS[variant];
@@ -77,12 +90,13 @@ export const Heatmap: React.FC<HeatmapProps> = ({ data, colors, variant = 'unico
         return { min: minVal, max: maxVal > minVal ? maxVal : minVal + 1 };
     }, [data]);
 
-    // 2. Create gradient function
+    // 2. One color function per gradient step, resolved for the terminal's color depth
     // We map 0..1 to gradient steps.
-    const steps = effectiveColors.length;
+    const shades = MONO_SHADES[variant];
+    const steps = mono ? shades.length : effectiveColors.length;
     const gradient = useMemo(
-        () => createGradient(effectiveColors, steps),
-        [effectiveColors, steps],
+        () => effectiveColors.map((color) => colorToChalk(resolveColor(color))),
+        [effectiveColors, resolveColor],
     );
 
     // 3. Render
@@ -98,6 +112,12 @@ export const Heatmap: React.FC<HeatmapProps> = ({ data, colors, variant = 'unico
                         let stepIndex = Math.floor(normalized * steps);
                         if (stepIndex >= steps) stepIndex = steps - 1; // clamp max (when val == max)
 
+                        if (mono) {
+                            return (
+                                <Text key={`${rowIndex}-${colIndex}`}>{shades[stepIndex]} </Text>
+                            );
+                        }
+
                         const colorFn = gradient[stepIndex];
                         // If colorFn is missing (shouldn't happen), fallback to last color or text
                         const renderedChar = colorFn ? colorFn(effectiveChar) : effectiveChar;
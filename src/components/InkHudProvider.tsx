@@ -5,10 +5,12 @@
  */
 
 import React, { createContext, useContext, useMemo } from 'react';
-import type { Renderer, RendererType } from '../core/renderer';
+import type { Renderer, RendererName } from '../core/renderer';
+import type { RendererRegistry } from '../detect/registry';
 import { RendererSelector } from '../detect/selector';
 import { TerminalDetector } from '../detect/terminal';
 import type { TerminalCapabilities } from '../detect/types';
+import { type ColorDepth, resolveColor } from '../utils/colorDepth';
 
 /**
  * InkHud Context value
@@ -20,15 +22,22 @@ export interface InkHudContextValue {
     /** Get terminal capabilities */
     getCapabilities: () => TerminalCapabilities;
 
-    /** Get renderer of specified type */
-    getRenderer: (type: RendererType) => Renderer;
+    /** Get renderer by name */
+    getRenderer: (type: RendererName) => Renderer;
 
     /** Select best renderer */
-    selectBest: (chain?: RendererType[]) => Renderer;
+    selectBest: (chain?: RendererName[]) => Renderer;
+
+    /** Color depth colors are resolved for */
+    colorDepth: ColorDepth;
+
+    /** Map a color to the nearest one the color depth can show ('' when colors are off) */
+    resolveColor: (color: string) => string;
 }
 
 /**
  * Default Context (using global detector)
+ * Colors pass through unchanged; an InkHudProvider resolves them for the terminal.
  */
 const defaultSelector = new RendererSelector();
 const defaultContext: InkHudContextValue = {
@@ -36,6 +45,8 @@ const defaultContext: InkHudContextValue = {
     getCapabilities: () => defaultSelector.getTerminalCapabilities(),
     getRenderer: (type) => defaultSelector.getRenderer(type),
     selectBest: (chain) => defaultSelector.selectBest(chain),
+    colorDepth: 'truecolor',
+    resolveColor: (color) => color,
 };
 
 const InkHudContext = createContext<InkHudContextValue>(defaultContext);
@@ -50,11 +61,23 @@ export interface InkHudProviderProps {
      */
     detector?: TerminalDetector;
 
+    /**
+     * Renderers available to selection and `forceRenderer`
+     * Defaults to the global registry (built-in renderers plus any registered globally)
+     */
+    registry?: RendererRegistry;
+
     /**
      * Force use of specified renderer
      * Override automatic detection for testing or specific scenarios
      */
-    forceRenderer?: RendererType;
+    forceRenderer?: RendererName;
+
+    /**
+     * Color depth to resolve colors for
+     * Defaults to the detected depth (NO_COLOR / FORCE_COLOR, then TERM and COLORTERM)
+     */
+    colorDepth?: ColorDepth;
 
     children: React.ReactNode;
 }
@@ -63,6 +86,8 @@ export interface InkHudProviderProps {
  * InkHud Context Provider
  *
  * Encapsulate renderer selection logic, supports dependency injection
+ * Theme and series colors inside the Provider are mapped to the terminal's color depth:
+ * truecolor → 256 colors → 16 colors → monochrome (dim text and fill patterns instead of hue)
  *
  * @example
  * ```tsx
@@ -76,19 +101,33 @@ export interface InkHudProviderProps {
  *     <MyApp />
  * </InkHudProvider>
  *
+ * // Custom renderers
+ * <InkHudProvider registry={registry}>
+ *     <MyApp />
+ * </InkHudProvider>
+ *
  * // Force ASCII renderer
  * <InkHudProvider forceRenderer="ascii">
  *     <MyApp />
  * </InkHudProvider>
+ *
+ * // Force 16 colors
+ * <InkHudProvider colorDepth="ansi16">
+ *     <MyApp />
+ * </InkHudProvider>
  * ```
  */
 export const InkHudProvider: React.FC<InkHudProviderProps> = ({
     detector,
+    registry,
     forceRenderer,
+    colorDepth: colorDepthProp,
     children,
 }) => {
     const value = useMemo<InkHudContextValue>(() => {
-        const selector = detector ? new RendererSelector(detector) : defaultSelector;
+        const selector =
+            detector || registry ? new RendererSelector(detector, registry) : defaultSelector;
+        const colorDepth = colorDepthProp ?? selector.getTerminalCapabilities().colorDepth;
 
         return {
             selector,
@@ -100,8 +139,10 @@ export const InkHudProvider: React.FC<InkHudProviderProps> = ({
                 }
                 return selector.selectBest(chain);
             },
+            colorDepth,
+            resolveColor: (color) => resolveColor(color, colorDepth),
         };
-    }, [detector, forceRenderer]);
+    }, [detector, registry, forceRenderer, colorDepthProp]);
 
     return <InkHudContext.Provider value={value}>{children}</InkHudContext.Provider>;
 };
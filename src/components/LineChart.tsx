@@ -2,13 +2,34 @@
  * LineChart - Basic line chart component
  */
 
-import { Text } from 'ink';
 import React, { useMemo } from 'react';
-import { linearScale } from '../utils/scale';
+import { type GapMode, type SeriesValue, isPresent } from '../utils/gaps';
+import { type ScaleType, scaleByType } from '../utils/scale';
+import { CanvasLines } from './common/CanvasLines';
 import { type AxisConfig, ChartContainer } from './common/ChartContainer';
+import { ChartOverview } from './common/ChartOverview';
+import { ChartTooltip } from './common/ChartTooltip';
+import {
+    type ChartOverlays,
+    createLinearOverlayScales,
+    drawAnnotationPoints,
+    drawOverlayLines,
+    includeThresholds,
+    resolveOverlayLabels,
+} from './common/chartOverlays';
 import type { TimeSeriesChartProps } from './common/chartTypes';
-import { defaultTickFormat, getPixelDimensions, useChartLayoutSimple } from './common/chartUtils';
+import {
+    type ChartSeries,
+    GAP_MARKER_COLOR,
+    computeAxisExtents,
+    drawCursor,
+    getPixelDimensions,
+    resolvePointX,
+    resolveValueDomain,
+    useChartLayoutSimple,
+} from './common/chartUtils';
 import { useChartCore } from './common/useChartCore';
+import { useChartInteraction } from './common/useChartInteraction';
 import { DEFAULT_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
 
 /**
@@ -32,22 +53,61 @@ export const LineChart: React.FC<LineChartProps> = (props) => {
         rendererChain = DEFAULT_RENDERER_CHAIN,
         xIntegerScale = true,
         yIntegerScale = false,
+        yScale = 'linear',
+        y2TickCount,
+        y2TickFormat,
+        y2Scale = 'linear',
+        gapMode = 'break',
+        interactive = false,
+        showOverview = false,
+        thresholds,
+        bands,
+        annotations,
     } = props;
 
     const renderXAxis = showXAxis ?? showAxis;
     const renderYAxis = showYAxis ?? showAxis;
 
     // 1. Use common Hooks
-    const { series, min, max, maxLength, colors, legendItems } = useChartCore(props);
-    const renderer = useChartRenderer(props, rendererChain);
+    const core = useChartCore(props);
+    const { xScale, colors } = core;
+    const view = useChartInteraction(props, core.series);
+    const { series, xMin, xMax, cursorIndex } = view;
+
+    // Overlays are measured against the left axis
+    const axes = useMemo(() => computeAxisExtents(series), [series]);
+    const extent = includeThresholds(axes.left.min, axes.left.max, thresholds);
+    const { min, max } = resolveValueDomain(extent.min, extent.max, yScale, series);
+    const rightDomain = useMemo(() => {
+        if (!axes.right) return null;
+        const rightSeries = series.filter((s) => s.axis === 'right');
+        const domain = resolveValueDomain(axes.right.min, axes.right.max, y2Scale, rightSeries);
+        return { ...domain, scale: y2Scale };
+    }, [axes.right, series, y2Scale]);
+    const legendItems = useMemo(
+        () =>
+            rightDomain
+                ? core.legendItems.map((item, i) => ({
+                      ...item,
+                      axis: core.series[i]?.axis ?? 'left',
+                  }))
+                : core.legendItems,
+        [core.legendItems, core.series, rightDomain],
+    );
+    const overlays = useMemo(
+        () => ({ thresholds, bands, annotations }),
+        [thresholds, bands, annotations],
+    );
+    const renderer = useChartRenderer(props, rendererChain, core.seriesColors);
+    const resolvedXScale = props.xScale ?? xScale;
 
     // 2. Layout calculation (use simplified API)
-    const layout = useChartLayoutSimple(props, min, max);
+    const layout = useChartLayoutSimple(props, min, max, rightDomain);
 
     const { plotWidth: canvasWidth, plotHeight: canvasHeight } = layout;
 
     // 3. Draw line chart (component-specific logic)
-    const coloredLines = useMemo(
+    const { lines: coloredLines, labels: overlayLabels } = useMemo(
         () =>
             renderLineChartCanvas({
                 renderer,
@@ -56,9 +116,31 @@ export const LineChart: React.FC<LineChartProps> = (props) => {
                 canvasHeight,
                 min,
                 max,
+                xMin,
+                xMax,
                 colors,
+                gapMode,
+                cursorIndex,
+                overlays,
+                yScale,
+                rightDomain,
             }),
-        [renderer, series, canvasWidth, canvasHeight, min, max, colors],
+        [
+            renderer,
+            series,
+            canvasWidth,
+            canvasHeight,
+            min,
+            max,
+            xMin,
+            xMax,
+            colors,
+            gapMode,
+            cursorIndex,
+            overlays,
+            yScale,
+            rightDomain,
+        ],
     );
 
     if (coloredLines.length === 0) {
@@ -70,16 +152,30 @@ export const LineChart: React.FC<LineChartProps> = (props) => {
         min,
         max,
         tickCount: yTickCount,
-        tickFormat: yTickFormat ?? defaultTickFormat,
+        scale: yScale,
+        // Log scales pick their own label format unless one is given
+        ...(yTickFormat ? { tickFormat: yTickFormat } : {}),
         ...(yIntegerScale !== undefined && { integerScale: yIntegerScale }),
         ...(yAxisLabel ? { label: yAxisLabel } : {}),
     };
 
+    const rightYAxisConfig: AxisConfig | undefined = rightDomain
+        ? {
+              min: rightDomain.min,
+              max: rightDomain.max,
+              tickCount: y2TickCount ?? yTickCount,
+              scale: y2Scale,
+              ...(y2TickFormat ? { tickFormat: y2TickFormat } : {}),
+          }
+        : undefined;
+
     const xAxisConfig: AxisConfig = {
-        min: 0,
-        max: Math.max(0, maxLength - 1),
+        min: xMin,
+        max: xMax,
         tickCount: xTickCount,
-        tickFormat: xTickFormat ?? defaultTickFormat,
+        scale: resolvedXScale,
+        // Time scale picks its own label format unless one is given
+        ...(xTickFormat ? { tickFormat: xTickFormat } : {}),
         ...(xIntegerScale !== undefined && { integerScale: xIntegerScale }),
         ...(xAxisLabel ? { label: xAxisLabel } : {}),
     };
@@ -95,22 +191,34 @@ export const LineChart: React.FC<LineChartProps> = (props) => {
             showYAxis={renderYAxis}
             xAxisConfig={xAxisConfig}
             yAxisConfig={yAxisConfig}
+            {...(rightYAxisConfig ? { rightYAxisConfig } : {})}
+            overlayLabels={overlayLabels}
+            overview={
+                showOverview ? (
+                    <ChartOverview
+                        data={core.series[0]?.data ?? []}
+                        viewport={view.viewport}
+                        width={canvasWidth}
+                        color={core.series[0]?.color ?? colors[0]}
+                    />
+                ) : undefined
+            }
+            tooltip={
+                interactive ? (
+                    <ChartTooltip
+                        series={series}
+                        colors={colors}
+                        index={cursorIndex}
+                        indexOffset={view.indexOffset}
+                        xScale={resolvedXScale}
+                        xTickFormat={xTickFormat}
+                        yTickFormat={yTickFormat}
+                        y2TickFormat={y2TickFormat}
+                    />
+                ) : undefined
+            }
         >
-            {coloredLines.map((line, i) => (
-                <Text key={i}>
-                    {line.map((seg, j) => (
-                        <Text
-                            key={j}
-                            {...(seg.color ? { color: seg.color } : {})}
-                            {...(seg.backgroundColor
-                                ? { backgroundColor: seg.backgroundColor }
-                                : {})}
-                        >
-                            {seg.text}
-                        </Text>
-                    ))}
-                </Text>
-            ))}
+            <CanvasLines lines={coloredLines} />
         </ChartContainer>
     );
 };
@@ -119,12 +227,67 @@ export const LineChart: React.FC<LineChartProps> = (props) => {
 
 interface RenderLineChartParams {
     renderer: ReturnType<typeof useChartRenderer>;
-    series: Array<{ name: string; data: number[]; color?: string }>;
+    series: ChartSeries[];
     canvasWidth: number;
     canvasHeight: number;
     min: number;
     max: number;
+    xMin: number;
+    xMax: number;
     colors: string[];
+    gapMode: GapMode;
+    /** Inspection cursor index (null when inactive) */
+    cursorIndex: number | null;
+    overlays: ChartOverlays;
+    yScale: ScaleType;
+    /** Domain of the right Y-axis (null when every series uses the left axis) */
+    rightDomain: { min: number; max: number; scale: ScaleType } | null;
+}
+
+/**
+ * Draw line segments between present samples; gaps either break or are bridged
+ */
+function drawSeriesLine(params: {
+    renderer: ReturnType<typeof useChartRenderer>;
+    canvas: ReturnType<ReturnType<typeof useChartRenderer>['createCanvas']>;
+    data: SeriesValue[];
+    scaleX: (index: number) => number;
+    scaleY: (value: number) => number;
+    color: string;
+    gapMode: GapMode;
+    pixelHeight: number;
+}): void {
+    const { renderer, canvas, data, scaleX, scaleY, color, gapMode, pixelHeight } = params;
+
+    let prevIndex = -1;
+    for (let i = 0; i < data.length; i++) {
+        const val = data[i];
+
+        if (!isPresent(val)) {
+            if (gapMode === 'marker') {
+                renderer.setPixel(canvas, scaleX(i), pixelHeight - 1, {
+                    active: true,
+                    color: GAP_MARKER_COLOR,
+                });
+            }
+            continue;
+        }
+
+        const x = scaleX(i);
+        const y = scaleY(val);
+        const prevVal = data[prevIndex];
+
+        if (isPresent(prevVal) && (prevIndex === i - 1 || gapMode === 'connect')) {
+            renderer.drawLine(canvas, scaleX(prevIndex), scaleY(prevVal), x, y, {
+                active: true,
+                color,
+            });
+        } else if (!isPresent(data[i + 1])) {
+            // Isolated sample between gaps
+            renderer.setPixel(canvas, x, y, { active: true, color });
+        }
+        prevIndex = i;
+    }
 }
 
 function renderLineChartCanvas({
@@ -134,15 +297,32 @@ function renderLineChartCanvas({
     canvasHeight,
     min,
     max,
+    xMin,
+    xMax,
     colors,
+    gapMode,
+    cursorIndex,
+    overlays,
+    yScale,
+    rightDomain,
 }: RenderLineChartParams) {
     const { pixelWidth, pixelHeight } = getPixelDimensions(renderer, canvasWidth, canvasHeight);
 
     if (pixelWidth <= 0 || pixelHeight <= 0 || series.length === 0) {
-        return [];
+        return { lines: [], labels: { side: [], bottom: [] } };
     }
 
     const canvas = renderer.createCanvas(pixelWidth, pixelHeight);
+    const overlayScales = createLinearOverlayScales({
+        min,
+        max,
+        xMin,
+        xMax,
+        pixelWidth,
+        pixelHeight,
+        yScale,
+    });
+    drawOverlayLines(renderer, canvas, overlays, overlayScales);
 
     for (let si = 0; si < series.length; si++) {
         const s = series[si];
@@ -153,41 +333,62 @@ function renderLineChartCanvas({
 
         if (data.length === 0) continue;
 
-        // Calculate pixel position for each data point
-        const xScale = data.length > 1 ? (pixelWidth - 1) / (data.length - 1) : 0;
+        // Calculate pixel position for each data point (real X values when provided)
+        const scaleX = (index: number): number =>
+            resolvePointX({ series: s, index, xMin, xMax, pixelWidth, length: data.length });
 
+        const domain =
+            s.axis === 'right' && rightDomain ? rightDomain : { min, max, scale: yScale };
         const scaleY = (value: number): number => {
-            if (max === min) {
+            if (domain.max === domain.min) {
                 return Math.round((pixelHeight - 1) / 2);
             }
-            return Math.round(linearScale(value, [min, max], [pixelHeight - 1, 0]));
+            return Math.round(
+                scaleByType(value, [domain.min, domain.max], [pixelHeight - 1, 0], domain.scale),
+            );
         };
 
-        // Draw line segments
-        for (let i = 0; i < data.length - 1; i++) {
-            const currVal = data[i];
-            const nextVal = data[i + 1];
-
-            if (currVal === undefined || nextVal === undefined) continue;
-
-            const x0 = Math.round(i * xScale);
-            const y0 = scaleY(currVal);
-            const x1 = Math.round((i + 1) * xScale);
-            const y1 = scaleY(nextVal);
-
-            renderer.drawLine(canvas, x0, y0, x1, y1, { active: true, color });
-        }
-
         // If only one point, draw separately
         if (data.length === 1) {
             const val = data[0];
-            if (val !== undefined) {
-                const x = Math.round(pixelWidth / 2);
+            if (isPresent(val)) {
+                const x = s.x ? scaleX(0) : Math.round(pixelWidth / 2);
                 const y = scaleY(val);
                 renderer.setPixel(canvas, x, y, { active: true, color });
             }
+            continue;
         }
+
+        drawSeriesLine({ renderer, canvas, data, scaleX, scaleY, color, gapMode, pixelHeight });
+    }
+
+    drawAnnotationPoints(renderer, canvas, overlays, overlayScales);
+
+    // Cursor follows the longest series, whose spacing matches the data index
+    const longest = series.reduce<ChartSeries | undefined>(
+        (acc, s) => (!acc || s.data.length > acc.data.length ? s : acc),
+        undefined,
+    );
+    if (cursorIndex !== null && longest) {
+        const x = resolvePointX({
+            series: longest,
+            index: cursorIndex,
+            xMin,
+            xMax,
+            pixelWidth,
+            length: longest.data.length,
+        });
+        drawCursor(renderer, canvas, x);
     }
 
-    return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
+    return {
+        lines: renderer.renderCanvas(canvas, pixelWidth, pixelHeight),
+        labels: resolveOverlayLabels({
+            overlays,
+            scales: overlayScales,
+            resolution: renderer.getResolution(),
+            pixelWidth,
+            pixelHeight,
+        }),
+    };
 }
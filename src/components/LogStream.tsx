@@ -5,10 +5,25 @@
  * If borders are needed, please use the <Panel><LogStream /></Panel> pattern.
  */
 
-import { Box, Text } from 'ink';
-import React, { useContext, useMemo } from 'react';
+import { Box, useFocus, useInput } from 'ink';
+import React, { useContext, useMemo, useState } from 'react';
 import { type SemanticColors, useTheme } from '../theme/ThemeContext';
 import { GridItemContext } from './Grid';
+import { Text } from './common/Text';
+import {
+    type LogHighlightRule,
+    matchesLogFilters,
+    nextMinLevel,
+    splitHighlights,
+} from './common/logFilters';
+import {
+    type LogLevel,
+    type LogParser,
+    type LogParserName,
+    type ParsedLog,
+    parseLogLine,
+} from './common/logParsers';
+import { useLineSequence, useLogScroll } from './common/useLogScroll';
 
 export interface LogStreamProps {
     /**
@@ -17,7 +32,14 @@ export interface LogStreamProps {
     logs: string[];
 
     /**
-     * Maximum retained lines (counted from end)
+     * Sequence number of `logs[0]`, i.e. how many lines the source has dropped from the front
+     * (`firstSequence` from `useStream` or `useRingBuffer`). Without it the dropped lines are
+     * inferred by comparing `logs` with the previous array, which is ambiguous when lines repeat.
+     */
+    firstSequence?: number;
+
+    /**
+     * Maximum retained lines (counted from end); the scrollback of interactive streams
      * @default 100
      */
     maxLines?: number;
@@ -33,60 +55,78 @@ export interface LogStreamProps {
      * If not provided, will adapt to parent container
      */
     width?: number;
-}
 
-// Log level definitions
-type LogLevel = 'info' | 'warn' | 'error' | 'success' | 'debug' | 'unknown';
+    /**
+     * Log line format: a built-in parser name or a custom parser
+     * Lines a parser does not recognize are parsed as plain text.
+     * @default 'plain'
+     */
+    parser?: LogParserName | LogParser;
 
-interface ParsedLog {
-    timestamp?: string;
-    level: LogLevel;
-    message: string;
-    raw: string;
-}
+    /**
+     * Structured field that holds the level (JSON, logfmt and custom parsers)
+     * @default 'level'
+     */
+    levelField?: string;
 
-/**
- * Parse log line
- */
-function parseLogLine(line: string): ParsedLog {
-    // Try to extract timestamp (e.g., "2023-01-01 12:00:00", "12:00:00", "[12:00:00]")
-    const timeRegex = /\[?(\d{2,4}-\d{2}-\d{2}\s)?(\d{2}:\d{2}:\d{2})\]?/;
-    const timeMatch = line.match(timeRegex);
-    let timestamp = timeMatch ? timeMatch[0] : undefined;
-    let content = line;
-
-    if (timestamp) {
-        content = content.replace(timestamp, '').trim();
-        // Remove brackets if present in extracted timestamp for cleaner display
-        timestamp = timestamp.replace(/^\[|\]$/g, '');
-    }
+    /**
+     * Show structured fields as key=value pairs after the message
+     * (true: all fields, array: only these fields, in this order)
+     * @default true
+     */
+    showFields?: boolean | string[];
 
-    // Try to extract log level
-    const levelRegex = /(info|warn|warning|error|err|success|debug)/i;
-    const levelMatch = content.match(levelRegex);
-    let level: LogLevel = 'unknown';
-
-    if (levelMatch) {
-        const lvl = levelMatch[0].toLowerCase();
-        if (lvl.includes('error') || lvl.includes('err')) level = 'error';
-        else if (lvl.includes('warn')) level = 'warn';
-        else if (lvl.includes('info')) level = 'info';
-        else if (lvl.includes('success')) level = 'success';
-        else if (lvl.includes('debug')) level = 'debug';
-
-        // Optional: Remove level tag from message if it's in brackets or standard format
-        // e.g. "[INFO] msg" -> "msg"
-        content = content.replace(new RegExp(`\\[?${levelMatch[0]}\\]?`, 'i'), '').trim();
-        // Remove leading/trailing non-word chars (like ":", "-")
-        content = content.replace(/^[:\-\s]+/, '');
-    }
+    /**
+     * Hide lines below this level (controlled; update it from `onMinLevelChange`)
+     * Lines without a level count as info.
+     */
+    minLevel?: LogLevel;
 
-    return {
-        ...(timestamp ? { timestamp } : {}),
-        level,
-        message: content || line,
-        raw: line,
-    };
+    /**
+     * Initial level threshold when `minLevel` is not controlled
+     */
+    defaultMinLevel?: LogLevel;
+
+    /**
+     * Callback when the level threshold is cycled with `l`
+     */
+    onMinLevelChange?: (level: LogLevel | undefined) => void;
+
+    /**
+     * Keep only lines matching one of these patterns (tested against the raw line)
+     */
+    include?: RegExp | RegExp[];
+
+    /**
+     * Hide lines matching one of these patterns (tested against the raw line)
+     */
+    exclude?: RegExp | RegExp[];
+
+    /**
+     * Color substrings of messages and field values that match a pattern
+     * (e.g. request IDs or IP addresses)
+     */
+    highlights?: LogHighlightRule[];
+
+    /**
+     * Wrap long lines instead of truncating them
+     * @default false
+     */
+    wrap?: boolean;
+
+    /**
+     * Take a focus slot: `l` cycles the level threshold (all → info → warn → error),
+     * ↑/↓ and PageUp/PageDown scroll back through the retained lines (pausing the view),
+     * `p` toggles pause and End or `f` resume following the tail
+     * @default false
+     */
+    interactive?: boolean;
+
+    /**
+     * Focus on mount (interactive streams)
+     * @default false
+     */
+    autoFocus?: boolean;
 }
 
 /**
@@ -96,10 +136,66 @@ interface LogLineProps {
     parsed: ParsedLog;
     semantic: SemanticColors;
     index: number;
+    showFields: boolean | string[];
+    highlights: LogHighlightRule[];
+    wrap: boolean;
+}
+
+/**
+ * Fields shown after the message
+ */
+function selectFields(parsed: ParsedLog, showFields: boolean | string[]): Array<[string, string]> {
+    if (Array.isArray(showFields)) {
+        return showFields.flatMap((name) => parsed.fields.filter(([key]) => key === name));
+    }
+    return showFields ? parsed.fields : [];
 }
 
-const LogLine: React.FC<Omit<LogLineProps, 'index'>> = ({ parsed, semantic }) => {
+// Timestamp (10) and level badge (9) columns, each with a one-character margin
+const TIMESTAMP_WIDTH = 11;
+const BADGE_WIDTH = 10;
+
+/**
+ * Terminal rows a line takes when wrapped to `width`
+ */
+function wrappedRows(parsed: ParsedLog, showFields: boolean | string[], width: number): number {
+    const messageWidth = width - BADGE_WIDTH - (parsed.timestamp ? TIMESTAMP_WIDTH : 0);
+    const length = selectFields(parsed, showFields).reduce(
+        (total, [key, value]) => total + key.length + value.length + 2,
+        parsed.message.length,
+    );
+    return messageWidth > 0 ? Math.max(1, Math.ceil(length / messageWidth)) : 1;
+}
+
+/**
+ * Text with highlight rule matches colored
+ */
+function renderHighlights(
+    text: string,
+    highlights: LogHighlightRule[],
+    semantic: SemanticColors,
+): React.ReactNode {
+    if (highlights.length === 0) return text;
+    return splitHighlights(text, highlights).map(({ text: segment, rule }, i) =>
+        rule ? (
+            <Text key={i} color={semantic[rule.color]} bold={!!rule.bold}>
+                {segment}
+            </Text>
+        ) : (
+            segment
+        ),
+    );
+}
+
+const LogLine: React.FC<Omit<LogLineProps, 'index'>> = ({
+    parsed,
+    semantic,
+    showFields,
+    highlights,
+    wrap,
+}) => {
     const { timestamp, level, message } = parsed;
+    const fields = selectFields(parsed, showFields);
 
     // Style configuration: based on semantic colors
     const getStyle = (lvl: LogLevel) => {
@@ -156,17 +252,22 @@ const LogLine: React.FC<Omit<LogLineProps, 'index'>> = ({ parsed, semantic }) =>
                 )}
             </Box>
 
-            {/* 3. Message */}
+            {/* 3. Message and key=value fields */}
             <Box flexGrow={1}>
-                {level === 'error' ? (
-                    <Text color={style.color} wrap="truncate-end">
-                        {message}
-                    </Text>
-                ) : (
-                    <Text color={semantic.text} wrap="truncate-end">
-                        {message}
-                    </Text>
-                )}
+                <Text
+                    color={level === 'error' ? style.color : semantic.text}
+                    wrap={wrap ? 'wrap' : 'truncate-end'}
+                >
+                    {renderHighlights(message, highlights, semantic)}
+                    {fields.map(([key, value], i) => (
+                        <React.Fragment key={key}>
+                            {message || i > 0 ? ' ' : ''}
+                            <Text color={semantic.info}>{key}</Text>
+                            <Text dimColor>=</Text>
+                            {renderHighlights(value, highlights, semantic)}
+                        </React.Fragment>
+                    ))}
+                </Text>
             </Box>
         </Box>
     );
@@ -177,39 +278,126 @@ const LogLine: React.FC<Omit<LogLineProps, 'index'>> = ({ parsed, semantic }) =>
  *
  * Features:
  * - Automatically display latest logs (render tail)
- * - Intelligently parse timestamps and log levels
+ * - Parse timestamps and log levels from plain text, JSON, logfmt, syslog or nginx lines
+ * - Show structured fields as colored key=value pairs
+ * - Filter by level threshold and include/exclude patterns, highlight matching text
+ * - Scroll back through retained lines, pause and resume following
  * - Use icons and colors to distinguish levels
  * - Support maximum line limit
  */
-export const LogStream: React.FC<LogStreamProps> = ({ logs, maxLines = 100, height, width }) => {
+export const LogStream: React.FC<LogStreamProps> = ({
+    logs,
+    firstSequence: sourceSequence,
+    maxLines = 100,
+    height,
+    width,
+    parser = 'plain',
+    levelField = 'level',
+    showFields = true,
+    minLevel,
+    defaultMinLevel,
+    onMinLevelChange,
+    include,
+    exclude,
+    highlights = [],
+    wrap = false,
+    interactive = false,
+    autoFocus = false,
+}) => {
     const theme = useTheme();
 
+    // Level threshold: controlled by props, or cycled internally with `l`
+    const [internalLevel, setInternalLevel] = useState(defaultMinLevel);
+    const isControlled = minLevel !== undefined;
+    const activeLevel = isControlled ? minLevel : internalLevel;
+
+    const { isFocused } = useFocus({ autoFocus, isActive: interactive });
+    useInput(
+        (input) => {
+            if (input !== 'l') return;
+            const next = nextMinLevel(activeLevel);
+            if (!isControlled) setInternalLevel(next);
+            onMinLevelChange?.(next);
+        },
+        { isActive: interactive && isFocused },
+    );
+
     // Get dimensions from Grid context
     const gridContext = useContext(GridItemContext);
     const effectiveHeight =
         height ?? (typeof gridContext?.height === 'number' ? gridContext.height : undefined);
     const effectiveWidth = width ?? gridContext?.width;
 
-    // 1. Trim logs to maxLines
+    // 1. Trim logs to maxLines, numbering lines so keys survive the buffer rolling over
+    const firstSequence = useLineSequence(logs, sourceSequence);
     const recentLogs = useMemo(() => {
         const start = Math.max(0, logs.length - maxLines);
-        return logs.slice(start);
-    }, [logs, maxLines]);
+        return logs.slice(start).map((line, i) => ({ line, sequence: firstSequence + start + i }));
+    }, [logs, maxLines, firstSequence]);
+
+    // 2. Parse and filter
+    const parsedLogs = useMemo(
+        () =>
+            recentLogs.map(({ line, sequence }) => ({
+                parsed: parseLogLine(line, parser, levelField),
+                sequence,
+            })),
+        [recentLogs, parser, levelField],
+    );
+    const filteredLogs = useMemo(
+        () =>
+            parsedLogs.filter(({ parsed }) =>
+                matchesLogFilters(parsed, { minLevel: activeLevel, include, exclude }),
+            ),
+        [parsedLogs, activeLevel, include, exclude],
+    );
 
-    // 2. If height limit exists, further trim to visible lines
+    // 3. Scrollback: follow the tail, or stay on the lines the view was paused on
+    const hasFilters = activeLevel !== undefined || include !== undefined || exclude !== undefined;
+    const sequences = useMemo(() => filteredLogs.map(({ sequence }) => sequence), [filteredLogs]);
+    const scroll = useLogScroll({
+        enabled: interactive,
+        isFocused,
+        sequences,
+        nextSequence: firstSequence + logs.length,
+        pageSize: effectiveHeight !== undefined ? effectiveHeight - 1 : filteredLogs.length,
+    });
+
+    // 4. If height limit exists, show the lines that fit above the bottom line
+    // (the status line takes one; wrapped lines take as many rows as they need)
+    const showStatus = hasFilters || scroll.paused;
     const displayLogs = useMemo(() => {
-        if (effectiveHeight && effectiveHeight > 0) {
-            const start = Math.max(0, recentLogs.length - effectiveHeight);
-            return recentLogs.slice(start);
+        const shown = filteredLogs.slice(0, scroll.end);
+        if (!effectiveHeight || effectiveHeight <= 0) return shown;
+
+        const rows = Math.max(1, effectiveHeight - (showStatus ? 1 : 0));
+        let start = shown.length;
+        let used = 0;
+        while (start > 0 && used < rows) {
+            const entry = shown[start - 1];
+            used +=
+                wrap && entry && effectiveWidth !== undefined
+                    ? wrappedRows(entry.parsed, showFields, effectiveWidth)
+                    : 1;
+            start--;
         }
-        return recentLogs;
-    }, [recentLogs, effectiveHeight]);
+        return shown.slice(start);
+    }, [filteredLogs, scroll.end, effectiveHeight, effectiveWidth, showStatus, wrap, showFields]);
 
-    // 3. Parse and render
-    const items = displayLogs.map((line, index) => {
-        const parsed = parseLogLine(line);
-        return <LogLine key={index} parsed={parsed} semantic={theme.semantic} />;
-    });
+    // 5. Render
+    const pauseLabel = `⏸ PAUSED${scroll.newLines > 0 ? `  ↓ ${scroll.newLines} new lines` : ''}  `;
+    const levelLabel = activeLevel ? `≥ ${activeLevel.toUpperCase()}` : 'all levels';
+    const filterLabel = `${hasFilters ? levelLabel : ''}${interactive ? '  (l: level)' : ''}`;
+    const items = displayLogs.map(({ parsed, sequence }) => (
+        <LogLine
+            key={sequence}
+            parsed={parsed}
+            semantic={theme.semantic}
+            showFields={showFields}
+            highlights={highlights}
+            wrap={wrap}
+        />
+    ));
 
     return (
         <Box
@@ -218,8 +406,30 @@ export const LogStream: React.FC<LogStreamProps> = ({ logs, maxLines = 100, heig
             flexGrow={1}
             {...(effectiveHeight !== undefined && { height: effectiveHeight })}
             {...(effectiveWidth !== undefined && { width: effectiveWidth })}
+            // The top wrapped line may not fit completely
+            {...(wrap && { overflow: 'hidden' as const })}
         >
             {items}
+
+            {/* Status line: pause state, level threshold and shown/retained line count */}
+            {/* (plain string children: Ink does not re-measure nested Text when it changes) */}
+            {showStatus && (
+                <Box flexDirection="row" justifyContent="space-between">
+                    <Box flexDirection="row">
+                        {scroll.paused && (
+                            <Text color={theme.semantic.warning} bold>
+                                {pauseLabel}
+                            </Text>
+                        )}
+                        <Text color={theme.semantic.info} wrap="truncate-end">
+                            {filterLabel}
+                        </Text>
+                    </Box>
+                    {hasFilters && (
+                        <Text dimColor>{`${filteredLogs.length}/${recentLogs.length} lines`}</Text>
+                    )}
+                </Box>
+            )}
         </Box>
     );
 };
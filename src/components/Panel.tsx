@@ -1,6 +1,8 @@
-import { Box, type BoxProps, Text } from 'ink';
+import { Box, type BoxProps } from 'ink';
 import React from 'react';
 import { GridItemContext } from './Grid';
+import { useInkHud } from './InkHudProvider';
+import { Text } from './common/Text';
 
 export interface PanelProps {
     /**
@@ -65,6 +67,7 @@ export const Panel: React.FC<PanelProps> = ({
 }) => {
     // 1. Resolve dimensions from props or context
     const gridContext = React.useContext(GridItemContext);
+    const { resolveColor } = useInkHud();
 
     // Effective dimensions (Outer dimensions of the Panel)
     const effectiveWidth = width ?? gridContext?.width;
@@ -94,7 +97,7 @@ export const Panel: React.FC<PanelProps> = ({
         flexDirection: 'column',
         ...(effectiveWidth !== undefined && { width: effectiveWidth }),
         ...(effectiveHeight !== undefined && { height: effectiveHeight }),
-        ...(borderColor !== undefined && { borderColor }),
+        ...(borderColor !== undefined && { borderColor: resolveColor(borderColor) }),
     };
 
     // 4. Update Context for children
@@ -4,13 +4,20 @@
  * Basic pie chart display with built-in legend
  */
 
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React, { useMemo } from 'react';
-import type { RendererType } from '../core/renderer';
+import type { RendererName } from '../core/renderer';
 import { type ColorPalette, assignColors } from '../utils/gradient';
 import { useInkHud } from './InkHudProvider';
+import { CanvasLines } from './common/CanvasLines';
 import { Legend } from './common/Legend';
-import { getPixelDimensions, useChartLayoutSimple } from './common/chartUtils';
+import {
+    applyMonoPatterns,
+    getPixelDimensions,
+    monoPattern,
+    useChartLayoutSimple,
+} from './common/chartUtils';
+import { FILL_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
 
 /**
  * PieChart data item
@@ -72,10 +79,10 @@ export interface PieChartProps {
     colorPalette?: ColorPalette;
 
     /** Manually specify renderer type (optional) */
-    renderer?: RendererType;
+    renderer?: RendererName;
 
-    /** Custom renderer fallback chain (default: ['braille', 'block', 'ascii']) */
-    rendererChain?: RendererType[];
+    /** Custom renderer fallback chain (default: ['kitty', 'sixel', 'sextant', 'quadrant', 'braille', 'block', 'ascii']) */
+    rendererChain?: RendererName[];
 
     /**
      * Height offset
@@ -186,7 +193,7 @@ export const PieChart: React.FC<PieChartProps> = ({
     colors,
     colorPalette,
     renderer: preferredRenderer,
-    rendererChain = ['braille', 'block', 'ascii'],
+    rendererChain = FILL_RENDERER_CHAIN,
     heightOffset = 0,
     widthOffset = 0,
 }) => {
@@ -210,14 +217,13 @@ export const PieChart: React.FC<PieChartProps> = ({
 
     const { totalWidth, plotWidth: canvasWidth, plotHeight: canvasHeight } = layout;
 
-    const { getRenderer, selectBest } = useInkHud();
+    const { colorDepth } = useInkHud();
+    const mono = colorDepth === 'mono' && data.length > 1;
 
-    const renderer = useMemo(() => {
-        if (preferredRenderer) {
-            return getRenderer(preferredRenderer);
-        }
-        return selectBest(rendererChain);
-    }, [preferredRenderer, rendererChain, getRenderer, selectBest]);
+    const renderer = useChartRenderer(
+        { ...(preferredRenderer ? { renderer: preferredRenderer } : {}), rendererChain },
+        FILL_RENDERER_CHAIN,
+    );
 
     // Calculate aspect ratio dynamically if not provided
     const ratio = useMemo(() => {
@@ -287,8 +293,16 @@ export const PieChart: React.FC<PieChartProps> = ({
             }
         }
 
+        if (mono) {
+            applyMonoPatterns(
+                canvas,
+                data.map((item, i) => item.color ?? itemColors[i] ?? ''),
+            );
+        }
+
         return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
     }, [
+        mono,
         data,
         total,
         renderer,
@@ -304,9 +318,9 @@ export const PieChart: React.FC<PieChartProps> = ({
         return data.map((item, i) => ({
             name: showLabels ? `${item.name} (${percentages[i]?.toFixed(1)}%)` : item.name,
             color: item.color ?? itemColors[i] ?? 'cyan',
-            symbol: '●',
+            symbol: mono ? monoPattern(i).symbol : '●',
         }));
-    }, [data, itemColors, showLabels, percentages]);
+    }, [data, itemColors, showLabels, percentages, mono]);
 
     if (coloredLines.length === 0) {
         return null;
@@ -316,21 +330,7 @@ export const PieChart: React.FC<PieChartProps> = ({
         <Box flexDirection="column" width={totalWidth} height={layout.totalHeight}>
             <Box flexDirection="row" justifyContent="center">
                 <Box flexDirection="column" width={canvasWidth}>
-                    {coloredLines.map((segments, i) => (
-                        <Text key={`chart-line-${i}`}>
-                            {segments.map((segment, j) => (
-                                <Text
-                                    key={`seg-${i}-${j}`}
-                                    {...(segment.color ? { color: segment.color } : {})}
-                                    {...(segment.backgroundColor
-                                        ? { backgroundColor: segment.backgroundColor }
-                                        : {})}
-                                >
-                                    {segment.text}
-                                </Text>
-                            ))}
-                        </Text>
-                    ))}
+                    <CanvasLines lines={coloredLines} />
                 </Box>
 
                 {showLegend && legendPosition === 'right' && (
@@ -1,6 +1,7 @@
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React from 'react';
 import { useTheme } from '../theme/ThemeContext';
+import { Text } from './common/Text';
 
 /**
  * Status for a single ping
@@ -0,0 +1,263 @@
+/**
+ * ScatterChart - Scatter plot component
+ */
+
+import React, { useMemo } from 'react';
+import { linearScale } from '../utils/scale';
+import { useInkHud } from './InkHudProvider';
+import { CanvasLines } from './common/CanvasLines';
+import { type AxisConfig, ChartContainer } from './common/ChartContainer';
+import type { AxisProps, BaseChartProps, ColorProps, LegendProps } from './common/chartTypes';
+import {
+    computePointExtent,
+    defaultTickFormat,
+    getPixelDimensions,
+    monoPattern,
+    resolveSeriesColors,
+    useChartLayoutSimple,
+} from './common/chartUtils';
+import { DEFAULT_RENDERER_CHAIN, useChartRenderer } from './common/useChartRenderer';
+
+/**
+ * Scatter plot point
+ */
+export interface ScatterPoint {
+    /** X value */
+    x: number;
+    /** Y value */
+    y: number;
+    /** Point radius in pixels (overrides pointSize) */
+    size?: number;
+    /** Point color (overrides series color) */
+    color?: string;
+}
+
+/**
+ * Scatter plot series
+ */
+export interface ScatterSeries {
+    name: string;
+    points: ScatterPoint[];
+    color?: string;
+}
+
+/**
+ * ScatterChart component props
+ */
+export type ScatterChartProps = BaseChartProps &
+    LegendProps &
+    ColorProps &
+    AxisProps & {
+        /** Multi-series points */
+        series?: ScatterSeries[];
+
+        /** Single-series points (simplified) */
+        data?: ScatterPoint[];
+
+        /** Single-series name (simplified) */
+        seriesName?: string;
+
+        /** Default point radius in pixels (default 0, a single dot) */
+        pointSize?: number;
+    };
+
+export const ScatterChart: React.FC<ScatterChartProps> = (props) => {
+    const {
+        series: seriesProp,
+        data,
+        seriesName,
+        colors: colorsProp,
+        colorPalette,
+        pointSize = 0,
+        showLegend = true,
+        showAxis = true,
+        showXAxis,
+        showYAxis,
+        legendPosition = 'right',
+        xAxisLabel,
+        yAxisLabel,
+        xTickCount = 5,
+        yTickCount = 5,
+        xTickFormat,
+        yTickFormat,
+        rendererChain = DEFAULT_RENDERER_CHAIN,
+        xIntegerScale = false,
+        yIntegerScale = false,
+    } = props;
+
+    const renderXAxis = showXAxis ?? showAxis;
+    const renderYAxis = showYAxis ?? showAxis;
+
+    // 1. Resolve series, extent and colors
+    const series = useMemo<ScatterSeries[]>(() => {
+        if (seriesProp && seriesProp.length > 0) {
+            return seriesProp;
+        }
+        if (data && data.length > 0) {
+            return [{ name: seriesName ?? 'Series', points: data }];
+        }
+        return [];
+    }, [seriesProp, data, seriesName]);
+
+    const { xMin, xMax, yMin, yMax } = useMemo(
+        () => computePointExtent(series.map((s) => s.points)),
+        [series],
+    );
+
+    const colors = useMemo(
+        () => resolveSeriesColors(series, colorsProp, colorPalette),
+        [series, colorsProp, colorPalette],
+    );
+
+    const seriesColors = useMemo(
+        () => series.map((item, i) => item.color ?? colors[i] ?? 'cyan'),
+        [series, colors],
+    );
+
+    const mono = useInkHud().colorDepth === 'mono' && series.length > 1;
+    const legendItems = useMemo(
+        () =>
+            series.map((item, i) => ({
+                name: item.name,
+                color: seriesColors[i] ?? 'cyan',
+                symbol: mono ? monoPattern(i).symbol : '●',
+            })),
+        [series, seriesColors, mono],
+    );
+
+    const renderer = useChartRenderer(props, rendererChain, seriesColors);
+
+    // 2. Layout calculation
+    const layout = useChartLayoutSimple(props, yMin, yMax);
+    const { plotWidth: canvasWidth, plotHeight: canvasHeight } = layout;
+
+    // 3. Plot points
+    const coloredLines = useMemo(
+        () =>
+            renderScatterChartCanvas({
+                renderer,
+                series,
+                canvasWidth,
+                canvasHeight,
+                xMin,
+                xMax,
+                yMin,
+                yMax,
+                colors,
+                pointSize,
+            }),
+        [renderer, series, canvasWidth, canvasHeight, xMin, xMax, yMin, yMax, colors, pointSize],
+    );
+
+    if (coloredLines.length === 0) {
+        return null;
+    }
+
+    // 4. Build AxisConfig (numeric X axis)
+    const yAxisConfig: AxisConfig = {
+        min: yMin,
+        max: yMax,
+        tickCount: yTickCount,
+        tickFormat: yTickFormat ?? defaultTickFormat,
+        integerScale: yIntegerScale,
+        ...(yAxisLabel ? { label: yAxisLabel } : {}),
+    };
+
+    const xAxisConfig: AxisConfig = {
+        min: xMin,
+        max: xMax,
+        tickCount: xTickCount,
+        tickFormat: xTickFormat ?? defaultTickFormat,
+        integerScale: xIntegerScale,
+        ...(xAxisLabel ? { label: xAxisLabel } : {}),
+    };
+
+    return (
+        <ChartContainer
+            layout={layout}
+            showLegend={showLegend}
+            legendPosition={legendPosition}
+            legendItems={legendItems}
+            showXAxis={renderXAxis}
+            showYAxis={renderYAxis}
+            xAxisConfig={xAxisConfig}
+            yAxisConfig={yAxisConfig}
+        >
+            <CanvasLines lines={coloredLines} />
+        </ChartContainer>
+    );
+};
+
+// ===== Internal rendering logic =====
+
+interface RenderScatterChartParams {
+    renderer: ReturnType<typeof useChartRenderer>;
+    series: ScatterSeries[];
+    canvasWidth: number;
+    canvasHeight: number;
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+    colors: string[];
+    pointSize: number;
+}
+
+function renderScatterChartCanvas({
+    renderer,
+    series,
+    canvasWidth,
+    canvasHeight,
+    xMin,
+    xMax,
+    yMin,
+    yMax,
+    colors,
+    pointSize,
+}: RenderScatterChartParams) {
+    const { pixelWidth, pixelHeight } = getPixelDimensions(renderer, canvasWidth, canvasHeight);
+
+    if (pixelWidth <= 0 || pixelHeight <= 0 || series.length === 0) {
+        return [];
+    }
+
+    const canvas = renderer.createCanvas(pixelWidth, pixelHeight);
+
+    const scaleX = (value: number): number => {
+        if (xMax === xMin) {
+            return Math.round((pixelWidth - 1) / 2);
+        }
+        return Math.round(linearScale(value, [xMin, xMax], [0, pixelWidth - 1]));
+    };
+
+    const scaleY = (value: number): number => {
+        if (yMax === yMin) {
+            return Math.round((pixelHeight - 1) / 2);
+        }
+        return Math.round(linearScale(value, [yMin, yMax], [pixelHeight - 1, 0]));
+    };
+
+    for (let si = 0; si < series.length; si++) {
+        const s = series[si];
+        if (!s) continue;
+
+        const seriesColor = s.color ?? colors[si] ?? 'cyan';
+
+        for (const point of s.points) {
+            if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) continue;
+
+            const x = scaleX(point.x);
+            const y = scaleY(point.y);
+            const radius = Math.max(0, Math.round(point.size ?? pointSize));
+            const pixel = { active: true, color: point.color ?? seriesColor };
+
+            if (radius === 0) {
+                renderer.setPixel(canvas, x, y, pixel);
+            } else {
+                renderer.drawCircle(canvas, x, y, radius, true, pixel);
+            }
+        }
+    }
+
+    return renderer.renderCanvas(canvas, pixelWidth, pixelHeight);
+}
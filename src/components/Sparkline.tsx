@@ -2,10 +2,11 @@
  * Sparkline - Mini trend chart component
  */
 
-import { Text } from 'ink';
 import React, { useContext, useMemo } from 'react';
 import { lttb } from '../utils/downsampling';
+import { type GapMode, type SeriesValue, fillGaps, isPresent } from '../utils/gaps';
 import { GridItemContext } from './Grid';
+import { Text } from './common/Text';
 
 /**
  * Unicode block characters for sparkline (levels 1-8)
@@ -23,9 +24,15 @@ const SPARK_LEVELS_BRAILLE = ['⠀', '⡀', '⣀', '⣄', '⣤', '⣦', '⣶', '
  */
 const SPARK_LEVELS_ASCII = [' ', '.', ':', '-', '=', '+', '*', '#', '%', '@'];
 
+/**
+ * Characters used for gaps (blank per variant, dimmed marker for gapMode 'marker')
+ */
+const GAP_BLANK = { block: ' ', braille: '⠀', ascii: ' ' } as const;
+const GAP_MARKER = { block: '·', braille: '⠂', ascii: '_' } as const;
+
 export interface SparklineProps {
-    /** Array of data points */
-    data: number[];
+    /** Array of data points (null/undefined/NaN are gaps) */
+    data: SeriesValue[];
 
     /**
      * Target width (character count)
@@ -45,6 +52,9 @@ export interface SparklineProps {
 
     /** Rendering style (default: 'block') */
     variant?: 'block' | 'braille' | 'ascii';
+
+    /** How missing samples are drawn (default: 'break') */
+    gapMode?: GapMode;
 }
 
 export const Sparkline: React.FC<SparklineProps> = ({
@@ -54,22 +64,28 @@ export const Sparkline: React.FC<SparklineProps> = ({
     max: userMax,
     color,
     variant = 'block',
+    gapMode = 'break',
 }) => {
     // Get width from Grid context
     const gridContext = useContext(GridItemContext);
     const effectiveWidth = propsWidth ?? gridContext?.width;
 
-    const text = useMemo(() => {
-        if (!data || data.length === 0) return '';
+    // Runs of consecutive value/gap characters, so markers can be dimmed
+    const runs = useMemo(() => {
+        if (!data || data.length === 0) return [];
 
         // If width limit exists and data points exceed width, perform downsampling
         let processedData = data;
         if (effectiveWidth && data.length > effectiveWidth) {
             processedData = lttb(data, effectiveWidth);
         }
+        if (gapMode === 'connect') {
+            processedData = fillGaps(processedData);
+        }
 
-        const min = userMin ?? Math.min(...processedData);
-        let max = userMax ?? Math.max(...processedData);
+        const values = processedData.filter(isPresent);
+        const min = userMin ?? Math.min(...values);
+        let max = userMax ?? Math.max(...values);
 
         // Avoid division by zero if all values are equal
         if (max === min) {
@@ -82,20 +98,43 @@ export const Sparkline: React.FC<SparklineProps> = ({
                 : variant === 'ascii'
                   ? SPARK_LEVELS_ASCII
                   : SPARK_LEVELS_BLOCK;
+        const gapChar = gapMode === 'marker' ? GAP_MARKER[variant] : GAP_BLANK[variant];
 
-        return processedData
-            .map((v) => {
+        const result: Array<{ text: string; gap: boolean }> = [];
+        for (const v of processedData) {
+            let char: string = gapChar;
+            const gap = !isPresent(v);
+            if (!gap) {
                 // Clamping
                 const value = Math.max(min, Math.min(max, v));
 
                 // Map to 0..levels.length-1 range
                 const normalized = (value - min) / (max - min);
                 const index = Math.round(normalized * (levels.length - 1));
-
-                return levels[index];
-            })
-            .join('');
-    }, [data, effectiveWidth, userMin, userMax, variant]);
-
-    return <Text {...(color ? { color } : {})}>{text}</Text>;
+                char = levels[index] ?? gapChar;
+            }
+
+            const last = result[result.length - 1];
+            if (last && last.gap === gap) {
+                last.text += char;
+            } else {
+                result.push({ text: char, gap });
+            }
+        }
+        return result;
+    }, [data, effectiveWidth, userMin, userMax, variant, gapMode]);
+
+    return (
+        <Text {...(color ? { color } : {})}>
+            {runs.map((run, i) =>
+                run.gap && gapMode === 'marker' ? (
+                    <Text key={i} dimColor>
+                        {run.text}
+                    </Text>
+                ) : (
+                    run.text
+                ),
+            )}
+        </Text>
+    );
 };
@@ -1,7 +1,58 @@
-import { Box, Text, useFocus, useInput } from 'ink';
-import React, { useMemo, useContext } from 'react';
-import { useTheme } from '../theme/ThemeContext';
+import { Box, useFocus, useInput } from 'ink';
+import React, { useMemo, useContext, useState } from 'react';
+import { type SemanticColors, useTheme } from '../theme/ThemeContext';
 import { GridItemContext } from './Grid';
+import { useInkHud } from './InkHudProvider';
+import { TableCell } from './common/TableCell';
+import { Text } from './common/Text';
+import {
+    type ColumnLayout,
+    layoutColumns,
+    resolveColumnSpecs,
+    wrapHeader,
+} from './common/tableLayout';
+import {
+    type TreeRow,
+    collectTreeItems,
+    computeAggregates,
+    flattenTree,
+    maxTreePrefixWidth,
+    treePrefix,
+} from './common/tableTree';
+import {
+    type SortDirection,
+    type TableRow,
+    filterRows,
+    measureCellContent,
+    resolveColumnIndex,
+    sortRows,
+} from './common/tableUtils';
+import { useTableCursor } from './common/useTableCursor';
+import { useTableSearch } from './common/useTableSearch';
+
+/**
+ * How a column renders its values
+ * - 'text': plain text (default)
+ * - 'sparkline': a series (number[]) as a Sparkline sized to the column
+ * - 'gauge': a number as an inline Gauge between `min` and `max`
+ * - 'delta': a number as a colored ▲/▼ trend with its magnitude
+ */
+export type TableColumnType = 'text' | 'sparkline' | 'gauge' | 'delta';
+
+/**
+ * Threshold color rule: applies when `min <= value < max` (either bound optional)
+ */
+export interface TableColorRule {
+    min?: number;
+    max?: number;
+    /** Theme semantic color to use */
+    color: keyof SemanticColors;
+}
+
+/**
+ * Aggregate shown on tree group rows, computed over the group's leaf rows
+ */
+export type TableAggregate = 'sum' | 'avg' | 'max' | 'min';
 
 export interface TableColumn<T> {
     /**
@@ -14,16 +65,86 @@ export interface TableColumn<T> {
      */
     accessor: keyof T | ((item: T) => React.ReactNode);
 
+    /**
+     * Column type
+     * @default 'text'
+     */
+    type?: TableColumnType;
+
+    /**
+     * Value range for gauge (default 0-100) and sparkline (default: data extent) columns
+     */
+    min?: number;
+    max?: number;
+
+    /**
+     * Number format for text and delta cells (delta cells format the magnitude)
+     */
+    format?: (value: number) => string;
+
+    /**
+     * Threshold color rules for numeric values (first match wins)
+     * Sparklines are colored by their latest value.
+     */
+    colorRules?: TableColorRule[];
+
     /**
      * Optional fixed width (if not provided, auto-calculated)
      */
     width?: number;
 
+    /**
+     * Width limits when the table is fitted to the GridItem width
+     * @default minWidth: 3 (or the content width when narrower), maxWidth: unlimited
+     */
+    minWidth?: number;
+    maxWidth?: number;
+
+    /**
+     * Share of extra width; when any column sets flex, only flex columns grow
+     * (by default columns grow in proportion to their content)
+     */
+    flex?: number;
+
+    /**
+     * Hiding order when the columns do not fit: lowest priority is hidden first
+     * Columns without a priority are never hidden.
+     */
+    priority?: number;
+
+    /**
+     * Keep this column on screen while the other columns scroll horizontally (←/→)
+     * Pinned columns are shown first.
+     */
+    pinned?: boolean;
+
     /**
      * Alignment
      * @default 'left'
      */
     align?: 'left' | 'right' | 'center';
+
+    /**
+     * Custom row comparison for built-in sorting (ascending order)
+     * Defaults to comparing the accessor values
+     */
+    compare?: (a: T, b: T) => number;
+
+    /**
+     * Include this column in `/` search (cells rendered as elements are never searched)
+     * @default true
+     */
+    searchable?: boolean;
+
+    /**
+     * Row filter predicate; rows must pass every column's filter to be shown
+     */
+    filter?: (item: T) => boolean;
+
+    /**
+     * Aggregate shown on tree group rows (numeric leaf values; replaces the group's own value)
+     */
+    aggregate?: TableAggregate;
 }
 
 export interface TableProps<T> {
@@ -38,16 +159,27 @@ export interface TableProps<T> {
     columns: TableColumn<T>[];
 
     /**
-     * Currently sorted column key (matches matches column header or some ID? Let's use header/index for simplicity or separate ID)
-     * For simplicity, let's match 'header' string or an index.
-     * Let's use the index of the column for simplicity in this TUI context, or match header string.
+     * Currently sorted column (index or header title)
+     * When set, sorting is controlled: the caller sorts `data` and updates this prop from `onSort`.
+     * When omitted, Table sorts `data` itself as headers are activated.
      */
     sortColumn?: number | string;
 
     /**
-     * Sort direction
+     * Sort direction (controlled sorting)
+     */
+    sortDirection?: SortDirection;
+
+    /**
+     * Initially sorted column for built-in sorting
      */
-    sortDirection?: 'asc' | 'desc';
+    defaultSortColumn?: number | string;
+
+    /**
+     * Initial sort direction for built-in sorting
+     * @default 'asc'
+     */
+    defaultSortDirection?: SortDirection;
 
     /**
      * Enable zebra striping
@@ -59,6 +191,67 @@ export interface TableProps<T> {
      * Callback when a column header is activated (sorted)
      */
     onSort?: (column: TableColumn<T>, index: number) => void;
+
+    /**
+     * Enable the row cursor: ↑/↓, PageUp/PageDown and Home/End move it, Enter selects
+     * @default false
+     */
+    interactive?: boolean;
+
+    /**
+     * Focus the rows on mount (interactive tables)
+     * @default false
+     */
+    autoFocus?: boolean;
+
+    /**
+     * Callback when Enter is pressed on a row (index into `data`)
+     * In tree mode the index is among the row's siblings, and `key` is the row's path of
+     * sibling indexes from the root (e.g. '0/2'; top-level rows still index `data`)
+     */
+    onSelect?: (item: T, index: number, key?: string) => void;
+
+    /**
+     * Enable the `/` search prompt (interactive tables)
+     * @default true
+     */
+    searchable?: boolean;
+
+    /**
+     * Callback when the search query changes
+     */
+    onSearchChange?: (query: string) => void;
+
+    /**
+     * Wrap headers that do not fit their column onto a second line
+     * @default false
+     */
+    wrapHeaders?: boolean;
+
+    /**
+     * Height in lines including the header; rows beyond it scroll
+     * Defaults to the GridItem height
+     */
+    height?: number;
+
+    /**
+     * Child rows of an item; enables tree mode
+     * In interactive tables → expands a group (or moves to its first child) and ← collapses it
+     * (or moves to the parent); Shift+←/→ scroll the columns.
+     */
+    getChildren?: (item: T) => T[] | undefined;
+
+    /**
+     * Whether groups start expanded (tree mode)
+     * @default false
+     */
+    defaultExpanded?: boolean;
+
+    /**
+     * Tree guide characters: box drawing ('unicode') or plain ASCII
+     * @default 'unicode'
+     */
+    variant?: 'unicode' | 'ascii';
 }
 
 // Alignment mapping constants
@@ -72,10 +265,12 @@ interface HeaderCellProps<T> {
     column: TableColumn<T>;
     width: number;
     isSorted: boolean;
-    sortDirection: 'asc' | 'desc';
+    sortDirection: SortDirection;
     onSort?: (column: TableColumn<T>) => void;
     align: 'flex-start' | 'center' | 'flex-end';
     autoFocus?: boolean;
+    /** Header lines (1, or 2 when headers wrap) */
+    lines: number;
 }
 
 const SortableHeaderCell = <T,>({
@@ -86,9 +281,11 @@ const SortableHeaderCell = <T,>({
     onSort,
     align,
     autoFocus,
+    lines,
 }: HeaderCellProps<T>) => {
     const theme = useTheme();
     const semantic = theme.semantic;
+    const { resolveColor } = useInkHud();
     const { isFocused } = useFocus({ autoFocus: !!autoFocus });
 
     useInput((input, key) => {
@@ -105,11 +302,12 @@ const SortableHeaderCell = <T,>({
     return (
         <Box
             width={width}
-            justifyContent={align}
+            flexDirection="column"
+            alignItems={align}
             flexShrink={0}
             paddingX={1}
             {...(isFocused ? { borderStyle: 'single' } : {})}
-            borderColor={semantic.info}
+            borderColor={resolveColor(semantic.info)}
             marginTop={isFocused ? -1 : 0} // visual adjustment for border
             // Or better: use inverse color for focus
         >
@@ -117,52 +315,57 @@ const SortableHeaderCell = <T,>({
                 Border adds size, might shift layout. 
                 Using inverse/underline for focus is safer in fixed layout.
              */}
-            <Text
-                bold
-                color={isFocused ? semantic.info : semantic.success}
-                underline={isFocused}
-                wrap="truncate-end"
-            >
-                {column.header}
-                {indicator}
-            </Text>
+            {/* Wrapped headers keep the sort indicator on their last line */}
+            {(lines > 1
+                ? wrapHeader(column.header, width - (isFocused ? 4 : 2))
+                : [column.header]
+            ).map((text, i, all) => (
+                <Text
+                    key={i}
+                    bold
+                    color={isFocused ? semantic.info : semantic.success}
+                    underline={isFocused}
+                    wrap="truncate-end"
+                >
+                    {text}
+                    {i === all.length - 1 ? indicator : ''}
+                </Text>
+            ))}
         </Box>
     );
 };
 
-/**
- * Table - Data table with interactive sort headers
- */
-// Helper to separate cell content extraction
-const getCellContentLength = <T,>(item: T, col: TableColumn<T>): number => {
-    let content = '';
-    if (typeof col.accessor === 'function') {
-        const result = col.accessor(item);
-        if (typeof result === 'string' || typeof result === 'number') {
-            content = String(result);
-        }
-    } else {
-        const val = item[col.accessor];
-        if (val !== undefined && val !== null) {
-            content = String(val);
-        }
-    }
-    return content.length;
-};
-
 // Helper to calculate widths
-const calculateWidths = <T,>(columns: TableColumn<T>[], data: T[]) => {
-    return columns.map((col) => {
+const calculateWidths = <T,>(
+    columns: TableColumn<T>[],
+    data: T[],
+    measure: (item: T, column: TableColumn<T>, index: number) => number = (item, col) =>
+        measureCellContent(item, col),
+) => {
+    return columns.map((col, i) => {
         if (col.width) return col.width;
 
         let max = col.header.length + 2;
         for (const item of data) {
-            max = Math.max(max, getCellContentLength(item, col));
+            max = Math.max(max, measure(item, col, i));
         }
         return max + 2;
     });
 };
 
+// Tree rows carry their position in the hierarchy
+const isTreeRow = <T,>(row: TableRow<T>): row is TreeRow<T> => 'depth' in row;
+
+/**
+ * Horizontal scroll position for the status line, e.g. '◂ columns 2-4/6 ▸  '
+ */
+const formatColumnWindow = (layout: ColumnLayout): string => {
+    const { scrollOffset, scrollVisible, scrollCount } = layout;
+    const left = scrollOffset > 0 ? '◂ ' : '';
+    const right = scrollOffset + scrollVisible < scrollCount ? ' ▸' : '';
+    return `${left}columns ${scrollOffset + 1}-${scrollOffset + scrollVisible}/${scrollCount}${right}  `;
+};
+
 /**
  * Table - Data table with interactive sort headers
  */
@@ -170,46 +373,199 @@ export const Table = <T,>({
     data,
     columns,
     sortColumn,
-    sortDirection = 'asc',
+    sortDirection,
+    defaultSortColumn,
+    defaultSortDirection = 'asc',
     zebra = false,
     onSort,
+    interactive = false,
+    autoFocus = false,
+    onSelect,
+    searchable = true,
+    onSearchChange,
+    wrapHeaders = false,
+    height,
+    getChildren,
+    defaultExpanded = false,
+    variant = 'unicode',
 }: TableProps<T>) => {
-    // 1. Resolve Context for Width
+    const theme = useTheme();
+
+    // 1. Resolve Context for Width and Height
     const gridContext = useContext(GridItemContext);
     const availableWidth = gridContext?.width;
+    const effectiveHeight =
+        height ?? (typeof gridContext?.height === 'number' ? gridContext.height : undefined);
+
+    // 2. Sorting: controlled by props, or built-in using the column accessor/compare
+    const isControlled = sortColumn !== undefined;
+    const [internalSort, setInternalSort] = useState(() => ({
+        column: resolveColumnIndex(columns, defaultSortColumn),
+        direction: defaultSortDirection,
+    }));
+    const activeColumn = isControlled
+        ? resolveColumnIndex(columns, sortColumn)
+        : internalSort.column;
+    const activeDirection = isControlled ? (sortDirection ?? 'asc') : internalSort.direction;
+
+    // 3. Filtering: column predicates plus the `/` search query
+    const { isFocused } = useFocus({ autoFocus, isActive: interactive });
+    const search = useTableSearch({
+        enabled: interactive && searchable,
+        isFocused,
+        onSearchChange,
+    });
 
-    // 2. Calculate column widths based on content
-    const contentWidths = useMemo(() => calculateWidths(columns, data), [data, columns]);
-    const totalContentWidth = contentWidths.reduce((a, b) => a + b, 0);
-
-    // 3. Adjust widths to fit availableWidth
-    // 3. Adjust widths to fit availableWidth
-    const finalColumnWidths = useMemo(() => {
-        if (!availableWidth) {
-            return contentWidths;
+    // Tree mode: groups whose expansion differs from `defaultExpanded`, by row key
+    const [toggled, setToggled] = useState<ReadonlySet<string>>(() => new Set());
+    const toggleGroup = (key: string) => {
+        setToggled((prev) => {
+            const next = new Set(prev);
+            if (!next.delete(key)) next.add(key);
+            return next;
+        });
+    };
+
+    const rows = useMemo<TableRow<T>[]>(() => {
+        // Controlled data is already in display order
+        const sortColumnDef = isControlled ? undefined : columns[activeColumn];
+        if (getChildren) {
+            return flattenTree({
+                data,
+                columns,
+                getChildren,
+                isExpanded: (key) => defaultExpanded !== toggled.has(key),
+                sortColumn: sortColumnDef,
+                sortDirection: activeDirection,
+                query: search.query,
+            });
         }
+        return filterRows(sortRows(data, sortColumnDef, activeDirection), columns, search.query);
+    }, [
+        data,
+        columns,
+        isControlled,
+        activeColumn,
+        activeDirection,
+        search.query,
+        getChildren,
+        defaultExpanded,
+        toggled,
+    ]);
+
+    const handleSort = (column: TableColumn<T>, index: number) => {
+        if (!isControlled) {
+            setInternalSort((prev) => ({
+                column: index,
+                direction: prev.column === index && prev.direction === 'asc' ? 'desc' : 'asc',
+            }));
+        }
+        onSort?.(column, index);
+    };
+
+    // 4. Fit columns to availableWidth (flex, min/max widths, priority hiding, pinning)
+    // Tree guides go in the first pinned column, which stays visible while scrolling
+    const treeColumn = Math.max(
+        0,
+        columns.findIndex((col) => col.pinned),
+    );
+    const specs = useMemo(() => {
+        if (!getChildren) return resolveColumnSpecs(columns, calculateWidths(columns, data));
+
+        // Tree mode measures every row, group aggregates, and the guides of the tree column
+        const prefixWidth = maxTreePrefixWidth(data, getChildren);
+        const widths = calculateWidths(
+            columns,
+            collectTreeItems(data, getChildren),
+            (item, col, i) =>
+                measureCellContent(
+                    item,
+                    col,
+                    col.aggregate ? computeAggregates(item, [col], getChildren)?.get(0) : undefined,
+                ) + (i === treeColumn ? prefixWidth : 0),
+        );
+        return resolveColumnSpecs(columns, widths);
+    }, [columns, data, getChildren, treeColumn]);
+    const [scrollX, setScrollX] = useState(0);
+    const layout = useMemo(
+        () => layoutColumns(specs, availableWidth, scrollX),
+        [specs, availableWidth, scrollX],
+    );
+    const isScrolledX = layout.scrollCount > 0;
+
+    // 5. Two-line header when a visible header does not fit its column
+    const headerLines =
+        wrapHeaders &&
+        layout.columns.some(({ index, width }) => (columns[index]?.header.length ?? 0) > width - 2)
+            ? 2
+            : 1;
+
+    // 6. Row cursor and scrolling window
+    const showStatus =
+        search.isEditing || search.query !== '' || isScrolledX || columns.some((col) => col.filter);
+    // Header lines plus the header's bottom border
+    const chromeHeight = headerLines + 1 + (showStatus ? 1 : 0);
+    const visibleRows =
+        effectiveHeight !== undefined ? Math.max(1, effectiveHeight - chromeHeight) : rows.length;
+
+    // Status counts: tree mode counts every item kept by filters and search, collapsed or not
+    const rowCounts = useMemo(() => {
+        if (!showStatus || !getChildren) return { matched: rows.length, total: data.length };
+        const matched = flattenTree({
+            data,
+            columns,
+            getChildren,
+            isExpanded: () => true,
+            sortColumn: undefined,
+            sortDirection: 'asc',
+            query: search.query,
+        });
+        return { matched: matched.length, total: collectTreeItems(data, getChildren).length };
+    }, [showStatus, rows.length, data, columns, getChildren, search.query]);
+    const { cursor, offset, moveTo } = useTableCursor({
+        enabled: interactive,
+        isFocused,
+        rowCount: rows.length,
+        visibleRows,
+    });
 
-        // Expansion Strategy: If we have extra space, fill it proportionally
-        // Compression Strategy: If we don't have enough space, scale down
-        // Both can be handled by the same scale factor logic
-        const scale = availableWidth / totalContentWidth;
-
-        // If scale is close to 1 (within rounding error), just return contentWidths?
-        // No, we want to snap to availableWidth exactly if possible.
-
-        let allocated = 0;
-        return contentWidths.map((w, i) => {
-            // If this is the last column, give it the remaining space
-            // This handles both rounding errors and ensures we fill the width
-            if (i === contentWidths.length - 1) {
-                return Math.max(1, availableWidth - allocated);
+    // Tree navigation: → expands or enters a group, ← collapses it or returns to the parent
+    const handleTreeArrow = (row: TreeRow<T>, at: number, direction: 'left' | 'right') => {
+        if (direction === 'right') {
+            if (row.hasChildren && !row.expanded) toggleGroup(row.key);
+            else if (row.expanded) moveTo(at + 1);
+        } else if (row.expanded) {
+            toggleGroup(row.key);
+        } else if (row.depth > 0) {
+            moveTo(
+                rows.findLastIndex(
+                    (other, i) => i < at && isTreeRow(other) && other.depth === row.depth - 1,
+                ),
+            );
+        }
+    };
+
+    useInput(
+        (input, key) => {
+            // Keys typed into the search prompt are not selections
+            if (search.isEditing) return;
+            const row = cursor !== null ? rows[cursor] : undefined;
+            const arrow = key.leftArrow ? 'left' : key.rightArrow ? 'right' : undefined;
+            if (row && (key.return || input === ' ')) {
+                if (isTreeRow(row)) onSelect?.(row.item, row.index, row.key);
+                else onSelect?.(row.item, row.index);
+            } else if (row && isTreeRow(row) && arrow && !key.shift) {
+                handleTreeArrow(row, cursor ?? 0, arrow);
+            } else if (arrow === 'left') {
+                setScrollX(Math.max(0, layout.scrollOffset - 1));
+            } else if (arrow === 'right') {
+                setScrollX(layout.scrollOffset + 1);
             }
+        },
+        { isActive: interactive && isFocused },
+    );
 
-            const newW = Math.floor(w * scale);
-            allocated += newW;
-            return Math.max(1, newW);
-        });
-    }, [availableWidth, totalContentWidth, contentWidths]);
+    const visible = rows.slice(offset, offset + visibleRows);
 
     return (
         <Box
@@ -225,9 +581,9 @@ export const Table = <T,>({
                 borderBottom={true}
                 flexDirection="row"
             >
-                {columns.map((col, i) => {
-                    const width = finalColumnWidths[i] ?? 0;
-                    const isSorted = sortColumn === i || sortColumn === col.header;
+                {layout.columns.map(({ index: i, width }, position) => {
+                    const col = columns[i];
+                    if (!col) return null;
                     const justifyContent = col.align ? ALIGN_MAP[col.align] : 'flex-start';
 
                     return (
@@ -235,33 +591,31 @@ export const Table = <T,>({
                             key={i}
                             column={col}
                             width={width}
-                            isSorted={isSorted}
-                            sortDirection={sortDirection}
+                            isSorted={activeColumn === i}
+                            sortDirection={activeDirection}
                             align={justifyContent}
-                            onSort={() => onSort?.(col, i)}
-                            autoFocus={i === 0}
+                            onSort={() => handleSort(col, i)}
+                            // Interactive tables leave the first focus to their rows
+                            autoFocus={position === 0 && !interactive}
+                            lines={headerLines}
                         />
                     );
                 })}
             </Box>
 
-            {/* Rows */}
-            {data.map((item, rowIndex) => {
+            {/* Rows (only the visible window is rendered) */}
+            {visible.map((row, i) => {
+                const { item, index } = row;
+                const tree = isTreeRow(row) ? row : undefined;
+                const rowIndex = offset + i;
                 const isZebra = zebra && rowIndex % 2 === 1;
+                const isSelected = isFocused && rowIndex === cursor;
 
                 return (
-                    <Box key={rowIndex} flexDirection="row">
-                        {columns.map((col, colIndex) => {
-                            const width = finalColumnWidths[colIndex] ?? 0;
-
-                            let content: React.ReactNode;
-                            if (typeof col.accessor === 'function') {
-                                content = col.accessor(item);
-                            } else {
-                                const val = item[col.accessor];
-                                content = val !== undefined && val !== null ? String(val) : '';
-                            }
-
+                    <Box key={tree ? tree.key : index} flexDirection="row">
+                        {layout.columns.map(({ index: colIndex, width }) => {
+                            const col = columns[colIndex];
+                            if (!col) return null;
                             const justifyContent = col.align ? ALIGN_MAP[col.align] : 'flex-start';
 
                             return (
@@ -272,24 +626,42 @@ export const Table = <T,>({
                                     flexShrink={0}
                                     paddingX={1}
                                 >
-                                    {/* 
-                                        Ink doesn't have background color on Box easily for rows. 
-                                        We wrap content in Text with backgroundColor if zebra.
-                                        But this only backgrounds the text characters, not the full cell width.
-                                        To background full cell width, we usually need 'ink-color-pipe' or some hack.
-                                        Or we use 'inverse' for zebra?
-                                        'dimColor' is subtle for zebra striping on text. 
-                                        Let's try: if zebra, dim the text.
-                                     */}
-                                    <Text dimColor={isZebra} wrap="truncate-end">
-                                        {content}
-                                    </Text>
+                                    <TableCell
+                                        item={item}
+                                        column={col}
+                                        width={Math.max(1, width - 2)}
+                                        query={search.query}
+                                        isZebra={isZebra}
+                                        isSelected={isSelected}
+                                        {...(tree && {
+                                            value: tree.aggregates?.get(colIndex),
+                                            prefix:
+                                                colIndex === treeColumn
+                                                    ? treePrefix(tree, variant)
+                                                    : '',
+                                            isGroup: tree.hasChildren,
+                                        })}
+                                    />
                                 </Box>
                             );
                         })}
                     </Box>
                 );
             })}
+
+            {/* Status line: search prompt and matched/total row count */}
+            {showStatus && (
+                <Box flexDirection="row" justifyContent="space-between">
+                    <Text color={theme.semantic.info} wrap="truncate-end">
+                        {search.isEditing || search.query ? `/${search.query}` : ''}
+                        {search.isEditing ? '▏' : ''}
+                    </Text>
+                    <Text dimColor>
+                        {isScrolledX && formatColumnWindow(layout)}
+                        {rowCounts.matched}/{rowCounts.total} rows
+                    </Text>
+                </Box>
+            )}
         </Box>
     );
 };
@@ -4,9 +4,12 @@
  * Used for X-axis and Y-axis display in charts
  */
 
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React, { useMemo } from 'react';
-import { defaultTickFormat } from './chartUtils';
+import { type ScaleType, logTicks, scaleByType, symlogTicks } from '../../utils/scale';
+import { chooseTimeInterval, createTimeTickFormat, timeTicks } from '../../utils/timeScale';
+import { Text } from './Text';
+import { defaultTickFormat, logTickFormat } from './chartUtils';
 
 /**
  * Coordinate axis component props
@@ -41,6 +44,17 @@ export interface AxisProps {
 
     /** Whether to force ticks to be integers (default false) */
     integerScale?: boolean;
+
+    /**
+     * Scale type (default 'linear')
+     * 'time' treats values as epoch milliseconds: ticks snap to round
+     * second/minute/hour/day boundaries and are formatted as clock times or dates.
+     * 'log' / 'symlog' place ticks at powers of ten along a logarithmic axis.
+     */
+    scale?: 'time' | ScaleType;
+
+    /** Side of the plot a Y-axis sits on; labels align towards the plot (default 'left') */
+    side?: 'left' | 'right';
 }
 
 /**
@@ -58,19 +72,53 @@ export const Axis: React.FC<AxisProps> = ({
     min,
     max,
     tickCount = 5,
-    tickFormat = defaultTickFormat,
+    tickFormat: tickFormatProp,
     label,
     length,
     color = 'gray',
     showGrid: _showGrid = false,
     integerScale = false,
+    scale = 'linear',
+    side = 'left',
 }) => {
+    const alignItems = side === 'right' ? 'flex-start' : 'flex-end';
+
+    // Time scale picks its label format from the tick interval
+    const tickFormat = useMemo(() => {
+        if (tickFormatProp) {
+            return tickFormatProp;
+        }
+        if (scale === 'time') {
+            return createTimeTickFormat(chooseTimeInterval(min, max, tickCount));
+        }
+        if (scale === 'log' || scale === 'symlog') {
+            return logTickFormat;
+        }
+        return defaultTickFormat;
+    }, [tickFormatProp, scale, min, max, tickCount]);
+
     // Calculate tick values
     const ticks = useMemo(() => {
         if (tickCount <= 0) {
             return [];
         }
 
+        if (scale === 'time') {
+            return timeTicks(min, max, tickCount).map((value) => ({
+                value,
+                position: max === min ? 0 : ((value - min) / (max - min)) * length,
+            }));
+        }
+
+        if (scale === 'log' || scale === 'symlog') {
+            const values =
+                scale === 'log' ? logTicks(min, max, tickCount) : symlogTicks(min, max, tickCount);
+            return values.map((value) => ({
+                value,
+                position: scaleByType(value, [min, max], [0, length], scale),
+            }));
+        }
+
         // If max equals min, display only one tick
         if (max === min) {
             return [{ value: min, position: 0 }];
@@ -106,7 +154,7 @@ export const Axis: React.FC<AxisProps> = ({
             const position = ((value - min) / (max - min)) * length;
             return { value, position };
         });
-    }, [min, max, tickCount, length, integerScale]);
+    }, [min, max, tickCount, length, integerScale, scale]);
 
     // X-axis: horizontal layout
     if (type === 'x') {
@@ -157,6 +205,26 @@ export const Axis: React.FC<AxisProps> = ({
         );
     }
 
+    // Y-axis on a log scale: ticks are unevenly spaced, so place each on its own row
+    if (scale === 'log' || scale === 'symlog') {
+        const rows: Array<string | undefined> = Array.from({ length });
+        for (const tick of ticks) {
+            const row = Math.round(scaleByType(tick.value, [min, max], [length - 1, 0], scale));
+            if (row >= 0 && row < length && rows[row] === undefined) {
+                rows[row] = tickFormat(tick.value);
+            }
+        }
+        return (
+            <Box flexDirection="column" alignItems={alignItems} height={length}>
+                {rows.map((text, i) => (
+                    <Text key={`tick-${i}`} color={color} wrap="truncate">
+                        {text ?? ' '}
+                    </Text>
+                ))}
+            </Box>
+        );
+    }
+
     // Y-axis: vertical layout
     // We need to distribute ticks from TOP to BOTTOM.
     // Ticks array is Min -> Max.
@@ -164,7 +232,7 @@ export const Axis: React.FC<AxisProps> = ({
     return (
         <Box
             flexDirection="column"
-            alignItems="flex-end"
+            alignItems={alignItems}
             height={length}
             justifyContent="space-between"
         >
@@ -0,0 +1,177 @@
+/**
+ * CanvasLines component
+ *
+ * Renders the lines produced by a renderer's `renderCanvas`
+ */
+
+import { Box, type DOMElement, useStdout } from 'ink';
+import React, { useEffect, useRef } from 'react';
+import type { RenderedLine } from '../../core/types';
+import { Text } from './Text';
+
+/**
+ * Delay before writing an image, so it lands after Ink's throttled frame (32ms) is on screen
+ */
+const IMAGE_WRITE_DELAY = 40;
+
+const ESC = '\u001b';
+
+/**
+ * CanvasLines component props
+ */
+export interface CanvasLinesProps {
+    /** Rendered canvas lines */
+    lines: RenderedLine[];
+}
+
+/**
+ * Position of a node relative to the top-left corner of Ink's output
+ */
+interface NodePosition {
+    left: number;
+    top: number;
+    /** Height of the whole output (the cursor rests on the line below it) */
+    outputHeight: number;
+}
+
+/**
+ * Sum the computed yoga offsets from a node up to the root
+ */
+function locateNode(node: DOMElement): NodePosition | undefined {
+    let left = 0;
+    let top = 0;
+    let root = node;
+    for (let current: DOMElement | undefined = node; current; current = current.parentNode) {
+        left += current.yogaNode?.getComputedLeft() ?? 0;
+        top += current.yogaNode?.getComputedTop() ?? 0;
+        root = current;
+    }
+
+    const outputHeight = root.yogaNode?.getComputedHeight();
+    return outputHeight === undefined ? undefined : { left, top, outputHeight };
+}
+
+/**
+ * Whether a character lies outside the Basic Multilingual Plane (e.g. sextants, U+1FB00)
+ */
+function isAstral(char: string): boolean {
+    return (char.codePointAt(0) ?? 0) > 0xffff;
+}
+
+/**
+ * Split text into pieces that each end with an astral character (or the end of the text)
+ */
+function splitAfterAstral(text: string): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+    for (const char of text) {
+        piece += char;
+        if (isAstral(char)) {
+            pieces.push(piece);
+            piece = '';
+        }
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+}
+
+/**
+ * Render one line as nested Ink text
+ */
+function renderLine(segments: RenderedLine, i: number): React.ReactNode {
+    const characters = segments.flatMap((segment) => [...segment.text]);
+    if (!characters.some(isAstral)) {
+        return (
+            <Text key={`chart-line-${i}`}>
+                {segments.map((segment, j) => (
+                    <Text key={`seg-${i}-${j}`} {...segmentColors(segment)}>
+                        {segment.text}
+                    </Text>
+                ))}
+            </Text>
+        );
+    }
+
+    // Ink 4 stores an astral character as two output cells (it checks the UTF-16 length),
+    // blanking the cell after it and shifting the rest of the line left. Every piece ending
+    // with one is a separate text node, so the next piece is written over that blank cell;
+    // a blank after the last character restores the cell following the line.
+    const endsAstral = isAstral(characters[characters.length - 1] ?? '');
+    return (
+        <Box key={`chart-line-${i}`}>
+            {segments.flatMap((segment, j) =>
+                splitAfterAstral(segment.text).map((piece, k) => (
+                    <Text key={`seg-${i}-${j}-${k}`} {...segmentColors(segment)}>
+                        {piece}
+                    </Text>
+                )),
+            )}
+            {endsAstral && (
+                <Box position="absolute" marginLeft={characters.length}>
+                    <Text> </Text>
+                </Box>
+            )}
+        </Box>
+    );
+}
+
+/**
+ * Text color props of a segment
+ */
+function segmentColors(segment: RenderedLine[number]): {
+    color?: string;
+    backgroundColor?: string;
+} {
+    return {
+        ...(segment.color ? { color: segment.color } : {}),
+        ...(segment.backgroundColor ? { backgroundColor: segment.backgroundColor } : {}),
+    };
+}
+
+/**
+ * CanvasLines component
+ *
+ * Text lines are rendered as Ink text. An image attached by a pixel graphics renderer
+ * (kitty, Sixel) cannot go through Ink, which measures escape sequences as text, so it is
+ * written straight to stdout over the blank cells reserved for it: the cursor is saved,
+ * moved up from the line below Ink's output to the canvas, and restored afterwards.
+ *
+ * Images are only written to a TTY whose height fits the whole output. A kitty image is
+ * removed again when the chart unmounts; a Sixel image stays until Ink redraws its cells,
+ * which may happen when other parts of the UI update before the chart renders again.
+ */
+export const CanvasLines: React.FC<CanvasLinesProps> = ({ lines }) => {
+    const { stdout } = useStdout();
+    const ref = useRef<DOMElement>(null);
+    const image = lines[0]?.[0]?.image;
+
+    useEffect(() => {
+        if (!image || !stdout.isTTY) return;
+
+        const timer = setTimeout(() => {
+            const position = ref.current ? locateNode(ref.current) : undefined;
+            if (!position || position.outputHeight >= stdout.rows) return;
+
+            const up = position.outputHeight - position.top;
+            stdout.write(
+                `${ESC}7${ESC}[${up}A${ESC}[${position.left + 1}G${image.sequence}${ESC}8`,
+            );
+        }, IMAGE_WRITE_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [image, stdout]);
+
+    const clear = image?.clear;
+    useEffect(() => {
+        if (!clear || !stdout.isTTY) return;
+        return () => {
+            stdout.write(clear);
+        };
+    }, [clear, stdout]);
+
+    return (
+        <Box ref={ref} flexDirection="column">
+            {lines.map(renderLine)}
+        </Box>
+    );
+};
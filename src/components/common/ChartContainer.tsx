@@ -4,10 +4,14 @@
  * Unified layout structure for Y-axis + Canvas + X-axis + Legend
  */
 
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React from 'react';
+import type { RenderedLine } from '../../core/types';
 import { Axis, type AxisProps } from './Axis';
+import { CanvasLines } from './CanvasLines';
 import { Legend, type LegendItem } from './Legend';
+import { Text } from './Text';
+import { type OverlayLabel, type OverlayLabels, layoutSideLabels } from './chartOverlays';
 import type { ChartLayoutResult } from './chartUtils';
 
 /**
@@ -31,6 +35,8 @@ export interface ChartContainerProps {
     xAxisConfig?: AxisConfig;
     /** Y-axis configuration */
     yAxisConfig?: AxisConfig;
+    /** Right Y-axis configuration (needs `layout.rightAxisWidth`) */
+    rightYAxisConfig?: AxisConfig;
 
     /** Whether to show legend */
     showLegend?: boolean;
@@ -39,6 +45,15 @@ export interface ChartContainerProps {
     /** Legend items */
     legendItems?: LegendItem[];
 
+    /** Threshold/band/annotation labels beside the plot */
+    overlayLabels?: OverlayLabels;
+
+    /** Viewport overview strip (rendered below the X-axis) */
+    overview?: React.ReactNode;
+
+    /** Inspection tooltip row (rendered below the X-axis) */
+    tooltip?: React.ReactNode;
+
     /** Canvas rendering content (coloredLines) */
     children: React.ReactNode;
 }
@@ -46,22 +61,31 @@ export interface ChartContainerProps {
 /**
  * Render Canvas content (colored lines)
  */
-function renderCanvasLines(
-    coloredLines: Array<Array<{ text: string; color?: string }>>,
-): React.ReactNode {
-    return coloredLines.map((segments, i) => (
-        <Text key={`chart-line-${i}`}>
-            {segments.map((segment, j) =>
-                segment.color ? (
-                    <Text key={`seg-${i}-${j}`} color={segment.color}>
-                        {segment.text}
-                    </Text>
-                ) : (
-                    <Text key={`seg-${i}-${j}`}>{segment.text}</Text>
-                ),
-            )}
-        </Text>
-    ));
+function renderCanvasLines(coloredLines: RenderedLine[]): React.ReactNode {
+    return <CanvasLines lines={coloredLines} />;
+}
+
+/**
+ * Render overlay labels as a single row, each starting at its column
+ * (labels near the right edge are pulled left so they stay readable)
+ */
+function renderBottomLabels(labels: OverlayLabel[], width: number): React.ReactNode {
+    let previousEnd = 0;
+    return [...labels]
+        .sort((a, b) => a.offset - b.offset)
+        .map((label, i) => {
+            // Overlapping labels are pushed right, keeping one space between them
+            const minStart = i === 0 ? 0 : previousEnd + 1;
+            const start = Math.max(minStart, Math.min(label.offset, width - label.text.length));
+            const spaces = ' '.repeat(start - previousEnd);
+            previousEnd = start + label.text.length;
+            return (
+                <Text key={`overlay-${i}`}>
+                    {spaces}
+                    <Text color={label.color}>{label.text}</Text>
+                </Text>
+            );
+        });
 }
 
 /**
@@ -75,12 +99,17 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
     showYAxis = true,
     xAxisConfig,
     yAxisConfig,
+    rightYAxisConfig,
     showLegend = true,
     legendPosition = 'right',
     legendItems = [],
+    overlayLabels,
+    overview,
+    tooltip,
     children,
 }) => {
     const { totalWidth, totalHeight, plotWidth, plotHeight, yAxisWidth } = layout;
+    const { rightAxisWidth, overlayLabelWidth, overlayLabelHeight } = layout;
 
     return (
         <Box flexDirection="column" width={totalWidth} height={totalHeight}>
@@ -103,6 +132,28 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
                 {/* Canvas Content */}
                 <Box flexDirection="column">{children}</Box>
 
+                {/* Right Y Axis */}
+                {showYAxis && rightYAxisConfig && rightAxisWidth > 0 && (
+                    <Box marginLeft={1} width={rightAxisWidth}>
+                        <Axis type="y" side="right" length={plotHeight} {...rightYAxisConfig} />
+                    </Box>
+                )}
+
+                {/* Overlay Labels (one per plot row) */}
+                {overlayLabelWidth > 0 && (
+                    <Box flexDirection="column" marginLeft={1} width={overlayLabelWidth - 1}>
+                        {layoutSideLabels(overlayLabels?.side ?? [], plotHeight).map((label, i) => (
+                            <Text
+                                key={`overlay-${i}`}
+                                wrap="truncate"
+                                {...(label ? { color: label.color } : {})}
+                            >
+                                {label?.text ?? ' '}
+                            </Text>
+                        ))}
+                    </Box>
+                )}
+
                 {/* Right Legend */}
                 {showLegend && legendPosition === 'right' && (
                     <Box marginLeft={2}>
@@ -118,6 +169,36 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
                 </Box>
             )}
 
+            {/* Overlay Labels (below the X axis) */}
+            {overlayLabelHeight > 0 && (
+                <Box
+                    marginLeft={showYAxis ? yAxisWidth + 1 : 0}
+                    width={plotWidth}
+                    height={overlayLabelHeight}
+                >
+                    <Text wrap="truncate">
+                        {renderBottomLabels(overlayLabels?.bottom ?? [], plotWidth)}
+                    </Text>
+                </Box>
+            )}
+
+            {/* Overview */}
+            {overview && (
+                <Box marginLeft={showYAxis ? yAxisWidth + 1 : 0} width={plotWidth}>
+                    {overview}
+                </Box>
+            )}
+
+            {/* Tooltip */}
+            {tooltip && (
+                <Box
+                    marginLeft={showYAxis ? yAxisWidth + 1 : 0}
+                    width={Math.max(1, totalWidth - (showYAxis ? yAxisWidth + 1 : 0))}
+                >
+                    {tooltip}
+                </Box>
+            )}
+
             {/* Bottom Legend */}
             {showLegend && legendPosition === 'bottom' && (
                 <Box marginTop={1} marginLeft={showYAxis ? yAxisWidth + 1 : 0}>
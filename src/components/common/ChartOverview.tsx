@@ -0,0 +1,75 @@
+/**
+ * ChartOverview component
+ *
+ * Sparkline strip of the full data with the visible viewport highlighted
+ */
+
+import { Box } from 'ink';
+import React from 'react';
+import { type SeriesValue, isPresent } from '../../utils/gaps';
+import { Sparkline } from '../Sparkline';
+import type { ChartViewport } from './chartUtils';
+
+/**
+ * ChartOverview component props
+ */
+export interface ChartOverviewProps {
+    /** Full series data */
+    data: SeriesValue[];
+    /** Visible window */
+    viewport: ChartViewport;
+    /** Strip width (characters) */
+    width: number;
+    /** Color of the visible part */
+    color?: string | undefined;
+    /** Color of the parts outside the window (default 'gray') */
+    dimColor?: string;
+}
+
+export const ChartOverview: React.FC<ChartOverviewProps> = ({
+    data,
+    viewport,
+    width,
+    color,
+    dimColor = 'gray',
+}) => {
+    if (data.length === 0 || width <= 0) {
+        return null;
+    }
+
+    // Shared scale so the three parts line up as one sparkline
+    const values = data.filter(isPresent);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+
+    // Columns per index (< 1 downsamples each part into its share of the width)
+    const scale = Math.min(1, width / data.length);
+    const before = data.slice(0, viewport.start);
+    const inside = data.slice(viewport.start, viewport.end);
+    const after = data.slice(viewport.end);
+    const beforeWidth = Math.round(before.length * scale);
+    const afterWidth = Math.round(after.length * scale);
+    const insideWidth = Math.max(1, scale < 1 ? width - beforeWidth - afterWidth : inside.length);
+
+    const parts = [
+        { key: 'before', data: before, width: beforeWidth, color: dimColor },
+        { key: 'inside', data: inside, width: insideWidth, color },
+        { key: 'after', data: after, width: afterWidth, color: dimColor },
+    ];
+
+    return (
+        <Box>
+            {parts.map((part) =>
+                part.data.length > 0 && part.width > 0 ? (
+                    <Sparkline
+                        key={part.key}
+                        data={part.data}
+                        width={part.width}
+                        {...(values.length > 0 ? { min, max } : {})}
+                        {...(part.color ? { color: part.color } : {})}
+                    />
+                ) : null,
+            )}
+        </Box>
+    );
+};
@@ -0,0 +1,81 @@
+/**
+ * ChartTooltip component
+ *
+ * Single-row readout of every series' value at the inspection cursor
+ */
+
+import React from 'react';
+import { type SeriesValue, isPresent } from '../../utils/gaps';
+import { createTimeTickFormat } from '../../utils/timeScale';
+import { Text } from './Text';
+import { type ChartSeries, defaultTickFormat } from './chartUtils';
+
+/**
+ * ChartTooltip component props
+ */
+export interface ChartTooltipProps {
+    /** Series to read values from (raw values, not stacked) */
+    series: ChartSeries[];
+    /** Series colors (index-aligned with series) */
+    colors: string[];
+    /** Selected data index (null renders an empty row) */
+    index: number | null;
+    /** Offset from the series index to the full-data index (viewport start) */
+    indexOffset?: number;
+    /** X-axis scale type */
+    xScale?: 'linear' | 'time';
+    /** X value formatter */
+    xTickFormat?: ((value: number) => string) | undefined;
+    /** Y value formatter */
+    yTickFormat?: ((value: number) => string) | undefined;
+    /** Value formatter for series on the right Y-axis (defaults to yTickFormat) */
+    y2TickFormat?: ((value: number) => string) | undefined;
+}
+
+/**
+ * Time labels in the tooltip always include seconds
+ */
+const timeLabelFormat = createTimeTickFormat(1000);
+
+function formatValue(value: SeriesValue, format: (value: number) => string): string {
+    return isPresent(value) ? format(value) : '—';
+}
+
+export const ChartTooltip: React.FC<ChartTooltipProps> = ({
+    series,
+    colors,
+    index,
+    indexOffset = 0,
+    xScale = 'linear',
+    xTickFormat,
+    yTickFormat = defaultTickFormat,
+    y2TickFormat,
+}) => {
+    if (index === null) {
+        return <Text> </Text>;
+    }
+
+    // Label with the real X value when the series carry one, otherwise the index
+    const xValue =
+        series.find((s) => s.x?.[index] !== undefined)?.x?.[index] ?? index + indexOffset;
+    const labelFormat =
+        xTickFormat ?? (xScale === 'time' ? timeLabelFormat : (value: number) => String(value));
+
+    return (
+        <Text wrap="truncate-end">
+            <Text bold>{labelFormat(xValue)}</Text>
+            {series.map((s, i) => (
+                <Text key={`tooltip-${i}`}>
+                    {'  '}
+                    <Text color={s.color ?? colors[i] ?? 'cyan'}>●</Text> {s.name}{' '}
+                    <Text bold>
+                        {formatValue(
+                            s.data[index],
+                            s.axis === 'right' ? (y2TickFormat ?? yTickFormat) : yTickFormat,
+                        )}
+                    </Text>
+                </Text>
+            ))}
+        </Text>
+    );
+};
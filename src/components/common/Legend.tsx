@@ -4,8 +4,9 @@
  * Used to display chart legend
  */
 
-import { Box, Text } from 'ink';
+import { Box } from 'ink';
 import React from 'react';
+import { Text } from './Text';
 
 /**
  * Legend item
@@ -19,6 +20,9 @@ export interface LegendItem {
 
     /** Legend symbol (default '●') */
     symbol?: string;
+
+    /** Y axis of the series on dual-axis charts (shown as an (L)/(R) suffix) */
+    axis?: 'left' | 'right';
 }
 
 /**
@@ -76,6 +80,7 @@ export const Legend: React.FC<LegendProps> = ({
                 <Box key={`legend-${i}`} gap={1}>
                     <Text color={color ?? item.color}>{item.symbol || '●'}</Text>
                     <Text {...(color && { color })}>{item.name}</Text>
+                    {item.axis && <Text dimColor>{item.axis === 'right' ? '(R)' : '(L)'}</Text>}
                 </Box>
             ))}
         </Box>
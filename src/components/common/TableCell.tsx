@@ -0,0 +1,159 @@
+/**
+ * TableCell - Table cell renderer
+ *
+ * Renders a cell by column type: text (with search highlight), sparkline, gauge or delta
+ */
+
+import { Box } from 'ink';
+import React from 'react';
+import { useTheme } from '../../theme/ThemeContext';
+import type { SeriesValue } from '../../utils/gaps';
+import { Gauge } from '../Gauge';
+import { Sparkline } from '../Sparkline';
+import type { TableColumn } from '../Table';
+import { Text } from './Text';
+import {
+    GAUGE_PERCENT_WIDTH,
+    findMatch,
+    formatDelta,
+    getCellText,
+    getCellValue,
+    getRuleValue,
+    matchColorRule,
+} from './tableUtils';
+
+/**
+ * TableCell component props
+ */
+export interface TableCellProps<T> {
+    item: T;
+    column: TableColumn<T>;
+    /** Content width in characters (cell width without padding) */
+    width: number;
+    /** Search query to highlight */
+    query: string;
+    /** Whether the row is a dimmed zebra stripe */
+    isZebra: boolean;
+    /** Whether the row is under the cursor */
+    isSelected: boolean;
+    /** Value to show instead of the accessor value (tree group aggregates) */
+    value?: unknown;
+    /** Tree guides drawn before the content */
+    prefix?: string;
+    /** Whether the row is a tree group header */
+    isGroup?: boolean;
+}
+
+/**
+ * Text with the search match highlighted
+ */
+function renderHighlighted(text: string, query: string, highlightColor: string): React.ReactNode {
+    const match = findMatch(text, query);
+    if (!match) return text;
+
+    return (
+        <>
+            {text.slice(0, match.start)}
+            <Text color={highlightColor} underline>
+                {text.slice(match.start, match.end)}
+            </Text>
+            {text.slice(match.end)}
+        </>
+    );
+}
+
+export const TableCell = <T,>({
+    item,
+    column,
+    width,
+    query,
+    isZebra,
+    isSelected,
+    value: override,
+    prefix = '',
+    isGroup = false,
+}: TableCellProps<T>) => {
+    const { semantic } = useTheme();
+    const value = override ?? getCellValue(item, column);
+
+    if (prefix) {
+        // Guides take their width from the content
+        return (
+            <Box flexDirection="row">
+                <Text dimColor>{prefix}</Text>
+                <TableCell
+                    item={item}
+                    column={column}
+                    width={Math.max(1, width - prefix.length)}
+                    query={query}
+                    isZebra={isZebra}
+                    isSelected={isSelected}
+                    value={value}
+                    isGroup={isGroup}
+                />
+            </Box>
+        );
+    }
+
+    const ruleValue = getRuleValue(item, column, value);
+    const ruleColor =
+        ruleValue !== undefined ? matchColorRule(ruleValue, column.colorRules) : undefined;
+    let color = ruleColor ? semantic[ruleColor] : undefined;
+
+    if (column.type === 'sparkline') {
+        const data = Array.isArray(value) ? (value as SeriesValue[]) : [];
+        return (
+            <Sparkline
+                data={data}
+                width={width}
+                {...(column.min !== undefined ? { min: column.min } : {})}
+                {...(column.max !== undefined ? { max: column.max } : {})}
+                {...(color ? { color } : {})}
+            />
+        );
+    }
+
+    if (column.type === 'gauge') {
+        if (typeof value !== 'number') return null;
+        return (
+            <Gauge
+                value={value}
+                width={Math.max(1, width - GAUGE_PERCENT_WIDTH)}
+                {...(column.min !== undefined ? { min: column.min } : {})}
+                {...(column.max !== undefined ? { max: column.max } : {})}
+                {...(color ? { color } : {})}
+            />
+        );
+    }
+
+    if (column.type === 'delta' && typeof value === 'number' && !ruleColor) {
+        // Same colors as BigNumber's trend
+        const { direction } = formatDelta(value, column.format);
+        color = {
+            up: semantic.success,
+            down: semantic.error,
+            neutral: semantic.muted,
+        }[direction];
+    }
+
+    const text = getCellText(item, column, value);
+    const content =
+        text === null
+            ? (value as React.ReactNode)
+            : column.searchable !== false
+              ? renderHighlighted(text, query, semantic.warning)
+              : text;
+
+    // Ink can't fill a Box background, so zebra rows dim their text and the cursor row inverts it
+    return (
+        <Text
+            dimColor={isZebra && !isSelected}
+            inverse={isSelected}
+            bold={isGroup}
+            {...(isSelected ? { color: semantic.info } : color ? { color } : {})}
+            wrap="truncate-end"
+        >
+            {content}
+        </Text>
+    );
+};
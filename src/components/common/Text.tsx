@@ -0,0 +1,39 @@
+/**
+ * Text component
+ *
+ * Ink `Text` with its colors resolved for the terminal's color depth
+ */
+
+import { Text as InkText, type TextProps } from 'ink';
+import React from 'react';
+import { isDarkColor } from '../../utils/colorDepth';
+import { useInkHud } from '../InkHudProvider';
+
+/**
+ * Text with color depth resolution
+ *
+ * Colors are mapped through the InkHudProvider. Without colors (monochrome), dark colors
+ * such as muted text are dimmed and a background color becomes inverse video, so emphasis
+ * survives without hue.
+ */
+export const Text: React.FC<TextProps> = ({ color, backgroundColor, ...props }) => {
+    const { colorDepth, resolveColor } = useInkHud();
+
+    if (colorDepth === 'mono') {
+        return (
+            <InkText
+                {...props}
+                {...(color && isDarkColor(color) ? { dimColor: true } : {})}
+                {...(backgroundColor ? { inverse: true } : {})}
+            />
+        );
+    }
+
+    return (
+        <InkText
+            {...props}
+            {...(color ? { color: resolveColor(color) } : {})}
+            {...(backgroundColor ? { backgroundColor: resolveColor(backgroundColor) } : {})}
+        />
+    );
+};
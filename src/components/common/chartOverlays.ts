@@ -0,0 +1,361 @@
+/**
+ * Chart overlays
+ *
+ * Threshold lines, shaded bands and annotation markers drawn into the chart canvas,
+ * plus the labels shown beside the axes
+ */
+
+import type { Renderer } from '../../core/renderer';
+import type { Pixel } from '../../core/types';
+import { type ScaleType, linearScale, scaleByType } from '../../utils/scale';
+
+/**
+ * Horizontal reference line at a Y value (e.g. an SLO limit)
+ */
+export interface ChartThreshold {
+    /** Y value of the line */
+    value: number;
+    /** Label shown beside the plot */
+    label?: string;
+    /** Line color (default 'red') */
+    color?: string;
+}
+
+/**
+ * Shaded Y range (e.g. a warning zone)
+ */
+export interface ChartBand {
+    /** Lower Y bound */
+    from: number;
+    /** Upper Y bound */
+    to: number;
+    /** Label shown beside the plot */
+    label?: string;
+    /** Shade color (default 'yellow') */
+    color?: string;
+}
+
+/**
+ * Marker at an X position (e.g. a deploy)
+ * Drawn as a vertical line, or as a point marker when `y` is given
+ */
+export interface ChartAnnotation {
+    /** X position: data index for plain series, X value for {x, y} points */
+    x: number | Date;
+    /** Y value of a point marker */
+    y?: number;
+    /** Label shown below the X-axis */
+    label?: string;
+    /** Marker color (default 'magenta') */
+    color?: string;
+}
+
+/**
+ * Overlay configuration (shared by LineChart/AreaChart/BarChart)
+ */
+export interface ChartOverlays {
+    thresholds?: ChartThreshold[] | undefined;
+    bands?: ChartBand[] | undefined;
+    annotations?: ChartAnnotation[] | undefined;
+}
+
+/**
+ * Overlay label positioned along a plot edge
+ */
+export interface OverlayLabel {
+    text: string;
+    color: string;
+    /** Character row (side labels) or column (bottom labels) */
+    offset: number;
+}
+
+/**
+ * Labels split by the edge they belong to
+ * - side: column to the right of the plot, one label per row
+ * - bottom: row below the X-axis
+ */
+export interface OverlayLabels {
+    side: OverlayLabel[];
+    bottom: OverlayLabel[];
+}
+
+/**
+ * Pixel mapping used to place overlays
+ */
+export interface OverlayScales {
+    /** Y value → pixel along the value axis */
+    value: (value: number) => number;
+    /** X position → pixel along the category axis (null when outside the visible data) */
+    category: (x: number) => number | null;
+    /**
+     * 'vertical': values run up the canvas (default)
+     * 'horizontal': values run across the canvas (horizontal bars)
+     */
+    orientation?: 'vertical' | 'horizontal';
+}
+
+export const THRESHOLD_COLOR = 'red';
+export const BAND_COLOR = 'yellow';
+export const ANNOTATION_COLOR = 'magenta';
+
+/**
+ * Widen a Y extent so every threshold line stays visible
+ */
+export function includeThresholds(
+    min: number,
+    max: number,
+    thresholds: ChartThreshold[] | undefined,
+): { min: number; max: number } {
+    let nextMin = min;
+    let nextMax = max;
+    for (const { value } of thresholds ?? []) {
+        if (!Number.isFinite(value)) continue;
+        nextMin = Math.min(nextMin, value);
+        nextMax = Math.max(nextMax, value);
+    }
+    return { min: nextMin, max: nextMax };
+}
+
+/**
+ * Overlay scales for charts whose X axis spans [xMin, xMax] across the canvas (line/area)
+ */
+export function createLinearOverlayScales(params: {
+    min: number;
+    max: number;
+    xMin: number;
+    xMax: number;
+    pixelWidth: number;
+    pixelHeight: number;
+    yScale?: ScaleType | undefined;
+}): OverlayScales {
+    const { min, max, xMin, xMax, pixelWidth, pixelHeight, yScale } = params;
+    return {
+        value: (value) =>
+            max === min
+                ? Math.round((pixelHeight - 1) / 2)
+                : Math.round(scaleByType(value, [min, max], [pixelHeight - 1, 0], yScale)),
+        category: (x) => {
+            if (x < xMin || x > xMax) return null;
+            if (xMax === xMin) return Math.round((pixelWidth - 1) / 2);
+            return Math.round(linearScale(x, [xMin, xMax], [0, pixelWidth - 1]));
+        },
+    };
+}
+
+/**
+ * Convert an annotation X position to the chart's numeric X domain
+ */
+export function annotationX(annotation: ChartAnnotation): number {
+    return annotation.x instanceof Date ? annotation.x.getTime() : annotation.x;
+}
+
+const CROSS_OFFSETS = [
+    [0, 0],
+    [-1, 0],
+    [1, 0],
+    [0, -1],
+    [0, 1],
+] as const;
+
+/**
+ * Map (value-axis, category-axis) pixel coordinates to canvas (x, y)
+ */
+function toCanvas(scales: OverlayScales, valuePixel: number, categoryPixel: number) {
+    return scales.orientation === 'horizontal'
+        ? { x: valuePixel, y: categoryPixel }
+        : { x: categoryPixel, y: valuePixel };
+}
+
+/**
+ * Draw bands, threshold lines and vertical annotation lines
+ *
+ * Called before the series so data drawn afterwards stays on top. Bands are a sparse dot
+ * texture, thresholds are dashed and annotation lines dotted.
+ */
+export function drawOverlayLines(
+    renderer: Renderer,
+    canvas: Pixel[][],
+    overlays: ChartOverlays,
+    scales: OverlayScales,
+): void {
+    const horizontal = scales.orientation === 'horizontal';
+    const valueLength = horizontal ? (canvas[0]?.length ?? 0) : canvas.length;
+    const categoryLength = horizontal ? canvas.length : (canvas[0]?.length ?? 0);
+    const plot = (v: number, c: number, color: string) => {
+        const { x, y } = toCanvas(scales, v, c);
+        renderer.setPixel(canvas, x, y, { active: true, color });
+    };
+
+    for (const band of overlays.bands ?? []) {
+        const a = scales.value(band.from);
+        const b = scales.value(band.to);
+        const color = band.color ?? BAND_COLOR;
+        for (let v = Math.min(a, b); v <= Math.max(a, b); v++) {
+            if (v % 2 !== 0) continue;
+            for (let c = 0; c < categoryLength; c += 2) {
+                plot(v, c, color);
+            }
+        }
+    }
+
+    for (const threshold of overlays.thresholds ?? []) {
+        const v = scales.value(threshold.value);
+        const color = threshold.color ?? THRESHOLD_COLOR;
+        // Two pixels on, two off
+        for (let c = 0; c < categoryLength; c++) {
+            if (c % 4 < 2) plot(v, c, color);
+        }
+    }
+
+    for (const annotation of overlays.annotations ?? []) {
+        const c = scales.category(annotationX(annotation));
+        if (c === null || annotation.y !== undefined) continue;
+        const color = annotation.color ?? ANNOTATION_COLOR;
+        for (let v = 0; v < valueLength; v += 2) {
+            plot(v, c, color);
+        }
+    }
+}
+
+/**
+ * Draw point annotations as a small cross
+ *
+ * Called after the series so the marker stays visible on the point it labels.
+ */
+export function drawAnnotationPoints(
+    renderer: Renderer,
+    canvas: Pixel[][],
+    overlays: ChartOverlays,
+    scales: OverlayScales,
+): void {
+    for (const annotation of overlays.annotations ?? []) {
+        const c = scales.category(annotationX(annotation));
+        if (c === null || annotation.y === undefined) continue;
+        const v = scales.value(annotation.y);
+        const color = annotation.color ?? ANNOTATION_COLOR;
+        for (const [dv, dc] of CROSS_OFFSETS) {
+            const { x, y } = toCanvas(scales, v + dv, c + dc);
+            renderer.setPixel(canvas, x, y, { active: true, color });
+        }
+    }
+}
+
+/**
+ * Resolve overlay labels to character offsets along the plot edges
+ *
+ * Threshold and band labels follow the value axis, annotation labels the category axis;
+ * in the horizontal orientation the two edges swap.
+ *
+ * @param resolution - Renderer pixels per character
+ * @param pixelWidth - Canvas width in pixels (labels outside the canvas are dropped)
+ * @param pixelHeight - Canvas height in pixels
+ */
+export function resolveOverlayLabels(params: {
+    overlays: ChartOverlays;
+    scales: OverlayScales;
+    resolution: { horizontal: number; vertical: number };
+    pixelWidth: number;
+    pixelHeight: number;
+}): OverlayLabels {
+    const { overlays, scales, resolution, pixelWidth, pixelHeight } = params;
+    const horizontal = scales.orientation === 'horizontal';
+
+    const valueLabels: OverlayLabel[] = [];
+    const categoryLabels: OverlayLabel[] = [];
+
+    const valueOffset = (pixel: number): number | null => {
+        const limit = horizontal ? pixelWidth : pixelHeight;
+        if (pixel < 0 || pixel >= limit) return null;
+        return Math.floor(pixel / (horizontal ? resolution.horizontal : resolution.vertical));
+    };
+    const categoryOffset = (pixel: number | null): number | null => {
+        const limit = horizontal ? pixelHeight : pixelWidth;
+        if (pixel === null || pixel < 0 || pixel >= limit) return null;
+        return Math.floor(pixel / (horizontal ? resolution.vertical : resolution.horizontal));
+    };
+
+    for (const threshold of overlays.thresholds ?? []) {
+        const offset = valueOffset(scales.value(threshold.value));
+        if (!threshold.label || offset === null) continue;
+        valueLabels.push({
+            text: threshold.label,
+            color: threshold.color ?? THRESHOLD_COLOR,
+            offset,
+        });
+    }
+
+    for (const band of overlays.bands ?? []) {
+        // Label the middle of the band
+        const offset = valueOffset(scales.value((band.from + band.to) / 2));
+        if (!band.label || offset === null) continue;
+        valueLabels.push({ text: band.label, color: band.color ?? BAND_COLOR, offset });
+    }
+
+    for (const annotation of overlays.annotations ?? []) {
+        const offset = categoryOffset(scales.category(annotationX(annotation)));
+        if (!annotation.label || offset === null) continue;
+        categoryLabels.push({
+            text: annotation.label,
+            color: annotation.color ?? ANNOTATION_COLOR,
+            offset,
+        });
+    }
+
+    return horizontal
+        ? { side: categoryLabels, bottom: valueLabels }
+        : { side: valueLabels, bottom: categoryLabels };
+}
+
+/**
+ * Space needed for overlay labels, known before the plot is measured
+ *
+ * @returns sideWidth - Label column width including its margin (0 when unused)
+ * @returns bottomHeight - Rows below the X-axis (0 or 1)
+ */
+export function measureOverlayLabels(
+    overlays: ChartOverlays,
+    orientation: 'vertical' | 'horizontal' = 'vertical',
+): { sideWidth: number; bottomHeight: number } {
+    const valueTexts = [...(overlays.thresholds ?? []), ...(overlays.bands ?? [])]
+        .map((item) => item.label ?? '')
+        .filter(Boolean);
+    const categoryTexts = (overlays.annotations ?? [])
+        .map((item) => item.label ?? '')
+        .filter(Boolean);
+
+    const sideTexts = orientation === 'horizontal' ? categoryTexts : valueTexts;
+    const bottomTexts = orientation === 'horizontal' ? valueTexts : categoryTexts;
+
+    const longest = Math.max(0, ...sideTexts.map((text) => text.length));
+    return {
+        sideWidth: longest > 0 ? longest + 1 : 0,
+        bottomHeight: bottomTexts.length > 0 ? 1 : 0,
+    };
+}
+
+/**
+ * Assign side labels to rows, moving a label to the nearest free row when two collide
+ */
+export function layoutSideLabels(
+    labels: OverlayLabel[],
+    rows: number,
+): Array<OverlayLabel | undefined> {
+    const result: Array<OverlayLabel | undefined> = Array.from({ length: rows });
+
+    for (const label of labels) {
+        for (let distance = 0; distance < rows; distance++) {
+            const below = label.offset + distance;
+            const above = label.offset - distance;
+            if (below < rows && !result[below]) {
+                result[below] = label;
+                break;
+            }
+            if (above >= 0 && !result[above]) {
+                result[above] = label;
+                break;
+            }
+        }
+    }
+
+    return result;
+}
@@ -4,8 +4,12 @@
  * Unified base property interface for all chart components
  */
 
-import type { RendererType } from '../../core/renderer';
+import type { RendererName } from '../../core/renderer';
+import type { GapMode, SeriesValue } from '../../utils/gaps';
 import type { ColorPalette } from '../../utils/gradient';
+import type { ScaleType } from '../../utils/scale';
+import type { ChartAnnotation, ChartBand, ChartThreshold } from './chartOverlays';
+import type { ChartPoint, ChartViewport, YAxisSide } from './chartUtils';
 
 /**
  * Basic chart dimensions and renderer configuration
@@ -18,10 +22,10 @@ export interface BaseChartProps {
     height?: number;
 
     /** Manually specify Renderer type */
-    renderer?: RendererType;
+    renderer?: RendererName;
 
     /** Custom renderer fallback chain */
-    rendererChain?: RendererType[];
+    rendererChain?: RendererName[];
 
     /**
      * Width offset
@@ -94,24 +98,109 @@ export interface AxisProps {
 
     /** Whether to force Y-axis ticks to be integers (default false) */
     yIntegerScale?: boolean;
+
+    /**
+     * X-axis scale type
+     * 'time' interprets X values as epoch milliseconds (default when data uses Date X values)
+     */
+    xScale?: 'linear' | 'time';
+
+    /**
+     * Y-axis scale type (default 'linear')
+     * 'log' suits positive data spanning orders of magnitude (values <= 0 sit on the bottom edge);
+     * 'symlog' is logarithmic away from zero and also handles zero and negative values
+     */
+    yScale?: ScaleType;
+
+    /** Right Y-axis tick count (defaults to yTickCount; LineChart with right-axis series) */
+    y2TickCount?: number;
+
+    /** Right Y-axis tick formatter */
+    y2TickFormat?: (value: number) => string;
+
+    /** Right Y-axis scale type (default 'linear') */
+    y2Scale?: ScaleType;
 }
 
 /**
  * Time series data configuration (shared by LineChart/AreaChart/BarChart)
  */
 export interface SeriesDataProps {
-    /** Multi-series data */
+    /**
+     * Multi-series data
+     * Each series is either plain Y values (index-based X) or {x, y} points with numeric or Date X
+     * Missing samples may be null/undefined/NaN
+     */
     series?: Array<{
         name: string;
-        data: number[];
+        data: SeriesValue[] | ChartPoint[];
         color?: string;
+        /** Y axis to plot against (default 'left'; 'right' is supported by LineChart) */
+        axis?: YAxisSide;
     }>;
 
     /** Single-series data (simplified) */
-    data?: number[];
+    data?: SeriesValue[] | ChartPoint[];
 
     /** Single-series name (simplified) */
     seriesName?: string;
+
+    /** How missing samples are drawn (default 'break') */
+    gapMode?: GapMode;
+}
+
+/**
+ * Keyboard inspection configuration (shared by LineChart/AreaChart/BarChart)
+ */
+export interface InteractionProps {
+    /**
+     * Enable keyboard inspection (default false)
+     * When focused, ←/→ move a cursor column and a tooltip row shows each series' value
+     */
+    interactive?: boolean;
+
+    /** Focus the chart on mount when interactive or zoomable (default false) */
+    autoFocus?: boolean;
+
+    /** Called with the selected data index when the cursor moves */
+    onCursorChange?: (index: number) => void;
+}
+
+/**
+ * Zoom/pan configuration (shared by LineChart/AreaChart/BarChart)
+ */
+export interface ViewportProps {
+    /** Visible index window (controlled, end exclusive) */
+    viewport?: ChartViewport;
+
+    /** Initial index window when uncontrolled (default: full range) */
+    defaultViewport?: ChartViewport;
+
+    /** Called with the requested window on every zoom/pan */
+    onViewportChange?: (viewport: ChartViewport) => void;
+
+    /**
+     * Enable keyboard zoom/pan when focused (default false)
+     * `+`/`-` zoom, `[`/`]` pan (←/→ too when not interactive), `0` resets
+     */
+    zoomable?: boolean;
+
+    /** Show an overview strip of the first series marking the visible window (default false) */
+    showOverview?: boolean;
+}
+
+/**
+ * Overlay configuration (shared by LineChart/AreaChart/BarChart)
+ */
+export interface OverlayProps {
+    /** Horizontal reference lines (the Y-axis extends to keep them visible) */
+    thresholds?: ChartThreshold[];
+
+    /** Shaded Y ranges drawn behind the data */
+    bands?: ChartBand[];
+
+    /** Vertical or point markers at X positions */
+    annotations?: ChartAnnotation[];
 }
 
 /**
@@ -121,4 +210,7 @@ export type TimeSeriesChartProps = BaseChartProps &
     LegendProps &
     ColorProps &
     AxisProps &
-    SeriesDataProps;
+    SeriesDataProps &
+    InteractionProps &
+    ViewportProps &
+    OverlayProps;
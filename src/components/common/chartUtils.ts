@@ -1,8 +1,18 @@
 import { useContext } from 'react';
 import type { Renderer } from '../../core/renderer';
+import type { Pixel } from '../../core/types';
+import { type SeriesValue, isPresent } from '../../utils/gaps';
 import { type ColorPalette, assignColors } from '../../utils/gradient';
-import { linearScale } from '../../utils/scale';
+import {
+    type ScaleType,
+    linearScale,
+    logDomain,
+    logTicks,
+    scaleByType,
+    symlogTicks,
+} from '../../utils/scale';
 import { GridItemContext } from '../Grid';
+import { type ChartOverlays, measureOverlayLabels } from './chartOverlays';
 
 /**
  * Chart Layout Configuration
@@ -10,7 +20,7 @@ import { GridItemContext } from '../Grid';
 /* ... existing code ... */
 
 export function resolveSeriesColors(
-    series: ChartSeries[],
+    series: Array<{ name: string }>,
     colors?: string[],
     palette?: ColorPalette,
 ): string[] {
@@ -69,6 +79,26 @@ export interface ChartLayoutConfig {
     yTickCount?: number;
     /** Y-axis tick formatter */
     yTickFormat?: (value: number) => string;
+    /** Y-axis scale type (affects tick labels) */
+    yScale?: ScaleType;
+    /** Right Y-axis (reserves a second label column when given) */
+    rightAxis?:
+        | {
+              min: number;
+              max: number;
+              tickCount?: number | undefined;
+              tickFormat?: ((value: number) => string) | undefined;
+              scale?: ScaleType | undefined;
+          }
+        | undefined;
+    /** Reserve a row for the inspection tooltip */
+    showTooltip?: boolean;
+    /** Reserve a row for the viewport overview strip */
+    showOverview?: boolean;
+    /** Width of the overlay label column right of the plot (including its margin) */
+    overlayLabelWidth?: number;
+    /** Rows reserved for overlay labels below the X-axis */
+    overlayLabelHeight?: number;
     /** Default width if not in grid (default: 60) */
     defaultWidth?: number;
     /** Default height if not in grid (default: 15) */
@@ -93,12 +123,22 @@ export interface ChartLayoutResult {
     plotHeight: number;
     /** Width of the Y-axis label area */
     yAxisWidth: number;
+    /** Width of the right Y-axis label area (0 without a right axis) */
+    rightAxisWidth: number;
     /** Height of the legend area (if top/bottom) */
     legendHeight: number;
     /** Width of the legend area (if right) */
     legendWidth: number;
     /** Height of the X-axis area */
     xAxisHeight: number;
+    /** Height of the inspection tooltip row */
+    tooltipHeight: number;
+    /** Height of the viewport overview strip */
+    overviewHeight: number;
+    /** Width of the overlay label column (including its margin) */
+    overlayLabelWidth: number;
+    /** Height of the overlay label row below the X-axis */
+    overlayLabelHeight: number;
 }
 
 /**
@@ -119,6 +159,12 @@ export function useChartLayout(
         xAxisLabel,
         yTickCount = 5,
         yTickFormat,
+        yScale = 'linear',
+        rightAxis,
+        showTooltip = false,
+        showOverview = false,
+        overlayLabelWidth: requestedOverlayLabelWidth = 0,
+        overlayLabelHeight = 0,
         defaultWidth = 60,
         defaultHeight = 15,
         min,
@@ -148,11 +194,27 @@ export function useChartLayout(
               min,
               max,
               tickCount: yTickCount,
-              tickFormat: yTickFormat ?? defaultTickFormat,
+              tickFormat: yTickFormat,
+              scale: yScale,
           })
         : 0;
 
+    const rightAxisWidth =
+        showYAxis && rightAxis
+            ? getYAxisLabelWidth({
+                  min: rightAxis.min,
+                  max: rightAxis.max,
+                  tickCount: rightAxis.tickCount ?? yTickCount,
+                  tickFormat: rightAxis.tickFormat,
+                  scale: rightAxis.scale,
+              })
+            : 0;
+
     const effectiveXAxisHeight = showXAxis ? 1 + (xAxisLabel ? 1 : 0) : 0;
+    const tooltipHeight = showTooltip ? 1 : 0;
+    const overviewHeight = showOverview ? 1 : 0;
+    // Long labels are truncated rather than squeezing the plot
+    const overlayLabelWidth = Math.min(requestedOverlayLabelWidth, Math.floor(totalWidth / 4));
 
     let legendWidth = 0;
     let legendHeight = 0;
@@ -168,17 +230,29 @@ export function useChartLayout(
 
     // 3. Calculate Plot Dimensions
     // Width: Total - YAxis - RightLegend - (Spacing)
-    const yAxisSpacing = showYAxis ? 1 : 0;
+    const yAxisSpacing = (showYAxis ? 1 : 0) + (rightAxisWidth > 0 ? 1 : 0);
     const legendSpacing = showLegend && legendPosition === 'right' ? 2 : 0;
 
     const plotWidth = Math.max(
         1,
-        totalWidth - yAxisWidth - yAxisSpacing - legendWidth - legendSpacing,
+        totalWidth -
+            yAxisWidth -
+            rightAxisWidth -
+            yAxisSpacing -
+            overlayLabelWidth -
+            legendWidth -
+            legendSpacing,
     );
 
     const plotHeight = Math.max(
         1,
-        totalHeight - heightOffset - legendHeight - effectiveXAxisHeight,
+        totalHeight -
+            heightOffset -
+            legendHeight -
+            effectiveXAxisHeight -
+            tooltipHeight -
+            overviewHeight -
+            overlayLabelHeight,
     );
 
     return {
@@ -187,9 +261,14 @@ export function useChartLayout(
         plotWidth,
         plotHeight,
         yAxisWidth,
+        rightAxisWidth,
         legendHeight,
         legendWidth,
         xAxisHeight: effectiveXAxisHeight,
+        tooltipHeight,
+        overviewHeight,
+        overlayLabelWidth,
+        overlayLabelHeight,
     };
 }
 
@@ -197,7 +276,7 @@ export function useChartLayout(
  * Simplified Chart layout props interface
  * Can be directly destructured from chart component props
  */
-export interface ChartLayoutProps {
+export interface ChartLayoutProps extends ChartOverlays {
     width?: number;
     height?: number;
     showAxis?: boolean;
@@ -209,6 +288,16 @@ export interface ChartLayoutProps {
     yAxisLabel?: string;
     yTickCount?: number;
     yTickFormat?: (value: number) => string;
+    yScale?: ScaleType;
+    y2TickCount?: number;
+    y2TickFormat?: (value: number) => string;
+    y2Scale?: ScaleType;
+    /** Keyboard inspection (reserves the tooltip row) */
+    interactive?: boolean;
+    /** Viewport overview strip (reserves a row) */
+    showOverview?: boolean;
+    /** Bar orientation (decides which edge overlay labels sit on) */
+    orientation?: 'vertical' | 'horizontal';
     /** @deprecated Recommend wrapping chart with `<Panel>` */
     widthOffset?: number;
     /** @deprecated Recommend wrapping chart with `<Panel>` */
@@ -234,6 +323,8 @@ export function useChartLayoutSimple(
     props: ChartLayoutProps,
     min: number,
     max: number,
+    /** Right Y-axis extent (dual-axis charts only) */
+    rightExtent?: { min: number; max: number } | null,
 ): ChartLayoutResult {
     const {
         width: propsWidth,
@@ -247,6 +338,10 @@ export function useChartLayoutSimple(
         yAxisLabel,
         yTickCount = 5,
         yTickFormat,
+        yScale = 'linear',
+        interactive = false,
+        showOverview = false,
+        orientation = 'vertical',
         widthOffset = 0,
         heightOffset = 0,
     } = props;
@@ -254,6 +349,7 @@ export function useChartLayoutSimple(
     // Resolve relationship between showAxis and showXAxis/showYAxis
     const renderXAxis = showXAxis ?? showAxis;
     const renderYAxis = showYAxis ?? showAxis;
+    const overlayLabels = measureOverlayLabels(props, orientation);
 
     return useChartLayout(
         {
@@ -271,24 +367,103 @@ export function useChartLayoutSimple(
             ...(yAxisLabel && { yAxisLabel }),
             yTickCount,
             ...(yTickFormat && { yTickFormat }),
+            yScale,
+            ...(rightExtent && {
+                rightAxis: {
+                    ...rightExtent,
+                    tickCount: props.y2TickCount ?? yTickCount,
+                    tickFormat: props.y2TickFormat,
+                    scale: props.y2Scale,
+                },
+            }),
+            showTooltip: interactive,
+            showOverview,
+            overlayLabelWidth: overlayLabels.sideWidth,
+            overlayLabelHeight: overlayLabels.bottomHeight,
             min,
             max,
         },
     );
 }
 
+/**
+ * Data point with an explicit X value
+ * Date X values are converted to epoch milliseconds and enable the time axis
+ */
+export interface ChartPoint {
+    x: number | Date;
+    /** Y value (null/undefined/NaN marks a gap) */
+    y: SeriesValue;
+}
+
+/**
+ * Series data as accepted by chart props
+ */
+export interface ChartSeriesInput {
+    name: string;
+    data: SeriesValue[] | ChartPoint[];
+    color?: string;
+    /** Y axis the series is plotted against (default 'left') */
+    axis?: YAxisSide;
+}
+
+/**
+ * Side of the plot a Y axis is drawn on
+ */
+export type YAxisSide = 'left' | 'right';
+
+/**
+ * Normalized series data used for drawing
+ */
 export interface ChartSeries {
     name: string;
-    data: number[];
+    /** Y values (null/undefined/NaN are gaps) */
+    data: SeriesValue[];
+    /** X values (same length as data); absent means index-based placement */
+    x?: number[];
+    /** Whether X values came from Date objects */
+    timeX?: boolean;
     color?: string;
+    axis?: YAxisSide;
+}
+
+/**
+ * Split {x, y} point data into parallel X/Y arrays
+ */
+export function normalizeSeries(input: ChartSeriesInput): ChartSeries {
+    const { data } = input;
+    if (!data.some((item) => typeof item === 'object' && item !== null)) {
+        return input as ChartSeries;
+    }
+
+    const points = data as ChartPoint[];
+    const series: ChartSeries = {
+        name: input.name,
+        data: points.map((p) => p.y),
+        x: points.map((p) => (p.x instanceof Date ? p.x.getTime() : p.x)),
+    };
+    if (points.some((p) => p.x instanceof Date)) {
+        series.timeX = true;
+    }
+    if (input.color !== undefined) {
+        series.color = input.color;
+    }
+    if (input.axis !== undefined) {
+        series.axis = input.axis;
+    }
+    return series;
 }
 
 export function buildSeriesInputParams(
-    series?: ChartSeries[],
-    data?: number[],
+    series?: ChartSeriesInput[],
+    data?: SeriesValue[] | ChartPoint[],
     seriesName?: string,
-): { series?: ChartSeries[]; data?: number[]; seriesName?: string } {
-    const params: { series?: ChartSeries[]; data?: number[]; seriesName?: string } = {};
+): { series?: ChartSeriesInput[]; data?: SeriesValue[] | ChartPoint[]; seriesName?: string } {
+    const params: {
+        series?: ChartSeriesInput[];
+        data?: SeriesValue[] | ChartPoint[];
+        seriesName?: string;
+    } = {};
     if (series !== undefined) {
         params.series = series;
     }
@@ -302,20 +477,20 @@ export function buildSeriesInputParams(
 }
 
 export function resolveSeriesInput(params: {
-    series?: ChartSeries[];
-    data?: number[];
+    series?: ChartSeriesInput[];
+    data?: SeriesValue[] | ChartPoint[];
     seriesName?: string;
 }): ChartSeries[] {
     const { series, data, seriesName } = params;
     if (series && series.length > 0) {
-        return series;
+        return series.map(normalizeSeries);
     }
     if (data && data.length > 0) {
         return [
-            {
+            normalizeSeries({
                 name: seriesName ?? 'Series',
                 data,
-            },
+            }),
         ];
     }
     return [];
@@ -325,15 +500,21 @@ export function computeSeriesExtent(series: ChartSeries[]): {
     min: number;
     max: number;
     maxLength: number;
+    xMin: number;
+    xMax: number;
 } {
     let min = 0;
     let max = 0;
     let maxLength = 0;
     let hasValue = false;
+    let xMin = Number.POSITIVE_INFINITY;
+    let xMax = Number.NEGATIVE_INFINITY;
 
     for (const item of series) {
         maxLength = Math.max(maxLength, item.data.length);
         for (const value of item.data) {
+            // Gaps do not contribute to the Y domain
+            if (!isPresent(value)) continue;
             if (!hasValue) {
                 min = value;
                 max = value;
@@ -343,13 +524,307 @@ export function computeSeriesExtent(series: ChartSeries[]): {
             min = Math.min(min, value);
             max = Math.max(max, value);
         }
+        for (const x of item.x ?? []) {
+            xMin = Math.min(xMin, x);
+            xMax = Math.max(xMax, x);
+        }
+    }
+
+    // Without explicit X values the X domain is the data index
+    if (xMin > xMax) {
+        xMin = 0;
+        xMax = Math.max(0, maxLength - 1);
     }
 
     if (!hasValue) {
-        return { min: 0, max: 0, maxLength };
+        return { min: 0, max: 0, maxLength, xMin, xMax };
+    }
+
+    return { min, max, maxLength, xMin, xMax };
+}
+
+/**
+ * Visible index window of a chart (end is exclusive)
+ */
+export interface ChartViewport {
+    start: number;
+    end: number;
+}
+
+/**
+ * Clamp a viewport to [0, length), keeping at least one index visible
+ */
+export function clampViewport(viewport: ChartViewport, length: number): ChartViewport {
+    if (length <= 0) {
+        return { start: 0, end: 0 };
+    }
+    const start = Math.min(Math.max(0, Math.floor(viewport.start)), length - 1);
+    const end = Math.min(Math.max(start + 1, Math.ceil(viewport.end)), length);
+    return { start, end };
+}
+
+/**
+ * Scale the viewport size around its center
+ *
+ * @param factor - Size multiplier (< 1 zooms in, > 1 zooms out)
+ * @param minSize - Smallest window allowed when zooming in (default 2)
+ */
+export function zoomViewport(
+    viewport: ChartViewport,
+    factor: number,
+    length: number,
+    minSize = 2,
+): ChartViewport {
+    const size = viewport.end - viewport.start;
+    const nextSize = Math.min(
+        length,
+        Math.max(Math.min(minSize, length), Math.round(size * factor)),
+    );
+    const center = (viewport.start + viewport.end) / 2;
+    const start = Math.min(Math.max(0, Math.round(center - nextSize / 2)), length - nextSize);
+    return clampViewport({ start, end: start + nextSize }, length);
+}
+
+/**
+ * Shift the viewport by `delta` indexes without changing its size
+ */
+export function panViewport(viewport: ChartViewport, delta: number, length: number): ChartViewport {
+    const size = viewport.end - viewport.start;
+    const start = Math.min(Math.max(0, viewport.start + delta), Math.max(0, length - size));
+    return clampViewport({ start, end: start + size }, length);
+}
+
+/**
+ * Restrict every series to the viewport's index window
+ */
+export function sliceSeries(series: ChartSeries[], viewport: ChartViewport): ChartSeries[] {
+    return series.map((item) => {
+        const sliced: ChartSeries = {
+            ...item,
+            data: item.data.slice(viewport.start, viewport.end),
+        };
+        if (item.x) {
+            sliced.x = item.x.slice(viewport.start, viewport.end);
+        }
+        return sliced;
+    });
+}
+
+/**
+ * Compute the pixel X coordinate of a data point
+ *
+ * Series with explicit X values are placed on the shared [xMin, xMax] domain,
+ * so unevenly sampled data keeps its real spacing; otherwise points are spread by index.
+ */
+export function resolvePointX(params: {
+    series: ChartSeries;
+    index: number;
+    xMin: number;
+    xMax: number;
+    pixelWidth: number;
+    /** Index count used to spread index-based points */
+    length: number;
+}): number {
+    const { series, index, xMin, xMax, pixelWidth, length } = params;
+    const x = series.x?.[index];
+
+    if (x !== undefined) {
+        if (xMax === xMin) {
+            return Math.round((pixelWidth - 1) / 2);
+        }
+        return Math.round(linearScale(x, [xMin, xMax], [0, pixelWidth - 1]));
+    }
+
+    const step = length > 1 ? (pixelWidth - 1) / (length - 1) : 0;
+    return Math.round(index * step);
+}
+
+/**
+ * Series stacking mode
+ * - 'none': series share the baseline and may overlap
+ * - 'stacked': each series sits on top of the previous ones
+ * - 'percent': stacked and normalized so each index sums to 100
+ */
+export type StackMode = 'none' | 'stacked' | 'percent';
+
+/**
+ * Stacked layer of one series (values in data space, null at gaps)
+ */
+export interface StackLayer {
+    lower: Array<number | null>;
+    upper: Array<number | null>;
+}
+
+/**
+ * Compute stacked layers and their cumulative extent
+ *
+ * Layers stack by index in series order (first series at the bottom).
+ * Negative values stack downward from zero separately from positive ones;
+ * gaps contribute nothing to the stack.
+ */
+export function computeStack(
+    series: ChartSeries[],
+    mode: 'stacked' | 'percent',
+): { layers: StackLayer[]; min: number; max: number } {
+    const maxLength = Math.max(0, ...series.map((s) => s.data.length));
+    const layers: StackLayer[] = series.map(() => ({ lower: [], upper: [] }));
+    let min = 0;
+    let max = 0;
+
+    for (let i = 0; i < maxLength; i++) {
+        let total = 0;
+        if (mode === 'percent') {
+            for (const s of series) {
+                const value = s.data[i];
+                if (isPresent(value)) total += Math.abs(value);
+            }
+        }
+
+        let positiveBase = 0;
+        let negativeBase = 0;
+        for (let j = 0; j < series.length; j++) {
+            const layer = layers[j];
+            const value = series[j]?.data[i];
+            if (!layer) continue;
+
+            if (!isPresent(value)) {
+                layer.lower.push(null);
+                layer.upper.push(null);
+                continue;
+            }
+
+            const scaled = mode === 'percent' ? (total === 0 ? 0 : (value / total) * 100) : value;
+            if (scaled >= 0) {
+                layer.lower.push(positiveBase);
+                positiveBase += scaled;
+                layer.upper.push(positiveBase);
+            } else {
+                layer.lower.push(negativeBase);
+                negativeBase += scaled;
+                layer.upper.push(negativeBase);
+            }
+        }
+
+        min = Math.min(min, negativeBase);
+        max = Math.max(max, positiveBase);
+    }
+
+    // Percent stacks always span the full 0..100 range on each side in use
+    if (mode === 'percent') {
+        return { layers, min: min < 0 ? -100 : 0, max: max > 0 ? 100 : 0 };
+    }
+
+    return { layers, min, max };
+}
+
+/**
+ * Tick formatter for percent-stacked charts
+ */
+export function percentTickFormat(value: number): string {
+    return `${Math.round(value)}%`;
+}
+
+/**
+ * Dimmed color used for gap markers (gapMode 'marker')
+ */
+export const GAP_MARKER_COLOR = 'gray';
+
+/**
+ * Color of the inspection cursor
+ */
+export const CURSOR_COLOR = 'white';
+
+/**
+ * Draw the inspection cursor as a dotted line through empty pixels
+ *
+ * Data pixels are left untouched so the cursor never hides the values it points at.
+ *
+ * @param position - Pixel column (vertical cursor) or row (horizontal cursor)
+ */
+export function drawCursor(
+    renderer: Renderer,
+    canvas: Pixel[][],
+    position: number,
+    orientation: 'vertical' | 'horizontal' = 'vertical',
+): void {
+    const length = orientation === 'vertical' ? canvas.length : (canvas[0]?.length ?? 0);
+    for (let i = 0; i < length; i += 2) {
+        const x = orientation === 'vertical' ? position : i;
+        const y = orientation === 'vertical' ? i : position;
+        if (canvas[y]?.[x]?.active) continue;
+        renderer.setPixel(canvas, x, y, { active: true, color: CURSOR_COLOR });
+    }
+}
+
+/**
+ * Pixel patterns that tell series apart when colors are off, with their legend symbols
+ * Densities step down from solid; diagonals keep every line visible whatever its direction.
+ */
+export const MONO_PATTERNS: Array<{ symbol: string; visible: (x: number, y: number) => boolean }> =
+    [
+        { symbol: '█', visible: () => true },
+        { symbol: '▓', visible: (x, y) => (x + y) % 4 !== 3 },
+        { symbol: '▒', visible: (x, y) => (x + y) % 2 === 0 },
+        { symbol: '░', visible: (x, y) => (x + y) % 4 === 0 },
+    ];
+
+/**
+ * Monochrome pattern of the series at an index
+ */
+export function monoPattern(index: number): (typeof MONO_PATTERNS)[number] {
+    return MONO_PATTERNS[index % MONO_PATTERNS.length] as (typeof MONO_PATTERNS)[number];
+}
+
+/**
+ * Clear pixels of each series color outside its monochrome pattern
+ *
+ * Pixels of other colors (overlays, cursor) stay solid.
+ *
+ * @param colors - Series colors in legend order
+ */
+export function applyMonoPatterns(canvas: Pixel[][], colors: string[]): void {
+    for (const [y, row] of canvas.entries()) {
+        for (const [x, pixel] of row.entries()) {
+            if (!pixel.active || pixel.color === undefined) continue;
+            const index = colors.indexOf(pixel.color);
+            if (index > 0 && !monoPattern(index).visible(x, y)) {
+                pixel.active = false;
+            }
+        }
+    }
+}
+
+/**
+ * Compute X/Y extent of (x, y) points across all series
+ *
+ * Used by charts with a numeric X axis (e.g. ScatterChart)
+ */
+export function computePointExtent(pointSets: Array<Array<{ x: number; y: number }>>): {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+} {
+    let xMin = Number.POSITIVE_INFINITY;
+    let xMax = Number.NEGATIVE_INFINITY;
+    let yMin = Number.POSITIVE_INFINITY;
+    let yMax = Number.NEGATIVE_INFINITY;
+
+    for (const points of pointSets) {
+        for (const { x, y } of points) {
+            if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+            xMin = Math.min(xMin, x);
+            xMax = Math.max(xMax, x);
+            yMin = Math.min(yMin, y);
+            yMax = Math.max(yMax, y);
+        }
     }
 
-    return { min, max, maxLength };
+    if (xMin > xMax) {
+        return { xMin: 0, xMax: 0, yMin: 0, yMax: 0 };
+    }
+
+    return { xMin, xMax, yMin, yMax };
 }
 
 export function getPixelDimensions(
@@ -390,16 +865,36 @@ export function defaultTickFormat(value: number): string {
     return Math.round(value).toString();
 }
 
+/**
+ * Tick format for log/symlog axes
+ * Like the default format, but keeps fractional powers of ten (0.1, 0.01)
+ */
+export function logTickFormat(value: number): string {
+    const absValue = Math.abs(value);
+    if (absValue > 0 && absValue < 1) {
+        return `${value < 0 ? '-' : ''}${Number(absValue.toPrecision(2))}`;
+    }
+    return defaultTickFormat(value);
+}
+
 export function getYAxisLabelWidth(params: {
     min: number;
     max: number;
     tickCount: number;
-    tickFormat?: (value: number) => string;
+    tickFormat?: ((value: number) => string) | undefined;
+    scale?: ScaleType | undefined;
 }): number {
-    const { min, max, tickCount, tickFormat = defaultTickFormat } = params;
+    const { min, max, tickCount, scale = 'linear' } = params;
     if (tickCount <= 0) {
         return 0;
     }
+    if (scale !== 'linear') {
+        const tickFormat = params.tickFormat ?? logTickFormat;
+        const ticks =
+            scale === 'log' ? logTicks(min, max, tickCount) : symlogTicks(min, max, tickCount);
+        return Math.max(0, ...ticks.map((value) => tickFormat(value).length));
+    }
+    const tickFormat = params.tickFormat ?? defaultTickFormat;
     if (max === min) {
         return tickFormat(min).length;
     }
@@ -413,6 +908,30 @@ export function getYAxisLabelWidth(params: {
     return maxLength;
 }
 
+/**
+ * Y extents of the left and right axes
+ *
+ * `right` is null unless at least one series is assigned to the right axis. When every series
+ * is on the right, the left axis mirrors it.
+ */
+export function computeAxisExtents(series: ChartSeries[]): {
+    left: { min: number; max: number };
+    right: { min: number; max: number } | null;
+} {
+    const rightSeries = series.filter((item) => item.axis === 'right');
+    if (rightSeries.length === 0) {
+        const { min, max } = computeSeriesExtent(series);
+        return { left: { min, max }, right: null };
+    }
+    const leftSeries = series.filter((item) => item.axis !== 'right');
+    const right = computeSeriesExtent(rightSeries);
+    const left = leftSeries.length > 0 ? computeSeriesExtent(leftSeries) : right;
+    return {
+        left: { min: left.min, max: left.max },
+        right: { min: right.min, max: right.max },
+    };
+}
+
 /**
  * Compute baseline Y coordinate
  *
@@ -422,11 +941,43 @@ export function computeBaselineY(params: {
     min: number;
     max: number;
     pixelHeight: number;
+    scale?: ScaleType | undefined;
 }): number {
-    const { min, max, pixelHeight } = params;
+    const { min, max, pixelHeight, scale = 'linear' } = params;
     if (max === min) {
         return Math.round((pixelHeight - 1) / 2);
     }
+    // A log axis has no zero, so areas and bars grow from the bottom
+    if (scale === 'log') {
+        return pixelHeight - 1;
+    }
     const baselineValue = min <= 0 && max >= 0 ? 0 : min > 0 ? min : max;
-    return Math.round(linearScale(baselineValue, [min, max], [pixelHeight - 1, 0]));
+    return Math.round(scaleByType(baselineValue, [min, max], [pixelHeight - 1, 0], scale));
+}
+
+/**
+ * Resolve the Y domain for the chosen scale
+ *
+ * Log scales widen the extent to whole decades starting at the smallest positive value,
+ * since zero and negative values cannot be shown; other scales keep the extent as is.
+ */
+export function resolveValueDomain(
+    min: number,
+    max: number,
+    scale: ScaleType,
+    series: ChartSeries[],
+): { min: number; max: number } {
+    if (scale !== 'log') {
+        return { min, max };
+    }
+    let smallest = min > 0 ? min : Number.POSITIVE_INFINITY;
+    if (min <= 0) {
+        for (const item of series) {
+            for (const value of item.data) {
+                if (isPresent(value) && value > 0) smallest = Math.min(smallest, value);
+            }
+        }
+    }
+    const [low, high] = logDomain(Number.isFinite(smallest) ? smallest : 1, max);
+    return { min: low, max: high };
 }
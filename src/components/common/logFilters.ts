@@ -0,0 +1,122 @@
+/**
+ * Log filters
+ *
+ * Level threshold, include/exclude patterns and highlight rules for LogStream
+ */
+
+import type { SemanticColors } from '../../theme/ThemeContext';
+import type { LogLevel, ParsedLog } from './logParsers';
+
+/**
+ * Colors the substrings matching a pattern
+ */
+export interface LogHighlightRule {
+    pattern: RegExp;
+    /** Theme semantic color to use */
+    color: keyof SemanticColors;
+    bold?: boolean;
+}
+
+/**
+ * Line filter options
+ */
+export interface LogFilterOptions {
+    /** Hide lines below this level */
+    minLevel?: LogLevel | undefined;
+    /** Keep only lines matching one of these patterns */
+    include?: RegExp | RegExp[] | undefined;
+    /** Hide lines matching one of these patterns */
+    exclude?: RegExp | RegExp[] | undefined;
+}
+
+/**
+ * Level severity order (lines without a level rank with info)
+ */
+const LEVEL_RANK: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    success: 1,
+    unknown: 1,
+    warn: 2,
+    error: 3,
+};
+
+/**
+ * Level thresholds cycled by the interactive toggle (undefined: all lines)
+ */
+export const LEVEL_CYCLE: Array<LogLevel | undefined> = [undefined, 'info', 'warn', 'error'];
+
+/**
+ * Next threshold in the cycle
+ */
+export function nextMinLevel(current: LogLevel | undefined): LogLevel | undefined {
+    const index = LEVEL_CYCLE.indexOf(current);
+    return LEVEL_CYCLE[(index + 1) % LEVEL_CYCLE.length];
+}
+
+/**
+ * Whether a level is at or above the threshold
+ */
+export function meetsLevel(level: LogLevel, minLevel: LogLevel | undefined): boolean {
+    return minLevel === undefined || LEVEL_RANK[level] >= LEVEL_RANK[minLevel];
+}
+
+const toArray = (patterns: RegExp | RegExp[] | undefined): RegExp[] =>
+    patterns === undefined ? [] : Array.isArray(patterns) ? patterns : [patterns];
+
+// Global/sticky patterns carry lastIndex between calls; test against a fresh copy
+const testPattern = (pattern: RegExp, text: string): boolean =>
+    pattern.global || pattern.sticky
+        ? new RegExp(pattern.source, pattern.flags).test(text)
+        : pattern.test(text);
+
+/**
+ * Whether a parsed line passes the filters (patterns are tested against the raw line)
+ */
+export function matchesLogFilters(parsed: ParsedLog, options: LogFilterOptions): boolean {
+    if (!meetsLevel(parsed.level, options.minLevel)) return false;
+
+    const include = toArray(options.include);
+    if (include.length > 0 && !include.some((p) => testPattern(p, parsed.raw))) return false;
+
+    return !toArray(options.exclude).some((p) => testPattern(p, parsed.raw));
+}
+
+/**
+ * Text segment, highlighted when `rule` is set
+ */
+export interface HighlightSegment {
+    text: string;
+    rule?: LogHighlightRule;
+}
+
+/**
+ * Split text into plain and highlighted segments
+ * Where matches overlap, the earliest wins (then the first rule).
+ */
+export function splitHighlights(text: string, rules: LogHighlightRule[]): HighlightSegment[] {
+    if (rules.length === 0 || text === '') return [{ text }];
+
+    const matches: Array<{ start: number; end: number; order: number }> = [];
+    rules.forEach((rule, order) => {
+        const flags = rule.pattern.flags.includes('g')
+            ? rule.pattern.flags
+            : `${rule.pattern.flags}g`;
+        for (const match of text.matchAll(new RegExp(rule.pattern.source, flags))) {
+            if (match[0] === '') continue;
+            matches.push({ start: match.index, end: match.index + match[0].length, order });
+        }
+    });
+    matches.sort((a, b) => a.start - b.start || a.order - b.order);
+
+    const segments: HighlightSegment[] = [];
+    let position = 0;
+    for (const { start, end, order } of matches) {
+        if (start < position) continue;
+        if (start > position) segments.push({ text: text.slice(position, start) });
+        segments.push({ text: text.slice(start, end), rule: rules[order] as LogHighlightRule });
+        position = end;
+    }
+    if (position < text.length) segments.push({ text: text.slice(position) });
+    return segments;
+}
@@ -0,0 +1,335 @@
+/**
+ * Log line parsers
+ *
+ * Turn raw log lines into a timestamp, level, message and structured fields.
+ * Built-in formats: plain text, JSON lines, logfmt, syslog (RFC 3164 / 5424) and nginx
+ */
+
+/**
+ * Log level
+ */
+export type LogLevel = 'info' | 'warn' | 'error' | 'success' | 'debug' | 'unknown';
+
+/**
+ * Result of a log parser
+ */
+export interface LogRecord {
+    timestamp?: string | undefined;
+    /** Level name or number; normalized with `normalizeLevel` (the level field wins when set) */
+    level?: string | number | undefined;
+    message: string;
+    /** Structured fields, shown as key=value pairs */
+    fields?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Log parser: returns null when the line is not in its format (the plain parser is used instead)
+ */
+export type LogParser = (line: string) => LogRecord | null;
+
+/**
+ * Built-in parser names ('auto' tries JSON, syslog, nginx and logfmt in turn)
+ */
+export type LogParserName = 'plain' | 'json' | 'logfmt' | 'syslog' | 'nginx' | 'auto';
+
+/**
+ * Parsed log line, ready to display
+ */
+export interface ParsedLog {
+    timestamp?: string;
+    level: LogLevel;
+    message: string;
+    /** Remaining structured fields as display strings */
+    fields: Array<[string, string]>;
+    raw: string;
+}
+
+/**
+ * Field names that carry the message and timestamp in structured logs
+ */
+const MESSAGE_FIELDS = ['msg', 'message'];
+const TIME_FIELDS = ['time', 'ts', 'timestamp', '@timestamp'];
+
+/**
+ * Level aliases (including syslog and common logger names)
+ */
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+    error: 'error',
+    err: 'error',
+    fatal: 'error',
+    crit: 'error',
+    critical: 'error',
+    alert: 'error',
+    emerg: 'error',
+    panic: 'error',
+    warn: 'warn',
+    warning: 'warn',
+    info: 'info',
+    information: 'info',
+    notice: 'info',
+    debug: 'debug',
+    trace: 'debug',
+    verbose: 'debug',
+    success: 'success',
+};
+
+/**
+ * Map a level name or number to a LogLevel
+ * Numbers follow pino/bunyan (10 trace … 60 fatal).
+ */
+export function normalizeLevel(value: unknown): LogLevel {
+    if (typeof value === 'number') {
+        if (value >= 50) return 'error';
+        if (value >= 40) return 'warn';
+        if (value >= 30) return 'info';
+        return 'debug';
+    }
+    if (typeof value !== 'string') return 'unknown';
+    return LEVEL_ALIASES[value.trim().toLowerCase()] ?? 'unknown';
+}
+
+/**
+ * Shorten a timestamp to its time of day when it has one (ISO strings, epoch numbers)
+ */
+function formatTimestamp(value: unknown): string | undefined {
+    if (typeof value === 'number') {
+        // Epoch seconds or milliseconds
+        const date = new Date(value < 1e12 ? value * 1000 : value);
+        return Number.isNaN(date.getTime()) ? String(value) : date.toTimeString().slice(0, 8);
+    }
+    if (typeof value !== 'string' || value === '') return undefined;
+    return value.match(/(?<!\d)\d{2}:\d{2}:\d{2}/)?.[0] ?? value;
+}
+
+/**
+ * Take the message and timestamp out of structured fields
+ */
+function fromFields(fields: Record<string, unknown>): LogRecord {
+    const rest = { ...fields };
+    const take = (names: string[]) => {
+        const name = names.find((key) => rest[key] !== undefined);
+        if (name === undefined) return undefined;
+        const value = rest[name];
+        delete rest[name];
+        return value;
+    };
+    const message = take(MESSAGE_FIELDS);
+    return {
+        timestamp: formatTimestamp(take(TIME_FIELDS)),
+        message: message === undefined ? '' : String(message),
+        fields: rest,
+    };
+}
+
+/**
+ * Plain text: optional leading time and a level tag at the start of the message
+ * ("[ERROR] ...", "WARN: ...", "info - ..."); level words elsewhere in the text are not levels
+ */
+export const plainParser = (line: string): LogRecord => {
+    // Timestamp, e.g. "2023-01-01 12:00:00", "12:00:00", "[12:00:00]"
+    const timeMatch = line.match(/\[?(\d{2,4}-\d{2}-\d{2}\s)?(\d{2}:\d{2}:\d{2})\]?/);
+    let content = line;
+    let timestamp: string | undefined;
+    if (timeMatch) {
+        content = content.replace(timeMatch[0], '').trim();
+        // Remove brackets for cleaner display
+        timestamp = timeMatch[0].replace(/^\[|\]$/g, '');
+    }
+
+    const levelMatch = content.match(/^\[?([a-z]+)\]?(?=[\s:-]|$)/i);
+    const level = levelMatch?.[1] ? normalizeLevel(levelMatch[1]) : 'unknown';
+    if (levelMatch && level !== 'unknown') {
+        // Remove the tag and separators like ":" or "-"
+        content = content
+            .slice(levelMatch[0].length)
+            .replace(/^[:\-\s]+/, '')
+            .trim();
+    }
+
+    return { timestamp, level, message: content || line };
+};
+
+/**
+ * JSON lines: one object per line
+ */
+export const jsonParser: LogParser = (line) => {
+    const text = line.trim();
+    if (!text.startsWith('{')) return null;
+    try {
+        const value: unknown = JSON.parse(text);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+        return fromFields(value as Record<string, unknown>);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * logfmt: key=value pairs, values optionally double-quoted
+ *
+ * A line is logfmt when most of its tokens are pairs, so plain text that mentions one
+ * ("Started server with port=8080") is left to the plain parser. Words outside the pairs
+ * are kept as text at the start of the message.
+ */
+export const logfmtParser: LogParser = (line) => {
+    const fields: Record<string, unknown> = {};
+    const words: string[] = [];
+    let pairs = 0;
+    for (const match of line.matchAll(/([^\s=]+)(?:=("(?:[^"\\]|\\.)*"|\S*))?/g)) {
+        const [token, key, value] = match;
+        if (key === undefined || value === undefined) {
+            words.push(token);
+            continue;
+        }
+        fields[key] = value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+        pairs++;
+    }
+    if (pairs <= words.length) return null;
+
+    const record = fromFields(fields);
+    return { ...record, message: [...words, record.message].filter(Boolean).join(' ') };
+};
+
+/**
+ * Syslog severities (0 emerg … 7 debug)
+ */
+const SYSLOG_SEVERITIES: LogLevel[] = [
+    'error',
+    'error',
+    'error',
+    'error',
+    'warn',
+    'info',
+    'info',
+    'debug',
+];
+
+/**
+ * Syslog: RFC 5424 ("<PRI>1 TIMESTAMP HOST APP PROCID MSGID SD MSG") and RFC 3164 /
+ * syslog files ("[<PRI>]Mmm dd hh:mm:ss HOST TAG[PID]: MSG")
+ */
+export const syslogParser: LogParser = (line) => {
+    const rfc5424 = line.match(
+        /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (?:-|(?:\[[^\]]*\])+) ?(.*)$/,
+    );
+    if (rfc5424) {
+        const [, pri, time, host, app, pid, msgid, message = ''] = rfc5424;
+        return {
+            timestamp: formatTimestamp(time),
+            level: SYSLOG_SEVERITIES[Number(pri) % 8],
+            message,
+            fields: withoutNil({ host, app, pid, msgid }),
+        };
+    }
+
+    const rfc3164 = line.match(
+        /^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([^\s:[]+)(?:\[(\d+)\])?: ?(.*)$/,
+    );
+    if (rfc3164) {
+        const [, pri, time, host, app, pid, message = ''] = rfc3164;
+        // Without a priority, a level tag may lead the message
+        const plain = pri === undefined ? plainParser(message) : null;
+        return {
+            timestamp: formatTimestamp(time),
+            level: pri !== undefined ? SYSLOG_SEVERITIES[Number(pri) % 8] : plain?.level,
+            message: plain?.message ?? message,
+            fields: withoutNil({ host, app, pid }),
+        };
+    }
+    return null;
+};
+
+/**
+ * nginx: access logs in the combined format (level by status: 5xx error, 4xx warn)
+ * and error logs ("yyyy/mm/dd hh:mm:ss [level] pid#tid: message")
+ */
+export const nginxParser: LogParser = (line) => {
+    const access = line.match(
+        /^(\S+) \S+ (\S+) \[([^\]]+)\] "([^"]*)" (\d{3}) (\d+|-)(?: "([^"]*)" "([^"]*)")?/,
+    );
+    if (access) {
+        const [, remote, user, time, request = '', status = '', bytes, referer, agent] = access;
+        const code = Number(status);
+        return {
+            timestamp: formatTimestamp(time),
+            level: code >= 500 ? 'error' : code >= 400 ? 'warn' : 'info',
+            message: request,
+            fields: withoutNil({
+                status,
+                bytes,
+                remote,
+                user,
+                referer,
+                agent,
+            }),
+        };
+    }
+
+    const error = line.match(/^(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) \[(\w+)\] (\d+)#\d+: (.*)$/);
+    if (error) {
+        const [, time, level, pid, message = ''] = error;
+        return { timestamp: formatTimestamp(time), level, message, fields: withoutNil({ pid }) };
+    }
+    return null;
+};
+
+/**
+ * Drop missing fields ('-' is the nil value in syslog and nginx logs)
+ */
+function withoutNil(fields: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value != null && value !== '-'),
+    );
+}
+
+/**
+ * Built-in parsers by name
+ */
+export const LOG_PARSERS: Record<LogParserName, LogParser> = {
+    plain: plainParser,
+    json: jsonParser,
+    logfmt: logfmtParser,
+    syslog: syslogParser,
+    nginx: nginxParser,
+    auto: (line) =>
+        jsonParser(line) ?? syslogParser(line) ?? nginxParser(line) ?? logfmtParser(line),
+};
+
+/**
+ * Field value as display text
+ */
+function formatFieldValue(value: unknown): string {
+    if (typeof value === 'string') return /\s/.test(value) ? JSON.stringify(value) : value;
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Parse a log line
+ *
+ * Lines the parser does not recognize fall back to the plain parser. When the record has a
+ * `levelField` field, it sets the level and is removed from the displayed fields.
+ */
+export function parseLogLine(
+    line: string,
+    parser: LogParserName | LogParser = 'plain',
+    levelField = 'level',
+): ParsedLog {
+    const parse = typeof parser === 'function' ? parser : LOG_PARSERS[parser];
+    const record = parse(line) ?? plainParser(line);
+
+    const fields = { ...record.fields };
+    let level = normalizeLevel(record.level);
+    if (fields[levelField] !== undefined) {
+        level = normalizeLevel(fields[levelField]);
+        delete fields[levelField];
+    }
+
+    return {
+        ...(record.timestamp ? { timestamp: record.timestamp } : {}),
+        level,
+        message: record.message,
+        fields: Object.entries(fields).map(([key, value]) => [key, formatFieldValue(value)]),
+        raw: line,
+    };
+}
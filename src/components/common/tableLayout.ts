@@ -0,0 +1,248 @@
+/**
+ * Table column layout
+ *
+ * Fits columns to the available width: grow by flex, shrink toward minimum widths,
+ * hide low-priority columns, and scroll the unpinned columns when they still do not fit
+ */
+
+import type { TableColumn } from '../Table';
+
+/**
+ * Narrowest a column shrinks by default (one character plus cell padding)
+ */
+export const DEFAULT_MIN_WIDTH = 3;
+
+/**
+ * Resolved sizing constraints of a column
+ */
+export interface ColumnSpec {
+    /** Preferred width (content width, or the fixed `width`) */
+    width: number;
+    min: number;
+    max: number;
+    /** Share of extra space (undefined: grow in proportion to `width`) */
+    flex: number | undefined;
+    /** Hiding order when space is short (undefined: never hidden) */
+    priority: number | undefined;
+    pinned: boolean;
+}
+
+/**
+ * Visible column and its final width
+ */
+export interface ColumnPlacement {
+    /** Index into the column definitions */
+    index: number;
+    width: number;
+}
+
+/**
+ * Column layout result
+ */
+export interface ColumnLayout {
+    /** Columns to render, in order */
+    columns: ColumnPlacement[];
+    /** Indexes of columns hidden for lack of space */
+    hidden: number[];
+    /** Number of unpinned columns that scroll horizontally (0 when everything fits) */
+    scrollCount: number;
+    /** Horizontal scroll offset, clamped to the scrollable columns */
+    scrollOffset: number;
+    /** Number of scrollable columns currently on screen */
+    scrollVisible: number;
+}
+
+/**
+ * Resolve column constraints from their definitions and measured content widths
+ */
+export function resolveColumnSpecs<T>(
+    columns: TableColumn<T>[],
+    contentWidths: number[],
+): ColumnSpec[] {
+    return columns.map((col, i) => {
+        const content = contentWidths[i] ?? DEFAULT_MIN_WIDTH;
+        if (col.width) {
+            return {
+                width: col.width,
+                min: col.width,
+                max: col.width,
+                flex: 0,
+                priority: col.priority,
+                pinned: !!col.pinned,
+            };
+        }
+        const max = col.maxWidth ?? Number.POSITIVE_INFINITY;
+        const min = Math.min(col.minWidth ?? Math.min(content, DEFAULT_MIN_WIDTH), max);
+        return {
+            width: Math.min(Math.max(content, min), max),
+            min,
+            max,
+            flex: col.flex,
+            priority: col.priority,
+            pinned: !!col.pinned,
+        };
+    });
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+/**
+ * Distribute `amount` by weight, capping each share at `limits`; rounding remainders go to the
+ * last columns that can still take them
+ */
+function distribute(amount: number, weights: number[], limits: number[]): number[] {
+    const shares = weights.map(() => 0);
+    let remaining = amount;
+
+    // Repeat while capped columns free up space for the others
+    while (remaining > 0) {
+        const open = weights.map((w, i) => (w > 0 && (shares[i] ?? 0) < (limits[i] ?? 0) ? w : 0));
+        const totalWeight = sum(open);
+        if (totalWeight === 0) break;
+
+        let given = 0;
+        open.forEach((w, i) => {
+            const room = (limits[i] ?? 0) - (shares[i] ?? 0);
+            const share = Math.min(room, Math.floor((remaining * w) / totalWeight));
+            shares[i] = (shares[i] ?? 0) + share;
+            given += share;
+        });
+
+        if (given === 0) {
+            // Hand out the rounding remainder one character at a time, from the right
+            for (let i = open.length - 1; i >= 0 && remaining - given > 0; i--) {
+                if ((open[i] ?? 0) > 0 && (shares[i] ?? 0) < (limits[i] ?? 0)) {
+                    shares[i] = (shares[i] ?? 0) + 1;
+                    given++;
+                }
+            }
+            if (given === 0) break;
+        }
+        remaining -= given;
+    }
+    return shares;
+}
+
+/**
+ * Fit columns into `available` characters, growing by flex or shrinking toward their minimums
+ */
+export function fitColumns(specs: ColumnSpec[], available: number): number[] {
+    const widths = specs.map((s) => s.width);
+    const total = sum(widths);
+
+    if (total > available) {
+        const slack = specs.map((s) => s.width - s.min);
+        const shrink = distribute(total - available, slack, slack);
+        return widths.map((w, i) => w - (shrink[i] ?? 0));
+    }
+
+    // Explicit flex wins; otherwise columns grow in proportion to their content
+    const hasFlex = specs.some((s) => s.flex !== undefined && s.flex > 0);
+    const weights = specs.map((s) => (hasFlex ? (s.flex ?? 0) : s.flex === 0 ? 0 : s.width));
+    const room = specs.map((s) => s.max - s.width);
+    const grow = distribute(available - total, weights, room);
+    return widths.map((w, i) => w + (grow[i] ?? 0));
+}
+
+/**
+ * Lay out columns for the available width
+ *
+ * 1. Columns with a `priority` are hidden, lowest first, until the minimum widths fit
+ * 2. If they still do not fit, pinned columns stay and the rest scroll from `scrollOffset`
+ * 3. The columns on screen are fitted to the width
+ */
+export function layoutColumns(
+    specs: ColumnSpec[],
+    available: number | undefined,
+    scrollOffset = 0,
+): ColumnLayout {
+    const all = specs.map((_, index) => index);
+    if (available === undefined) {
+        return {
+            columns: all.map((index) => ({ index, width: specs[index]?.width ?? 0 })),
+            hidden: [],
+            scrollCount: 0,
+            scrollOffset: 0,
+            scrollVisible: 0,
+        };
+    }
+
+    const minOf = (indexes: number[]) => sum(indexes.map((i) => specs[i]?.min ?? 0));
+
+    // 1. Hide by priority (ties: rightmost first)
+    let visible = all;
+    const hidden: number[] = [];
+    while (minOf(visible) > available) {
+        const candidate = visible
+            .filter((i) => specs[i]?.priority !== undefined && !specs[i]?.pinned)
+            .sort((a, b) => (specs[a]?.priority ?? 0) - (specs[b]?.priority ?? 0) || b - a)[0];
+        if (candidate === undefined) break;
+        hidden.push(candidate);
+        visible = visible.filter((i) => i !== candidate);
+    }
+
+    // 2. Horizontal scrolling of the unpinned columns
+    let onScreen = visible;
+    let scrollCount = 0;
+    let offset = 0;
+    let scrollVisible = 0;
+    if (minOf(visible) > available) {
+        const pinned = visible.filter((i) => specs[i]?.pinned);
+        const scrollable = visible.filter((i) => !specs[i]?.pinned);
+        const room = available - minOf(pinned);
+
+        // Columns that fit from a start position (at least one)
+        const windowFrom = (start: number) => {
+            const window: number[] = [];
+            let used = 0;
+            for (const i of scrollable.slice(start)) {
+                const min = specs[i]?.min ?? 0;
+                if (window.length > 0 && used + min > room) break;
+                window.push(i);
+                used += min;
+            }
+            return window;
+        };
+
+        // Don't scroll past the point where the last column is already on screen
+        let maxOffset = scrollable.length - 1;
+        while (
+            maxOffset > 0 &&
+            windowFrom(maxOffset - 1).length === scrollable.length - maxOffset + 1
+        ) {
+            maxOffset--;
+        }
+
+        offset = Math.min(Math.max(0, scrollOffset), Math.max(0, maxOffset));
+        const window = windowFrom(offset);
+        onScreen = [...pinned, ...window];
+        scrollCount = scrollable.length;
+        scrollVisible = window.length;
+    }
+
+    // 3. Fit
+    const widths = fitColumns(
+        onScreen.map((i) => specs[i] as ColumnSpec),
+        available,
+    );
+    return {
+        columns: onScreen.map((index, i) => ({ index, width: widths[i] ?? 0 })),
+        hidden,
+        scrollCount,
+        scrollOffset: offset,
+        scrollVisible,
+    };
+}
+
+/**
+ * Wrap a header onto at most two lines, breaking at the last space that fits
+ * (the second line is truncated with an ellipsis)
+ */
+export function wrapHeader(text: string, width: number): string[] {
+    if (width <= 0 || text.length <= width) return [text];
+
+    const space = text.lastIndexOf(' ', width);
+    const first = space > 0 ? text.slice(0, space) : text.slice(0, width);
+    const rest = space > 0 ? text.slice(space + 1) : text.slice(width);
+    return [first, rest.length > width ? `${rest.slice(0, Math.max(0, width - 1))}…` : rest];
+}
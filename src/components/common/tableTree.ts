@@ -0,0 +1,244 @@
+/**
+ * Table tree mode
+ *
+ * Flattens hierarchical rows into display order with expansion state, indentation guides
+ * and per-column group aggregates
+ */
+
+import type { TableAggregate, TableColumn } from '../Table';
+import {
+    type SortDirection,
+    type TableRow,
+    getCellValue,
+    rowMatches,
+    sortRows,
+} from './tableUtils';
+
+/**
+ * Row in display order with its position in the tree
+ */
+export interface TreeRow<T> extends TableRow<T> {
+    /** Path of sibling indexes from the root (e.g. '0/2'); stable across sorting */
+    key: string;
+    /** Nesting level (0 for top-level rows) */
+    depth: number;
+    hasChildren: boolean;
+    expanded: boolean;
+    /** Whether this row is the last of its siblings */
+    isLast: boolean;
+    /** For each ancestor below the top level: whether its siblings continue below (draw │) */
+    guides: boolean[];
+    /** Aggregated values of group rows by column index */
+    aggregates: Map<number, number> | undefined;
+}
+
+/**
+ * Tree flattening options
+ */
+export interface FlattenTreeOptions<T> {
+    data: T[];
+    columns: TableColumn<T>[];
+    getChildren: (item: T) => T[] | undefined;
+    /** Whether a group is expanded, by row key */
+    isExpanded: (key: string) => boolean;
+    sortColumn: TableColumn<T> | undefined;
+    sortDirection: SortDirection;
+    query: string;
+}
+
+/**
+ * Combine numeric values with an aggregate function
+ *
+ * @returns Aggregated value, or undefined when there are no values
+ */
+export function aggregateValues(values: number[], fn: TableAggregate): number | undefined {
+    if (values.length === 0) return undefined;
+    switch (fn) {
+        case 'sum':
+            return values.reduce((a, b) => a + b, 0);
+        case 'avg':
+            return values.reduce((a, b) => a + b, 0) / values.length;
+        // Reduced rather than spread: large groups exceed the engine's argument limit
+        case 'max':
+            return values.reduce((a, b) => Math.max(a, b));
+        case 'min':
+            return values.reduce((a, b) => Math.min(a, b));
+    }
+}
+
+/**
+ * Numeric values of a column across every leaf below an item
+ */
+function collectLeafValues<T>(
+    item: T,
+    column: TableColumn<T>,
+    getChildren: (item: T) => T[] | undefined,
+): number[] {
+    const children = getChildren(item);
+    if (!children || children.length === 0) {
+        const value = getCellValue(item, column);
+        return typeof value === 'number' && !Number.isNaN(value) ? [value] : [];
+    }
+    return children.flatMap((child) => collectLeafValues(child, column, getChildren));
+}
+
+/**
+ * Aggregates of a group row for every column with an `aggregate`
+ */
+export function computeAggregates<T>(
+    item: T,
+    columns: TableColumn<T>[],
+    getChildren: (item: T) => T[] | undefined,
+): Map<number, number> | undefined {
+    if (!getChildren(item)?.length) return undefined;
+
+    const result = new Map<number, number>();
+    columns.forEach((col, i) => {
+        if (!col.aggregate) return;
+        const value = aggregateValues(collectLeafValues(item, col, getChildren), col.aggregate);
+        if (value !== undefined) result.set(i, value);
+    });
+    return result;
+}
+
+/**
+ * Flatten visible tree rows in display order
+ *
+ * Siblings are sorted within their level (groups by their aggregate when the sort column has one).
+ * Column filters keep a group when any descendant passes them. A search keeps the rows that match
+ * plus their ancestors, expanding groups to reveal matches below them; the children of a matching
+ * row are not searched.
+ */
+export function flattenTree<T>(options: FlattenTreeOptions<T>): TreeRow<T>[] {
+    const { columns, getChildren, isExpanded, sortColumn, sortDirection } = options;
+    const hasFilters = columns.some((col) => col.filter);
+    const result: TreeRow<T>[] = [];
+
+    // Group aggregates, computed once per item rather than on every sort comparison
+    const aggregateCache = new Map<T, Map<number, number> | undefined>();
+    const aggregatesOf = (item: T): Map<number, number> | undefined => {
+        if (!aggregateCache.has(item)) {
+            aggregateCache.set(item, computeAggregates(item, columns, getChildren));
+        }
+        return aggregateCache.get(item);
+    };
+
+    // Sort value: the aggregate for groups, the accessor value for leaves
+    const sortColumnIndex = sortColumn ? columns.indexOf(sortColumn) : -1;
+    const sortValue = (item: T, column: TableColumn<T>): unknown => {
+        if (column.aggregate && getChildren(item)?.length) {
+            return aggregatesOf(item)?.get(sortColumnIndex);
+        }
+        return getCellValue(item, column);
+    };
+
+    // Whether an item or any of its descendants passes the filters and query
+    const matches = (item: T, query: string): boolean =>
+        rowMatches(item, columns, query) ||
+        (getChildren(item) ?? []).some((child) => matches(child, query));
+
+    const visit = (
+        items: T[],
+        depth: number,
+        parentKey: string,
+        guides: boolean[],
+        query: string,
+    ) => {
+        const sorted = sortRows(items, sortColumn, sortDirection, sortValue);
+        const siblings =
+            query || hasFilters ? sorted.filter(({ item }) => matches(item, query)) : sorted;
+
+        siblings.forEach(({ item, index }, position) => {
+            const key = parentKey ? `${parentKey}/${index}` : String(index);
+            const children = getChildren(item) ?? [];
+            const hasChildren = children.length > 0;
+            const selfMatch = query !== '' && rowMatches(item, columns, query);
+            // Matches further down are revealed
+            const expanded = hasChildren && ((query !== '' && !selfMatch) || isExpanded(key));
+            const isLast = position === siblings.length - 1;
+
+            result.push({
+                item,
+                index,
+                key,
+                depth,
+                hasChildren,
+                expanded,
+                isLast,
+                guides,
+                aggregates: hasChildren ? aggregatesOf(item) : undefined,
+            });
+
+            if (expanded) {
+                const childGuides = depth > 0 ? [...guides, !isLast] : guides;
+                visit(children, depth + 1, key, childGuides, selfMatch ? '' : query);
+            }
+        });
+    };
+
+    visit(options.data, 0, '', [], options.query);
+    return result;
+}
+
+/**
+ * Guide characters per variant
+ */
+const TREE_GUIDES = {
+    unicode: {
+        line: '│  ',
+        blank: '   ',
+        branch: '├─ ',
+        last: '└─ ',
+        expanded: '▾ ',
+        collapsed: '▸ ',
+    },
+    ascii: {
+        line: '|  ',
+        blank: '   ',
+        branch: '|- ',
+        last: '`- ',
+        expanded: 'v ',
+        collapsed: '> ',
+    },
+} as const;
+
+/**
+ * Indentation guides and expand marker drawn before a tree row's first cell
+ */
+export function treePrefix<T>(row: TreeRow<T>, variant: 'unicode' | 'ascii'): string {
+    const chars = TREE_GUIDES[variant];
+    let prefix = row.guides.map((continues) => (continues ? chars.line : chars.blank)).join('');
+    if (row.depth > 0) {
+        prefix += row.isLast ? chars.last : chars.branch;
+    }
+    if (row.hasChildren) {
+        prefix += row.expanded ? chars.expanded : chars.collapsed;
+    }
+    return prefix;
+}
+
+/**
+ * Every item in a tree, parents before their children
+ */
+export function collectTreeItems<T>(data: T[], getChildren: (item: T) => T[] | undefined): T[] {
+    return data.flatMap((item) => [
+        item,
+        ...collectTreeItems(getChildren(item) ?? [], getChildren),
+    ]);
+}
+
+/**
+ * Widest guide prefix in a tree (for column width calculation)
+ */
+export function maxTreePrefixWidth<T>(
+    data: T[],
+    getChildren: (item: T) => T[] | undefined,
+): number {
+    const depthOf = (items: T[]): number =>
+        items.reduce((deepest, item) => {
+            const children = getChildren(item);
+            return children?.length ? Math.max(deepest, 1 + depthOf(children)) : deepest;
+        }, 0);
+    // The deepest leaves carry one guide or connector per level
+    return depthOf(data) * 3;
+}
@@ -0,0 +1,246 @@
+/**
+ * Table utilities
+ *
+ * Cell value access, sorting, filtering and row window calculation shared by Table
+ */
+
+import type { SemanticColors } from '../../theme/ThemeContext';
+import { isPresent } from '../../utils/gaps';
+import { TREND_ARROWS } from '../BigNumber';
+import type { TableColorRule, TableColumn } from '../Table';
+
+/**
+ * Sort direction
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Default content widths of the chart column types
+ */
+export const SPARKLINE_WIDTH = 20;
+export const GAUGE_WIDTH = 10;
+/** Space taken by the gauge percentage (' 100%') */
+export const GAUGE_PERCENT_WIDTH = 5;
+
+/**
+ * Data row paired with its index in the original data array
+ */
+export interface TableRow<T> {
+    item: T;
+    index: number;
+}
+
+/**
+ * Raw cell value (before rendering)
+ */
+export function getCellValue<T>(item: T, column: TableColumn<T>): unknown {
+    return typeof column.accessor === 'function' ? column.accessor(item) : item[column.accessor];
+}
+
+/**
+ * Format a delta value as a trend arrow plus its magnitude (e.g. '▲ 12')
+ */
+export function formatDelta(
+    value: number,
+    format: ((value: number) => string) | undefined,
+): { direction: 'up' | 'down' | 'neutral'; text: string } {
+    const arrows = TREND_ARROWS.unicode;
+    const magnitude = format ? format(Math.abs(value)) : String(Math.abs(value));
+    if (value > 0) return { direction: 'up', text: `${arrows.up} ${magnitude}` };
+    if (value < 0) return { direction: 'down', text: `${arrows.down} ${magnitude}` };
+    return { direction: 'neutral', text: `${arrows.neutral} ${magnitude}` };
+}
+
+/**
+ * Plain text of a cell, or null when it renders an element (charts, custom elements)
+ *
+ * @param value - Cell value (defaults to the accessor value; group rows pass their aggregate)
+ */
+export function getCellText<T>(
+    item: T,
+    column: TableColumn<T>,
+    value: unknown = getCellValue(item, column),
+): string | null {
+    const type = column.type ?? 'text';
+    if (type === 'sparkline' || type === 'gauge') return null;
+
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'number') {
+        if (type === 'delta') return formatDelta(value, column.format).text;
+        return column.format ? column.format(value) : String(value);
+    }
+    if (typeof column.accessor === 'function' && typeof value !== 'string') return null;
+    return String(value);
+}
+
+/**
+ * Width of a cell's content in characters
+ * Chart columns use their default width (sparklines shrink to short series).
+ */
+export function measureCellContent<T>(
+    item: T,
+    column: TableColumn<T>,
+    value: unknown = getCellValue(item, column),
+): number {
+    if (column.type === 'gauge') return GAUGE_WIDTH + GAUGE_PERCENT_WIDTH;
+    if (column.type === 'sparkline') {
+        return Array.isArray(value) ? Math.min(value.length, SPARKLINE_WIDTH) : 0;
+    }
+    return getCellText(item, column, value)?.length ?? 0;
+}
+
+/**
+ * Semantic color of the first rule whose range contains the value
+ */
+export function matchColorRule(
+    value: number,
+    rules: TableColorRule[] | undefined,
+): keyof SemanticColors | undefined {
+    return rules?.find(
+        (rule) =>
+            (rule.min === undefined || value >= rule.min) &&
+            (rule.max === undefined || value < rule.max),
+    )?.color;
+}
+
+/**
+ * Value a cell's color rules are checked against (latest sample for sparklines)
+ */
+export function getRuleValue<T>(
+    item: T,
+    column: TableColumn<T>,
+    value: unknown = getCellValue(item, column),
+): number | undefined {
+    if (typeof value === 'number' && !Number.isNaN(value)) return value;
+    if (Array.isArray(value)) return value.filter(isPresent).at(-1);
+    return undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+    return (
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (typeof value === 'number' && Number.isNaN(value))
+    );
+}
+
+/**
+ * Compare two cell values
+ * - numbers, dates and booleans compare by value
+ * - everything else compares as text (numeric-aware, so 'node10' sorts after 'node9')
+ * - empty values sort after everything else
+ */
+export function compareCellValues(a: unknown, b: unknown): number {
+    const aEmpty = isEmptyValue(a);
+    const bEmpty = isEmptyValue(b);
+    if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+
+    // Rendered elements have no meaningful order
+    if (typeof a === 'object' || typeof b === 'object') return 0;
+
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Resolve a sort column given as an index or header title
+ *
+ * @returns Column index, or -1 when no column matches
+ */
+export function resolveColumnIndex<T>(
+    columns: TableColumn<T>[],
+    column: number | string | undefined,
+): number {
+    if (column === undefined) return -1;
+    if (typeof column === 'number') return column >= 0 && column < columns.length ? column : -1;
+    return columns.findIndex((col) => col.header === column);
+}
+
+/**
+ * Sort rows by a column (stable; a column `compare` replaces the value comparison)
+ *
+ * Empty values stay last in both directions.
+ *
+ * @param getValue - Value to sort by (defaults to the accessor value)
+ */
+export function sortRows<T>(
+    data: T[],
+    column: TableColumn<T> | undefined,
+    direction: SortDirection,
+    getValue: (item: T, column: TableColumn<T>) => unknown = getCellValue,
+): TableRow<T>[] {
+    const rows = data.map((item, index) => ({ item, index }));
+    if (!column) return rows;
+
+    const sign = direction === 'asc' ? 1 : -1;
+    const compare = (a: TableRow<T>, b: TableRow<T>): number => {
+        if (column.compare) return sign * column.compare(a.item, b.item);
+
+        const aValue = getValue(a.item, column);
+        const bValue = getValue(b.item, column);
+        const aEmpty = isEmptyValue(aValue);
+        const bEmpty = isEmptyValue(bValue);
+        if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+        return sign * compareCellValues(aValue, bValue);
+    };
+
+    return rows.sort((a, b) => compare(a, b) || a.index - b.index);
+}
+
+/**
+ * Find a case-insensitive search match in cell text
+ *
+ * @returns Character range of the first match, or null when there is none
+ */
+export function findMatch(text: string, query: string): { start: number; end: number } | null {
+    if (!query) return null;
+    const start = text.toLowerCase().indexOf(query.toLowerCase());
+    return start === -1 ? null : { start, end: start + query.length };
+}
+
+/**
+ * Whether a row passes every column filter and matches the search query in a searchable column
+ */
+export function rowMatches<T>(item: T, columns: TableColumn<T>[], query: string): boolean {
+    if (!columns.every((col) => !col.filter || col.filter(item))) return false;
+    if (!query) return true;
+    return columns.some((col) => {
+        if (col.searchable === false) return false;
+        const text = getCellText(item, col);
+        return text !== null && findMatch(text, query) !== null;
+    });
+}
+
+/**
+ * Keep rows that pass every column filter and match the search query
+ */
+export function filterRows<T>(
+    rows: TableRow<T>[],
+    columns: TableColumn<T>[],
+    query: string,
+): TableRow<T>[] {
+    if (!query && !columns.some((col) => col.filter)) return rows;
+    return rows.filter(({ item }) => rowMatches(item, columns, query));
+}
+
+/**
+ * Scroll offset that keeps the cursor row inside a window of `visibleRows`
+ *
+ * Moves the window as little as possible and never leaves empty rows at the end.
+ */
+export function scrollToRow(
+    offset: number,
+    cursor: number,
+    visibleRows: number,
+    rowCount: number,
+): number {
+    const maxOffset = Math.max(0, rowCount - visibleRows);
+    let next = offset;
+    if (cursor < next) next = cursor;
+    if (cursor >= next + visibleRows) next = cursor - visibleRows + 1;
+    return Math.min(Math.max(0, next), maxOffset);
+}
@@ -5,12 +5,17 @@
  */
 
 import { useMemo } from 'react';
+import type { SeriesValue } from '../../utils/gaps';
 import { type ColorPalette } from '../../utils/gradient';
+import { useInkHud } from '../InkHudProvider';
 import type { LegendItem } from './Legend';
 import {
+    type ChartPoint,
     type ChartSeries,
+    type ChartSeriesInput,
     buildSeriesInputParams,
     computeSeriesExtent,
+    monoPattern,
     resolveSeriesColors,
     resolveSeriesInput,
 } from './chartUtils';
@@ -20,9 +25,9 @@ import {
  */
 export interface ChartCoreProps {
     /** Multi-series data */
-    series?: ChartSeries[];
+    series?: ChartSeriesInput[];
     /** Single-series data (simplified) */
-    data?: number[];
+    data?: SeriesValue[] | ChartPoint[];
     /** Single-series name (simplified) */
     seriesName?: string;
     /** Color array */
@@ -43,8 +48,16 @@ export interface ChartCoreResult {
     max: number;
     /** Maximum data point length */
     maxLength: number;
+    /** Minimum X value (0 when index-based) */
+    xMin: number;
+    /** Maximum X value (maxLength - 1 when index-based) */
+    xMax: number;
+    /** Scale implied by the data ('time' when any X value is a Date) */
+    xScale: 'linear' | 'time';
     /** Series color array */
     colors: string[];
+    /** Color of each series as drawn (its own color, else the assigned one) */
+    seriesColors: string[];
     /** Legend items */
     legendItems: LegendItem[];
 }
@@ -53,10 +66,10 @@ export interface ChartCoreResult {
  * Chart core data processing Hook
  *
  * Integrates the following common logic:
- * - Data series parsing
+ * - Data series parsing (plain values or {x, y} points)
  * - Data range calculation
  * - Color assignment
- * - Legend item construction
+ * - Legend item construction (monochrome terminals get a pattern symbol per series)
  */
 export function useChartCore(props: ChartCoreProps): ChartCoreResult {
     const { series: seriesProp, data, seriesName, colors: colorsProp, colorPalette } = props;
@@ -68,7 +81,11 @@ export function useChartCore(props: ChartCoreProps): ChartCoreResult {
     );
 
     // 2. Calculate data range
-    const { min, max, maxLength } = useMemo(() => computeSeriesExtent(series), [series]);
+    const { min, max, maxLength, xMin, xMax } = useMemo(
+        () => computeSeriesExtent(series),
+        [series],
+    );
+    const xScale = series.some((item) => item.timeX) ? 'time' : 'linear';
 
     // 3. Assign colors
     const colors = useMemo(
@@ -76,15 +93,21 @@ export function useChartCore(props: ChartCoreProps): ChartCoreResult {
         [series, colorsProp, colorPalette],
     );
 
+    const seriesColors = useMemo(
+        () => series.map((item, i) => item.color ?? colors[i] ?? 'cyan'),
+        [series, colors],
+    );
+
     // 4. Build legend items
+    const mono = useInkHud().colorDepth === 'mono' && series.length > 1;
     const legendItems = useMemo(
         () =>
             series.map((item, i) => ({
                 name: item.name,
-                color: item.color ?? colors[i] ?? 'cyan',
-                symbol: '●',
+                color: seriesColors[i] ?? 'cyan',
+                symbol: mono ? monoPattern(i).symbol : '●',
             })),
-        [series, colors],
+        [series, seriesColors, mono],
     );
 
     return {
@@ -92,7 +115,11 @@ export function useChartCore(props: ChartCoreProps): ChartCoreResult {
         min,
         max,
         maxLength,
+        xMin,
+        xMax,
+        xScale,
         colors,
+        seriesColors,
         legendItems,
     };
 }
@@ -0,0 +1,71 @@
+/**
+ * useChartCursor - Keyboard inspection cursor Hook
+ *
+ * Moves a cursor across data indexes with the arrow keys while the chart has focus
+ */
+
+import { useInput } from 'ink';
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Cursor Hook input parameters
+ */
+export interface ChartCursorParams {
+    /** Whether inspection is enabled */
+    enabled: boolean;
+    /** Whether the chart has focus */
+    isFocused: boolean;
+    /** Number of data indexes the cursor can visit */
+    length: number;
+    /** Offset added to the reported index (viewport start) */
+    offset?: number;
+    /** Called with the selected index whenever it changes while focused */
+    onCursorChange?: ((index: number) => void) | undefined;
+}
+
+/**
+ * Cursor Hook return value
+ */
+export interface ChartCursorResult {
+    /** Selected data index (null when the chart is not focused) */
+    index: number | null;
+}
+
+/**
+ * Keyboard inspection cursor Hook
+ *
+ * The cursor starts on the latest index and stays clamped to the data as it grows or shrinks.
+ * ←/→ move one index at a time.
+ */
+export function useChartCursor(params: ChartCursorParams): ChartCursorResult {
+    const { enabled, isFocused, length, offset = 0, onCursorChange } = params;
+    const [position, setPosition] = useState<number | null>(null);
+
+    const lastIndex = length - 1;
+    const active = enabled && isFocused && length > 0;
+    const index = active ? Math.min(Math.max(0, position ?? lastIndex), lastIndex) : null;
+
+    useInput(
+        (_input, key) => {
+            if (index === null) return;
+            if (key.leftArrow) {
+                setPosition(Math.max(0, index - 1));
+            } else if (key.rightArrow) {
+                setPosition(Math.min(lastIndex, index + 1));
+            }
+        },
+        { isActive: active },
+    );
+
+    // Keep the latest callback without re-running the effect on every render
+    const callbackRef = useRef(onCursorChange);
+    callbackRef.current = onCursorChange;
+
+    useEffect(() => {
+        if (index !== null) {
+            callbackRef.current?.(index + offset);
+        }
+    }, [index, offset]);
+
+    return { index };
+}
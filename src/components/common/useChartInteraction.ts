@@ -0,0 +1,55 @@
+/**
+ * useChartInteraction - Keyboard interaction Hook
+ *
+ * Combines focus, zoom/pan viewport and inspection cursor for time-series charts
+ */
+
+import { useFocus } from 'ink';
+import type { InteractionProps, ViewportProps } from './chartTypes';
+import type { ChartSeries } from './chartUtils';
+import { useChartCursor } from './useChartCursor';
+import { type ChartViewportResult, useChartViewport } from './useChartViewport';
+
+/**
+ * Interaction Hook return value
+ */
+export interface ChartInteractionResult extends ChartViewportResult {
+    /** Inspection cursor index within the visible series (null when inactive) */
+    cursorIndex: number | null;
+}
+
+/**
+ * Keyboard interaction Hook
+ *
+ * The chart takes a single focus slot shared by inspection and zoom/pan, so Tab moves between
+ * charts rather than between their features.
+ */
+export function useChartInteraction(
+    props: InteractionProps & ViewportProps,
+    series: ChartSeries[],
+): ChartInteractionResult {
+    const { interactive = false, zoomable = false, autoFocus = false, onCursorChange } = props;
+
+    const { isFocused } = useFocus({ autoFocus, isActive: interactive || zoomable });
+
+    const view = useChartViewport({
+        series,
+        zoomable,
+        isFocused,
+        // Arrow keys belong to the cursor when inspection is enabled
+        panWithArrows: !interactive,
+        viewport: props.viewport,
+        defaultViewport: props.defaultViewport,
+        onViewportChange: props.onViewportChange,
+    });
+
+    const cursor = useChartCursor({
+        enabled: interactive,
+        isFocused,
+        length: view.maxLength,
+        offset: view.indexOffset,
+        onCursorChange,
+    });
+
+    return { ...view, cursorIndex: cursor.index };
+}
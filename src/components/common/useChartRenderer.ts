@@ -3,47 +3,106 @@
  */
 
 import { useMemo } from 'react';
-import type { Renderer, RendererType } from '../../core/renderer';
+import type { Renderer, RendererName } from '../../core/renderer';
 import { useInkHud } from '../InkHudProvider';
+import { applyMonoPatterns } from './chartUtils';
 
 /**
  * Renderer Hook input parameters
  */
 export interface ChartRendererProps {
     /** Manually specify Renderer type */
-    renderer?: RendererType;
+    renderer?: RendererName;
     /** Renderer fallback chain */
-    rendererChain?: RendererType[];
+    rendererChain?: RendererName[];
 }
 
 /**
  * Default renderer fallback chain
+ * Pixel graphics renderers (kitty, sixel) are skipped on terminals without the protocol
  */
-export const DEFAULT_RENDERER_CHAIN: RendererType[] = ['braille', 'block', 'ascii'];
+export const DEFAULT_RENDERER_CHAIN: RendererName[] = [
+    'kitty',
+    'sixel',
+    'braille',
+    'block',
+    'ascii',
+];
+
+/**
+ * Filled chart (AreaChart, PieChart) renderer fallback chain
+ * Prefers solid sextant and quadrant fills over dotted braille
+ */
+export const FILL_RENDERER_CHAIN: RendererName[] = [
+    'kitty',
+    'sixel',
+    'sextant',
+    'quadrant',
+    'braille',
+    'block',
+    'ascii',
+];
 
 /**
  * BarChart default renderer fallback chain (prefer block)
  */
-export const BAR_CHART_RENDERER_CHAIN: RendererType[] = ['block', 'braille', 'ascii'];
+export const BAR_CHART_RENDERER_CHAIN: RendererName[] = [
+    'kitty',
+    'sixel',
+    'block',
+    'braille',
+    'ascii',
+];
+
+/**
+ * Default series colors (a shared array keeps the renderer memo stable)
+ */
+const EMPTY_COLORS: string[] = [];
+
+/**
+ * Separator for the memo keys (renderer names and colors never contain newlines)
+ */
+const KEY_SEPARATOR = '\n';
 
 /**
  * Chart renderer selection Hook
  *
  * Automatically select optimal renderer based on user specification or terminal capabilities
  * Get renderer selector via Context, supports dependency injection
+ *
+ * @param seriesColors - Series colors; on monochrome terminals the renderer draws each series
+ * after the first with its pattern (see `MONO_PATTERNS`)
  */
 export function useChartRenderer(
     props: ChartRendererProps,
-    defaultChain: RendererType[] = DEFAULT_RENDERER_CHAIN,
+    defaultChain: RendererName[] = DEFAULT_RENDERER_CHAIN,
+    seriesColors: string[] = EMPTY_COLORS,
 ): Renderer {
-    const { getRenderer, selectBest } = useInkHud();
+    const { getRenderer, selectBest, colorDepth } = useInkHud();
 
     const { renderer: preferredRenderer, rendererChain = defaultChain } = props;
+    const patterned = colorDepth === 'mono' && seriesColors.length > 1;
+
+    // Keyed on contents: inline chains and color arrays are new on every render
+    const chainKey = rendererChain.join(KEY_SEPARATOR);
+    const patternKey = patterned ? seriesColors.join(KEY_SEPARATOR) : '';
 
     return useMemo(() => {
-        if (preferredRenderer) {
-            return getRenderer(preferredRenderer);
-        }
-        return selectBest(rendererChain);
-    }, [preferredRenderer, rendererChain, getRenderer, selectBest]);
+        const renderer = preferredRenderer
+            ? getRenderer(preferredRenderer)
+            : selectBest(chainKey.split(KEY_SEPARATOR) as RendererName[]);
+        return patternKey ? withMonoPatterns(renderer, patternKey.split(KEY_SEPARATOR)) : renderer;
+    }, [preferredRenderer, chainKey, getRenderer, selectBest, patternKey]);
+}
+
+/**
+ * Renderer that applies the series patterns before rendering the canvas
+ */
+function withMonoPatterns(renderer: Renderer, seriesColors: string[]): Renderer {
+    const patterned: Renderer = Object.create(renderer);
+    patterned.renderCanvas = (pixels, width, height) => {
+        applyMonoPatterns(pixels, seriesColors);
+        return renderer.renderCanvas(pixels, width, height);
+    };
+    return patterned;
 }
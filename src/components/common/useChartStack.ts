@@ -0,0 +1,74 @@
+/**
+ * useChartStack - Series stacking Hook
+ *
+ * Shared by AreaChart and BarChart to turn raw series into stacked layers
+ */
+
+import { useMemo } from 'react';
+import type { LegendItem } from './Legend';
+import {
+    type ChartSeries,
+    type StackLayer,
+    type StackMode,
+    computeStack,
+    percentTickFormat,
+} from './chartUtils';
+
+/**
+ * Stacking Hook input parameters
+ */
+export interface ChartStackParams {
+    /** Parsed series data */
+    series: ChartSeries[];
+    /** Raw data extent (used when not stacked) */
+    min: number;
+    max: number;
+    /** Legend items in series order */
+    legendItems: LegendItem[];
+    /** Stacking mode */
+    stacking: StackMode;
+    /** Whether the stack grows upward and the legend is a vertical list */
+    reverseLegend: boolean;
+}
+
+/**
+ * Stacking Hook return value
+ */
+export interface ChartStackResult {
+    /** Stacked layers (undefined when not stacked) */
+    layers: StackLayer[] | undefined;
+    /** Cumulative extent when stacked, otherwise the raw extent */
+    min: number;
+    max: number;
+    /** Legend items ordered to match the stack */
+    legendItems: LegendItem[];
+    /** Default Y tick formatter for the mode (percent labels when percent-stacked) */
+    tickFormat: ((value: number) => string) | undefined;
+}
+
+/**
+ * Series stacking Hook
+ *
+ * A vertical legend lists the top of an upward stack first, so it reads in the same order as the chart.
+ */
+export function useChartStack(params: ChartStackParams): ChartStackResult {
+    const { series, min, max, legendItems, stacking, reverseLegend } = params;
+
+    const stack = useMemo(
+        () => (stacking === 'none' ? undefined : computeStack(series, stacking)),
+        [series, stacking],
+    );
+
+    const orderedLegendItems = useMemo(
+        () => (stack && reverseLegend ? [...legendItems].reverse() : legendItems),
+        [stack, reverseLegend, legendItems],
+    );
+
+    return {
+        layers: stack?.layers,
+        min: stack ? stack.min : min,
+        max: stack ? stack.max : max,
+        legendItems: orderedLegendItems,
+        tickFormat: stacking === 'percent' ? percentTickFormat : undefined,
+    };
+}
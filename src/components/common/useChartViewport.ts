@@ -0,0 +1,129 @@
+/**
+ * useChartViewport - Zoom and pan Hook
+ *
+ * Restricts time-series charts to an index window, controlled via props or by keyboard
+ */
+
+import { useInput } from 'ink';
+import { useMemo, useState } from 'react';
+import {
+    type ChartSeries,
+    type ChartViewport,
+    clampViewport,
+    computeSeriesExtent,
+    panViewport,
+    sliceSeries,
+    zoomViewport,
+} from './chartUtils';
+
+/**
+ * Viewport Hook input parameters
+ */
+export interface ChartViewportParams {
+    /** Full series data */
+    series: ChartSeries[];
+    /** Whether keyboard zoom/pan is enabled */
+    zoomable: boolean;
+    /** Whether the chart has focus */
+    isFocused: boolean;
+    /** Whether ←/→ pan (only when they are not moving the inspection cursor) */
+    panWithArrows: boolean;
+    /** Controlled viewport */
+    viewport?: ChartViewport | undefined;
+    /** Initial viewport when uncontrolled (default: full range) */
+    defaultViewport?: ChartViewport | undefined;
+    /** Called with the requested viewport on every zoom/pan */
+    onViewportChange?: ((viewport: ChartViewport) => void) | undefined;
+}
+
+/**
+ * Viewport Hook return value
+ */
+export interface ChartViewportResult {
+    /** Current viewport, clamped to the data */
+    viewport: ChartViewport;
+    /** Total index count of the full data */
+    totalLength: number;
+    /** Series restricted to the viewport */
+    series: ChartSeries[];
+    /** Extent of the visible window */
+    min: number;
+    max: number;
+    maxLength: number;
+    /** X domain of the visible window (absolute indexes for index-based series) */
+    xMin: number;
+    xMax: number;
+    /** Offset from a visible index to the index in the full data */
+    indexOffset: number;
+}
+
+/**
+ * Zoom/pan key bindings:
+ * - `+` / `=`: zoom in, `-`: zoom out, `0`: reset
+ * - `[` / `]` (and ←/→ without inspection): pan by a quarter of the window
+ */
+export function useChartViewport(params: ChartViewportParams): ChartViewportResult {
+    const {
+        series: fullSeries,
+        zoomable,
+        isFocused,
+        panWithArrows,
+        viewport: controlled,
+        defaultViewport,
+        onViewportChange,
+    } = params;
+
+    const totalLength = useMemo(
+        () => Math.max(0, ...fullSeries.map((s) => s.data.length)),
+        [fullSeries],
+    );
+    const [uncontrolled, setUncontrolled] = useState<ChartViewport | null>(defaultViewport ?? null);
+
+    const requested = controlled ?? uncontrolled ?? { start: 0, end: totalLength };
+    const viewport = clampViewport(requested, totalLength);
+    const { start, end } = viewport;
+
+    const update = (next: ChartViewport) => {
+        if (next.start === start && next.end === end) return;
+        if (!controlled) {
+            setUncontrolled(next);
+        }
+        onViewportChange?.(next);
+    };
+
+    useInput(
+        (input, key) => {
+            const step = Math.max(1, Math.round((end - start) / 4));
+            if (input === '+' || input === '=') {
+                update(zoomViewport(viewport, 0.5, totalLength));
+            } else if (input === '-') {
+                update(zoomViewport(viewport, 2, totalLength));
+            } else if (input === '0') {
+                update({ start: 0, end: totalLength });
+            } else if (input === '[' || (panWithArrows && key.leftArrow)) {
+                update(panViewport(viewport, -step, totalLength));
+            } else if (input === ']' || (panWithArrows && key.rightArrow)) {
+                update(panViewport(viewport, step, totalLength));
+            }
+        },
+        { isActive: zoomable && isFocused && totalLength > 0 },
+    );
+
+    const series = useMemo(() => sliceSeries(fullSeries, { start, end }), [fullSeries, start, end]);
+    const extent = useMemo(() => computeSeriesExtent(series), [series]);
+
+    // Index-based series keep absolute indexes on the X axis
+    const xOffset = series.some((s) => s.x) ? 0 : start;
+
+    return {
+        viewport,
+        totalLength,
+        series,
+        min: extent.min,
+        max: extent.max,
+        maxLength: extent.maxLength,
+        xMin: extent.xMin + xOffset,
+        xMax: extent.xMax + xOffset,
+        indexOffset: start,
+    };
+}
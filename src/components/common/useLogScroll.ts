@@ -0,0 +1,147 @@
+/**
+ * useLogScroll - Log scrollback Hook
+ *
+ * Follows the tail of a log buffer, or pauses on a line while new lines keep arriving
+ */
+
+import { useInput } from 'ink';
+import { useState } from 'react';
+import { type NavigationKey, useNavigationKeys } from './useNavigationKeys';
+
+/**
+ * How many lines were dropped from the front between two snapshots of an append-only buffer
+ *
+ * The overlap is found by comparing its first and last lines; when the buffers do not overlap,
+ * every previous line counts as dropped. Repeated identical lines make the shift ambiguous
+ * (the smallest one wins), which is why an explicit sequence number is preferred.
+ */
+export function lineShift(prev: readonly string[], next: readonly string[]): number {
+    for (let shift = 0; shift < prev.length; shift++) {
+        const overlap = prev.length - shift;
+        if (
+            overlap <= next.length &&
+            prev[shift] === next[0] &&
+            prev[prev.length - 1] === next[overlap - 1]
+        ) {
+            return shift;
+        }
+    }
+    return prev.length;
+}
+
+/**
+ * Sequence number of the first line of `logs`
+ *
+ * Lines keep their number as the buffer rolls over (lines appended at the end and trimmed from
+ * the front), which gives them stable keys and lets a paused view count new arrivals.
+ * The buffer's own number (`firstSequence`) is used when given; otherwise the shift is
+ * inferred from the previous `logs` with `lineShift`.
+ */
+export function useLineSequence(logs: readonly string[], firstSequence?: number): number {
+    // Derived from the previous render's logs (state updated while rendering, not a ref)
+    const [inferred, setInferred] = useState({ logs, first: 0 });
+    if (firstSequence !== undefined) return firstSequence;
+    if (inferred.logs === logs) return inferred.first;
+
+    const next = { logs, first: inferred.first + lineShift(inferred.logs, logs) };
+    setInferred(next);
+    return next.first;
+}
+
+/**
+ * Scroll Hook input parameters
+ */
+export interface LogScrollParams {
+    /** Whether scrolling keys are enabled */
+    enabled: boolean;
+    /** Whether the stream has focus */
+    isFocused: boolean;
+    /** Sequence numbers of the displayed (filtered) lines, ascending */
+    sequences: number[];
+    /** Sequence number the next appended line will get */
+    nextSequence: number;
+    /** Lines per page */
+    pageSize: number;
+}
+
+/**
+ * Scroll Hook return value
+ */
+export interface LogScrollResult {
+    /** Index after the bottom line on screen */
+    end: number;
+    /** Whether the view is paused (not following the tail) */
+    paused: boolean;
+    /** Lines below the view that arrived since pausing */
+    newLines: number;
+}
+
+/**
+ * Log scrollback Hook
+ *
+ * ↑/↓ scroll a line and PageUp/PageDown a page, pausing the view; Home jumps to the oldest line.
+ * End, `f`, or scrolling back down to the tail resume following; `p` toggles pause.
+ * A paused view stays on its lines as new ones arrive.
+ */
+export function useLogScroll(params: LogScrollParams): LogScrollResult {
+    const { enabled, isFocused, sequences, nextSequence, pageSize } = params;
+    const [pause, setPause] = useState<{ anchor: number; since: number } | null>(null);
+
+    const count = sequences.length;
+    const page = Math.max(1, pageSize);
+    const minEnd = Math.min(page, count);
+
+    let end = count;
+    if (pause) {
+        // Bottom line: the last one at or before the anchor (the anchor may have been filtered)
+        let anchored = count;
+        while (anchored > 0 && (sequences[anchored - 1] ?? 0) > pause.anchor) anchored--;
+        end = Math.max(anchored, minEnd);
+    }
+
+    const scrollTo = (target: number) => {
+        if (target >= count) {
+            setPause(null);
+            return;
+        }
+        const bottom = Math.max(target, minEnd);
+        setPause((prev) => ({
+            anchor: sequences[bottom - 1] ?? nextSequence - 1,
+            since: prev?.since ?? nextSequence,
+        }));
+    };
+
+    useNavigationKeys(
+        (key: NavigationKey) => {
+            if (key === 'end') {
+                setPause(null);
+                return;
+            }
+            scrollTo(
+                {
+                    up: end - 1,
+                    down: end + 1,
+                    pageUp: end - page,
+                    pageDown: end + page,
+                    home: 0,
+                }[key],
+            );
+        },
+        { isActive: enabled && isFocused },
+    );
+
+    useInput(
+        (input) => {
+            if (input === 'f') {
+                setPause(null);
+            } else if (input === 'p') {
+                setPause(pause ? null : { anchor: nextSequence - 1, since: nextSequence });
+            }
+        },
+        { isActive: enabled && isFocused },
+    );
+
+    const since = pause?.since ?? nextSequence;
+    const newLines = pause ? sequences.slice(end).filter((seq) => seq >= since).length : 0;
+    return { end, paused: pause !== null, newLines };
+}
@@ -0,0 +1,74 @@
+/**
+ * useNavigationKeys - List navigation key Hook
+ *
+ * Maps arrow, page and Home/End keys to navigation actions
+ */
+
+import type { EventEmitter } from 'node:events';
+import { useInput, useStdin } from 'ink';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Navigation action triggered by a key press
+ */
+export type NavigationKey = 'up' | 'down' | 'pageUp' | 'pageDown' | 'home' | 'end';
+
+/**
+ * Home/End escape sequences across xterm, rxvt and VT220 style terminals
+ * (Ink's `useInput` reports these with an empty input and no key flag)
+ */
+const HOME_SEQUENCES = new Set(['\u001b[H', '\u001bOH', '\u001b[1~', '\u001b[7~']);
+const END_SEQUENCES = new Set(['\u001b[F', '\u001bOF', '\u001b[4~', '\u001b[8~']);
+
+/**
+ * Ink's raw input events, when available
+ *
+ * Ink 4.4 reports Home/End to `useInput` with an empty input and no key flag, so they can only
+ * be told apart in the raw data. That data is emitted on `useStdin().internal_eventEmitter`,
+ * which is private to Ink (present in Ink 4.x); without it Home/End are not handled.
+ */
+function useRawInputEvents(): Pick<EventEmitter, 'on' | 'removeListener'> | undefined {
+    const { internal_eventEmitter: events } = useStdin() as {
+        internal_eventEmitter?: Partial<EventEmitter>;
+    };
+    return typeof events?.on === 'function' && typeof events.removeListener === 'function'
+        ? (events as EventEmitter)
+        : undefined;
+}
+
+/**
+ * Call `handler` with the navigation action for each key press while active
+ */
+export function useNavigationKeys(
+    handler: (key: NavigationKey) => void,
+    options: { isActive: boolean },
+): void {
+    const { isActive } = options;
+    const events = useRawInputEvents();
+
+    // Keep the latest handler without re-subscribing on every render
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useInput(
+        (_input, key) => {
+            if (key.upArrow) handlerRef.current('up');
+            else if (key.downArrow) handlerRef.current('down');
+            else if (key.pageUp) handlerRef.current('pageUp');
+            else if (key.pageDown) handlerRef.current('pageDown');
+        },
+        { isActive },
+    );
+
+    useEffect(() => {
+        if (!isActive || !events) return;
+        const handleData = (data: string) => {
+            if (HOME_SEQUENCES.has(data)) handlerRef.current('home');
+            else if (END_SEQUENCES.has(data)) handlerRef.current('end');
+        };
+        events.on('input', handleData);
+        return () => {
+            events.removeListener('input', handleData);
+        };
+    }, [isActive, events]);
+}
@@ -0,0 +1,76 @@
+/**
+ * useTableCursor - Table row cursor Hook
+ *
+ * Moves a row cursor with the navigation keys and scrolls the visible row window to follow it
+ */
+
+import { useState } from 'react';
+import { scrollToRow } from './tableUtils';
+import { type NavigationKey, useNavigationKeys } from './useNavigationKeys';
+
+/**
+ * Cursor Hook input parameters
+ */
+export interface TableCursorParams {
+    /** Whether row navigation is enabled */
+    enabled: boolean;
+    /** Whether the table has focus */
+    isFocused: boolean;
+    /** Number of rows */
+    rowCount: number;
+    /** Number of rows that fit on screen (one page) */
+    visibleRows: number;
+}
+
+/**
+ * Cursor Hook return value
+ */
+export interface TableCursorResult {
+    /** Cursor row in display order (null when navigation is disabled or there are no rows) */
+    cursor: number | null;
+    /** First visible row in display order */
+    offset: number;
+    /** Move the cursor to a row, scrolling it into view */
+    moveTo: (row: number) => void;
+}
+
+/**
+ * Row cursor Hook
+ *
+ * ↑/↓ move one row, PageUp/PageDown one page, Home/End jump to the first/last row.
+ * The cursor stays clamped as rows are added or removed.
+ */
+export function useTableCursor(params: TableCursorParams): TableCursorResult {
+    const { enabled, isFocused, rowCount, visibleRows } = params;
+    const [position, setPosition] = useState(0);
+    const [scroll, setScroll] = useState(0);
+
+    const lastRow = rowCount - 1;
+    const cursor = enabled && rowCount > 0 ? Math.min(position, lastRow) : null;
+    const offset = scrollToRow(scroll, cursor ?? 0, visibleRows, rowCount);
+
+    useNavigationKeys(
+        (key: NavigationKey) => {
+            if (cursor === null) return;
+            const page = Math.max(1, visibleRows);
+            const next = {
+                up: cursor - 1,
+                down: cursor + 1,
+                pageUp: cursor - page,
+                pageDown: cursor + page,
+                home: 0,
+                end: lastRow,
+            }[key];
+            moveTo(next);
+        },
+        { isActive: enabled && isFocused },
+    );
+
+    function moveTo(row: number) {
+        const clamped = Math.min(Math.max(0, row), lastRow);
+        setPosition(clamped);
+        setScroll(scrollToRow(offset, clamped, visibleRows, rowCount));
+    }
+
+    return { cursor, offset, moveTo };
+}
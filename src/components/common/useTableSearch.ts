@@ -0,0 +1,78 @@
+/**
+ * useTableSearch - Incremental table search Hook
+ *
+ * `/` opens a search prompt; typed characters narrow the rows as they are entered
+ */
+
+import { useInput } from 'ink';
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Search Hook input parameters
+ */
+export interface TableSearchParams {
+    /** Whether search is enabled */
+    enabled: boolean;
+    /** Whether the table has focus */
+    isFocused: boolean;
+    /** Called with the query whenever it changes */
+    onSearchChange?: ((query: string) => void) | undefined;
+}
+
+/**
+ * Search Hook return value
+ */
+export interface TableSearchResult {
+    /** Current search query ('' when not searching) */
+    query: string;
+    /** Whether the search prompt is open and capturing keys */
+    isEditing: boolean;
+}
+
+/**
+ * Search key bindings:
+ * - `/`: open the prompt
+ * - typing / Backspace: edit the query (rows filter as you type)
+ * - Enter: close the prompt and keep the filter
+ * - Esc: clear the query and close the prompt
+ */
+export function useTableSearch(params: TableSearchParams): TableSearchResult {
+    const { enabled, isFocused, onSearchChange } = params;
+    const [query, setQuery] = useState('');
+    const [isEditing, setIsEditing] = useState(false);
+
+    useInput(
+        (input, key) => {
+            if (!isEditing) {
+                if (input === '/') setIsEditing(true);
+                return;
+            }
+            if (key.escape) {
+                setQuery('');
+                setIsEditing(false);
+            } else if (key.return) {
+                setIsEditing(false);
+            } else if (key.backspace || key.delete) {
+                setQuery((prev) => prev.slice(0, -1));
+            } else if (input && !key.ctrl && !key.meta) {
+                setQuery((prev) => prev + input);
+            }
+        },
+        { isActive: enabled && isFocused },
+    );
+
+    // Keep the latest callback without re-running the effect on every render
+    const callbackRef = useRef(onSearchChange);
+    callbackRef.current = onSearchChange;
+
+    const isFirstRender = useRef(true);
+    useEffect(() => {
+        if (isFirstRender.current) {
+            isFirstRender.current = false;
+            return;
+        }
+        callbackRef.current?.(query);
+    }, [query]);
+
+    return { query: enabled ? query : '', isEditing: enabled && isEditing };
+}
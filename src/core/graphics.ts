@@ -0,0 +1,83 @@
+import { type RgbColor, parseColor } from '../utils/color';
+import { Renderer, type RendererResolution } from './renderer';
+import type { Pixel, RenderedLine } from './types';
+
+/**
+ * Color used for active pixels without an explicit color (One Dark text)
+ */
+const DEFAULT_FOREGROUND: RgbColor = { r: 171, g: 178, b: 191 };
+
+/**
+ * Graphics renderer options
+ */
+export interface GraphicsRendererOptions {
+    /**
+     * Pixels per character cell
+     * Should roughly match the terminal font cell size (default 8x16)
+     */
+    cellSize?: RendererResolution;
+}
+
+/**
+ * Abstract pixel-graphics renderer
+ *
+ * Base class for renderers that emit terminal image protocols instead of characters.
+ * The lines are blank cells that keep the chart's footprint in the layout; the whole canvas
+ * is encoded as one image attached to the first segment, which `CanvasLines` writes straight
+ * to stdout over those cells (escape sequences inside Ink text would be measured and wrapped).
+ */
+export abstract class GraphicsRenderer extends Renderer {
+    protected readonly cellSize: RendererResolution;
+
+    constructor(options: GraphicsRendererOptions = {}) {
+        super();
+        this.cellSize = options.cellSize ?? { horizontal: 8, vertical: 16 };
+    }
+
+    /**
+     * Encode the canvas as a terminal escape sequence (must be implemented by subclasses)
+     * @param pixels - 2D pixel array
+     * @param width - Canvas width (pixels)
+     * @param height - Canvas height (pixels)
+     * @param cols - Character columns covered by the image
+     * @param rows - Character rows covered by the image
+     */
+    protected abstract encodeImage(
+        pixels: Pixel[][],
+        width: number,
+        height: number,
+        cols: number,
+        rows: number,
+    ): string;
+
+    /**
+     * Escape sequence removing the image drawn by `encodeImage`
+     * Protocols without addressable images return undefined (the next redraw covers them)
+     */
+    protected clearImage(): string | undefined {
+        return undefined;
+    }
+
+    /**
+     * Resolve the RGB color of an active pixel
+     */
+    protected resolvePixelColor(pixel: Pixel): RgbColor {
+        return (pixel.color ? parseColor(pixel.color) : undefined) ?? DEFAULT_FOREGROUND;
+    }
+
+    renderCanvas(pixels: Pixel[][], width: number, height: number): RenderedLine[] {
+        const { cols, rows } = this.calculateCharDimensions(width, height);
+        if (cols === 0 || rows === 0) {
+            return [];
+        }
+
+        const blank = ' '.repeat(cols);
+        const sequence = this.encodeImage(pixels, width, height, cols, rows);
+        const clear = this.clearImage();
+        const image = { sequence, ...(clear ? { clear } : {}) };
+
+        return Array.from({ length: rows }, (_, i) =>
+            i === 0 ? [{ text: blank, image }] : [{ text: blank }],
+        );
+    }
+}
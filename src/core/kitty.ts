@@ -0,0 +1,88 @@
+import { GraphicsRenderer } from './graphics';
+import type { RendererMetadata } from './renderer';
+import type { Pixel } from './types';
+
+/**
+ * Maximum base64 payload size per escape sequence (protocol limit)
+ */
+const CHUNK_SIZE = 4096;
+
+/**
+ * Next kitty image id (ids are per terminal, so they are shared by all renderer instances)
+ */
+let nextImageId = 1;
+
+/**
+ * Kitty graphics protocol renderer
+ *
+ * Transmits the canvas as a raw RGBA image (f=32) scaled onto the chart's character cells.
+ * Supported by kitty, WezTerm, Ghostty and Konsole.
+ *
+ * Every renderer instance owns one image id, so each new frame replaces the previous image
+ * instead of stacking another one on top of it.
+ */
+export class KittyRenderer extends GraphicsRenderer {
+    private readonly imageId = nextImageId++;
+
+    getMetadata(): RendererMetadata {
+        return {
+            name: 'kitty',
+            displayName: 'Kitty Graphics',
+            description: 'Kitty graphics protocol, true pixel resolution',
+            resolution: { ...this.cellSize },
+            requiresUtf8: false,
+            requiresUnicode: false,
+            minScore: 0, // Protocol support is checked explicitly by the selector
+        };
+    }
+
+    // ============================================================
+    // Kitty-specific private methods
+    // ============================================================
+
+    private toRgba(pixels: Pixel[][], width: number, height: number): Buffer {
+        const buffer = Buffer.alloc(width * height * 4);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const pixel = pixels[y]?.[x];
+                if (!pixel?.active) continue;
+
+                const { r, g, b } = this.resolvePixelColor(pixel);
+                const offset = (y * width + x) * 4;
+                buffer[offset] = r;
+                buffer[offset + 1] = g;
+                buffer[offset + 2] = b;
+                buffer[offset + 3] = 255;
+            }
+        }
+        return buffer;
+    }
+
+    protected encodeImage(
+        pixels: Pixel[][],
+        width: number,
+        height: number,
+        cols: number,
+        rows: number,
+    ): string {
+        const payload = this.toRgba(pixels, width, height).toString('base64');
+
+        // a=T transmit and display, i/p replace the previous image and placement,
+        // C=1 keep cursor in place, q=2 suppress responses
+        const control = `a=T,f=32,s=${width},v=${height},c=${cols},r=${rows},i=${this.imageId},p=1,C=1,q=2`;
+
+        let sequence = '';
+        for (let offset = 0; offset < payload.length; offset += CHUNK_SIZE) {
+            const chunk = payload.slice(offset, offset + CHUNK_SIZE);
+            const more = offset + CHUNK_SIZE < payload.length ? 1 : 0;
+            const keys = offset === 0 ? `${control},m=${more}` : `m=${more}`;
+            sequence += `\x1b_G${keys};${chunk}\x1b\\`;
+        }
+        return sequence;
+    }
+
+    protected override clearImage(): string {
+        // d=I deletes the image with its placements and frees its data
+        return `\x1b_Ga=d,d=I,i=${this.imageId},q=2\x1b\\`;
+    }
+}
@@ -0,0 +1,91 @@
+import { Renderer } from './renderer';
+import type { Pixel, RenderedLine } from './types';
+
+/**
+ * Abstract mosaic renderer
+ *
+ * Base class for renderers that draw each character cell as a solid pattern of sub-cells
+ * (quadrants, sextants). Sub-cells are numbered row by row; bit `y * columns + x` of the mask
+ * is set when that sub-cell's pixel is active. A cell takes the majority color of its pixels.
+ */
+export abstract class MosaicRenderer extends Renderer {
+    /**
+     * Character for a sub-cell mask (must be implemented by subclasses)
+     * @param mask - Active sub-cells, bit `y * columns + x`
+     */
+    protected abstract glyph(mask: number): string;
+
+    private cellMask(pixels: Pixel[][], cx: number, cy: number): number {
+        const { horizontal, vertical } = this.getResolution();
+        let mask = 0;
+        for (let py = 0; py < vertical; py++) {
+            for (let px = 0; px < horizontal; px++) {
+                if (pixels[cy * vertical + py]?.[cx * horizontal + px]?.active) {
+                    mask |= 1 << (py * horizontal + px);
+                }
+            }
+        }
+        return mask;
+    }
+
+    private resolveColor(pixels: Pixel[][], cx: number, cy: number): string | undefined {
+        const { horizontal, vertical } = this.getResolution();
+        const counts = new Map<string, number>();
+
+        for (let py = 0; py < vertical; py++) {
+            for (let px = 0; px < horizontal; px++) {
+                const pixel = pixels[cy * vertical + py]?.[cx * horizontal + px];
+                if (pixel?.active && pixel.color) {
+                    counts.set(pixel.color, (counts.get(pixel.color) ?? 0) + 1);
+                }
+            }
+        }
+
+        let maxCount = 0;
+        let dominantColor: string | undefined;
+
+        for (const [color, count] of counts) {
+            if (count > maxCount) {
+                maxCount = count;
+                dominantColor = color;
+            }
+        }
+
+        return dominantColor;
+    }
+
+    renderCanvas(pixels: Pixel[][], width: number, height: number): RenderedLine[] {
+        const { rows, cols } = this.calculateCharDimensions(width, height);
+        const lines: RenderedLine[] = [];
+
+        for (let cy = 0; cy < rows; cy++) {
+            const lineSegments: RenderedLine = [];
+            let buffer = '';
+            let bufferColor: string | undefined;
+
+            for (let cx = 0; cx < cols; cx++) {
+                const char = this.glyph(this.cellMask(pixels, cx, cy));
+                const color = this.resolveColor(pixels, cx, cy);
+
+                if (buffer && bufferColor !== color) {
+                    lineSegments.push(
+                        bufferColor ? { text: buffer, color: bufferColor } : { text: buffer },
+                    );
+                    buffer = '';
+                }
+
+                bufferColor = color;
+                buffer += char;
+            }
+
+            if (buffer) {
+                lineSegments.push(
+                    bufferColor ? { text: buffer, color: bufferColor } : { text: buffer },
+                );
+            }
+            lines.push(lineSegments);
+        }
+
+        return lines;
+    }
+}
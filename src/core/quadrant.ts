@@ -0,0 +1,34 @@
+import { MosaicRenderer } from './mosaic';
+import type { RendererMetadata } from './renderer';
+
+/**
+ * Quadrant characters by mask (bits: top-left 1, top-right 2, bottom-left 4, bottom-right 8)
+ */
+const QUADRANTS = [' ', '▘', '▝', '▀', '▖', '▌', '▞', '▛', '▗', '▚', '▐', '▜', '▄', '▙', '▟', '█'];
+
+/**
+ * Quadrant renderer
+ *
+ * Implements 2x2 solid rendering using Block Elements quadrant characters (U+2580-U+259F)
+ * Any combination of the four sub-cells can be shown, so filled shapes stay solid
+ */
+export class QuadrantRenderer extends MosaicRenderer {
+    getMetadata(): RendererMetadata {
+        return {
+            name: 'quadrant',
+            displayName: 'Quadrant',
+            description: 'Quadrant character (▟) 2x2 matrix, solid fills',
+            resolution: {
+                horizontal: 2,
+                vertical: 2,
+            },
+            requiresUtf8: true,
+            requiresUnicode: true,
+            minScore: 30,
+        };
+    }
+
+    protected glyph(mask: number): string {
+        return QUADRANTS[mask] ?? ' ';
+    }
+}
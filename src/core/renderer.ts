@@ -7,16 +7,28 @@ import type { Pixel, RenderedLine } from './types';
 /**
  * Renderer type
  */
-export type RendererType = 'braille' | 'block' | 'ascii';
+export type RendererType =
+    | 'braille'
+    | 'block'
+    | 'quadrant'
+    | 'sextant'
+    | 'ascii'
+    | 'kitty'
+    | 'sixel';
+
+/**
+ * Renderer name: a built-in renderer type or the name of a registered renderer
+ */
+export type RendererName = RendererType | (string & Record<never, never>);
 
 /**
  * Renderer resolution information
  * Represents how many pixels each character can display
  */
 export interface RendererResolution {
-    /** Pixels per character horizontally (e.g. Braille 2, Block 2, ASCII 1) */
+    /** Pixels per character horizontally (e.g. Braille 2, Block 2, ASCII 1, Kitty 8) */
     horizontal: number;
-    /** Pixels per character vertically (e.g. Braille 4, Block 8, ASCII 1) */
+    /** Pixels per character vertically (e.g. Braille 4, Block 8, ASCII 1, Kitty 16) */
     vertical: number;
 }
 
@@ -25,8 +37,8 @@ export interface RendererResolution {
  * Describes renderer capabilities and requirements
  */
 export interface RendererMetadata {
-    /** Renderer name */
-    name: RendererType;
+    /** Renderer name (unique within a RendererRegistry) */
+    name: RendererName;
     /** Renderer display name */
     displayName: string;
     /** Renderer description */
@@ -261,7 +273,7 @@ export abstract class Renderer {
     /**
      * Get renderer name
      */
-    getName(): RendererType {
+    getName(): RendererName {
         return this.getMetadata().name;
     }
 
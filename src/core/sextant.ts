@@ -0,0 +1,46 @@
+import { MosaicRenderer } from './mosaic';
+import type { RendererMetadata } from './renderer';
+
+/** First character of the Symbols for Legacy Computing sextants (U+1FB00) */
+const SEXTANT_BASE = 0x1fb00;
+
+/** Masks without a sextant character; they reuse Block Elements instead */
+const EXISTING_BLOCKS = new Map([
+    [0, ' '],
+    [21, '▌'], // left column
+    [42, '▐'], // right column
+    [63, '█'],
+]);
+
+/**
+ * Sextant renderer
+ *
+ * Implements 2x3 solid rendering using Unicode 13 sextant characters (U+1FB00-U+1FB3B)
+ * Needs a terminal that draws Symbols for Legacy Computing (kitty, WezTerm, foot, ...)
+ */
+export class SextantRenderer extends MosaicRenderer {
+    getMetadata(): RendererMetadata {
+        return {
+            name: 'sextant',
+            displayName: 'Sextant',
+            description: 'Sextant character (🬻) 2x3 matrix, solid fills',
+            resolution: {
+                horizontal: 2,
+                vertical: 3,
+            },
+            requiresUtf8: true,
+            requiresUnicode: true,
+            minScore: 30,
+        };
+    }
+
+    protected glyph(mask: number): string {
+        const block = EXISTING_BLOCKS.get(mask);
+        if (block !== undefined) {
+            return block;
+        }
+        // Sextants run in mask order, skipping the masks drawn by Block Elements
+        const skipped = (mask > 21 ? 1 : 0) + (mask > 42 ? 1 : 0);
+        return String.fromCodePoint(SEXTANT_BASE + mask - 1 - skipped);
+    }
+}
@@ -0,0 +1,153 @@
+import { GraphicsRenderer } from './graphics';
+import type { RendererMetadata } from './renderer';
+import type { Pixel } from './types';
+
+/**
+ * Sixel characters encode 6 vertical pixels starting at this code point
+ */
+const SIXEL_BASE = 0x3f;
+
+/**
+ * Maximum number of color registers
+ */
+const MAX_REGISTERS = 256;
+
+/**
+ * Sixel renderer
+ *
+ * Encodes the canvas as a DEC Sixel image with a transparent background.
+ * Supported by WezTerm, foot, mlterm, contour and xterm (-ti vt340).
+ */
+export class SixelRenderer extends GraphicsRenderer {
+    getMetadata(): RendererMetadata {
+        return {
+            name: 'sixel',
+            displayName: 'Sixel',
+            description: 'DEC Sixel graphics, true pixel resolution',
+            resolution: { ...this.cellSize },
+            requiresUtf8: false,
+            requiresUnicode: false,
+            minScore: 0, // Protocol support is checked explicitly by the selector
+        };
+    }
+
+    // ============================================================
+    // Sixel-specific private methods
+    // ============================================================
+
+    /**
+     * Map every active pixel to a color register
+     * Once all registers are defined, further colors use the nearest defined one.
+     * @returns Register index per pixel (-1 = transparent) and the palette definitions
+     */
+    private buildPalette(
+        pixels: Pixel[][],
+        width: number,
+        height: number,
+    ): { indices: Int16Array; palette: string[] } {
+        const indices = new Int16Array(width * height).fill(-1);
+        const registers = new Map<string, number>();
+        const colors: Array<[number, number, number]> = [];
+        const palette: string[] = [];
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const pixel = pixels[y]?.[x];
+                if (!pixel?.active) continue;
+
+                const { r, g, b } = this.resolvePixelColor(pixel);
+                // Sixel color components are percentages
+                const color: [number, number, number] = [
+                    Math.round((r * 100) / 255),
+                    Math.round((g * 100) / 255),
+                    Math.round((b * 100) / 255),
+                ];
+                const key = color.join(';');
+
+                let register = registers.get(key);
+                if (register === undefined) {
+                    if (colors.length < MAX_REGISTERS) {
+                        register = colors.length;
+                        colors.push(color);
+                        palette.push(`#${register};2;${key}`);
+                    } else {
+                        register = this.nearestRegister(colors, color);
+                    }
+                    registers.set(key, register);
+                }
+                indices[y * width + x] = register;
+            }
+        }
+
+        return { indices, palette };
+    }
+
+    /**
+     * Register whose color is closest to `color` (squared RGB distance)
+     */
+    private nearestRegister(
+        colors: Array<[number, number, number]>,
+        [r, g, b]: [number, number, number],
+    ): number {
+        let nearest = 0;
+        let best = Number.POSITIVE_INFINITY;
+        colors.forEach(([cr, cg, cb], register) => {
+            const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+            if (distance < best) {
+                best = distance;
+                nearest = register;
+            }
+        });
+        return nearest;
+    }
+
+    /**
+     * Run-length encode a row of sixel characters
+     */
+    private compress(chars: string): string {
+        let result = '';
+        let i = 0;
+        while (i < chars.length) {
+            const char = chars[i] ?? '';
+            let run = 1;
+            while (chars[i + run] === char) run++;
+            result += run > 3 ? `!${run}${char}` : char.repeat(run);
+            i += run;
+        }
+        return result;
+    }
+
+    protected encodeImage(pixels: Pixel[][], width: number, height: number): string {
+        const { indices, palette } = this.buildPalette(pixels, width, height);
+
+        // P2=1: unset pixels stay transparent; raster attributes declare 1:1 aspect and size
+        let sequence = `\x1bP0;1;0q"1;1;${width};${height}${palette.join('')}`;
+
+        for (let bandY = 0; bandY < height; bandY += 6) {
+            const bands: string[] = [];
+
+            for (let register = 0; register < palette.length; register++) {
+                let chars = '';
+                let used = false;
+                for (let x = 0; x < width; x++) {
+                    let bits = 0;
+                    for (let dy = 0; dy < 6 && bandY + dy < height; dy++) {
+                        if (indices[(bandY + dy) * width + x] === register) {
+                            bits |= 1 << dy;
+                        }
+                    }
+                    if (bits) used = true;
+                    chars += String.fromCharCode(SIXEL_BASE + bits);
+                }
+                if (used) {
+                    // Trailing empty sixels carry no information
+                    bands.push(`#${register}${this.compress(chars.replace(/\?+$/, ''))}`);
+                }
+            }
+
+            sequence += `${bands.join('$')}-`;
+        }
+
+        return `${sequence}\x1b\\`;
+    }
+}
@@ -5,6 +5,16 @@ export interface Pixel {
     color?: string;
 }
 
+/**
+ * Terminal image drawn over a rendered canvas (pixel graphics renderers)
+ */
+export interface TerminalImage {
+    /** Escape sequence drawing the image at the cursor position */
+    sequence: string;
+    /** Escape sequence removing the image from the screen */
+    clear?: string;
+}
+
 /**
  * A line of rendered text, consisting of segments with optional styling.
  */
@@ -12,4 +22,6 @@ export type RenderedLine = Array<{
     text: string;
     color?: string;
     backgroundColor?: string;
+    /** Image covering the canvas, written outside of the text output (first segment only) */
+    image?: TerminalImage;
 }>;
@@ -0,0 +1,259 @@
+/**
+ * Terminal probe
+ *
+ * Asks the terminal about itself instead of guessing from environment variables: device
+ * attributes (DA1/DA2), name and version (XTVERSION), the rendered width of braille and block
+ * glyphs (cursor position reports), default colors (OSC 10/11) and kitty graphics support.
+ */
+
+import type { RgbColor } from '../utils/color';
+
+const ESC = '\u001b';
+/** String terminator (ST) or BEL ending OSC, DCS and APC replies */
+const TERMINATOR = `(?:${ESC}\\\\|\u0007)`;
+
+/** Glyphs whose width is measured */
+const BRAILLE_GLYPH = '⣿';
+const BLOCK_GLYPH = '█';
+
+/**
+ * Queries written in one go; DA1 goes last because every terminal answers it,
+ * so its reply means all other replies have arrived
+ */
+const QUERIES = [
+    // kitty graphics: query support with a 1x1 image that is not stored
+    `${ESC}_Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA${ESC}\\`,
+    // XTVERSION
+    `${ESC}[>0q`,
+    // DA2
+    `${ESC}[>c`,
+    // Default foreground and background colors
+    `${ESC}]10;?${ESC}\\`,
+    `${ESC}]11;?${ESC}\\`,
+    // Print each glyph at column 1 and report the cursor position, then erase the line
+    `\r${BRAILLE_GLYPH}${ESC}[6n\r${BLOCK_GLYPH}${ESC}[6n\r${ESC}[K`,
+    // DA1
+    `${ESC}[c`,
+].join('');
+
+const DA1_REPLY = new RegExp(`${ESC}\\[\\?([\\d;]*)c`);
+const DA2_REPLY = new RegExp(`${ESC}\\[>([\\d;]*)c`);
+const XTVERSION_REPLY = new RegExp(`${ESC}P>\\|(.*?)${TERMINATOR}`);
+const COLOR_REPLY = new RegExp(
+    `${ESC}\\](10|11);rgb:([0-9a-f]+)/([0-9a-f]+)/([0-9a-f]+)${TERMINATOR}`,
+    'gi',
+);
+const CURSOR_REPLY = new RegExp(`${ESC}\\[(\\d+);(\\d+)R`, 'g');
+const KITTY_REPLY = new RegExp(`${ESC}_Gi=31;OK${TERMINATOR}`);
+
+/**
+ * Terminal input the probe reads replies from (e.g. `process.stdin`)
+ */
+export interface ProbeInput {
+    isTTY?: boolean;
+    isRaw?: boolean;
+    setRawMode?: (mode: boolean) => unknown;
+    /** Flowing state of a Readable (null until data is first consumed) */
+    readableFlowing?: boolean | null;
+    pause?: () => unknown;
+    resume?: () => unknown;
+    on(event: 'data', listener: (chunk: string | Uint8Array) => void): unknown;
+    removeListener(event: 'data', listener: (chunk: string | Uint8Array) => void): unknown;
+}
+
+/**
+ * Terminal output the probe writes queries to (e.g. `process.stdout`)
+ */
+export interface ProbeOutput {
+    isTTY?: boolean;
+    write(data: string): unknown;
+}
+
+/**
+ * Probe options
+ */
+export interface TerminalProbeOptions {
+    /**
+     * Stream replies are read from
+     * @default process.stdin
+     */
+    input?: ProbeInput;
+
+    /**
+     * Stream queries are written to
+     * @default process.stdout
+     */
+    output?: ProbeOutput;
+
+    /**
+     * Time to wait for replies in ms
+     * @default 500
+     */
+    timeout?: number;
+
+    /**
+     * Probe again instead of reusing the result cached for this input
+     * @default false
+     */
+    refresh?: boolean;
+}
+
+/**
+ * What the terminal reported
+ *
+ * Fields stay undefined when the terminal did not answer the query.
+ */
+export interface TerminalProbeResult {
+    /** Whether the terminal answered at all (DA1 arrived before the timeout) */
+    responded: boolean;
+
+    /** DA1 attribute codes (4: Sixel graphics) */
+    deviceAttributes: number[];
+
+    /** DA2 terminal type code, firmware version and ROM cartridge parameters */
+    secondaryAttributes?: number[];
+
+    /** XTVERSION reply, e.g. 'WezTerm 20240203-110809-5046fc22' or 'tmux 3.4' */
+    version?: string;
+
+    /** Columns a braille glyph advanced the cursor (1 when braille renders correctly) */
+    brailleWidth?: number;
+
+    /** Columns a full block glyph advanced the cursor */
+    blockWidth?: number;
+
+    /** Whether the terminal accepted a kitty graphics query */
+    kittyGraphics: boolean;
+
+    /** Default foreground color (OSC 10) */
+    foreground?: RgbColor;
+
+    /** Default background color (OSC 11) */
+    background?: RgbColor;
+}
+
+/**
+ * Scale an XParseColor hex channel (1-4 digits) to 0-255
+ */
+function parseChannel(hex: string): number {
+    const max = 16 ** hex.length - 1;
+    return Math.round((Number.parseInt(hex, 16) / max) * 255);
+}
+
+/**
+ * Split numeric control sequence parameters (`62;4;22` → [62, 4, 22])
+ */
+function parseParams(params: string): number[] {
+    return params
+        .split(';')
+        .filter((param) => param !== '')
+        .map(Number);
+}
+
+/**
+ * Extract probe results from the replies read so far
+ *
+ * @param data - Raw text read from the terminal
+ * @returns Parsed result (`responded` is true once the DA1 reply is in)
+ */
+export function parseProbeReplies(data: string): TerminalProbeResult {
+    const da1 = DA1_REPLY.exec(data);
+    const result: TerminalProbeResult = {
+        responded: da1 !== null,
+        deviceAttributes: da1 ? parseParams(da1[1] ?? '') : [],
+        kittyGraphics: KITTY_REPLY.test(data),
+    };
+
+    const da2 = DA2_REPLY.exec(data);
+    if (da2) result.secondaryAttributes = parseParams(da2[1] ?? '');
+
+    const version = XTVERSION_REPLY.exec(data);
+    if (version) result.version = version[1] ?? '';
+
+    for (const [, code, r = '', g = '', b = ''] of data.matchAll(COLOR_REPLY)) {
+        const color = { r: parseChannel(r), g: parseChannel(g), b: parseChannel(b) };
+        if (code === '10') result.foreground = color;
+        else result.background = color;
+    }
+
+    // Each glyph was printed at column 1, so the reported column is 1 + its width
+    const [braille, block] = Array.from(data.matchAll(CURSOR_REPLY), (match) => Number(match[2]));
+    if (braille !== undefined) result.brailleWidth = braille - 1;
+    if (block !== undefined) result.blockWidth = block - 1;
+
+    return result;
+}
+
+/** Probe per input stream, so a session asks only once */
+const probeCache = new WeakMap<ProbeInput, Promise<TerminalProbeResult>>();
+
+/**
+ * Query the terminal
+ *
+ * Input is switched to raw mode while waiting, then restored. Replies that do not arrive within
+ * the timeout are left undefined; without a TTY the probe resolves at once with `responded: false`.
+ * Run it before Ink starts reading input.
+ *
+ * @param options - Streams, timeout and cache control
+ * @returns What the terminal reported (cached per input stream)
+ *
+ * @example
+ * const probe = await probeTerminal({ timeout: 300 });
+ * if (probe.brailleWidth === 1) console.log('braille renders in one cell');
+ */
+export function probeTerminal(options: TerminalProbeOptions = {}): Promise<TerminalProbeResult> {
+    const input = options.input ?? process.stdin;
+    const cached = probeCache.get(input);
+    if (cached && !options.refresh) return cached;
+
+    const probe = runProbe(input, options.output ?? process.stdout, options.timeout ?? 500);
+    probeCache.set(input, probe);
+    return probe;
+}
+
+/**
+ * Forget cached probe results
+ * @param input - Input stream to forget (default process.stdin)
+ */
+export function clearProbeCache(input: ProbeInput = process.stdin): void {
+    probeCache.delete(input);
+}
+
+/**
+ * Write the queries and collect replies until DA1 arrives or the timeout passes
+ */
+function runProbe(
+    input: ProbeInput,
+    output: ProbeOutput,
+    timeout: number,
+): Promise<TerminalProbeResult> {
+    if (!input.isTTY || !output.isTTY) {
+        return Promise.resolve(parseProbeReplies(''));
+    }
+
+    return new Promise((resolve) => {
+        const wasRaw = input.isRaw ?? false;
+        // A fresh stdin is not flowing yet (null); only a stream that was flowing keeps flowing
+        const wasFlowing = input.readableFlowing === true;
+        const decoder = new TextDecoder();
+        let data = '';
+
+        const finish = () => {
+            clearTimeout(timer);
+            input.removeListener('data', onData);
+            if (!wasRaw) input.setRawMode?.(false);
+            if (!wasFlowing) input.pause?.();
+            resolve(parseProbeReplies(data));
+        };
+        const onData = (chunk: string | Uint8Array) => {
+            data += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+            if (DA1_REPLY.test(data)) finish();
+        };
+        const timer = setTimeout(finish, timeout);
+
+        if (!wasRaw) input.setRawMode?.(true);
+        input.on('data', onData);
+        input.resume?.();
+        output.write(QUERIES);
+    });
+}
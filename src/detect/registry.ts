@@ -0,0 +1,169 @@
+/**
+ * Renderer Registry
+ *
+ * Maps renderer names to factories and the terminal capabilities they need,
+ * so custom renderers can take part in automatic selection
+ */
+
+import { AsciiRenderer } from '../core/ascii';
+import { BlockRenderer } from '../core/block';
+import { BrailleRenderer } from '../core/braille';
+import { KittyRenderer } from '../core/kitty';
+import { QuadrantRenderer } from '../core/quadrant';
+import type { Renderer, RendererMetadata, RendererName } from '../core/renderer';
+import { SextantRenderer } from '../core/sextant';
+import { SixelRenderer } from '../core/sixel';
+import type { TerminalCapabilities } from './types';
+
+/**
+ * Capability predicate: whether the terminal can display a renderer's output
+ */
+export type RendererPredicate = (capabilities: TerminalCapabilities) => boolean;
+
+/**
+ * Renderer registration
+ */
+export interface RendererRegistration {
+    /** Renderer metadata (`name` is the registered name) */
+    metadata: RendererMetadata;
+
+    /** Create a renderer instance */
+    create: () => Renderer;
+
+    /**
+     * Capabilities required beyond the metadata's `minScore`, `requiresUtf8` and `requiresUnicode`
+     * @default always supported
+     */
+    supports?: RendererPredicate;
+}
+
+/**
+ * Renderer Registry
+ *
+ * Starts with the built-in renderers (braille, block, quadrant, sextant, ascii, kitty, sixel). Registering an
+ * existing name replaces that renderer.
+ *
+ * @example
+ * const registry = new RendererRegistry();
+ * registry.register({
+ *     metadata: new QuadrantRenderer().getMetadata(),
+ *     create: () => new QuadrantRenderer(),
+ *     supports: (capabilities) => capabilities.supportsBlockElements,
+ * });
+ * <InkHudProvider registry={registry}>
+ *     <LineChart series={data} rendererChain={['quadrant', 'block', 'ascii']} />
+ * </InkHudProvider>
+ */
+export class RendererRegistry {
+    /** Registrations by name, in registration order */
+    private registrations = new Map<RendererName, RendererRegistration>();
+
+    constructor() {
+        this.registerBuiltins();
+    }
+
+    /**
+     * Register the built-in renderers with their capability predicates
+     */
+    private registerBuiltins(): void {
+        const builtins: Array<[() => Renderer, RendererPredicate | undefined]> = [
+            [() => new BrailleRenderer(), (capabilities) => capabilities.supportsBraille],
+            [() => new BlockRenderer(), (capabilities) => capabilities.supportsBlockElements],
+            [() => new QuadrantRenderer(), (capabilities) => capabilities.supportsBlockElements],
+            [() => new SextantRenderer(), (capabilities) => capabilities.supportsSextants],
+            [() => new AsciiRenderer(), undefined],
+            [() => new KittyRenderer(), (capabilities) => capabilities.supportsKittyGraphics],
+            [() => new SixelRenderer(), (capabilities) => capabilities.supportsSixel],
+        ];
+
+        for (const [create, supports] of builtins) {
+            this.register({
+                metadata: create().getMetadata(),
+                create,
+                ...(supports ? { supports } : {}),
+            });
+        }
+    }
+
+    /**
+     * Register a renderer under its metadata name
+     * @param registration - Metadata, factory and capability predicate
+     * @returns The registry (for chaining)
+     */
+    register(registration: RendererRegistration): this {
+        this.registrations.set(registration.metadata.name, registration);
+        return this;
+    }
+
+    /**
+     * Remove a renderer
+     * @param name - Renderer name
+     * @returns Whether a renderer was removed
+     */
+    unregister(name: RendererName): boolean {
+        return this.registrations.delete(name);
+    }
+
+    /**
+     * Whether a renderer is registered under the name
+     */
+    has(name: RendererName): boolean {
+        return this.registrations.has(name);
+    }
+
+    /**
+     * Registered renderer names, in registration order
+     */
+    names(): RendererName[] {
+        return [...this.registrations.keys()];
+    }
+
+    /**
+     * Get a renderer's metadata
+     * @param name - Renderer name
+     * @returns Metadata, or undefined when the name is not registered
+     */
+    getMetadata(name: RendererName): RendererMetadata | undefined {
+        return this.registrations.get(name)?.metadata;
+    }
+
+    /**
+     * Create a renderer instance
+     * @param name - Renderer name
+     * @returns Renderer instance, or undefined when the name is not registered
+     */
+    create(name: RendererName): Renderer | undefined {
+        return this.registrations.get(name)?.create();
+    }
+
+    /**
+     * Check whether a renderer meets terminal capability requirements
+     * (minimum score, UTF-8, Unicode and its capability predicate)
+     * @param name - Renderer name
+     * @param capabilities - Terminal capabilities
+     * @returns Whether the renderer is registered and supported
+     */
+    isSupported(name: RendererName, capabilities: TerminalCapabilities): boolean {
+        const registration = this.registrations.get(name);
+        if (!registration) {
+            return false;
+        }
+
+        const { metadata, supports } = registration;
+        if (capabilities.score < metadata.minScore) {
+            return false;
+        }
+        if (metadata.requiresUtf8 && !capabilities.supportsUtf8) {
+            return false;
+        }
+        if (metadata.requiresUnicode && !capabilities.supportsUnicode) {
+            return false;
+        }
+        return supports ? supports(capabilities) : true;
+    }
+}
+
+/**
+ * Global RendererRegistry instance (used when no registry is given)
+ */
+export const rendererRegistry = new RendererRegistry();
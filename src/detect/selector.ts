@@ -5,9 +5,8 @@
  */
 
 import { AsciiRenderer } from '../core/ascii';
-import { BlockRenderer } from '../core/block';
-import { BrailleRenderer } from '../core/braille';
-import type { Renderer, RendererType } from '../core/renderer';
+import type { Renderer, RendererName } from '../core/renderer';
+import { type RendererRegistry, rendererRegistry } from './registry';
 import { TerminalDetector } from './terminal';
 import type { TerminalCapabilities } from './types';
 
@@ -15,101 +14,61 @@ import type { TerminalCapabilities } from './types';
  * Renderer Selector
  *
  * Automatically detects terminal capabilities and selects the optimal renderer
- * Supports custom fallback chains and renderer caching
+ * Supports custom fallback chains and renderers added to a RendererRegistry
  */
 export class RendererSelector {
     /** Terminal detector */
     private detector: TerminalDetector;
 
-    constructor(detector: TerminalDetector = new TerminalDetector()) {
-        this.detector = detector;
-    }
+    /** Renderers to choose from */
+    private registry: RendererRegistry;
 
-    /**
-     * Creates a renderer instance of the specified type
-     * @param type - Renderer type
-     * @returns Renderer instance
-     */
-    private createRenderer(type: RendererType): Renderer {
-        switch (type) {
-            case 'braille':
-                return new BrailleRenderer();
-            case 'block':
-                return new BlockRenderer();
-            case 'ascii':
-                return new AsciiRenderer();
-        }
+    constructor(
+        detector: TerminalDetector = new TerminalDetector(),
+        registry: RendererRegistry = rendererRegistry,
+    ) {
+        this.detector = detector;
+        this.registry = registry;
     }
 
     /**
-     * Get renderer by type
-     * @param type - Renderer type
+     * Get renderer by name
+     * Names that are not registered fall back to ASCII
+     * @param type - Renderer name
      * @returns Renderer instance
      */
-    getRenderer(type: RendererType): Renderer {
-        return this.createRenderer(type);
+    getRenderer(type: RendererName): Renderer {
+        return this.registry.create(type) ?? new AsciiRenderer();
     }
 
     /**
-     * Check if the renderer meets terminal capability requirements
-     * @param renderer - Renderer instance
-     * @param capabilities - Terminal capabilities
-     * @returns Whether requirements are met
+     * Get the registry renderers are created from
+     * @returns Renderer registry
      */
-    private isRendererSupported(renderer: Renderer, capabilities: TerminalCapabilities): boolean {
-        const metadata = renderer.getMetadata();
-
-        // Check minimum score requirement
-        if (capabilities.score < metadata.minScore) {
-            return false;
-        }
-
-        // Check UTF-8 requirement
-        if (metadata.requiresUtf8 && !capabilities.supportsUtf8) {
-            return false;
-        }
-
-        // Check Unicode requirement
-        if (metadata.requiresUnicode && !capabilities.supportsUnicode) {
-            return false;
-        }
-
-        // Additional checks for specific renderers
-        const rendererName = metadata.name;
-
-        // Braille requires explicit support
-        if (rendererName === 'braille' && !capabilities.supportsBraille) {
-            return false;
-        }
-
-        // Block Elements requires Unicode support
-        if (rendererName === 'block' && !capabilities.supportsBlockElements) {
-            return false;
-        }
-
-        return true;
+    getRegistry(): RendererRegistry {
+        return this.registry;
     }
 
     /**
      * Automatically select the best renderer
      *
      * Try in the order of the priority chain, returning the first renderer that meets terminal capability requirements
-     * If none are satisfied, fallback to ASCII
+     * Names that are not registered are skipped. If none are satisfied, fallback to ASCII
      *
-     * @param preferredChain - Priority chain (default: ['braille', 'block', 'ascii'])
+     * @param preferredChain - Priority chain (default: ['kitty', 'sixel', 'braille', 'block', 'ascii'])
      * @returns Selected renderer instance
      */
-    selectBest(preferredChain: RendererType[] = ['braille', 'block', 'ascii']): Renderer {
+    selectBest(
+        preferredChain: RendererName[] = ['kitty', 'sixel', 'braille', 'block', 'ascii'],
+    ): Renderer {
         // Detect terminal capabilities
         const capabilities = this.detector.detect();
 
         // Traverse according to the priority chain
         for (const rendererType of preferredChain) {
-            const renderer = this.getRenderer(rendererType);
-
             // Check whether requirements are met
-            if (this.isRendererSupported(renderer, capabilities)) {
-                return renderer;
+            if (this.registry.isSupported(rendererType, capabilities)) {
+                return this.getRenderer(rendererType);
             }
         }
 
@@ -1,10 +1,51 @@
 /**
  * Terminal capabilities detector
  *
- * Automatically detect terminal-supported features by analyzing environment variables
+ * Automatically detect terminal-supported features by analyzing environment variables,
+ * optionally refined by asking the terminal itself (see `probe`)
  */
 
-import type { EnvironmentInfo, TerminalCapabilities } from './types';
+import type { ColorDepth } from '../utils/colorDepth';
+import { type TerminalProbeOptions, type TerminalProbeResult, probeTerminal } from './probe';
+import type {
+    CapabilityExplanation,
+    CapabilityReport,
+    EnvironmentInfo,
+    Multiplexer,
+    TerminalCapabilities,
+    TerminalEnvironment,
+} from './types';
+
+/** Environment variables copied into EnvironmentInfo */
+const ENV_KEYS: Array<keyof EnvironmentInfo> = [
+    'LANG',
+    'LC_ALL',
+    'LC_CTYPE',
+    'LC_TERMINAL',
+    'TERM',
+    'COLORTERM',
+    'TERM_PROGRAM',
+    'TERM_PROGRAM_VERSION',
+    'KITTY_WINDOW_ID',
+    'NO_COLOR',
+    'FORCE_COLOR',
+    'TMUX',
+    'STY',
+    'ZELLIJ',
+    'SSH_CONNECTION',
+    'SSH_CLIENT',
+    'SSH_TTY',
+    'WSL_DISTRO_NAME',
+    'WSL_INTEROP',
+    'WT_SESSION',
+    'CI',
+];
+
+/** Every capability decision, as reported by `explain()` */
+type CapabilityDecisions = CapabilityReport['capabilities'];
+
+/** Decisions the score is calculated from */
+type ScoredDecisions = Omit<CapabilityDecisions, 'score'>;
 
 /**
  * Terminal capabilities detector
@@ -24,11 +65,27 @@ export class TerminalDetector {
         'rio',
     ];
 
+    /** Terminal whitelist drawing sextant characters themselves, independent of the font (lowercase) */
+    private static readonly SEXTANT_TERMINALS = ['kitty', 'wezterm', 'foot', 'ghostty', 'contour'];
+
+    /** Terminal whitelist supporting the kitty graphics protocol (lowercase) */
+    private static readonly KITTY_GRAPHICS_TERMINALS = ['kitty', 'wezterm', 'ghostty', 'konsole'];
+
+    /** Terminal whitelist supporting Sixel graphics (lowercase) */
+    private static readonly SIXEL_TERMINALS = ['wezterm', 'foot', 'mlterm', 'contour'];
+
     /** Environment variable information */
     private envInfo: EnvironmentInfo;
 
+    /** Environment derived from the variables */
+    private environment: TerminalEnvironment;
+
+    /** Replies from the terminal, once probed */
+    private probeResult: TerminalProbeResult | undefined;
+
     constructor(env: NodeJS.ProcessEnv = process.env) {
         this.envInfo = this.extractEnvInfo(env);
+        this.environment = this.extractEnvironment();
     }
 
     /**
@@ -39,32 +96,106 @@ export class TerminalDetector {
     private extractEnvInfo(env: NodeJS.ProcessEnv): EnvironmentInfo {
         const info: EnvironmentInfo = {};
 
-        if (env.LANG !== undefined) {
-            info.LANG = env.LANG;
+        for (const key of ENV_KEYS) {
+            const value = env[key];
+            if (value !== undefined) {
+                info[key] = value;
+            }
         }
-        if (env.TERM !== undefined) {
-            info.TERM = env.TERM;
+
+        return info;
+    }
+
+    /**
+     * Derive locale, multiplexer, remote session, WSL, CI and Windows Terminal
+     * @returns Terminal environment
+     */
+    private extractEnvironment(): TerminalEnvironment {
+        const { SSH_CONNECTION, SSH_CLIENT, SSH_TTY, WSL_DISTRO_NAME, WSL_INTEROP, CI } =
+            this.envInfo;
+        const locale = this.findLocale()?.[1];
+        const multiplexer = this.checkMultiplexer();
+
+        return {
+            ...(locale ? { locale } : {}),
+            ...(multiplexer ? { multiplexer } : {}),
+            remote: Boolean(SSH_CONNECTION || SSH_CLIENT || SSH_TTY),
+            wsl: Boolean(WSL_DISTRO_NAME || WSL_INTEROP),
+            ci: CI !== undefined && CI !== '' && CI !== '0' && CI.toLowerCase() !== 'false',
+            windowsTerminal: Boolean(this.envInfo.WT_SESSION),
+        };
+    }
+
+    /**
+     * Effective locale variable, following POSIX precedence (LC_ALL > LC_CTYPE > LANG)
+     * @returns Variable name and value, or undefined when none is set
+     */
+    private findLocale(): [string, string] | undefined {
+        for (const key of ['LC_ALL', 'LC_CTYPE', 'LANG'] as const) {
+            const value = this.envInfo[key];
+            if (value) {
+                return [key, value];
+            }
         }
-        if (env.COLORTERM !== undefined) {
-            info.COLORTERM = env.COLORTERM;
+        return undefined;
+    }
+
+    /**
+     * Detect a multiplexer from its session variables, TERM_PROGRAM or TERM
+     * (tmux and screen set TERM to tmux-* / screen-* inside their sessions)
+     * @returns Multiplexer, or undefined when the application talks to the terminal directly
+     */
+    private checkMultiplexer(): Multiplexer | undefined {
+        const term = this.envInfo.TERM || '';
+
+        if (this.envInfo.TMUX || this.envInfo.TERM_PROGRAM === 'tmux' || term.startsWith('tmux')) {
+            return 'tmux';
         }
-        if (env.TERM_PROGRAM !== undefined) {
-            info.TERM_PROGRAM = env.TERM_PROGRAM;
+        if (this.envInfo.ZELLIJ !== undefined) {
+            return 'zellij';
         }
-        if (env.TERM_PROGRAM_VERSION !== undefined) {
-            info.TERM_PROGRAM_VERSION = env.TERM_PROGRAM_VERSION;
+        if (this.envInfo.STY || term.startsWith('screen')) {
+            return 'screen';
         }
+        return undefined;
+    }
 
-        return info;
+    /**
+     * Probe result, when the terminal answered
+     */
+    private get probed(): TerminalProbeResult | undefined {
+        return this.probeResult?.responded ? this.probeResult : undefined;
     }
 
     /**
      * Detect UTF-8 support
+     * A measured braille glyph one cell wide means the terminal decoded it as UTF-8;
+     * otherwise the effective locale decides. Windows Terminal and the Windows console behind WSL
+     * are UTF-8 when no locale is set.
      * @returns Whether UTF-8 is supported
      */
-    private checkUtf8Support(): boolean {
-        const lang = this.envInfo.LANG || '';
-        return lang.toUpperCase().includes('UTF-8') || lang.toUpperCase().includes('UTF8');
+    private checkUtf8Support(): CapabilityExplanation<boolean> {
+        const measured = this.probed?.brailleWidth ?? this.probed?.blockWidth;
+        if (measured !== undefined) {
+            return { value: measured === 1, reason: `probed glyph width is ${measured}` };
+        }
+
+        const locale = this.findLocale();
+        if (locale) {
+            const [name, value] = locale;
+            const utf8 =
+                value.toUpperCase().includes('UTF-8') || value.toUpperCase().includes('UTF8');
+            return {
+                value: utf8,
+                reason: `${name}=${value} is ${utf8 ? 'a' : 'not a'} UTF-8 locale`,
+            };
+        }
+
+        const windowsConsole = this.checkWindowsConsole();
+        if (windowsConsole) {
+            return { value: true, reason: `${windowsConsole} uses UTF-8 and no locale is set` };
+        }
+        return { value: false, reason: 'no locale is set (LC_ALL, LC_CTYPE, LANG)' };
     }
 
     /**
@@ -72,22 +203,53 @@ export class TerminalDetector {
      * UTF-8 terminals usually support Unicode
      * @returns Whether Unicode is supported
      */
-    private checkUnicodeSupport(): boolean {
-        return this.checkUtf8Support();
+    private checkUnicodeSupport(): CapabilityExplanation<boolean> {
+        const utf8 = this.checkUtf8Support();
+        return { value: utf8.value, reason: `follows UTF-8 support (${utf8.reason})` };
     }
 
     /**
      * Detect Braille character support
-     * Determine based on terminal program whitelist
+     * Determine from the measured glyph width, the terminal program whitelist or Windows Terminal.
+     * Multiplexers hide the outer terminal (TERM_PROGRAM is tmux or missing), so inside one
+     * a UTF-8 locale is taken as braille support.
      * @returns Whether Braille characters are supported
      */
-    private checkBrailleSupport(): boolean {
-        const termProgram = (this.envInfo.TERM_PROGRAM || '').toLowerCase();
+    private checkBrailleSupport(): CapabilityExplanation<boolean> {
+        const measured = this.probed?.brailleWidth;
+        if (measured !== undefined) {
+            return { value: measured === 1, reason: `probed braille glyph width is ${measured}` };
+        }
 
         // Check whitelist
-        return TerminalDetector.BRAILLE_SUPPORTED_TERMINALS.some((supportedTerm) =>
-            termProgram.includes(supportedTerm),
-        );
+        const match = this.matchTerminal(TerminalDetector.BRAILLE_SUPPORTED_TERMINALS, false);
+        if (match) {
+            return { value: true, reason: `${match} renders braille` };
+        }
+        if (this.environment.windowsTerminal) {
+            return { value: true, reason: 'Windows Terminal (WT_SESSION) renders braille' };
+        }
+
+        const { multiplexer } = this.environment;
+        if (multiplexer && this.checkUtf8Support().value) {
+            return {
+                value: true,
+                reason: `${multiplexer} hides the outer terminal; assumed from the UTF-8 locale`,
+            };
+        }
+
+        const { remote, wsl } = this.environment;
+        const termProgram = remote ? undefined : this.envInfo.TERM_PROGRAM;
+        let reason = termProgram
+            ? `TERM_PROGRAM=${termProgram} is not known to render braille`
+            : 'no known terminal program (TERM_PROGRAM, LC_TERMINAL)';
+        if (wsl) {
+            // Windows Terminal forwards WT_SESSION into WSL, so this is the classic console
+            reason = 'WSL console without WT_SESSION may lack braille glyphs';
+        } else if (remote && !termProgram) {
+            reason = 'over SSH only LC_TERMINAL names the outer terminal';
+        }
+        return { value: false, reason };
     }
 
     /**
@@ -95,78 +257,305 @@ export class TerminalDetector {
      * Most terminals supporting Unicode also support Block Elements
      * @returns Whether Block Elements are supported
      */
-    private checkBlockElementsSupport(): boolean {
-        return this.checkUnicodeSupport();
+    private checkBlockElementsSupport(): CapabilityExplanation<boolean> {
+        const measured = this.probed?.blockWidth;
+        if (measured !== undefined) {
+            return { value: measured === 1, reason: `probed block glyph width is ${measured}` };
+        }
+        const unicode = this.checkUnicodeSupport();
+        return { value: unicode.value, reason: `follows Unicode support (${unicode.reason})` };
     }
 
     /**
-     * Detect color support (16 colors or more)
-     * @returns Whether colors are supported
+     * Detect sextant character support
+     * Fonts rarely cover Symbols for Legacy Computing, so only terminals drawing them count.
+     * Unlike images, glyphs pass through multiplexers, so KITTY_WINDOW_ID is trusted there.
+     * @returns Whether sextant characters are drawn
+     */
+    private checkSextantSupport(): CapabilityExplanation<boolean> {
+        const utf8 = this.checkUtf8Support();
+        if (!utf8.value) {
+            return { value: false, reason: `follows UTF-8 support (${utf8.reason})` };
+        }
+
+        const match = this.matchTerminal(TerminalDetector.SEXTANT_TERMINALS);
+        if (match) {
+            return { value: true, reason: `${match} draws sextants` };
+        }
+        if (this.envInfo.KITTY_WINDOW_ID !== undefined) {
+            return { value: true, reason: 'KITTY_WINDOW_ID is set (kitty draws sextants)' };
+        }
+        return { value: false, reason: 'no terminal known to draw sextants' };
+    }
+
+    /**
+     * Color depth forced by NO_COLOR or FORCE_COLOR
+     * NO_COLOR (any non-empty value) turns colors off; FORCE_COLOR follows chalk's levels
+     * (0/false: none, 1/true/empty: 16 colors, 2: 256 colors, 3: true color)
+     * @returns Forced depth, or undefined when neither is set
+     */
+    private checkForcedColorDepth(): CapabilityExplanation<ColorDepth> | undefined {
+        if (this.envInfo.NO_COLOR) {
+            return { value: 'mono', reason: 'NO_COLOR is set' };
+        }
+
+        const force = this.envInfo.FORCE_COLOR;
+        if (force === undefined) {
+            return undefined;
+        }
+        const reason = `FORCE_COLOR=${force}`;
+        if (force === 'false' || force === '0') {
+            return { value: 'mono', reason };
+        }
+        if (force === '2') {
+            return { value: 'ansi256', reason };
+        }
+        return { value: force === '3' ? 'truecolor' : 'ansi16', reason };
+    }
+
+    /**
+     * Color depth implied by where the terminal runs, when TERM and COLORTERM report no colors
+     * Multiplexers draw at least 16 colors; CI log viewers show the basic ANSI colors.
+     * @returns Depth, or undefined when the environment implies nothing
+     */
+    private checkEnvironmentColorDepth(): CapabilityExplanation<ColorDepth> | undefined {
+        const { multiplexer, ci } = this.environment;
+        if (multiplexer) {
+            return { value: 'ansi16', reason: `${multiplexer} draws at least 16 colors` };
+        }
+        if (ci) {
+            return { value: 'ansi16', reason: 'CI log viewers show 16 colors' };
+        }
+        return undefined;
+    }
+
+    /**
+     * Detect color depth
+     * @returns Color depth
      */
-    private checkColorSupport(): boolean {
+    private checkColorDepth(): CapabilityExplanation<ColorDepth> {
+        const forced = this.checkForcedColorDepth();
+        if (forced) {
+            return forced;
+        }
+
         const term = this.envInfo.TERM || '';
         const colorterm = this.envInfo.COLORTERM || '';
 
-        // Check if TERM contains color identifier
-        if (term.includes('color') || term.includes('256color')) {
-            return true;
+        if (term === 'dumb') {
+            return { value: 'mono', reason: 'TERM=dumb' };
+        }
+        if (colorterm.toLowerCase() === 'truecolor' || colorterm === '24bit') {
+            return { value: 'truecolor', reason: `COLORTERM=${colorterm}` };
+        }
+        const windowsConsole = this.checkWindowsConsole();
+        if (windowsConsole) {
+            return { value: 'truecolor', reason: `${windowsConsole} has true color` };
+        }
+        if (term.includes('256color') || colorterm.includes('256')) {
+            return {
+                value: 'ansi256',
+                reason: term.includes('256color') ? `TERM=${term}` : `COLORTERM=${colorterm}`,
+            };
         }
 
-        // Check COLORTERM
-        if (colorterm.length > 0) {
-            return true;
+        // TERM contains a color identifier, or COLORTERM is set
+        if (term.includes('color') || colorterm.length > 0) {
+            return {
+                value: 'ansi16',
+                reason: term.includes('color') ? `TERM=${term}` : `COLORTERM=${colorterm}`,
+            };
         }
 
-        return false;
+        return (
+            this.checkEnvironmentColorDepth() ?? {
+                value: 'mono',
+                reason: term ? `TERM=${term} reports no colors` : 'TERM is not set',
+            }
+        );
+    }
+
+    /**
+     * Detect color support (16 colors or more)
+     * @returns Whether colors are supported
+     */
+    private checkColorSupport(): CapabilityExplanation<boolean> {
+        const depth = this.checkColorDepth();
+        return { value: depth.value !== 'mono', reason: `color depth is ${depth.value}` };
     }
 
     /**
      * Detect true color support (24-bit RGB)
      * @returns Whether true color is supported
      */
-    private checkTrueColorSupport(): boolean {
-        const colorterm = this.envInfo.COLORTERM || '';
-        return colorterm.toLowerCase() === 'truecolor' || colorterm === '24bit';
+    private checkTrueColorSupport(): CapabilityExplanation<boolean> {
+        const depth = this.checkColorDepth();
+        return { value: depth.value === 'truecolor', reason: `color depth is ${depth.value}` };
     }
 
     /**
-     * Calculate comprehensive terminal capability score (0-100)
-     * @returns Score
+     * Windows console the terminal runs in: Windows Terminal, or the console behind WSL
+     * (both decode UTF-8 and draw true color since Windows 10)
+     * @returns Description for reasons, or undefined outside Windows
      */
-    private calculateScore(): number {
-        let score = 0;
+    private checkWindowsConsole(): string | undefined {
+        const { windowsTerminal, wsl } = this.environment;
+        if (windowsTerminal) {
+            return 'Windows Terminal (WT_SESSION)';
+        }
+        return wsl ? 'Windows console (WSL)' : undefined;
+    }
 
-        // UTF-8 support +20
-        if (this.checkUtf8Support()) {
-            score += 20;
+    /**
+     * Match TERM_PROGRAM, LC_TERMINAL, TERM or the probed terminal version against a whitelist
+     * Over SSH, TERM_PROGRAM belongs to the remote host (SSH does not forward it), so only
+     * LC_TERMINAL, TERM and the probed version name the outer terminal.
+     * @param whitelist - Lowercase terminal names
+     * @param includeTerm - Whether TERM counts as a terminal name
+     * @returns Matching variable (e.g. 'TERM_PROGRAM=WezTerm'), or undefined
+     */
+    private matchTerminal(whitelist: string[], includeTerm = true): string | undefined {
+        const names: Array<[string, string | undefined]> = [
+            ['TERM_PROGRAM', this.environment.remote ? undefined : this.envInfo.TERM_PROGRAM],
+            ['LC_TERMINAL', this.envInfo.LC_TERMINAL],
+            ['TERM', includeTerm ? this.envInfo.TERM : undefined],
+            ['XTVERSION', this.probed?.version],
+        ];
+
+        for (const [source, value] of names) {
+            const lower = (value || '').toLowerCase();
+            if (lower && whitelist.some((name) => lower.includes(name))) {
+                return `${source}=${value}`;
+            }
         }
+        return undefined;
+    }
 
-        // Unicode support +10 (UTF-8 included)
-        if (this.checkUnicodeSupport()) {
-            score += 10;
+    /**
+     * Reason graphics protocols are unavailable regardless of the terminal
+     * Multiplexers do not pass images through and CI logs cannot show them. Over SSH the
+     * variables naming the terminal are missing or describe the remote host, so only a probe
+     * reply counts there.
+     * @returns Reason, or undefined when images can reach the terminal
+     */
+    private checkGraphicsBlocked(): string | undefined {
+        const { multiplexer, remote, ci } = this.environment;
+        if (multiplexer) {
+            return `${multiplexer} does not pass images through`;
         }
+        if (remote) {
+            return 'over SSH images are only used when probed';
+        }
+        return ci ? 'CI logs cannot show images' : undefined;
+    }
 
-        // Braille support +30 (advanced feature)
-        if (this.checkBrailleSupport()) {
-            score += 30;
+    /**
+     * Detect kitty graphics protocol support
+     * kitty always sets KITTY_WINDOW_ID; other implementations are matched by name.
+     * KITTY_WINDOW_ID leaks into multiplexer sessions, so only a probe reply counts there.
+     * @returns Whether the kitty graphics protocol is supported
+     */
+    private checkKittyGraphicsSupport(): CapabilityExplanation<boolean> {
+        if (this.probed?.kittyGraphics) {
+            return { value: true, reason: 'terminal answered the kitty graphics query' };
         }
 
-        // Block Elements support +10
-        if (this.checkBlockElementsSupport()) {
-            score += 10;
+        const blocked = this.checkGraphicsBlocked();
+        if (blocked) {
+            return { value: false, reason: blocked };
         }
+        if (this.envInfo.KITTY_WINDOW_ID !== undefined) {
+            return { value: true, reason: 'KITTY_WINDOW_ID is set' };
+        }
+
+        const match = this.matchTerminal(TerminalDetector.KITTY_GRAPHICS_TERMINALS);
+        return match
+            ? { value: true, reason: `${match} supports kitty graphics` }
+            : { value: false, reason: 'no terminal known to support kitty graphics' };
+    }
 
-        // Color support +15
-        if (this.checkColorSupport()) {
-            score += 15;
+    /**
+     * Detect Sixel graphics support
+     * Terminals report Sixel as DA1 attribute 4 (so does tmux when built with Sixel)
+     * @returns Whether Sixel graphics are supported
+     */
+    private checkSixelSupport(): CapabilityExplanation<boolean> {
+        if (this.probed?.deviceAttributes.includes(4)) {
+            return { value: true, reason: 'DA1 reports Sixel (attribute 4)' };
         }
 
-        // True color support +15
-        if (this.checkTrueColorSupport()) {
-            score += 15;
+        const blocked = this.checkGraphicsBlocked();
+        if (blocked) {
+            return { value: false, reason: blocked };
         }
 
-        return Math.min(score, 100);
+        const match = this.matchTerminal(TerminalDetector.SIXEL_TERMINALS);
+        return match
+            ? { value: true, reason: `${match} supports Sixel` }
+            : { value: false, reason: 'no terminal known to support Sixel' };
+    }
+
+    /**
+     * Classify the probed background color by its relative luminance
+     * @returns 'dark', 'light', or undefined when the terminal did not report it
+     */
+    private checkBackground(): CapabilityExplanation<TerminalCapabilities['background']> {
+        const background = this.probed?.background;
+        if (!background) {
+            return { value: undefined, reason: 'terminal did not report its background (OSC 11)' };
+        }
+        const luminance = 0.2126 * background.r + 0.7152 * background.g + 0.0722 * background.b;
+        return {
+            value: luminance < 128 ? 'dark' : 'light',
+            reason: `OSC 11 background has luminance ${Math.round(luminance)}`,
+        };
+    }
+
+    /**
+     * Calculate comprehensive terminal capability score (0-100)
+     * UTF-8 +20, Unicode +10, Braille +30, Block Elements +10, color +15, true color +15
+     * @param decisions - Capability decisions
+     * @returns Score
+     */
+    private calculateScore(decisions: ScoredDecisions): CapabilityExplanation<number> {
+        const weights: Array<[keyof ScoredDecisions, string, number]> = [
+            ['supportsUtf8', 'UTF-8', 20],
+            ['supportsUnicode', 'Unicode', 10],
+            ['supportsBraille', 'Braille', 30],
+            ['supportsBlockElements', 'Block Elements', 10],
+            ['supportsColor', 'color', 15],
+            ['supportsTrueColor', 'true color', 15],
+        ];
+        const earned = weights.filter(([key]) => decisions[key].value);
+        const score = earned.reduce((sum, [, , weight]) => sum + weight, 0);
+
+        return {
+            value: Math.min(score, 100),
+            reason:
+                earned.length > 0
+                    ? earned.map(([, label, weight]) => `${label} +${weight}`).join(', ')
+                    : 'no scored capabilities',
+        };
+    }
+
+    /**
+     * Decide every capability with its reason
+     */
+    private decide(): CapabilityDecisions {
+        const decisions = {
+            supportsUtf8: this.checkUtf8Support(),
+            supportsUnicode: this.checkUnicodeSupport(),
+            supportsBraille: this.checkBrailleSupport(),
+            supportsBlockElements: this.checkBlockElementsSupport(),
+            supportsSextants: this.checkSextantSupport(),
+            supportsColor: this.checkColorSupport(),
+            supportsTrueColor: this.checkTrueColorSupport(),
+            colorDepth: this.checkColorDepth(),
+            supportsKittyGraphics: this.checkKittyGraphicsSupport(),
+            supportsSixel: this.checkSixelSupport(),
+            background: this.checkBackground(),
+        };
+        return { ...decisions, score: this.calculateScore(decisions) };
     }
 
     /**
@@ -174,25 +563,67 @@ export class TerminalDetector {
      * @returns Terminal capability information
      */
     detect(): TerminalCapabilities {
-        const supportsUtf8 = this.checkUtf8Support();
-        const supportsUnicode = this.checkUnicodeSupport();
-        const supportsBraille = this.checkBrailleSupport();
-        const supportsBlockElements = this.checkBlockElementsSupport();
-        const supportsColor = this.checkColorSupport();
-        const supportsTrueColor = this.checkTrueColorSupport();
-        const score = this.calculateScore();
+        const decisions = this.decide();
+        const background = decisions.background.value;
 
         return {
-            supportsUtf8,
-            supportsUnicode,
-            supportsBraille,
-            supportsBlockElements,
-            supportsColor,
-            supportsTrueColor,
-            score,
+            supportsUtf8: decisions.supportsUtf8.value,
+            supportsUnicode: decisions.supportsUnicode.value,
+            supportsBraille: decisions.supportsBraille.value,
+            supportsBlockElements: decisions.supportsBlockElements.value,
+            supportsSextants: decisions.supportsSextants.value,
+            supportsColor: decisions.supportsColor.value,
+            supportsTrueColor: decisions.supportsTrueColor.value,
+            colorDepth: decisions.colorDepth.value,
+            supportsKittyGraphics: decisions.supportsKittyGraphics.value,
+            supportsSixel: decisions.supportsSixel.value,
+            score: decisions.score.value,
+            ...(background ? { background } : {}),
         };
     }
 
+    /**
+     * Explain why each capability was detected the way it was
+     *
+     * @returns Environment and every capability with its reason
+     *
+     * @example
+     * const { environment, capabilities } = new TerminalDetector().explain();
+     * // environment.multiplexer: 'tmux'
+     * // capabilities.supportsBraille: { value: true, reason: 'tmux hides the outer terminal; ...' }
+     */
+    explain(): CapabilityReport {
+        return { environment: this.getTerminalEnvironment(), capabilities: this.decide() };
+    }
+
+    /**
+     * Ask the terminal about its capabilities (opt-in, asynchronous)
+     *
+     * Replies take precedence over environment heuristics in every later `detect()` call.
+     * The probe runs once per input stream and session; a terminal that does not answer
+     * leaves detection unchanged.
+     *
+     * @param options - Streams, timeout and cache control
+     * @returns Terminal capability information including the probe results
+     *
+     * @example
+     * const detector = new TerminalDetector();
+     * await detector.probe({ timeout: 300 });
+     * render(<InkHudProvider detector={detector}><App /></InkHudProvider>);
+     */
+    async probe(options: TerminalProbeOptions = {}): Promise<TerminalCapabilities> {
+        this.probeResult = await probeTerminal(options);
+        return this.detect();
+    }
+
+    /**
+     * Get the terminal's replies to the last probe
+     * @returns Probe result, or undefined before `probe()` completes
+     */
+    getProbeResult(): TerminalProbeResult | undefined {
+        return this.probeResult;
+    }
+
     /**
      * Get environment information
      * @returns Environment information
@@ -200,6 +631,14 @@ export class TerminalDetector {
     getEnvironmentInfo(): EnvironmentInfo {
         return { ...this.envInfo };
     }
+
+    /**
+     * Get the environment derived from the variables (locale, multiplexer, SSH, WSL, CI)
+     * @returns Terminal environment
+     */
+    getTerminalEnvironment(): TerminalEnvironment {
+        return { ...this.environment };
+    }
 }
 
 /**
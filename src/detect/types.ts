@@ -4,6 +4,8 @@
  * Define type interfaces for terminal capabilities and environment information
  */
 
+import type { ColorDepth } from '../utils/colorDepth';
+
 /**
  * Terminal capability information
  *
@@ -22,14 +24,29 @@ export interface TerminalCapabilities {
     /** Whether Block Elements characters are supported (U+2580-U+259F) */
     supportsBlockElements: boolean;
 
+    /** Whether sextant characters are drawn (Unicode 13 Symbols for Legacy Computing, U+1FB00-U+1FB3B) */
+    supportsSextants: boolean;
+
     /** Whether colors are supported (16 colors or more) */
     supportsColor: boolean;
 
     /** Whether true color is supported (24-bit RGB) */
     supportsTrueColor: boolean;
 
+    /** Color depth (NO_COLOR and FORCE_COLOR take precedence over TERM/COLORTERM) */
+    colorDepth: ColorDepth;
+
+    /** Whether the kitty graphics protocol is supported */
+    supportsKittyGraphics: boolean;
+
+    /** Whether Sixel graphics are supported */
+    supportsSixel: boolean;
+
     /** Comprehensive terminal capability score (0-100) */
     score: number;
+
+    /** Background brightness reported by the terminal (only after probing) */
+    background?: 'dark' | 'light';
 }
 
 /**
@@ -41,6 +58,15 @@ export interface EnvironmentInfo {
     /** Language environment variable (e.g. en_US.UTF-8) */
     LANG?: string;
 
+    /** Locale override for all categories (takes precedence over LC_CTYPE and LANG) */
+    LC_ALL?: string;
+
+    /** Character classification locale (takes precedence over LANG) */
+    LC_CTYPE?: string;
+
+    /** Outer terminal name forwarded over SSH (e.g. iTerm2) */
+    LC_TERMINAL?: string;
+
     /** Terminal type (e.g. xterm-256color) */
     TERM?: string;
 
@@ -52,4 +78,92 @@ export interface EnvironmentInfo {
 
     /** Terminal program version */
     TERM_PROGRAM_VERSION?: string;
+
+    /** kitty window id (set by kitty in every window) */
+    KITTY_WINDOW_ID?: string;
+
+    /** Disables colors when set to a non-empty value (https://no-color.org) */
+    NO_COLOR?: string;
+
+    /** Forces a color level (0-3, true or false) */
+    FORCE_COLOR?: string;
+
+    /** tmux socket and session (set inside tmux) */
+    TMUX?: string;
+
+    /** GNU screen session name (set inside screen) */
+    STY?: string;
+
+    /** Set inside zellij */
+    ZELLIJ?: string;
+
+    /** SSH client and server addresses (set in SSH sessions) */
+    SSH_CONNECTION?: string;
+
+    /** SSH client address (set in SSH sessions) */
+    SSH_CLIENT?: string;
+
+    /** SSH pseudo-terminal (set in interactive SSH sessions) */
+    SSH_TTY?: string;
+
+    /** WSL distribution name (set inside WSL) */
+    WSL_DISTRO_NAME?: string;
+
+    /** WSL interop socket (set inside WSL 2) */
+    WSL_INTEROP?: string;
+
+    /** Windows Terminal session id */
+    WT_SESSION?: string;
+
+    /** Set by CI providers */
+    CI?: string;
+}
+
+/**
+ * Terminal multiplexer
+ */
+export type Multiplexer = 'tmux' | 'screen' | 'zellij';
+
+/**
+ * Where the terminal runs, as derived from the environment
+ */
+export interface TerminalEnvironment {
+    /** Effective locale (LC_ALL, then LC_CTYPE, then LANG) */
+    locale?: string;
+
+    /** Multiplexer between the application and the terminal */
+    multiplexer?: Multiplexer;
+
+    /** Whether the session runs over SSH */
+    remote: boolean;
+
+    /** Whether the process runs inside WSL */
+    wsl: boolean;
+
+    /** Whether the process runs in CI */
+    ci: boolean;
+
+    /** Whether the outer terminal is Windows Terminal */
+    windowsTerminal: boolean;
+}
+
+/**
+ * Detected capability value and why it was chosen
+ */
+export interface CapabilityExplanation<T> {
+    value: T;
+    reason: string;
+}
+
+/**
+ * Explanation of every detected capability
+ */
+export interface CapabilityReport {
+    /** Environment the decisions were based on */
+    environment: TerminalEnvironment;
+
+    /** Each capability with the reason for its value */
+    capabilities: {
+        [K in keyof TerminalCapabilities]-?: CapabilityExplanation<TerminalCapabilities[K]>;
+    };
 }
@@ -0,0 +1,131 @@
+/**
+ * Polling Hook module
+ *
+ * Calls a function on a fixed interval and collects its results in a ring buffer
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { type RingBufferResult, useRingBuffer } from './useRingBuffer';
+
+/**
+ * Interval Hook
+ * Calls the latest `callback` every `delay` ms; a null delay pauses it
+ *
+ * @param callback - Function to call
+ * @param delay - Interval in ms (null: paused)
+ *
+ * @example
+ * useInterval(() => setNow(Date.now()), 1000);
+ */
+export function useInterval(callback: () => void, delay: number | null): void {
+    // Keep the latest callback without restarting the timer
+    const callbackRef = useRef(callback);
+    callbackRef.current = callback;
+
+    useEffect(() => {
+        if (delay === null) return;
+        const id = setInterval(() => callbackRef.current(), delay);
+        return () => clearInterval(id);
+    }, [delay]);
+}
+
+/**
+ * Poller Hook options
+ */
+export interface PollerOptions {
+    /**
+     * Maximum results kept
+     * @default 100
+     */
+    capacity?: number;
+
+    /**
+     * Maximum snapshots per second
+     * @default 30
+     */
+    fps?: number;
+
+    /**
+     * Poll once on mount instead of waiting for the first interval
+     * @default true
+     */
+    immediate?: boolean;
+
+    /**
+     * Stop polling while true
+     * @default false
+     */
+    paused?: boolean;
+}
+
+/**
+ * Poller Hook return value
+ */
+export interface PollerResult<T>
+    extends Pick<RingBufferResult<T>, 'items' | 'firstSequence' | 'clear'> {
+    /** Most recent result */
+    latest: T | undefined;
+    /** Error from the most recent poll (cleared by the next successful one) */
+    error: Error | undefined;
+}
+
+/**
+ * Poller Hook
+ * Calls `poll` every `interval` ms and appends each result; a poll that is still pending
+ * skips the next tick instead of overlapping
+ *
+ * @param poll - Function returning the next value (sync or async)
+ * @param interval - Interval in ms
+ * @param options - Buffer capacity, throttling and start behavior
+ * @returns Throttled snapshot of the results, the latest result and the last error
+ *
+ * @example
+ * const { items } = usePoller(() => os.loadavg()[0], 1000, { capacity: 60 });
+ * return <LineChart series={[{ name: 'load', data: items }]} />;
+ */
+export function usePoller<T>(
+    poll: () => T | Promise<T>,
+    interval: number,
+    options: PollerOptions = {},
+): PollerResult<T> {
+    const { capacity = 100, fps = 30, immediate = true, paused = false } = options;
+    const { items, firstSequence, push, clear } = useRingBuffer<T>(capacity, fps);
+    const [latest, setLatest] = useState<T | undefined>(undefined);
+    const [error, setError] = useState<Error | undefined>(undefined);
+
+    const pendingRef = useRef(false);
+    const mountedRef = useRef(true);
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+        };
+    }, []);
+
+    const tick = async () => {
+        if (pendingRef.current) return;
+        pendingRef.current = true;
+        try {
+            const value = await poll();
+            if (!mountedRef.current) return;
+            push(value);
+            setLatest(() => value);
+            setError(undefined);
+        } catch (err) {
+            if (mountedRef.current) setError(err instanceof Error ? err : new Error(String(err)));
+        } finally {
+            pendingRef.current = false;
+        }
+    };
+
+    const tickRef = useRef(tick);
+    tickRef.current = tick;
+
+    useEffect(() => {
+        if (immediate && !paused) void tickRef.current();
+    }, [immediate, paused]);
+
+    useInterval(() => void tick(), paused ? null : interval);
+
+    return { items, firstSequence, clear, latest, error };
+}
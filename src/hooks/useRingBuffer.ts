@@ -0,0 +1,185 @@
+/**
+ * Ring buffer Hook module
+ *
+ * Keeps the latest N items of a live feed and hands out throttled snapshots for rendering
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Fixed-capacity buffer that drops its oldest items as new ones arrive
+ */
+export class RingBuffer<T> {
+    private items: Array<T | undefined>;
+    private start = 0;
+    private length = 0;
+    private droppedCount: number;
+
+    /**
+     * @param capacity - Maximum items kept
+     * @param dropped - Items already dropped (continues the numbering of a previous buffer)
+     */
+    constructor(
+        readonly capacity: number,
+        dropped = 0,
+    ) {
+        this.items = new Array(Math.max(1, capacity));
+        this.droppedCount = dropped;
+    }
+
+    /**
+     * Number of items dropped from the front so far, which is the sequence number of the
+     * oldest item (items are numbered from 0 in push order)
+     */
+    get dropped(): number {
+        return this.droppedCount;
+    }
+
+    /**
+     * Number of items held
+     */
+    get size(): number {
+        return this.length;
+    }
+
+    /**
+     * Append items, overwriting the oldest when full
+     */
+    push(...items: T[]): void {
+        this.pushAll(items);
+    }
+
+    /**
+     * Append an array of items (no argument spreading, for large batches)
+     */
+    pushAll(items: readonly T[]): void {
+        const capacity = this.items.length;
+        for (const item of items) {
+            this.items[(this.start + this.length) % capacity] = item;
+            if (this.length < capacity) {
+                this.length++;
+            } else {
+                this.start = (this.start + 1) % capacity;
+                this.droppedCount++;
+            }
+        }
+    }
+
+    /**
+     * Items from oldest to newest
+     */
+    toArray(): T[] {
+        const capacity = this.items.length;
+        return Array.from(
+            { length: this.length },
+            (_, i) => this.items[(this.start + i) % capacity] as T,
+        );
+    }
+
+    clear(): void {
+        this.droppedCount += this.length;
+        this.items = new Array(this.items.length);
+        this.start = 0;
+        this.length = 0;
+    }
+}
+
+/**
+ * Ring buffer Hook return value
+ */
+export interface RingBufferResult<T> {
+    /** Snapshot from oldest to newest (a new array at most `fps` times per second) */
+    items: T[];
+    /** Sequence number of `items[0]`; numbers stay with their items as the buffer rolls over */
+    firstSequence: number;
+    /** Append items */
+    push: (...items: T[]) => void;
+    /** Append an array of items */
+    pushAll: (items: readonly T[]) => void;
+    /** Remove all items */
+    clear: () => void;
+}
+
+/**
+ * Ring buffer Hook
+ * Holds the latest `capacity` items; pushes are cheap and re-render the component at most `fps`
+ * times per second
+ *
+ * @param capacity - Maximum items kept
+ * @param fps - Maximum snapshots per second (default 30)
+ * @returns Throttled snapshot plus push/clear
+ *
+ * @example
+ * const { items, push } = useRingBuffer<number>(120);
+ * useInterval(() => push(readCpu()), 1000);
+ * return <Sparkline data={items} />;
+ */
+export function useRingBuffer<T>(capacity: number, fps = 30): RingBufferResult<T> {
+    const bufferRef = useRef<RingBuffer<T> | null>(null);
+    if (bufferRef.current?.capacity !== capacity) {
+        // Keep the newest items when the capacity changes
+        const resized = new RingBuffer<T>(capacity, bufferRef.current?.dropped);
+        resized.pushAll(bufferRef.current?.toArray() ?? []);
+        bufferRef.current = resized;
+    }
+    const buffer = bufferRef.current;
+
+    // Pushes only bump a ref; a trailing timer publishes it at most `fps` times per second
+    const versionRef = useRef(0);
+    const [version, setVersion] = useState(0);
+    const lastFlushRef = useRef(0);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const fpsRef = useRef(fps);
+    fpsRef.current = fps;
+
+    const markChanged = useCallback(() => {
+        versionRef.current++;
+        if (timerRef.current) return;
+
+        const delay = Math.max(0, lastFlushRef.current + 1000 / fpsRef.current - Date.now());
+        timerRef.current = setTimeout(() => {
+            timerRef.current = null;
+            lastFlushRef.current = Date.now();
+            setVersion(versionRef.current);
+        }, delay);
+    }, []);
+
+    useEffect(
+        () => () => {
+            if (timerRef.current) clearTimeout(timerRef.current);
+        },
+        [],
+    );
+
+    const pushAll = useCallback(
+        (items: readonly T[]) => {
+            bufferRef.current?.pushAll(items);
+            markChanged();
+        },
+        [markChanged],
+    );
+    const push = useCallback((...items: T[]) => pushAll(items), [pushAll]);
+    const clear = useCallback(() => {
+        bufferRef.current?.clear();
+        markChanged();
+    }, [markChanged]);
+
+    // Snapshot only when the published version moves on (or the buffer was resized)
+    const snapshotRef = useRef<{
+        version: number;
+        buffer: RingBuffer<T>;
+        items: T[];
+        firstSequence: number;
+    } | null>(null);
+    if (snapshotRef.current?.version !== version || snapshotRef.current.buffer !== buffer) {
+        snapshotRef.current = {
+            version,
+            buffer,
+            items: buffer.toArray(),
+            firstSequence: buffer.dropped,
+        };
+    }
+
+    const { items, firstSequence } = snapshotRef.current;
+    return { items, firstSequence, push, pushAll, clear };
+}
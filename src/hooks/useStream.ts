@@ -0,0 +1,151 @@
+/**
+ * Stream Hook module
+ *
+ * Reads a Node `Readable` or any async iterable (e.g. `tail -f` or child process stdout)
+ * into a ring buffer, one item per line
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { type RingBufferResult, useRingBuffer } from './useRingBuffer';
+
+/**
+ * Anything `for await` can read: Node `Readable` streams, async generators, ...
+ */
+export type StreamSource = AsyncIterable<unknown>;
+
+/**
+ * Stream Hook options
+ */
+export interface StreamOptions<T> {
+    /**
+     * Maximum items kept
+     * @default 1000
+     */
+    capacity?: number;
+
+    /**
+     * Maximum snapshots per second
+     * @default 30
+     */
+    fps?: number;
+
+    /**
+     * Split text chunks into lines (a trailing partial line waits for the next chunk)
+     * When false, each chunk is one item.
+     * @default true
+     */
+    lines?: boolean;
+
+    /**
+     * Turn each line (or chunk) into an item; return undefined to skip it
+     */
+    map?: (value: unknown) => T | undefined;
+}
+
+/**
+ * Stream Hook return value
+ */
+export interface StreamResult<T>
+    extends Pick<RingBufferResult<T>, 'items' | 'firstSequence' | 'clear'> {
+    /** Whether the source has ended */
+    done: boolean;
+    /** Error thrown by the source */
+    error: Error | undefined;
+}
+
+/**
+ * Split text into complete lines plus the unterminated rest
+ * Handles `\n` and `\r\n` line endings.
+ */
+export function splitLines(pending: string, text: string): { lines: string[]; rest: string } {
+    const parts = (pending + text).split(/\r?\n/);
+    const rest = parts.pop() ?? '';
+    return { lines: parts, rest };
+}
+
+/**
+ * Stream Hook
+ * Consumes `source` while mounted (a new source restarts reading) and stops it on unmount
+ *
+ * @param source - Readable stream or async iterable (null/undefined: nothing to read yet)
+ * @param options - Buffer capacity, throttling and line handling
+ * @returns Throttled snapshot of the latest items, end and error state
+ *
+ * @example
+ * const tail = useMemo(() => spawn('tail', ['-f', '/var/log/app.log']).stdout, []);
+ * const { items, firstSequence } = useStream(tail, { capacity: 500 });
+ * return <LogStream logs={items} firstSequence={firstSequence} />;
+ */
+export function useStream<T = string>(
+    source: StreamSource | null | undefined,
+    options: StreamOptions<T> = {},
+): StreamResult<T> {
+    const { capacity = 1000, fps = 30, lines = true } = options;
+    const { items, firstSequence, pushAll, clear } = useRingBuffer<T>(capacity, fps);
+    const [done, setDone] = useState(false);
+    const [error, setError] = useState<Error | undefined>(undefined);
+
+    // Keep the latest mapper without restarting the stream
+    const mapRef = useRef(options.map);
+    mapRef.current = options.map;
+
+    useEffect(() => {
+        if (!source) return;
+        setDone(false);
+        setError(undefined);
+
+        const iterator = source[Symbol.asyncIterator]();
+        const decoder = new TextDecoder();
+        let cancelled = false;
+        let pending = '';
+
+        const emit = (values: unknown[]) => {
+            const map = mapRef.current;
+            const mapped = map
+                ? values.map((value) => map(value)).filter((value) => value !== undefined)
+                : values;
+            if (mapped.length > 0) pushAll(mapped as T[]);
+        };
+
+        const handleChunk = (chunk: unknown) => {
+            const text =
+                chunk instanceof Uint8Array
+                    ? decoder.decode(chunk, { stream: true })
+                    : typeof chunk === 'string'
+                      ? chunk
+                      : undefined;
+            if (!lines || text === undefined) {
+                // Object chunks are items as they are
+                emit([text ?? chunk]);
+                return;
+            }
+            const split = splitLines(pending, text);
+            pending = split.rest;
+            emit(split.lines);
+        };
+
+        const read = async () => {
+            try {
+                while (!cancelled) {
+                    const result = await iterator.next();
+                    if (cancelled) return;
+                    if (result.done) break;
+                    handleChunk(result.value);
+                }
+                if (pending !== '') emit([pending]);
+                setDone(true);
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+            }
+        };
+        void read();
+
+        return () => {
+            cancelled = true;
+            // Stops a Readable (destroys it) or finishes a generator
+            Promise.resolve(iterator.return?.()).catch(() => undefined);
+        };
+    }, [source, lines, pushAll]);
+
+    return { items, firstSequence, clear, done, error };
+}
@@ -0,0 +1,133 @@
+/**
+ * Windowed series Hook module
+ *
+ * Records timestamped samples and emits a chart-ready aggregated series at a fixed cadence
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import {
+    type TimedSample,
+    type WindowAggregate,
+    type WindowBucket,
+    counterRate,
+    slidingWindows,
+    tumblingWindows,
+} from '../utils/windowing';
+import { useInterval } from './usePoller';
+
+/**
+ * Windowed series Hook options
+ */
+export interface WindowedSeriesOptions {
+    /** Window length in ms */
+    window: number;
+
+    /**
+     * Number of points in the series
+     * @default 60
+     */
+    points?: number;
+
+    /**
+     * Aggregate per window
+     * @default 'avg'
+     */
+    aggregate?: WindowAggregate;
+
+    /**
+     * 'tumbling': one point per window; 'sliding': a window ending every `step`
+     * @default 'tumbling'
+     */
+    mode?: 'tumbling' | 'sliding';
+
+    /**
+     * Distance between sliding windows in ms
+     * @default window / 10
+     */
+    step?: number;
+
+    /**
+     * How often the series is recomputed in ms
+     * @default the window length (tumbling) or step (sliding)
+     */
+    interval?: number;
+
+    /**
+     * Recorded values are monotonic counter readings; windows aggregate their per-second rate
+     * @default false
+     */
+    counter?: boolean;
+}
+
+/**
+ * Windowed series Hook return value
+ */
+export interface WindowedSeriesResult {
+    /** Aggregated values from oldest to newest (null: no samples in the window) */
+    values: Array<number | null>;
+    /** Windows with their time range */
+    buckets: WindowBucket[];
+    /** Record a sample (time defaults to now) */
+    record: (value: number, time?: number) => void;
+    /** Drop all samples */
+    clear: () => void;
+}
+
+/**
+ * Windowed series Hook
+ * Samples older than the series span are dropped as the series moves on.
+ *
+ * @param options - Window length, aggregate, mode and cadence
+ * @returns Series recomputed every `interval` plus `record`
+ *
+ * @example
+ * // p95 latency per 10s bucket over the last 5 minutes
+ * const latency = useWindowedSeries({ window: 10_000, points: 30, aggregate: 'p95' });
+ * onResponse((ms) => latency.record(ms));
+ * return <LineChart series={[{ name: 'p95', data: latency.values }]} />;
+ */
+export function useWindowedSeries(options: WindowedSeriesOptions): WindowedSeriesResult {
+    const {
+        window,
+        points = 60,
+        aggregate = 'avg',
+        mode = 'tumbling',
+        step = window / 10,
+        counter = false,
+    } = options;
+    const interval = options.interval ?? (mode === 'sliding' ? step : window);
+
+    const samplesRef = useRef<TimedSample[]>([]);
+    const compute = (): WindowBucket[] => {
+        const end = Date.now();
+        const span = mode === 'sliding' ? (points - 1) * step + window : points * window;
+
+        // Drop samples the series no longer covers (counters keep one reading before the span)
+        const cutoff = end - span;
+        const kept = samplesRef.current.filter((s) => s.time > cutoff);
+        const before = samplesRef.current.filter((s) => s.time <= cutoff);
+        const lastBefore = before.reduce<TimedSample | undefined>(
+            (latest, s) => (!latest || s.time > latest.time ? s : latest),
+            undefined,
+        );
+        samplesRef.current = counter && lastBefore ? [lastBefore, ...kept] : kept;
+
+        const input = counter ? counterRate(samplesRef.current) : samplesRef.current;
+        return mode === 'sliding'
+            ? slidingWindows(input, { size: window, step, aggregate, end, count: points })
+            : tumblingWindows(input, { size: window, aggregate, end, count: points });
+    };
+
+    const [buckets, setBuckets] = useState<WindowBucket[]>(compute);
+    useInterval(() => setBuckets(compute()), interval > 0 ? interval : null);
+
+    const record = useCallback((value: number, time = Date.now()) => {
+        samplesRef.current.push({ time, value });
+    }, []);
+    const clear = useCallback(() => {
+        samplesRef.current = [];
+    }, []);
+
+    const values = useMemo(() => buckets.map((bucket) => bucket.value), [buckets]);
+    return { values, buckets, record, clear };
+}
@@ -14,6 +14,7 @@
 export {
     Renderer,
     type RendererType,
+    type RendererName,
     type RendererMetadata,
     type RendererResolution,
 } from './core/renderer';
@@ -28,11 +29,25 @@ export { BrailleRenderer } from './core/braille';
  */
 export { BlockRenderer } from './core/block';
 
+/**
+ * Quadrant Renderer (2x2 solid fills) and Sextant Renderer (2x3 solid fills, Unicode 13)
+ */
+export { MosaicRenderer } from './core/mosaic';
+export { QuadrantRenderer } from './core/quadrant';
+export { SextantRenderer } from './core/sextant';
+
 /**
  * ASCII Renderer (1x3 resolution, maximum compatibility)
  */
 export { AsciiRenderer } from './core/ascii';
 
+/**
+ * Pixel graphics renderers (terminal image protocols, true pixel resolution)
+ */
+export { GraphicsRenderer, type GraphicsRendererOptions } from './core/graphics';
+export { KittyRenderer } from './core/kitty';
+export { SixelRenderer } from './core/sixel';
+
 // ============================================
 // Terminal Detection and Renderer Selection
 // ============================================
@@ -40,18 +55,48 @@ export { AsciiRenderer } from './core/ascii';
 /**
  * Terminal detection type definitions
  */
-export type { TerminalCapabilities, EnvironmentInfo } from './detect/types';
+export type {
+    TerminalCapabilities,
+    EnvironmentInfo,
+    TerminalEnvironment,
+    Multiplexer,
+    CapabilityExplanation,
+    CapabilityReport,
+} from './detect/types';
 
 /**
  * Terminal capability detector
  */
 export { TerminalDetector, terminalDetector } from './detect/terminal';
 
+/**
+ * Terminal probe (asks the terminal for its capabilities)
+ */
+export {
+    probeTerminal,
+    parseProbeReplies,
+    clearProbeCache,
+    type ProbeInput,
+    type ProbeOutput,
+    type TerminalProbeOptions,
+    type TerminalProbeResult,
+} from './detect/probe';
+
 /**
  * Renderer selector (automatically selects optimal renderer)
  */
 export { RendererSelector, rendererSelector } from './detect/selector';
 
+/**
+ * Renderer registry (custom renderers for selection)
+ */
+export {
+    RendererRegistry,
+    rendererRegistry,
+    type RendererRegistration,
+    type RendererPredicate,
+} from './detect/registry';
+
 /**
  * InkHud Context Provider (dependency injection)
  */
@@ -82,13 +127,45 @@ export {
 /**
  * Data scaling and processing utilities
  */
-export { linearScale, normalize, scaleToRange, clamp } from './utils/scale';
+export {
+    linearScale,
+    normalize,
+    scaleToRange,
+    clamp,
+    logScale,
+    symlogScale,
+    scaleByType,
+    logTicks,
+    symlogTicks,
+    type ScaleType,
+} from './utils/scale';
 
 /**
  * Gradient color utilities
  */
 export { createGradient, assignColors, colorToChalk } from './utils/gradient';
 
+/**
+ * Color parsing utilities
+ */
+export { parseColor, NAMED_COLORS, type RgbColor } from './utils/color';
+
+/**
+ * Color depth utilities (truecolor → 256 → 16 → monochrome)
+ */
+export {
+    resolveColor,
+    toAnsi256,
+    toAnsi16,
+    isDarkColor,
+    type ColorDepth,
+} from './utils/colorDepth';
+
+/**
+ * Time axis utilities
+ */
+export { timeTicks, chooseTimeInterval, createTimeTickFormat } from './utils/timeScale';
+
 /**
  * Geometry calculation helpers
  */
@@ -101,6 +178,11 @@ export {
     distanceBetweenPoints,
 } from './utils/geometry';
 
+/**
+ * Gap (missing sample) handling utilities
+ */
+export { isPresent, fillGaps, type SeriesValue, type GapMode } from './utils/gaps';
+
 /**
  * Data downsampling utilities
  */
@@ -111,6 +193,22 @@ export {
     minMaxDownsampling,
 } from './utils/downsampling';
 
+/**
+ * Time-window aggregation utilities
+ */
+export {
+    percentile,
+    aggregateWindow,
+    tumblingWindows,
+    slidingWindows,
+    counterRate,
+    type TimedSample,
+    type WindowAggregate,
+    type WindowBucket,
+    type WindowOptions,
+    type SlidingWindowOptions,
+} from './utils/windowing';
+
 // ============================================
 // React Hooks
 // ============================================
@@ -129,6 +227,33 @@ export {
     type EasingFunction,
 } from './hooks/useSmooth';
 
+/**
+ * Data source Hooks (ring buffer, streams, polling)
+ */
+export {
+    RingBuffer,
+    useRingBuffer,
+    type RingBufferResult,
+} from './hooks/useRingBuffer';
+export {
+    useStream,
+    splitLines,
+    type StreamSource,
+    type StreamOptions,
+    type StreamResult,
+} from './hooks/useStream';
+export {
+    useInterval,
+    usePoller,
+    type PollerOptions,
+    type PollerResult,
+} from './hooks/usePoller';
+export {
+    useWindowedSeries,
+    type WindowedSeriesOptions,
+    type WindowedSeriesResult,
+} from './hooks/useWindowedSeries';
+
 // ============================================
 // React Components
 // ============================================
@@ -138,6 +263,25 @@ export {
  */
 export { LineChart, type LineChartProps } from './components/LineChart';
 
+/**
+ * Chart data point with explicit X value, viewport, stacking mode, Y-axis side
+ */
+export type {
+    ChartPoint,
+    ChartViewport,
+    StackMode,
+    YAxisSide,
+} from './components/common/chartUtils';
+
+/**
+ * Chart overlays: threshold lines, bands, annotations
+ */
+export type {
+    ChartThreshold,
+    ChartBand,
+    ChartAnnotation,
+} from './components/common/chartOverlays';
+
 /**
  * AreaChart - Basic area chart component
  */
@@ -148,6 +292,16 @@ export { AreaChart, type AreaChartProps } from './components/AreaChart';
  */
 export { BarChart, type BarChartProps } from './components/BarChart';
 
+/**
+ * ScatterChart - Scatter plot component
+ */
+export {
+    ScatterChart,
+    type ScatterChartProps,
+    type ScatterPoint,
+    type ScatterSeries,
+} from './components/ScatterChart';
+
 /**
  * PieChart - Pie chart component
  */
@@ -205,11 +359,29 @@ export { Heatmap, type HeatmapProps } from './components/Heatmap';
  * LogStream - Log stream component
  */
 export { LogStream, type LogStreamProps } from './components/LogStream';
+export {
+    parseLogLine,
+    normalizeLevel,
+    LOG_PARSERS,
+    type LogLevel,
+    type LogParser,
+    type LogParserName,
+    type LogRecord,
+    type ParsedLog,
+} from './components/common/logParsers';
+export type { LogHighlightRule } from './components/common/logFilters';
 
 /**
  * Table - Table component
  */
-export { Table, type TableProps, type TableColumn } from './components/Table';
+export {
+    Table,
+    type TableProps,
+    type TableColumn,
+    type TableColumnType,
+    type TableColorRule,
+    type TableAggregate,
+} from './components/Table';
 
 /**
  * PulseBar - network connection status component
@@ -0,0 +1,67 @@
+/**
+ * Color parsing utility module
+ *
+ * Converts the color strings used throughout the library (hex and terminal color names) to RGB
+ */
+
+/**
+ * RGB color value (each channel 0-255)
+ */
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/**
+ * Terminal named colors (xterm default palette)
+ */
+export const NAMED_COLORS: Record<string, RgbColor> = {
+    black: { r: 0, g: 0, b: 0 },
+    red: { r: 205, g: 0, b: 0 },
+    green: { r: 0, g: 205, b: 0 },
+    yellow: { r: 205, g: 205, b: 0 },
+    blue: { r: 0, g: 0, b: 238 },
+    magenta: { r: 205, g: 0, b: 205 },
+    cyan: { r: 0, g: 205, b: 205 },
+    white: { r: 229, g: 229, b: 229 },
+    gray: { r: 127, g: 127, b: 127 },
+    grey: { r: 127, g: 127, b: 127 },
+    blackBright: { r: 127, g: 127, b: 127 },
+    redBright: { r: 255, g: 0, b: 0 },
+    greenBright: { r: 0, g: 255, b: 0 },
+    yellowBright: { r: 255, g: 255, b: 0 },
+    blueBright: { r: 92, g: 92, b: 255 },
+    magentaBright: { r: 255, g: 0, b: 255 },
+    cyanBright: { r: 0, g: 255, b: 255 },
+    whiteBright: { r: 255, g: 255, b: 255 },
+};
+
+/**
+ * Parse color string to RGB
+ *
+ * @param color - Color string (#rgb, #rrggbb or terminal color name)
+ * @returns RGB value, or undefined if the color cannot be parsed
+ *
+ * @example
+ * parseColor('#61afef'); // { r: 97, g: 175, b: 239 }
+ * parseColor('cyan'); // { r: 0, g: 205, b: 205 }
+ */
+export function parseColor(color: string): RgbColor | undefined {
+    if (color.startsWith('#')) {
+        let hex = color.slice(1);
+        if (hex.length === 3) {
+            hex = hex
+                .split('')
+                .map((c) => c + c)
+                .join('');
+        }
+        if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+            return undefined;
+        }
+        const value = Number.parseInt(hex, 16);
+        return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+    }
+
+    return NAMED_COLORS[color];
+}
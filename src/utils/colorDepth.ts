@@ -0,0 +1,142 @@
+/**
+ * Color depth module
+ *
+ * Maps colors to what the terminal can show: true color, the xterm 256-color palette,
+ * the 16 basic colors, or no color at all
+ */
+
+import { NAMED_COLORS, type RgbColor, parseColor } from './color';
+
+/**
+ * Terminal color depth
+ * - 'truecolor': 24-bit RGB
+ * - 'ansi256': xterm 256-color palette
+ * - 'ansi16': 8 basic colors and their bright variants
+ * - 'mono': no color (NO_COLOR, dumb terminals)
+ */
+export type ColorDepth = 'truecolor' | 'ansi256' | 'ansi16' | 'mono';
+
+/** Channel levels of the 6x6x6 color cube (palette entries 16-231) */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** Basic hues by angle, matched by hue rather than RGB distance since 16-color palettes vary */
+const ANSI16_HUES: Array<[number, string]> = [
+    [0, 'red'],
+    [60, 'yellow'],
+    [120, 'green'],
+    [180, 'cyan'],
+    [240, 'blue'],
+    [300, 'magenta'],
+    [360, 'red'],
+];
+
+function distance(a: RgbColor, b: RgbColor): number {
+    return (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+}
+
+/**
+ * Nearest xterm 256-color palette index (color cube or grayscale ramp)
+ *
+ * @example
+ * toAnsi256({ r: 97, g: 175, b: 239 }); // 75
+ */
+export function toAnsi256(color: RgbColor): number {
+    const level = (value: number) => {
+        let index = 0;
+        for (let i = 1; i < CUBE_LEVELS.length; i++) {
+            const candidate = CUBE_LEVELS[i] ?? 0;
+            if (Math.abs(candidate - value) < Math.abs((CUBE_LEVELS[index] ?? 0) - value)) {
+                index = i;
+            }
+        }
+        return index;
+    };
+    const r = level(color.r);
+    const g = level(color.g);
+    const b = level(color.b);
+    const cube = {
+        r: CUBE_LEVELS[r] ?? 0,
+        g: CUBE_LEVELS[g] ?? 0,
+        b: CUBE_LEVELS[b] ?? 0,
+    };
+
+    // Grayscale ramp 232-255: 8, 18, ..., 238
+    const average = (color.r + color.g + color.b) / 3;
+    const grayIndex = Math.max(0, Math.min(23, Math.round((average - 8) / 10)));
+    const grayLevel = 8 + grayIndex * 10;
+    const gray = { r: grayLevel, g: grayLevel, b: grayLevel };
+
+    return distance(color, gray) < distance(color, cube)
+        ? 232 + grayIndex
+        : 16 + 36 * r + 6 * g + b;
+}
+
+/**
+ * Nearest basic terminal color name (as accepted by Ink and chalk)
+ *
+ * Saturated colors keep their hue, with the bright variant for light colors;
+ * unsaturated colors map to black, gray, white or bright white.
+ *
+ * @example
+ * toAnsi16({ r: 152, g: 195, b: 121 }); // 'greenBright'
+ */
+export function toAnsi16(color: RgbColor): string {
+    const r = color.r / 255;
+    const g = color.g / 255;
+    const b = color.b / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    const chroma = max - min;
+    const saturation = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1));
+
+    if (saturation < 0.2 || chroma < 0.1) {
+        if (lightness < 0.2) return 'black';
+        if (lightness < 0.5) return 'gray';
+        return lightness < 0.85 ? 'white' : 'whiteBright';
+    }
+
+    let hue: number;
+    if (max === r) hue = 60 * (((g - b) / chroma + 6) % 6);
+    else if (max === g) hue = 60 * ((b - r) / chroma + 2);
+    else hue = 60 * ((r - g) / chroma + 4);
+
+    const [, name = 'red'] = ANSI16_HUES.reduce((best, entry) =>
+        Math.abs(entry[0] - hue) < Math.abs(best[0] - hue) ? entry : best,
+    );
+    return lightness > 0.6 ? `${name}Bright` : name;
+}
+
+/**
+ * Resolve a color for a color depth
+ *
+ * Hex colors are mapped to the nearest color the depth can show; terminal color names
+ * are already basic colors and pass through. In 'mono' every color becomes '' (no color).
+ *
+ * @param color - Hex color or terminal color name
+ * @param depth - Terminal color depth
+ * @returns Color string for Ink (`ansi256(n)` in 256-color mode)
+ *
+ * @example
+ * resolveColor('#61afef', 'ansi256'); // 'ansi256(75)'
+ * resolveColor('#61afef', 'ansi16'); // 'cyanBright'
+ * resolveColor('#61afef', 'mono'); // ''
+ */
+export function resolveColor(color: string, depth: ColorDepth): string {
+    if (depth === 'mono') return '';
+    if (depth === 'truecolor' || color in NAMED_COLORS) return color;
+
+    const rgb = parseColor(color);
+    if (!rgb) return color;
+    return depth === 'ansi256' ? `ansi256(${toAnsi256(rgb)})` : toAnsi16(rgb);
+}
+
+/**
+ * Whether a color is dark enough to be shown dimmed when colors are off
+ * Unparseable colors count as not dark.
+ */
+export function isDarkColor(color: string): boolean {
+    const rgb = parseColor(color);
+    if (!rgb) return false;
+    return 0.2126 * rgb.r + 0.7152 * rgb.g + 0.0722 * rgb.b < 110;
+}
@@ -2,23 +2,42 @@
  * Data downsampling module
  *
  * Provides downsampling algorithms for large datasets to display many data points in limited-width charts
+ *
+ * Gaps (`null`, `undefined`, `NaN`) are preserved: any output point whose bucket contains
+ * a gap becomes `null`, so missing data is never hidden by the reduction.
  */
 
+import { type SeriesValue, isPresent } from './gaps';
+
+function bucketHasGap(data: SeriesValue[], start: number, end: number): boolean {
+    for (let i = start; i < end; i++) {
+        if (!isPresent(data[i])) return true;
+    }
+    return false;
+}
+
+function gapToNull(value: SeriesValue): number | null {
+    return isPresent(value) ? value : null;
+}
+
 function computeAveragePoint(
-    data: number[],
+    data: SeriesValue[],
     startIndexInclusive: number,
     endIndexExclusive: number,
-): { x: number; y: number } {
-    const count = endIndexExclusive - startIndexInclusive;
-    if (count <= 0) {
-        return { x: 0, y: 0 };
-    }
-
+): { x: number; y: number } | null {
+    let count = 0;
     let sumX = 0;
     let sumY = 0;
     for (let i = startIndexInclusive; i < endIndexExclusive; i++) {
+        const value = data[i];
+        if (!isPresent(value)) continue;
         sumX += i;
-        sumY += data[i] ?? 0;
+        sumY += value;
+        count++;
+    }
+
+    if (count === 0) {
+        return null;
     }
 
     return { x: sumX / count, y: sumY / count };
@@ -36,7 +55,7 @@ function triangleArea(
 }
 
 function findLargestTrianglePointIndex(
-    data: number[],
+    data: SeriesValue[],
     bucketStart: number,
     bucketEnd: number,
     prevX: number,
@@ -75,7 +94,9 @@ function findLargestTrianglePointIndex(
  * const data = Array.from({ length: 1000 }, (_, i) => Math.sin(i / 10));
  * const sampled = lttb(data, 100); // Downsample from 1000 points to 100 points
  */
-export function lttb(data: number[], threshold: number): number[] {
+export function lttb(data: number[], threshold: number): number[];
+export function lttb(data: SeriesValue[], threshold: number): SeriesValue[];
+export function lttb(data: SeriesValue[], threshold: number): SeriesValue[] {
     // If number of data points is less than or equal to threshold, return directly
     if (data.length <= threshold) {
         return data;
@@ -83,11 +104,12 @@ export function lttb(data: number[], threshold: number): number[] {
 
     // If threshold is too small, at least preserve first and last points
     if (threshold <= 2) {
-        return [data[0] ?? 0, data[data.length - 1] ?? 0];
+        return [gapToNull(data[0]), gapToNull(data[data.length - 1])];
     }
 
-    const sampled: number[] = [data[0] ?? 0]; // Always preserve the first point
-    let prevIndex = 0;
+    const sampled: SeriesValue[] = [gapToNull(data[0])]; // Always preserve the first point
+    // Last selected present point (triangles are anchored on real data only)
+    let prevIndex = isPresent(data[0]) ? 0 : -1;
 
     // Calculate bucket size
     const bucketSize = (data.length - 2) / (threshold - 2);
@@ -98,16 +120,24 @@ export function lttb(data: number[], threshold: number): number[] {
         const bucketStart = Math.floor(i * bucketSize) + 1;
         const bucketEnd = Math.floor((i + 1) * bucketSize) + 1;
 
+        if (bucketHasGap(data, bucketStart, bucketEnd)) {
+            sampled.push(null);
+            continue;
+        }
+
         // Center point of the next bucket (for triangle calculation)
         const nextBucketStart = bucketEnd;
         const nextBucketEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, data.length);
 
-        // Calculate average point of next bucket (as third vertex of triangle)
-        const { x: avgX, y: avgY } = computeAveragePoint(data, nextBucketStart, nextBucketEnd);
+        // Previously selected point (falls back to the bucket start after a leading gap)
+        const prevX = prevIndex >= 0 ? prevIndex : bucketStart;
+        const prevY = data[prevX] ?? 0;
 
-        // Previously selected point
-        const prevX = prevIndex;
-        const prevY = data[prevIndex] ?? 0;
+        // Calculate average point of next bucket (as third vertex of triangle)
+        const { x: avgX, y: avgY } = computeAveragePoint(data, nextBucketStart, nextBucketEnd) ?? {
+            x: prevX,
+            y: prevY,
+        };
 
         const maxIdx = findLargestTrianglePointIndex(
             data,
@@ -124,7 +154,7 @@ export function lttb(data: number[], threshold: number): number[] {
     }
 
     // Always preserve the last point
-    sampled.push(data[data.length - 1] ?? 0);
+    sampled.push(gapToNull(data[data.length - 1]));
 
     return sampled;
 }
@@ -141,17 +171,19 @@ export function lttb(data: number[], threshold: number): number[] {
  * const data = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
  * const sampled = fixedIntervalDownsampling(data, 5); // [1, 3, 5, 7, 10]
  */
-export function fixedIntervalDownsampling(data: number[], threshold: number): number[] {
+export function fixedIntervalDownsampling(data: number[], threshold: number): number[];
+export function fixedIntervalDownsampling(data: SeriesValue[], threshold: number): SeriesValue[];
+export function fixedIntervalDownsampling(data: SeriesValue[], threshold: number): SeriesValue[] {
     if (data.length <= threshold) {
         return data;
     }
 
-    const sampled: number[] = [];
+    const sampled: SeriesValue[] = [];
     const step = (data.length - 1) / (threshold - 1);
 
     for (let i = 0; i < threshold; i++) {
         const index = Math.round(i * step);
-        sampled.push(data[index] ?? 0);
+        sampled.push(gapToNull(data[index]));
     }
 
     return sampled;
@@ -169,18 +201,25 @@ export function fixedIntervalDownsampling(data: number[], threshold: number): nu
  * const data = [1, 2, 3, 4, 5, 6, 7, 8];
  * const sampled = averageDownsampling(data, 4); // [1.5, 3.5, 5.5, 7.5]
  */
-export function averageDownsampling(data: number[], threshold: number): number[] {
+export function averageDownsampling(data: number[], threshold: number): number[];
+export function averageDownsampling(data: SeriesValue[], threshold: number): SeriesValue[];
+export function averageDownsampling(data: SeriesValue[], threshold: number): SeriesValue[] {
     if (data.length <= threshold) {
         return data;
     }
 
-    const sampled: number[] = [];
+    const sampled: SeriesValue[] = [];
     const bucketSize = data.length / threshold;
 
     for (let i = 0; i < threshold; i++) {
         const bucketStart = Math.floor(i * bucketSize);
         const bucketEnd = Math.floor((i + 1) * bucketSize);
 
+        if (bucketHasGap(data, bucketStart, bucketEnd)) {
+            sampled.push(null);
+            continue;
+        }
+
         let sum = 0;
         let count = 0;
 
@@ -208,18 +247,25 @@ export function averageDownsampling(data: number[], threshold: number): number[]
  * const data = [1, 5, 2, 8, 3, 6, 4, 7];
  * const sampled = minMaxDownsampling(data, 4); // [1, 5, 2, 8, 3, 6, 4, 7]
  */
-export function minMaxDownsampling(data: number[], threshold: number): number[] {
+export function minMaxDownsampling(data: number[], threshold: number): number[];
+export function minMaxDownsampling(data: SeriesValue[], threshold: number): SeriesValue[];
+export function minMaxDownsampling(data: SeriesValue[], threshold: number): SeriesValue[] {
     if (data.length <= threshold) {
         return data;
     }
 
-    const sampled: number[] = [];
+    const sampled: SeriesValue[] = [];
     const bucketSize = data.length / threshold;
 
     for (let i = 0; i < threshold; i++) {
         const bucketStart = Math.floor(i * bucketSize);
         const bucketEnd = Math.floor((i + 1) * bucketSize);
 
+        if (bucketHasGap(data, bucketStart, bucketEnd)) {
+            sampled.push(null, null);
+            continue;
+        }
+
         let min = Number.POSITIVE_INFINITY;
         let max = Number.NEGATIVE_INFINITY;
 
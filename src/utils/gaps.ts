@@ -0,0 +1,62 @@
+/**
+ * Gap handling module
+ *
+ * Series may contain missing samples (`null`, `undefined` or `NaN`), e.g. failed scrapes.
+ * These helpers let charts and downsampling treat them as gaps instead of fake zeros.
+ */
+
+/**
+ * Series sample; `null`, `undefined` and non-finite numbers are gaps
+ */
+export type SeriesValue = number | null | undefined;
+
+/**
+ * How charts render gaps
+ * - 'break': leave the gap empty (line is interrupted)
+ * - 'connect': bridge the gap between the surrounding samples
+ * - 'marker': leave the gap empty and mark it with a dimmed marker
+ */
+export type GapMode = 'break' | 'connect' | 'marker';
+
+/**
+ * Check whether a sample holds a usable value
+ *
+ * @example
+ * isPresent(3); // true
+ * isPresent(null); // false
+ * isPresent(Number.NaN); // false
+ */
+export function isPresent(value: SeriesValue): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Fill interior gaps by linear interpolation between the surrounding samples
+ * Leading and trailing gaps have nothing to bridge and stay as `null`
+ *
+ * @param data - Series with gaps
+ * @returns Series where only leading/trailing gaps remain
+ *
+ * @example
+ * fillGaps([1, null, 3, NaN]); // [1, 2, 3, null]
+ */
+export function fillGaps(data: SeriesValue[]): Array<number | null> {
+    const result: Array<number | null> = data.map((value) => (isPresent(value) ? value : null));
+
+    let prevIndex = -1;
+    for (let i = 0; i < result.length; i++) {
+        const value = result[i];
+        if (value === null || value === undefined) continue;
+
+        const prevValue = result[prevIndex];
+        if (prevIndex >= 0 && i - prevIndex > 1 && prevValue !== null && prevValue !== undefined) {
+            const span = i - prevIndex;
+            for (let j = prevIndex + 1; j < i; j++) {
+                result[j] = prevValue + ((value - prevValue) * (j - prevIndex)) / span;
+            }
+        }
+        prevIndex = i;
+    }
+
+    return result;
+}
@@ -124,7 +124,7 @@ export function assignColors(seriesCount: number, palette: ColorPalette = 'one-d
 /**
  * Convert color string to chalk color function
  *
- * @param color - Color string (hex, css color names)
+ * @param color - Color string (hex, `ansi256(n)`, css color names; '' for no color)
  * @returns Chalk color function
  *
  * @example
@@ -137,6 +137,12 @@ export function colorToChalk(color: string): (text: string) => string {
         return (text: string) => chalk.hex(color)(text);
     }
 
+    // 256-color palette index, as produced by resolveColor
+    const ansi256 = /^ansi256\((\d+)\)$/.exec(color);
+    if (ansi256) {
+        return (text: string) => chalk.ansi256(Number(ansi256[1]))(text);
+    }
+
     // Try using chalk built-in colors
     // @ts-expect-error - chalk dynamic color access
     if (typeof chalk[color] === 'function') {
@@ -107,3 +107,166 @@ export function scaleToRange(data: number[], range: [number, number]): number[]
 export function clamp(value: number, min: number, max: number): number {
     return Math.min(Math.max(value, min), max);
 }
+
+/**
+ * Value scale type
+ * - 'linear': even spacing
+ * - 'log': base-10 logarithm, for positive data spanning orders of magnitude
+ * - 'symlog': symmetric log, linear around zero so zero and negative values are allowed
+ */
+export type ScaleType = 'linear' | 'log' | 'symlog';
+
+/**
+ * Symmetric log transform: sign(x) * log10(1 + |x|)
+ */
+export function symlog(value: number): number {
+    return Math.sign(value) * Math.log10(1 + Math.abs(value));
+}
+
+/**
+ * Map a value into the scale's transformed space
+ * (non-positive values on a log scale map to -Infinity)
+ */
+export function transformValue(value: number, type: ScaleType = 'linear'): number {
+    if (type === 'log') {
+        return value > 0 ? Math.log10(value) : Number.NEGATIVE_INFINITY;
+    }
+    if (type === 'symlog') {
+        return symlog(value);
+    }
+    return value;
+}
+
+/**
+ * Logarithmic scale function (base 10)
+ * Values at or below zero are clamped to the start of the range
+ *
+ * @example
+ * logScale(100, [1, 10000], [0, 4]); // Returns 2
+ */
+export function logScale(value: number, domain: [number, number], range: [number, number]): number {
+    const [domainMin, domainMax] = domain;
+    if (domainMin <= 0 || domainMax <= 0) {
+        return range[0];
+    }
+    const clamped = Math.max(value, domainMin);
+    return linearScale(Math.log10(clamped), [Math.log10(domainMin), Math.log10(domainMax)], range);
+}
+
+/**
+ * Symmetric log scale function
+ * Behaves linearly near zero and logarithmically for large magnitudes of either sign
+ *
+ * @example
+ * symlogScale(0, [-99, 99], [0, 4]); // Returns 2
+ */
+export function symlogScale(
+    value: number,
+    domain: [number, number],
+    range: [number, number],
+): number {
+    return linearScale(symlog(value), [symlog(domain[0]), symlog(domain[1])], range);
+}
+
+/**
+ * Scale a value with the given scale type
+ */
+export function scaleByType(
+    value: number,
+    domain: [number, number],
+    range: [number, number],
+    type: ScaleType = 'linear',
+): number {
+    if (type === 'log') return logScale(value, domain, range);
+    if (type === 'symlog') return symlogScale(value, domain, range);
+    return linearScale(value, domain, range);
+}
+
+/**
+ * Widen a positive extent to whole decades for a log scale
+ *
+ * @param min - Smallest positive value to show
+ * @param max - Largest value to show
+ *
+ * @example
+ * logDomain(3, 420); // Returns [1, 1000]
+ */
+export function logDomain(min: number, max: number): [number, number] {
+    const low = min > 0 ? 10 ** Math.floor(Math.log10(min)) : 1;
+    const high = max > 0 ? 10 ** Math.ceil(Math.log10(max)) : low * 10;
+    return [low, high > low ? high : low * 10];
+}
+
+/**
+ * Tick values for a log scale
+ * Powers of ten, thinned to about `count` ticks; narrow domains add 2× and 5× steps
+ *
+ * @example
+ * logTicks(1, 10000, 5); // Returns [1, 10, 100, 1000, 10000]
+ */
+export function logTicks(min: number, max: number, count: number): number[] {
+    if (min <= 0 || max < min || count <= 0) {
+        return [];
+    }
+
+    const first = Math.ceil(Math.log10(min) - 1e-9);
+    const last = Math.floor(Math.log10(max) + 1e-9);
+    const decades = last - first + 1;
+    const step = Math.max(1, Math.ceil(decades / count));
+
+    const ticks: number[] = [];
+    for (let exp = first; exp <= last; exp += step) {
+        ticks.push(10 ** exp);
+    }
+
+    if (ticks.length < 3) {
+        // Within a decade or two, fill in with 2× and 5× steps
+        const minor: number[] = [];
+        for (let exp = first - 1; exp <= last; exp++) {
+            for (const multiple of [1, 2, 5]) {
+                const value = multiple * 10 ** exp;
+                if (value >= min && value <= max) minor.push(value);
+            }
+        }
+        if (minor.length <= count) {
+            return minor.length >= 2 ? minor : [min, max];
+        }
+    }
+
+    return ticks;
+}
+
+/**
+ * Tick values for a symlog scale
+ * Zero (when in range) and signed powers of ten, thinned to about `count` ticks
+ *
+ * @example
+ * symlogTicks(-100, 1000, 6); // Returns [-100, -10, 0, 10, 100, 1000]
+ */
+export function symlogTicks(min: number, max: number, count: number): number[] {
+    if (max < min || count <= 0) {
+        return [];
+    }
+
+    const candidates: number[] = [];
+    const largest = Math.max(Math.abs(min), Math.abs(max));
+    const lastExp = largest >= 1 ? Math.floor(Math.log10(largest) + 1e-9) : -1;
+    for (let exp = lastExp; exp >= 0; exp--) {
+        candidates.push(-(10 ** exp));
+    }
+    candidates.push(0);
+    for (let exp = 0; exp <= lastExp; exp++) {
+        candidates.push(10 ** exp);
+    }
+
+    const inRange = candidates.filter((value) => value >= min && value <= max);
+    if (inRange.length < 2) {
+        return min === max ? [min] : [min, max];
+    }
+
+    // Thin out from zero outwards, always keeping zero
+    const step = Math.ceil(inRange.length / count);
+    const zeroIndex = inRange.indexOf(0);
+    const anchor = zeroIndex >= 0 ? zeroIndex : 0;
+    return inRange.filter((_, i) => (i - anchor) % step === 0);
+}
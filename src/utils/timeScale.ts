@@ -0,0 +1,118 @@
+/**
+ * Time scale utility module
+ *
+ * Provides tick generation and label formatting for time axes (values in epoch milliseconds)
+ */
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Candidate tick intervals (ms), from finest to coarsest
+ */
+export const TIME_TICK_INTERVALS = [
+    SECOND,
+    5 * SECOND,
+    15 * SECOND,
+    30 * SECOND,
+    MINUTE,
+    5 * MINUTE,
+    15 * MINUTE,
+    30 * MINUTE,
+    HOUR,
+    3 * HOUR,
+    6 * HOUR,
+    12 * HOUR,
+    DAY,
+    2 * DAY,
+    7 * DAY,
+    30 * DAY,
+] as const;
+
+/**
+ * Choose the finest interval that yields at most `tickCount` ticks
+ *
+ * @param min - Start time (ms)
+ * @param max - End time (ms)
+ * @param tickCount - Desired maximum tick count
+ * @returns Tick interval (ms)
+ */
+export function chooseTimeInterval(min: number, max: number, tickCount: number): number {
+    const range = Math.abs(max - min);
+    const maxIntervals = Math.max(1, tickCount - 1);
+
+    for (const interval of TIME_TICK_INTERVALS) {
+        if (range / interval <= maxIntervals) {
+            return interval;
+        }
+    }
+
+    // Beyond the largest candidate: use whole multiples of it
+    const largest = TIME_TICK_INTERVALS[TIME_TICK_INTERVALS.length - 1] ?? DAY;
+    return Math.ceil(range / maxIntervals / largest) * largest;
+}
+
+/**
+ * Offset (ms) that aligns day-based ticks to local midnight
+ */
+function localOffset(time: number): number {
+    return -new Date(time).getTimezoneOffset() * MINUTE;
+}
+
+/**
+ * Generate time axis ticks aligned to round interval boundaries (local time)
+ *
+ * @param min - Start time (ms)
+ * @param max - End time (ms)
+ * @param tickCount - Desired maximum tick count
+ * @returns Tick values (ms)
+ *
+ * @example
+ * timeTicks(Date.parse('2024-01-01T10:02:00'), Date.parse('2024-01-01T10:58:00'), 5);
+ * // 10:15, 10:30, 10:45
+ */
+export function timeTicks(min: number, max: number, tickCount: number): number[] {
+    if (tickCount <= 0 || !Number.isFinite(min) || !Number.isFinite(max)) {
+        return [];
+    }
+    if (max === min) {
+        return [min];
+    }
+
+    const interval = chooseTimeInterval(min, max, tickCount);
+    const offset = localOffset(min);
+    const first = Math.ceil((min + offset) / interval) * interval - offset;
+
+    const ticks: number[] = [];
+    for (let value = first; value <= max; value += interval) {
+        ticks.push(value);
+    }
+    return ticks;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Create a time label formatter suited to the tick interval
+ * - below one minute: HH:MM:SS
+ * - below one day: HH:MM
+ * - otherwise: MM-DD
+ *
+ * @param interval - Tick interval (ms)
+ * @returns Formatter for epoch milliseconds
+ */
+export function createTimeTickFormat(interval: number): (value: number) => string {
+    return (value: number) => {
+        const date = new Date(value);
+
+        if (interval < MINUTE) {
+            return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+        }
+        if (interval < DAY) {
+            return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+        }
+        return `${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    };
+}
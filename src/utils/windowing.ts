@@ -0,0 +1,229 @@
+/**
+ * Time-window aggregation module
+ *
+ * Turns timestamped samples into evenly spaced series for charts: tumbling windows
+ * (fixed, non-overlapping buckets), sliding windows (a window of `size` ending every `step`)
+ * and per-second rates from monotonic counters.
+ *
+ * Windows without samples are gaps (`null`), except for `count` which is 0.
+ */
+
+import { isPresent } from './gaps';
+
+/**
+ * Timestamped sample (time in epoch ms)
+ */
+export interface TimedSample {
+    time: number;
+    value: number;
+}
+
+/**
+ * Window aggregate
+ * - 'count', 'sum', 'avg', 'min', 'max'
+ * - 'rate': sum per second of window size (e.g. requests/s when each request is a 1)
+ * - 'p50', 'p95', 'p99', ...: percentile (linear interpolation)
+ */
+export type WindowAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'rate' | `p${number}`;
+
+/**
+ * Aggregated window
+ */
+export interface WindowBucket {
+    /** Window start (exclusive for sliding windows, inclusive for tumbling windows) */
+    start: number;
+    /** Window end */
+    end: number;
+    value: number | null;
+}
+
+/**
+ * Window options
+ */
+export interface WindowOptions {
+    /** Window length in ms */
+    size: number;
+    aggregate: WindowAggregate;
+    /** Time the last window contains (default: the latest sample) */
+    end?: number;
+    /** Number of windows (default: back to the earliest sample) */
+    count?: number;
+}
+
+/**
+ * Sliding window options
+ */
+export interface SlidingWindowOptions extends WindowOptions {
+    /** Distance between window ends in ms (default: size / 10) */
+    step?: number;
+}
+
+/**
+ * Percentile of values with linear interpolation between closest ranks
+ *
+ * @param values - Values (any order)
+ * @param p - Percentile (0-100)
+ * @returns Percentile, or null when there are no values
+ *
+ * @example
+ * percentile([1, 2, 3, 4], 50); // 2.5
+ */
+export function percentile(values: number[], p: number): number | null {
+    const sorted = values.filter(isPresent).sort((a, b) => a - b);
+    if (sorted.length === 0) return null;
+
+    const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const low = sorted[lower] ?? 0;
+    const high = sorted[Math.min(lower + 1, sorted.length - 1)] ?? low;
+    return low + (high - low) * (rank - lower);
+}
+
+/**
+ * Aggregate values of one window
+ *
+ * @param values - Values in the window
+ * @param aggregate - Aggregate function
+ * @param size - Window length in ms (for 'rate')
+ * @returns Aggregated value (null for an empty window, 0 for 'count')
+ */
+export function aggregateWindow(
+    values: number[],
+    aggregate: WindowAggregate,
+    size = 1000,
+): number | null {
+    const present = values.filter(isPresent);
+    if (aggregate === 'count') return present.length;
+    if (present.length === 0) return null;
+
+    switch (aggregate) {
+        case 'sum':
+            return present.reduce((a, b) => a + b, 0);
+        case 'avg':
+            return present.reduce((a, b) => a + b, 0) / present.length;
+        // reduce instead of spreading: large buckets exceed the argument limit
+        case 'min':
+            return present.reduce((a, b) => Math.min(a, b));
+        case 'max':
+            return present.reduce((a, b) => Math.max(a, b));
+        case 'rate':
+            return present.reduce((a, b) => a + b, 0) / (size / 1000);
+        default:
+            return percentile(present, Number(aggregate.slice(1)));
+    }
+}
+
+/**
+ * Last window end and number of windows for the samples
+ */
+function resolveRange(
+    samples: TimedSample[],
+    options: WindowOptions,
+    step: number,
+    alignEnd: (time: number) => number,
+): { end: number; count: number } | null {
+    const latest = samples.reduce((max, s) => Math.max(max, s.time), Number.NEGATIVE_INFINITY);
+    const earliest = samples.reduce((min, s) => Math.min(min, s.time), Number.POSITIVE_INFINITY);
+    const end = alignEnd(options.end ?? latest);
+    if (!Number.isFinite(end)) return null;
+
+    const count = options.count ?? Math.max(1, Math.floor((end - alignEnd(earliest)) / step) + 1);
+    return { end, count };
+}
+
+/**
+ * Aggregate samples in fixed, non-overlapping windows aligned to multiples of `size`
+ * The last window is the one containing `end` (it may still be filling up).
+ *
+ * @param samples - Timestamped samples (any order)
+ * @param options - Window size, aggregate and range
+ * @returns Windows from oldest to newest
+ *
+ * @example
+ * // p95 latency per 10s bucket over the last minute
+ * tumblingWindows(latencies, { size: 10_000, aggregate: 'p95', end: Date.now(), count: 6 });
+ */
+export function tumblingWindows(samples: TimedSample[], options: WindowOptions): WindowBucket[] {
+    const { size, aggregate } = options;
+    if (size <= 0) return [];
+    // Window end (exclusive) of the bucket containing a time
+    const bucketEnd = (time: number) => (Math.floor(time / size) + 1) * size;
+    const range = resolveRange(samples, options, size, bucketEnd);
+    if (!range) return [];
+
+    const first = range.end - range.count * size;
+    const values: number[][] = Array.from({ length: range.count }, () => []);
+    for (const { time, value } of samples) {
+        const index = Math.floor((time - first) / size);
+        if (index >= 0 && index < range.count) values[index]?.push(value);
+    }
+
+    return values.map((bucket, i) => ({
+        start: first + i * size,
+        end: first + (i + 1) * size,
+        value: aggregateWindow(bucket, aggregate, size),
+    }));
+}
+
+/**
+ * Aggregate samples in overlapping windows of `size` ending every `step`
+ * Each window holds the samples with `end - size < time <= end`.
+ *
+ * @param samples - Timestamped samples (any order)
+ * @param options - Window size, step, aggregate and range
+ * @returns Windows from oldest to newest
+ *
+ * @example
+ * // Requests per second over the last 60s, every second, for the last 5 minutes
+ * slidingWindows(requests, { size: 60_000, step: 1000, aggregate: 'rate', end: Date.now(), count: 300 });
+ */
+export function slidingWindows(
+    samples: TimedSample[],
+    options: SlidingWindowOptions,
+): WindowBucket[] {
+    const { size, aggregate } = options;
+    const step = options.step ?? size / 10;
+    if (size <= 0 || step <= 0) return [];
+    const range = resolveRange(samples, options, step, (time) => time);
+    if (!range) return [];
+
+    const sorted = [...samples].sort((a, b) => a.time - b.time);
+    const result: WindowBucket[] = [];
+    // Windows move forward in time, so both bounds only ever advance: [first, last) is the
+    // run of samples with start < time <= end
+    let first = 0;
+    let last = 0;
+    for (let i = range.count - 1; i >= 0; i--) {
+        const end = range.end - i * step;
+        const start = end - size;
+        while (first < sorted.length && (sorted[first] as TimedSample).time <= start) first++;
+        while (last < sorted.length && (sorted[last] as TimedSample).time <= end) last++;
+        const values = sorted.slice(first, Math.max(first, last)).map((s) => s.value);
+        result.push({ start, end, value: aggregateWindow(values, aggregate, size) });
+    }
+    return result;
+}
+
+/**
+ * Per-second rates between consecutive readings of a monotonic counter
+ * A decrease is treated as a counter reset (the counter restarted from 0).
+ *
+ * @param samples - Counter readings (any order)
+ * @returns Rate samples, timed at the later reading of each pair
+ *
+ * @example
+ * counterRate([{ time: 0, value: 100 }, { time: 2000, value: 300 }]); // [{ time: 2000, value: 100 }]
+ */
+export function counterRate(samples: TimedSample[]): TimedSample[] {
+    const sorted = samples.filter((s) => isPresent(s.value)).sort((a, b) => a.time - b.time);
+    const rates: TimedSample[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        const prev = sorted[i - 1] as TimedSample;
+        const curr = sorted[i] as TimedSample;
+        const seconds = (curr.time - prev.time) / 1000;
+        if (seconds <= 0) continue;
+        const increase = curr.value >= prev.value ? curr.value - prev.value : curr.value;
+        rates.push({ time: curr.time, value: increase / seconds });
+    }
+    return rates;
+}
@@ -1,6 +1,8 @@
 import { render } from 'ink-testing-library';
 import { describe, expect, it } from 'vitest';
 import { AreaChart } from '../../src/components/AreaChart';
+import { InkHudProvider } from '../../src/components/InkHudProvider';
+import { TerminalDetector } from '../../src/detect/terminal';
 
 function stripAnsi(input: string): string {
     let output = '';
@@ -44,4 +46,72 @@ describe('AreaChart', () => {
         expect(output.split('\n')).toHaveLength(height);
         expect(output.trim()).not.toBe('');
     });
+
+    it('should draw the other series when one is all gaps', () => {
+        const draw = (series: Array<{ name: string; data: Array<number | null> }>) =>
+            stripAnsi(
+                render(
+                    <AreaChart
+                        series={series}
+                        renderer="ascii"
+                        showLegend={false}
+                        showAxis={false}
+                        width={24}
+                        height={6}
+                    />,
+                ).lastFrame() ?? '',
+            );
+        const data = [1, 3, 2, 4, 3, 5];
+
+        expect(
+            draw([
+                { name: 'Gaps', data: [null, null] },
+                { name: 'S1', data },
+                { name: 'More gaps', data: [null] },
+            ]),
+        ).toBe(draw([{ name: 'S1', data }]));
+    });
+
+    it('should stack areas and order the legend to match', () => {
+        const { lastFrame } = render(
+            <AreaChart
+                series={[
+                    { name: 'nginx', data: [10, 20, 15] },
+                    { name: 'postgres', data: [30, 25, 35] },
+                ]}
+                stacking="stacked"
+                renderer="ascii"
+                showXAxis={false}
+                width={40}
+                height={8}
+            />,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toMatch(/^50/m);
+        expect(output.indexOf('postgres')).toBeLessThan(output.indexOf('nginx'));
+    });
+
+    it('should prefer solid quadrant fills over braille by default', () => {
+        const detector = new TerminalDetector({
+            LANG: 'en_US.UTF-8',
+            TERM: 'xterm-256color',
+            TERM_PROGRAM: 'iTerm.app',
+        });
+        const { lastFrame } = render(
+            <InkHudProvider detector={detector}>
+                <AreaChart
+                    series={[{ name: 'CPU', data: [2, 6, 4, 8] }]}
+                    showAxis={false}
+                    showLegend={false}
+                    width={20}
+                    height={6}
+                />
+            </InkHudProvider>,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toContain('█');
+        expect(output).not.toMatch(/[\u2801-\u28ff]/);
+    });
 });
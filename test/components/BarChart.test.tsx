@@ -1,6 +1,7 @@
 import { render } from 'ink-testing-library';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { BarChart } from '../../src/components/BarChart';
+import { InkHudProvider } from '../../src/components/InkHudProvider';
 
 function stripAnsi(input: string): string {
     let output = '';
@@ -69,4 +70,117 @@ describe('BarChart', () => {
         expect(output.split('\n')).toHaveLength(height);
         expect(output.trim()).not.toBe('');
     });
+
+    it('should scale the axis to the cumulative total when stacked', () => {
+        const { lastFrame } = render(
+            <BarChart
+                series={[
+                    { name: 'User', data: [40, 30] },
+                    { name: 'System', data: [50, 60] },
+                ]}
+                stacking="stacked"
+                renderer="ascii"
+                showXAxis={false}
+                width={40}
+                height={8}
+            />,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toMatch(/^90/m);
+        // Right legend lists the top of the stack first
+        expect(output.indexOf('System')).toBeLessThan(output.indexOf('User'));
+    });
+
+    it('should label the axis with percentages in percent mode', () => {
+        const { lastFrame } = render(
+            <BarChart
+                series={[
+                    { name: 'GET', data: [3, 1] },
+                    { name: 'POST', data: [1, 1] },
+                ]}
+                stacking="percent"
+                renderer="ascii"
+                showLegend={false}
+                showXAxis={false}
+                width={30}
+                height={6}
+            />,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toMatch(/100%/);
+        expect(output).toMatch(/0%/);
+    });
+
+    it('should report the cursor index when interactive', async () => {
+        const onCursorChange = vi.fn();
+        const { lastFrame, stdin } = render(
+            <BarChart
+                data={[5, 8, 3]}
+                seriesName="Requests"
+                interactive
+                autoFocus
+                onCursorChange={onCursorChange}
+                renderer="ascii"
+                showLegend={false}
+                width={30}
+                height={8}
+            />,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        stdin.write('\u001b[D'); // Left arrow
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        stdin.write('\u001b[D');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        stdin.write('\u001b[D'); // Stays on the first bar
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(onCursorChange.mock.calls.map(([index]) => index)).toEqual([2, 1, 0]);
+        expect(stripAnsi(lastFrame() ?? '')).toMatch(/0 +● Requests 5/);
+    });
+
+    it('should label thresholds below the value axis in horizontal mode', () => {
+        const { lastFrame } = render(
+            <BarChart
+                data={[3, 5, 2, 6]}
+                orientation="horizontal"
+                thresholds={[{ value: 8, label: 'limit' }]}
+                renderer="block"
+                showLegend={false}
+                width={40}
+                height={10}
+            />,
+        );
+        const lines = stripAnsi(lastFrame() ?? '').split('\n');
+
+        // The value extent reaches the threshold
+        expect(lines[0]).toMatch(/^8 /);
+        expect(lines.at(-1)).toMatch(/^ +limit$/);
+    });
+
+    it('should tell series apart by pattern when colors are off', () => {
+        const { lastFrame } = render(
+            <InkHudProvider colorDepth="mono">
+                <BarChart
+                    series={[
+                        { name: 'Read', data: [1, 4] },
+                        { name: 'Write', data: [4, 2] },
+                    ]}
+                    renderer="braille"
+                    showAxis={false}
+                    width={30}
+                    height={5}
+                />
+            </InkHudProvider>,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toContain('█ Read');
+        expect(output).toContain('▓ Write');
+        // Read bars are solid, Write bars drop a quarter of their dots
+        expect(output).toContain('⣿');
+        expect(output).toContain('⢟');
+    });
 });
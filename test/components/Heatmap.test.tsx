@@ -1,6 +1,7 @@
 import { render } from 'ink-testing-library';
 import { describe, expect, it } from 'vitest';
 import { Heatmap } from '../../src/components/Heatmap';
+import { InkHudProvider } from '../../src/components/InkHudProvider';
 
 function stripAnsi(input: string): string {
     return input.replace(
@@ -40,4 +41,14 @@ describe('Heatmap', () => {
         const output = stripAnsi(lastFrame() ?? '');
         expect(output).toContain('■');
     });
+
+    it('should show intensity with shades when colors are off', () => {
+        const data = [[0, 1, 2, 3]];
+        const { lastFrame } = render(
+            <InkHudProvider colorDepth="mono">
+                <Heatmap data={data} />
+            </InkHudProvider>,
+        );
+        expect(stripAnsi(lastFrame() ?? '').trim()).toBe('░ ▒ ▓ █');
+    });
 });
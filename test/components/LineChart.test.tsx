@@ -1,6 +1,12 @@
 import { render } from 'ink-testing-library';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { InkHudProvider } from '../../src/components/InkHudProvider';
 import { LineChart } from '../../src/components/LineChart';
+import { AsciiRenderer } from '../../src/core/ascii';
+import type { RendererMetadata } from '../../src/core/renderer';
+import type { Pixel, RenderedLine } from '../../src/core/types';
+import { RendererRegistry } from '../../src/detect/registry';
+import { TerminalDetector } from '../../src/detect/terminal';
 
 function stripAnsi(input: string): string {
     let output = '';
@@ -44,4 +50,241 @@ describe('LineChart', () => {
         expect(output.split('\n')).toHaveLength(height);
         expect(output.trim()).not.toBe('');
     });
+
+    it('should label the X axis with times when data uses Date X values', () => {
+        const start = new Date(2024, 0, 1, 10, 0).getTime();
+        const { lastFrame } = render(
+            <LineChart
+                data={[
+                    { x: new Date(start), y: 1 },
+                    { x: new Date(start + 5 * 60_000), y: 4 },
+                    { x: new Date(start + 60 * 60_000), y: 2 },
+                ]}
+                renderer="ascii"
+                showLegend={false}
+                width={40}
+                height={8}
+            />,
+        );
+
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toMatch(/10:15/);
+        expect(output).toMatch(/11:00/);
+    });
+
+    it('should break the line at gaps unless gapMode is connect', () => {
+        const data = [5, 5, null, null, null, null, 5, 5];
+        const renderRow = (gapMode: 'break' | 'connect') => {
+            const { lastFrame } = render(
+                <LineChart
+                    data={data}
+                    gapMode={gapMode}
+                    renderer="ascii"
+                    showLegend={false}
+                    showAxis={false}
+                    width={16}
+                    height={3}
+                />,
+            );
+            return stripAnsi(lastFrame() ?? '').split('\n')[1] ?? '';
+        };
+
+        expect(renderRow('break')).toMatch(/\S\s+\S/);
+        expect(renderRow('connect').trim()).not.toMatch(/\s/);
+    });
+
+    it('should move the inspection cursor with arrow keys and show a tooltip row', async () => {
+        const onCursorChange = vi.fn();
+        const { lastFrame, stdin } = render(
+            <LineChart
+                series={[
+                    { name: 'CPU', data: [10, 20, 30] },
+                    { name: 'Mem', data: [40, null, 60] },
+                ]}
+                interactive
+                autoFocus
+                onCursorChange={onCursorChange}
+                yTickFormat={(value) => `${value}%`}
+                renderer="ascii"
+                showLegend={false}
+                width={40}
+                height={10}
+            />,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(onCursorChange).toHaveBeenLastCalledWith(2);
+        expect(stripAnsi(lastFrame() ?? '')).toMatch(/2 +● CPU 30% +● Mem 60%/);
+
+        stdin.write('\u001b[D'); // Left arrow
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(onCursorChange).toHaveBeenLastCalledWith(1);
+        expect(stripAnsi(lastFrame() ?? '')).toMatch(/1 +● CPU 20% +● Mem —/);
+    });
+
+    it('should not reserve a tooltip row unless interactive', () => {
+        const { lastFrame } = render(
+            <LineChart data={[1, 2, 3]} renderer="ascii" showLegend={false} height={6} />,
+        );
+        expect(stripAnsi(lastFrame() ?? '')).not.toMatch(/●/);
+    });
+
+    it('should zoom in with the keyboard and report the viewport', async () => {
+        const onViewportChange = vi.fn();
+        const { stdin } = render(
+            <LineChart
+                data={Array.from({ length: 20 }, (_, i) => i)}
+                zoomable
+                autoFocus
+                onViewportChange={onViewportChange}
+                renderer="ascii"
+                showLegend={false}
+                height={8}
+            />,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        stdin.write('+');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(onViewportChange).toHaveBeenLastCalledWith({ start: 5, end: 15 });
+
+        stdin.write(']');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(onViewportChange).toHaveBeenLastCalledWith({ start: 8, end: 18 });
+    });
+
+    it('should keep absolute indexes on the X axis and in the tooltip when zoomed', async () => {
+        const onCursorChange = vi.fn();
+        const { lastFrame } = render(
+            <LineChart
+                data={Array.from({ length: 100 }, (_, i) => i)}
+                viewport={{ start: 50, end: 60 }}
+                interactive
+                autoFocus
+                onCursorChange={onCursorChange}
+                renderer="ascii"
+                showLegend={false}
+                width={40}
+                height={10}
+            />,
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toMatch(/59 +● Series 59/);
+        expect(onCursorChange).toHaveBeenLastCalledWith(59);
+    });
+
+    it('should render an overview strip when requested', () => {
+        const { lastFrame } = render(
+            <LineChart
+                data={[1, 2, 3, 4, 5, 6, 7, 8]}
+                viewport={{ start: 2, end: 6 }}
+                showOverview
+                renderer="ascii"
+                showLegend={false}
+                height={8}
+            />,
+        );
+        expect(stripAnsi(lastFrame() ?? '')).toMatch(/ ▂▃▄▅▆▇█/);
+    });
+
+    it('should draw threshold, band and annotation labels beside the axes', () => {
+        const { lastFrame } = render(
+            <LineChart
+                data={[100, 120, 180, 140, 200, 160]}
+                thresholds={[{ value: 250, label: 'p99 SLO' }]}
+                bands={[{ from: 150, to: 200, label: 'warn' }]}
+                annotations={[{ x: 3, label: 'deploy' }]}
+                renderer="braille"
+                showLegend={false}
+                width={50}
+                height={12}
+            />,
+        );
+        const lines = stripAnsi(lastFrame() ?? '').split('\n');
+
+        // The Y-axis extends to the threshold, which is labelled on its own row
+        expect(lines[0]).toMatch(/^250 .* p99 SLO$/);
+        expect(lines.some((line) => line.endsWith(' warn'))).toBe(true);
+        expect(lines.at(-1)).toMatch(/^ +deploy$/);
+    });
+
+    it('should label a log Y axis with powers of ten', () => {
+        const { lastFrame } = render(
+            <LineChart
+                data={[1, 5, 30, 200, 1500, 9000]}
+                yScale="log"
+                renderer="braille"
+                showLegend={false}
+                showXAxis={false}
+                width={40}
+                height={8}
+            />,
+        );
+        const labels = stripAnsi(lastFrame() ?? '')
+            .split('\n')
+            .map((line) => line.slice(0, 3).trim())
+            .filter(Boolean);
+        expect(labels).toEqual(['10k', '1k', '100', '10', '1']);
+    });
+
+    it('should scale right-axis series against their own labelled axis', () => {
+        const { lastFrame } = render(
+            <LineChart
+                series={[
+                    { name: 'Requests', data: [1200, 1500, 2100] },
+                    { name: 'Errors', data: [0.5, 3.5, 1], axis: 'right' },
+                ]}
+                y2TickFormat={(v) => `${v.toFixed(1)}%`}
+                renderer="braille"
+                showXAxis={false}
+                width={60}
+                height={6}
+            />,
+        );
+        const lines = stripAnsi(lastFrame() ?? '').split('\n');
+        expect(lines[0]).toMatch(/^2\.1k .* 3\.5% +● Requests \(L\)$/);
+        expect(lines.some((line) => line.endsWith('● Errors (R)'))).toBe(true);
+        expect(lines.at(-1)).toMatch(/^1\.2k .* 0\.5%/);
+    });
+
+    it('should render with a renderer registered on the provider', () => {
+        class HashRenderer extends AsciiRenderer {
+            override getMetadata(): RendererMetadata {
+                return { ...super.getMetadata(), name: 'hash' };
+            }
+
+            override renderCanvas(
+                pixels: Pixel[][],
+                width: number,
+                height: number,
+            ): RenderedLine[] {
+                return super
+                    .renderCanvas(pixels, width, height)
+                    .map((line) =>
+                        line.map((seg) => ({ ...seg, text: seg.text.replace(/\S/g, '#') })),
+                    );
+            }
+        }
+        const registry = new RendererRegistry().register({
+            metadata: new HashRenderer().getMetadata(),
+            create: () => new HashRenderer(),
+        });
+
+        const { lastFrame } = render(
+            <InkHudProvider registry={registry} detector={new TerminalDetector({ TERM: 'vt100' })}>
+                <LineChart
+                    series={[{ name: 'CPU', data: [1, 3, 2, 5] }]}
+                    rendererChain={['hash', 'ascii']}
+                    showAxis={false}
+                    showLegend={false}
+                    width={20}
+                    height={4}
+                />
+            </InkHudProvider>,
+        );
+
+        expect(lastFrame()).toContain('#');
+    });
 });
@@ -1,5 +1,5 @@
 import { render } from 'ink-testing-library';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { LogStream } from '../../src/components/LogStream';
 
 describe('LogStream', () => {
@@ -15,4 +15,155 @@ describe('LogStream', () => {
         const { lastFrame } = render(<LogStream logs={logs} />);
         expect(lastFrame()).toMatch(/Error/i);
     });
+
+    it('does not treat "error" inside a message as the level', () => {
+        const { lastFrame } = render(<LogStream logs={['Recovered from error in worker']} />);
+        expect(lastFrame()).not.toMatch(/ERROR/);
+        expect(lastFrame()).toMatch(/Recovered from error in worker/);
+    });
+
+    it('renders structured fields as key=value pairs', () => {
+        const logs = ['{"level":"warn","msg":"slow request","ms":812}'];
+        const { lastFrame } = render(<LogStream logs={logs} parser="json" />);
+        expect(lastFrame()).toMatch(/WARN +slow request ms=812/);
+    });
+
+    it('shows only the listed fields', () => {
+        const logs = ['level=info msg=done user=alice dur=12ms'];
+        const { lastFrame } = render(
+            <LogStream logs={logs} parser="logfmt" showFields={['dur']} />,
+        );
+        expect(lastFrame()).toMatch(/INFO +done dur=12ms$/);
+        expect(lastFrame()).not.toMatch(/alice/);
+    });
+
+    describe('filters', () => {
+        const logs = [
+            '[DEBUG] cache warmed',
+            '[INFO] GET /api 200',
+            '[WARN] GET /health slow',
+            '[ERROR] POST /api failed',
+        ];
+        const wait = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+        it('hides lines below the minimum level', () => {
+            const { lastFrame } = render(<LogStream logs={logs} minLevel="warn" />);
+            const frame = lastFrame() ?? '';
+            expect(frame).not.toMatch(/cache warmed|GET \/api/);
+            expect(frame).toMatch(/GET \/health slow/);
+            expect(frame).toMatch(/POST \/api failed/);
+            expect(frame).toMatch(/≥ WARN +2\/4 lines/);
+        });
+
+        it('applies include and exclude patterns', () => {
+            const { lastFrame } = render(
+                <LogStream logs={logs} include={/GET/} exclude={/health/} />,
+            );
+            const frame = lastFrame() ?? '';
+            expect(frame).toMatch(/GET \/api 200/);
+            expect(frame).not.toMatch(/health|POST|cache/);
+            expect(frame).toMatch(/1\/4 lines/);
+        });
+
+        it('cycles the level threshold with l', async () => {
+            const onMinLevelChange = vi.fn();
+            const { stdin, lastFrame } = render(
+                <LogStream logs={logs} interactive autoFocus onMinLevelChange={onMinLevelChange} />,
+            );
+            await wait();
+            expect(lastFrame()).toMatch(/cache warmed/);
+
+            stdin.write('l');
+            await wait();
+            expect(lastFrame()).not.toMatch(/cache warmed/);
+            expect(lastFrame()).toMatch(/≥ INFO/);
+
+            stdin.write('l');
+            await wait();
+            stdin.write('l');
+            await wait();
+            expect(lastFrame()).toMatch(/≥ ERROR {2}\(l: level\) +1\/4 lines/);
+            expect(onMinLevelChange).toHaveBeenLastCalledWith('error');
+        });
+
+        it('keeps highlighted text in place', () => {
+            const { lastFrame } = render(
+                <LogStream
+                    logs={['[INFO] request id=7f3a from 10.0.0.1']}
+                    highlights={[{ pattern: /\d+\.\d+\.\d+\.\d+/, color: 'warning' }]}
+                />,
+            );
+            expect(lastFrame()).toMatch(/INFO +request id=7f3a from 10\.0\.0\.1/);
+        });
+    });
+
+    describe('scrollback', () => {
+        const lines = (from: number, to: number) =>
+            Array.from({ length: to - from + 1 }, (_, i) => `[INFO] line ${from + i}`);
+        const shown = (frame: string | undefined) =>
+            (frame ?? '').match(/line \d+/g)?.map((text) => Number(text.slice(5))) ?? [];
+        const wait = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+        it('pauses on its lines and counts new arrivals', async () => {
+            const { stdin, lastFrame, rerender } = render(
+                <LogStream logs={lines(1, 10)} height={4} interactive autoFocus />,
+            );
+            await wait();
+            expect(shown(lastFrame())).toEqual([7, 8, 9, 10]);
+
+            stdin.write('p');
+            await wait();
+            expect(shown(lastFrame())).toEqual([8, 9, 10]);
+            expect(lastFrame()).toMatch(/⏸ PAUSED/);
+
+            // The buffer rolls over while paused
+            rerender(<LogStream logs={lines(3, 12)} height={4} interactive autoFocus />);
+            await wait();
+            expect(shown(lastFrame())).toEqual([8, 9, 10]);
+            expect(lastFrame()).toMatch(/↓ 2 new lines/);
+
+            stdin.write('\u001b[5~'); // PageUp
+            await wait();
+            expect(shown(lastFrame())).toEqual([5, 6, 7]);
+
+            stdin.write('\u001b[F'); // End: follow again
+            await wait();
+            expect(shown(lastFrame())).toEqual([9, 10, 11, 12]);
+            expect(lastFrame()).not.toMatch(/PAUSED/);
+        });
+
+        it('counts repeated lines by the source sequence number', async () => {
+            const ticks = Array.from({ length: 10 }, () => '[INFO] tick');
+            const { stdin, lastFrame, rerender } = render(
+                <LogStream logs={ticks} firstSequence={0} height={4} interactive autoFocus />,
+            );
+            await wait();
+            stdin.write('p');
+            await wait();
+
+            // Two lines dropped and two appended: the array looks the same
+            rerender(
+                <LogStream logs={[...ticks]} firstSequence={2} height={4} interactive autoFocus />,
+            );
+            await wait();
+            expect(lastFrame()).toMatch(/↓ 2 new lines/);
+        });
+
+        it('stops scrolling back at the oldest retained line', async () => {
+            const { stdin, lastFrame } = render(
+                <LogStream logs={lines(1, 10)} maxLines={6} height={4} interactive autoFocus />,
+            );
+            await wait();
+            stdin.write('\u001b[H'); // Home
+            await wait();
+            expect(shown(lastFrame())).toEqual([5, 6, 7]);
+        });
+
+        it('wraps long lines instead of truncating them', () => {
+            const long = '[INFO] the quick brown fox jumps over the lazy dog';
+            const { lastFrame } = render(<LogStream logs={[long]} width={30} height={3} wrap />);
+            const lines = (lastFrame() ?? '').split('\n').map((line) => line.trim());
+            expect(lines).toEqual(['INFO    the quick brown fox', 'jumps over the lazy', 'dog']);
+        });
+    });
 });
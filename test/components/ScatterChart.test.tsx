@@ -0,0 +1,81 @@
+import { render } from 'ink-testing-library';
+import { describe, expect, it } from 'vitest';
+import { InkHudProvider } from '../../src/components/InkHudProvider';
+import { ScatterChart } from '../../src/components/ScatterChart';
+
+describe('ScatterChart', () => {
+    it('should output empty content when there are no points and axes/legends are disabled', () => {
+        const { lastFrame } = render(
+            <ScatterChart data={[]} showLegend={false} showAxis={false} />,
+        );
+        expect(lastFrame()).toBe('');
+    });
+
+    it('should output fixed height canvas content with ASCII renderer', () => {
+        const height = 6;
+        const { lastFrame } = render(
+            <ScatterChart
+                data={[
+                    { x: 120, y: 8 },
+                    { x: 480, y: 21 },
+                    { x: 2048, y: 95, size: 1 },
+                ]}
+                renderer="ascii"
+                showLegend={false}
+                showAxis={false}
+                width={24}
+                height={height}
+            />,
+        );
+
+        const output = lastFrame() ?? '';
+        expect(output.split('\n')).toHaveLength(height);
+        expect(output.trim()).not.toBe('');
+    });
+
+    it('should label the X axis with real numeric values', () => {
+        const { lastFrame } = render(
+            <ScatterChart
+                series={[
+                    {
+                        name: 'Latency',
+                        points: [
+                            { x: 100, y: 1 },
+                            { x: 500, y: 5 },
+                        ],
+                    },
+                ]}
+                renderer="braille"
+                showLegend={false}
+                xTickCount={2}
+                width={30}
+                height={8}
+            />,
+        );
+
+        const output = lastFrame() ?? '';
+        // Index-based axes would end at 1 (two points)
+        expect(output).toMatch(/500/);
+    });
+
+    it('should tell series apart by legend pattern when colors are off', () => {
+        const { lastFrame } = render(
+            <InkHudProvider colorDepth="mono">
+                <ScatterChart
+                    series={[
+                        { name: 'Read', points: [{ x: 1, y: 2 }] },
+                        { name: 'Write', points: [{ x: 2, y: 1 }] },
+                    ]}
+                    renderer="ascii"
+                    showAxis={false}
+                    width={30}
+                    height={5}
+                />
+            </InkHudProvider>,
+        );
+
+        const output = lastFrame() ?? '';
+        expect(output).toContain('█ Read');
+        expect(output).toContain('▓ Write');
+    });
+});
@@ -8,4 +8,17 @@ describe('Sparkline', () => {
         const { lastFrame } = render(<Sparkline data={data} />);
         expect(lastFrame()).not.toBe('');
     });
+
+    it('renders gaps as blanks by default', () => {
+        const { lastFrame } = render(<Sparkline data={[1, null, Number.NaN, 8]} />);
+        expect(lastFrame()).toBe('   █');
+    });
+
+    it('renders gaps as markers or bridges them depending on gapMode', () => {
+        const marker = render(<Sparkline data={[1, null, 8]} gapMode="marker" />);
+        expect(marker.lastFrame()).toContain('·');
+
+        const connect = render(<Sparkline data={[1, null, 8]} gapMode="connect" />);
+        expect(connect.lastFrame()).toBe(' ▅█');
+    });
 });
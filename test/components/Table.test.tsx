@@ -1,5 +1,6 @@
 import { render } from 'ink-testing-library';
 import { describe, expect, it, vi } from 'vitest';
+import { GridItemContext } from '../../src/components/Grid';
 import { Table, type TableColumn } from '../../src/components/Table';
 
 interface Data {
@@ -17,6 +18,32 @@ const data = [
     { id: 2, name: 'Bob' },
 ];
 
+const hosts = Array.from({ length: 20 }, (_, i) => ({ id: i + 1, name: `host-${i + 1}` }));
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+/**
+ * Write keys until the frame shows their effect
+ *
+ * Ink subscribes input handlers in effects, so keys written right after a render can reach a
+ * stale handler or none at all. A handled key re-renders synchronously, so writing again only
+ * happens while the previous write was dropped.
+ */
+async function press(
+    app: Pick<ReturnType<typeof render>, 'stdin' | 'lastFrame'>,
+    keys: string,
+    expected: RegExp,
+): Promise<void> {
+    await vi.waitFor(() => {
+        if (!expected.test(app.lastFrame() ?? '')) app.stdin.write(keys);
+        expect(app.lastFrame()).toMatch(expected);
+    });
+}
+
+function rowNames(frame: string | undefined): string[] {
+    return (frame ?? '').split('\n').flatMap((line) => line.match(/host-\d+|Alice|Bob/g) ?? []);
+}
+
 describe('Table', () => {
     it('renders headers and data', () => {
         const { lastFrame } = render(<Table data={data} columns={columns} />);
@@ -39,4 +66,376 @@ describe('Table', () => {
         // Verify callback
         expect(onSort).toHaveBeenCalled();
     });
+
+    it('sorts rows itself when sortColumn is not controlled', async () => {
+        const { stdin, lastFrame } = render(
+            <Table data={[...data].reverse()} columns={columns} defaultSortColumn="Name" />,
+        );
+        expect(rowNames(lastFrame())).toEqual(['Alice', 'Bob']);
+
+        await wait();
+        stdin.write('\t'); // Focus the Name header
+        await wait();
+        stdin.write('\r');
+        await wait();
+        expect(rowNames(lastFrame())).toEqual(['Bob', 'Alice']);
+    });
+
+    it('uses a column compare function for built-in sorting', () => {
+        const byLength: TableColumn<Data>[] = [
+            { header: 'Name', accessor: 'name', compare: (a, b) => a.name.length - b.name.length },
+        ];
+        const { lastFrame } = render(
+            <Table
+                data={data}
+                columns={byLength}
+                defaultSortColumn={0}
+                defaultSortDirection="asc"
+            />,
+        );
+        expect(rowNames(lastFrame())).toEqual(['Bob', 'Alice']);
+    });
+
+    it('keeps caller-sorted data in order when sorting is controlled', () => {
+        const { lastFrame } = render(
+            <Table data={[...data].reverse()} columns={columns} sortColumn="Name" />,
+        );
+        expect(rowNames(lastFrame())).toEqual(['Bob', 'Alice']);
+        expect(lastFrame()).toContain('Name ▲');
+    });
+
+    it('only renders the rows that fit the GridItem height', () => {
+        const { lastFrame } = render(
+            <GridItemContext.Provider value={{ width: 30, height: 7 }}>
+                <Table data={hosts} columns={columns} />
+            </GridItemContext.Provider>,
+        );
+        expect(rowNames(lastFrame())).toEqual(['host-1', 'host-2', 'host-3', 'host-4', 'host-5']);
+    });
+
+    it('scrolls with the row cursor and selects with Enter', async () => {
+        const onSelect = vi.fn();
+        const { stdin, lastFrame } = render(
+            <Table
+                data={hosts}
+                columns={columns}
+                height={6}
+                interactive
+                autoFocus
+                onSelect={onSelect}
+            />,
+        );
+        await wait();
+        expect(rowNames(lastFrame())).toEqual(['host-1', 'host-2', 'host-3', 'host-4']);
+
+        stdin.write('\u001b[6~'); // PageDown
+        await wait();
+        stdin.write('\u001b[B'); // Down
+        await wait();
+        expect(rowNames(lastFrame())).toEqual(['host-3', 'host-4', 'host-5', 'host-6']);
+
+        stdin.write('\r');
+        await wait();
+        expect(onSelect).toHaveBeenCalledWith(hosts[5], 5);
+
+        stdin.write('\u001b[F'); // End
+        await wait();
+        expect(rowNames(lastFrame())).toEqual(['host-17', 'host-18', 'host-19', 'host-20']);
+
+        stdin.write('\u001b[H'); // Home
+        await wait();
+        stdin.write('\r');
+        await wait();
+        expect(onSelect).toHaveBeenLastCalledWith(hosts[0], 0);
+    });
+
+    it('filters rows with the / search prompt and shows the match count', async () => {
+        const onSearchChange = vi.fn();
+        const app = render(
+            <Table
+                data={hosts}
+                columns={columns}
+                interactive
+                autoFocus
+                onSearchChange={onSearchChange}
+            />,
+        );
+        await press(app, '/', /\/▏/);
+        await press(app, 'host-1', /\/host-1▏/);
+        await press(app, '7', /\/host-17▏/);
+
+        const lines = (app.lastFrame() ?? '').split('\n');
+        expect(rowNames(lines.slice(0, -1).join('\n'))).toEqual(['host-17']);
+        expect(lines.at(-1)).toMatch(/\/host-17▏ +1\/20 rows/);
+        await vi.waitFor(() => expect(onSearchChange).toHaveBeenLastCalledWith('host-17'));
+
+        await press(app, '\u001b', /host-20/); // Esc clears the search
+        expect(rowNames(app.lastFrame())).toHaveLength(20);
+        expect(app.lastFrame()).not.toContain('rows');
+    });
+
+    it('does not select rows while typing a search', async () => {
+        const onSelect = vi.fn();
+        const app = render(
+            <Table data={data} columns={columns} interactive autoFocus onSelect={onSelect} />,
+        );
+        await press(app, '/', /\/▏/);
+        await press(app, 'b', /\/b▏/);
+        await press(app, '\r', /\/b +1\/2 rows/); // Closes the prompt and keeps the filter
+        expect(onSelect).not.toHaveBeenCalled();
+
+        await vi.waitFor(() => {
+            if (onSelect.mock.calls.length === 0) app.stdin.write('\r');
+            expect(onSelect).toHaveBeenCalledWith(data[1], 1);
+        });
+    });
+
+    it('applies column filter predicates', () => {
+        const evenIds: TableColumn<Data>[] = [
+            { header: 'ID', accessor: 'id', filter: (row) => row.id % 2 === 0 },
+            { header: 'Name', accessor: 'name' },
+        ];
+        const { lastFrame } = render(<Table data={hosts} columns={evenIds} height={6} />);
+        const frame = lastFrame() ?? '';
+        expect(rowNames(frame)).toEqual(['host-2', 'host-4', 'host-6']);
+        expect(frame).toContain('10/20 rows');
+    });
+
+    it('renders sparkline, gauge and delta columns', () => {
+        const services = [
+            { name: 'api', cpu: 90, trend: [1, 4, 8], change: 12.5 },
+            { name: 'db', cpu: 40, trend: [8, 4, 1], change: -3 },
+        ];
+        const { lastFrame } = render(
+            <Table
+                data={services}
+                columns={[
+                    { header: 'Service', accessor: 'name' },
+                    { header: 'CPU', accessor: 'cpu', type: 'gauge' },
+                    { header: 'Trend', accessor: 'trend', type: 'sparkline' },
+                    {
+                        header: 'Change',
+                        accessor: 'change',
+                        type: 'delta',
+                        format: (v) => `${v}%`,
+                    },
+                ]}
+            />,
+        );
+        const lines = (lastFrame() ?? '').split('\n');
+        const api = lines.find((line) => line.startsWith(' api')) ?? '';
+        const db = lines.find((line) => line.startsWith(' db')) ?? '';
+        // Gauge columns are sized for the default bar plus its percentage
+        expect(api).toMatch(/█{9}░ 90% {4}▄█ {6}▲ 12\.5%$/);
+        expect(db).toMatch(/████░{6} 40% {3}█▄ {7}▼ 3%$/);
+    });
+
+    describe('column layout', () => {
+        interface Proc {
+            pid: number;
+            name: string;
+            user: string;
+            cpu: number;
+            cmd: string;
+        }
+        const procs: Proc[] = [
+            { pid: 1, name: 'postgres', user: 'root', cpu: 12, cmd: '/usr/bin/postgres -D /data' },
+        ];
+        const procColumns: TableColumn<Proc>[] = [
+            { header: 'PID', accessor: 'pid', pinned: true, minWidth: 6 },
+            { header: 'Name', accessor: 'name', minWidth: 12 },
+            { header: 'User', accessor: 'user', minWidth: 8, priority: 1 },
+            { header: 'CPU', accessor: 'cpu', minWidth: 8 },
+            { header: 'Command', accessor: 'cmd', minWidth: 20, flex: 1 },
+        ];
+
+        it('hides low-priority columns and scrolls the rest past pinned columns', async () => {
+            const { stdin, lastFrame } = render(
+                <GridItemContext.Provider value={{ width: 40 }}>
+                    <Table data={procs} columns={procColumns} interactive autoFocus />
+                </GridItemContext.Provider>,
+            );
+            await wait();
+            let lines = (lastFrame() ?? '').split('\n');
+            expect(lines[0]).toMatch(/^ PID +Name +CPU$/);
+            expect(lines.at(-1)).toMatch(/columns 1-2\/3 ▸ {2}1\/1 rows$/);
+
+            stdin.write('\u001b[C'); // Right
+            await wait();
+            lines = (lastFrame() ?? '').split('\n');
+            expect(lines[0]).toMatch(/^ PID +CPU +Command/);
+            expect(lines[0]).not.toContain('User');
+            expect(lines.at(-1)).toMatch(/◂ columns 2-3\/3 {2}1\/1 rows$/);
+        });
+
+        it('gives extra width to flex columns', () => {
+            const { lastFrame } = render(
+                <GridItemContext.Provider value={{ width: 100 }}>
+                    <Table data={procs} columns={procColumns} />
+                </GridItemContext.Provider>,
+            );
+            const header = (lastFrame() ?? '').split('\n')[0] ?? '';
+            // Fixed columns keep their content width; Command takes the remaining space
+            expect(header).toMatch(/^ PID +Name +User +CPU +Command$/);
+            expect(header.indexOf('Command')).toBeLessThan(60);
+        });
+
+        it('wraps long headers onto a second line', () => {
+            const { lastFrame } = render(
+                <GridItemContext.Provider value={{ width: 24 }}>
+                    <Table
+                        data={[{ id: 1, name: 'Alice' }]}
+                        columns={[
+                            { header: 'Identifier Code', accessor: 'id', maxWidth: 12 },
+                            { header: 'Name', accessor: 'name' },
+                        ]}
+                        wrapHeaders
+                        interactive
+                    />
+                </GridItemContext.Provider>,
+            );
+            const lines = (lastFrame() ?? '').split('\n');
+            expect(lines[0]).toMatch(/^ Identifier +Name/);
+            expect(lines[1]).toBe(' Code');
+            expect(lines[3]).toMatch(/^ 1 +Alice/);
+        });
+    });
+
+    describe('tree mode', () => {
+        interface Service {
+            name: string;
+            cpu: number;
+            children?: Service[];
+        }
+        const services: Service[] = [
+            {
+                name: 'web',
+                cpu: 0,
+                children: [
+                    { name: 'nginx', cpu: 10 },
+                    { name: 'node', cpu: 30 },
+                ],
+            },
+            { name: 'db', cpu: 0, children: [{ name: 'postgres', cpu: 50 }] },
+        ];
+        const serviceColumns: TableColumn<Service>[] = [
+            { header: 'Name', accessor: 'name' },
+            { header: 'CPU', accessor: 'cpu', aggregate: 'sum' },
+        ];
+        const getChildren = (item: Service) => item.children;
+
+        it('expands and collapses groups with ←/→', async () => {
+            const { stdin, lastFrame } = render(
+                <Table
+                    data={services}
+                    columns={serviceColumns}
+                    getChildren={getChildren}
+                    interactive
+                    autoFocus
+                />,
+            );
+            await wait();
+            let lines = (lastFrame() ?? '').split('\n');
+            expect(lines[2]).toMatch(/^ ▸ web +40$/);
+            expect(lines[3]).toMatch(/^ ▸ db +50$/);
+
+            stdin.write('\u001b[C'); // Right: expand
+            await wait();
+            lines = (lastFrame() ?? '').split('\n');
+            expect(lines.slice(2).map((line) => line.trimEnd())).toEqual([
+                expect.stringMatching(/^ ▾ web +40$/),
+                expect.stringMatching(/^ ├─ nginx +10$/),
+                expect.stringMatching(/^ └─ node +30$/),
+                expect.stringMatching(/^ ▸ db +50$/),
+            ]);
+
+            stdin.write('\u001b[C'); // Right: first child
+            await wait();
+            stdin.write('\u001b[D'); // Left: back to the parent
+            await wait();
+            stdin.write('\u001b[D'); // Left: collapse
+            await wait();
+            lines = (lastFrame() ?? '').split('\n');
+            expect(lines[2]).toMatch(/^ ▸ web +40$/);
+            expect(lines).toHaveLength(4);
+        });
+
+        it('draws ASCII guides in the ascii variant', () => {
+            const { lastFrame } = render(
+                <Table
+                    data={services}
+                    columns={serviceColumns}
+                    getChildren={getChildren}
+                    defaultExpanded
+                    variant="ascii"
+                    interactive
+                />,
+            );
+            const lines = (lastFrame() ?? '').split('\n').map((line) => line.trimEnd());
+            expect(lines.slice(2)).toEqual([
+                expect.stringMatching(/^ v web +40$/),
+                expect.stringMatching(/^ \|- nginx +10$/),
+                expect.stringMatching(/^ `- node +30$/),
+                expect.stringMatching(/^ v db +50$/),
+                expect.stringMatching(/^ `- postgres +50$/),
+            ]);
+        });
+
+        it('draws guides in the first pinned column', () => {
+            const { lastFrame } = render(
+                <Table
+                    data={services}
+                    columns={[
+                        { header: 'CPU', accessor: 'cpu', aggregate: 'sum' },
+                        { header: 'Name', accessor: 'name', pinned: true },
+                    ]}
+                    getChildren={getChildren}
+                    defaultExpanded
+                    interactive
+                />,
+            );
+            const lines = (lastFrame() ?? '').split('\n').map((line) => line.trimEnd());
+            expect(lines[3]).toMatch(/^ 10 +├─ nginx$/);
+        });
+
+        it('counts every item in the status line', async () => {
+            const { stdin, lastFrame } = render(
+                <Table
+                    data={services}
+                    columns={serviceColumns}
+                    getChildren={getChildren}
+                    interactive
+                    autoFocus
+                />,
+            );
+            await wait();
+            stdin.write('/');
+            await wait();
+            stdin.write('n');
+            await wait();
+            // nginx, node and their group; postgres has no "n"
+            expect(lastFrame()).toContain('3/5 rows');
+        });
+
+        it('passes the row path to onSelect', async () => {
+            const onSelect = vi.fn();
+            const { stdin } = render(
+                <Table
+                    data={services}
+                    columns={serviceColumns}
+                    getChildren={getChildren}
+                    defaultExpanded
+                    interactive
+                    autoFocus
+                    onSelect={onSelect}
+                />,
+            );
+            await wait();
+            stdin.write('\u001b[B'); // Down: nginx
+            await wait();
+            stdin.write('\r');
+            await wait();
+            expect(onSelect).toHaveBeenCalledWith(services[0]?.children?.[0], 0, '0/0');
+        });
+    });
 });
@@ -99,5 +99,24 @@ describe('Axis', () => {
             const output = stripAnsi(lastFrame() ?? '');
             expect(output.trim()).toBe('');
         });
+
+        it('should place log ticks on their rows', () => {
+            const { lastFrame } = render(
+                <Axis type="y" min={1} max={1000} length={7} scale="log" />,
+            );
+            const lines = stripAnsi(lastFrame() ?? '')
+                .split('\n')
+                .map((l) => l.trim());
+            expect(lines).toEqual(['1k', '', '100', '', '10', '', '1']);
+        });
+
+        it('should format fractional log ticks', () => {
+            const { lastFrame } = render(
+                <Axis type="y" min={0.01} max={1} length={5} scale="log" />,
+            );
+            const output = stripAnsi(lastFrame() ?? '');
+            expect(output).toContain('0.01');
+            expect(output).toContain('0.1');
+        });
     });
 });
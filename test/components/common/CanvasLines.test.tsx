@@ -0,0 +1,84 @@
+import { EventEmitter } from 'node:events';
+import { Box, Text, render as inkRender } from 'ink';
+import { render } from 'ink-testing-library';
+import { describe, expect, it } from 'vitest';
+import { CanvasLines } from '../../../src/components/common/CanvasLines';
+import type { RenderedLine } from '../../../src/core/types';
+
+const image = { sequence: '<image>', clear: '<clear>' };
+
+const lines: RenderedLine[] = [[{ text: '   ', image }], [{ text: '   ' }]];
+
+function createTtyStdout() {
+    const writes: string[] = [];
+    const stdout = Object.assign(new EventEmitter(), {
+        isTTY: true,
+        columns: 80,
+        rows: 24,
+        write: (data: string) => {
+            writes.push(data);
+            return true;
+        },
+    });
+    return { stdout: stdout as unknown as NodeJS.WriteStream, writes };
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('CanvasLines', () => {
+    it('should render text lines without the image sequence', () => {
+        const { lastFrame } = render(<CanvasLines lines={[[{ text: 'ab' }, { text: 'c' }]]} />);
+
+        expect(lastFrame()).toBe('abc');
+    });
+
+    it('should keep sextant lines aligned with the content after them', () => {
+        const sextantLines: RenderedLine[] = [
+            [{ text: '🬀a' }, { text: '🬁' }],
+            [{ text: 'ab🬂' }],
+            [{ text: 'abc' }],
+        ];
+        const { lastFrame } = render(
+            <Box>
+                <CanvasLines lines={sextantLines} />
+                <Box flexDirection="column" marginLeft={1}>
+                    <Text>1</Text>
+                    <Text>2</Text>
+                    <Text>3</Text>
+                </Box>
+            </Box>,
+        );
+
+        expect(lastFrame()).toBe('🬀a🬁 1\nab🬂 2\nabc 3');
+    });
+
+    it('should keep images out of the text output', () => {
+        const { lastFrame } = render(<CanvasLines lines={lines} />);
+
+        expect(lastFrame()).not.toContain('<image>');
+    });
+
+    it('should write the image at the canvas position and clear it on unmount', async () => {
+        const { stdout, writes } = createTtyStdout();
+        const instance = inkRender(
+            <Box flexDirection="column">
+                <Text>title</Text>
+                <Box>
+                    <Text>ab</Text>
+                    <CanvasLines lines={lines} />
+                </Box>
+            </Box>,
+            { stdout, patchConsole: false, exitOnCtrlC: false },
+        );
+
+        await wait(80);
+        // Output is 3 lines high, the canvas starts on line 1 at column 2
+        expect(writes).toContain('\u001b7\u001b[2A\u001b[3G<image>\u001b8');
+
+        instance.unmount();
+        await wait(10);
+        expect(writes).toContain('<clear>');
+    });
+});
@@ -86,4 +86,19 @@ describe('Legend', () => {
         const output = stripAnsi(lastFrame() ?? '');
         expect(output).toContain('●');
     });
+
+    it('should mark the Y-axis of each item when given', () => {
+        const { lastFrame } = render(
+            <Legend
+                items={[
+                    { name: 'Requests', color: 'cyan', axis: 'left' },
+                    { name: 'Errors', color: 'red', axis: 'right' },
+                ]}
+                position="vertical"
+            />,
+        );
+        const output = stripAnsi(lastFrame() ?? '');
+        expect(output).toContain('Requests (L)');
+        expect(output).toContain('Errors (R)');
+    });
 });
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createLinearOverlayScales,
+    includeThresholds,
+    layoutSideLabels,
+    measureOverlayLabels,
+    resolveOverlayLabels,
+} from '../../../src/components/common/chartOverlays';
+
+describe('includeThresholds', () => {
+    it('should widen the extent to every threshold', () => {
+        expect(includeThresholds(10, 50, [{ value: 250 }, { value: -5 }])).toEqual({
+            min: -5,
+            max: 250,
+        });
+        expect(includeThresholds(10, 50, undefined)).toEqual({ min: 10, max: 50 });
+    });
+});
+
+describe('measureOverlayLabels', () => {
+    const overlays = {
+        thresholds: [{ value: 1, label: 'SLO' }],
+        bands: [{ from: 0, to: 1, label: 'warning' }],
+        annotations: [{ x: 2, label: 'deploy' }],
+    };
+
+    it('should size the side column for value labels and add a bottom row for annotations', () => {
+        expect(measureOverlayLabels(overlays)).toEqual({ sideWidth: 8, bottomHeight: 1 });
+    });
+
+    it('should swap edges for horizontal bars', () => {
+        expect(measureOverlayLabels(overlays, 'horizontal')).toEqual({
+            sideWidth: 7,
+            bottomHeight: 1,
+        });
+    });
+
+    it('should reserve nothing without labels', () => {
+        expect(measureOverlayLabels({ thresholds: [{ value: 1 }] })).toEqual({
+            sideWidth: 0,
+            bottomHeight: 0,
+        });
+    });
+});
+
+describe('resolveOverlayLabels', () => {
+    it('should place labels on the character row or column of their overlay', () => {
+        const scales = createLinearOverlayScales({
+            min: 0,
+            max: 100,
+            xMin: 0,
+            xMax: 10,
+            pixelWidth: 21,
+            pixelHeight: 41,
+        });
+        const labels = resolveOverlayLabels({
+            overlays: {
+                thresholds: [{ value: 100, label: 'max' }],
+                bands: [{ from: 0, to: 50, label: 'low', color: 'green' }],
+                annotations: [
+                    { x: 5, label: 'deploy' },
+                    { x: 20, label: 'hidden' },
+                ],
+            },
+            scales,
+            resolution: { horizontal: 2, vertical: 4 },
+            pixelWidth: 21,
+            pixelHeight: 41,
+        });
+
+        expect(labels.side).toEqual([
+            { text: 'max', color: 'red', offset: 0 },
+            { text: 'low', color: 'green', offset: 7 },
+        ]);
+        expect(labels.bottom).toEqual([{ text: 'deploy', color: 'magenta', offset: 5 }]);
+    });
+});
+
+describe('layoutSideLabels', () => {
+    it('should move colliding labels to the nearest free row', () => {
+        const rows = layoutSideLabels(
+            [
+                { text: 'a', color: 'red', offset: 2 },
+                { text: 'b', color: 'red', offset: 2 },
+                { text: 'c', color: 'red', offset: 3 },
+            ],
+            4,
+        );
+        expect(rows.map((label) => label?.text)).toEqual([undefined, 'c', 'a', 'b']);
+    });
+});
@@ -1,11 +1,25 @@
 import { describe, expect, it } from 'vitest';
 import {
+    MONO_PATTERNS,
+    applyMonoPatterns,
+    clampViewport,
+    computeAxisExtents,
     computeBaselineY,
+    computePointExtent,
     computeSeriesExtent,
+    computeStack,
     defaultTickFormat,
     getYAxisLabelWidth,
+    logTickFormat,
+    normalizeSeries,
+    panViewport,
+    percentTickFormat,
+    resolvePointX,
     resolveSeriesColors,
     resolveSeriesInput,
+    resolveValueDomain,
+    sliceSeries,
+    zoomViewport,
 } from '../../../src/components/common/chartUtils';
 
 describe('resolveSeriesColors', () => {
@@ -80,6 +94,78 @@ describe('resolveSeriesInput', () => {
     });
 });
 
+describe('normalizeSeries', () => {
+    it('should return plain value series unchanged', () => {
+        const series = { name: 'A', data: [1, 2, 3] };
+        expect(normalizeSeries(series)).toBe(series);
+    });
+
+    it('should split {x, y} points into X and Y arrays', () => {
+        const result = normalizeSeries({
+            name: 'A',
+            data: [
+                { x: 0, y: 5 },
+                { x: 10, y: 7 },
+            ],
+            color: 'red',
+        });
+        expect(result).toEqual({ name: 'A', data: [5, 7], x: [0, 10], color: 'red' });
+    });
+
+    it('should convert Date X values to epoch milliseconds and flag time data', () => {
+        const result = normalizeSeries({
+            name: 'A',
+            data: [{ x: new Date(1000), y: 1 }],
+        });
+        expect(result.x).toEqual([1000]);
+        expect(result.timeX).toBe(true);
+    });
+
+    it('should keep the Y-axis assignment of a series', () => {
+        const result = normalizeSeries({ name: 'A', data: [{ x: 0, y: 1 }], axis: 'right' });
+        expect(result.axis).toBe('right');
+    });
+});
+
+describe('computeAxisExtents', () => {
+    it('should split extents between the left and right axes', () => {
+        const result = computeAxisExtents([
+            { name: 'A', data: [1, 5] },
+            { name: 'B', data: [0.2, 0.8], axis: 'right' },
+        ]);
+        expect(result.left).toEqual({ min: 1, max: 5 });
+        expect(result.right).toEqual({ min: 0.2, max: 0.8 });
+    });
+
+    it('should return no right extent when every series uses the left axis', () => {
+        const result = computeAxisExtents([{ name: 'A', data: [1, 5] }]);
+        expect(result.right).toBeNull();
+    });
+
+    it('should mirror the right extent on the left when every series uses the right axis', () => {
+        const result = computeAxisExtents([{ name: 'A', data: [1, 5], axis: 'right' }]);
+        expect(result.left).toEqual({ min: 1, max: 5 });
+        expect(result.right).toEqual({ min: 1, max: 5 });
+    });
+});
+
+describe('resolvePointX', () => {
+    it('should spread index-based points across the width', () => {
+        const series = { name: 'A', data: [1, 2, 3] };
+        const params = { series, xMin: 0, xMax: 2, pixelWidth: 11, length: 3 };
+        expect(resolvePointX({ ...params, index: 0 })).toBe(0);
+        expect(resolvePointX({ ...params, index: 1 })).toBe(5);
+        expect(resolvePointX({ ...params, index: 2 })).toBe(10);
+    });
+
+    it('should place points by real X value when provided', () => {
+        const series = { name: 'A', data: [1, 2, 3], x: [0, 1, 10] };
+        const params = { series, xMin: 0, xMax: 10, pixelWidth: 11, length: 3 };
+        expect(resolvePointX({ ...params, index: 1 })).toBe(1);
+        expect(resolvePointX({ ...params, index: 2 })).toBe(10);
+    });
+});
+
 describe('computeSeriesExtent', () => {
     it('should handle normal multi-series data', () => {
         const series = [
@@ -123,6 +209,30 @@ describe('computeSeriesExtent', () => {
         expect(result.maxLength).toBe(1);
     });
 
+    it('should ignore gaps when computing the Y extent', () => {
+        const result = computeSeriesExtent([
+            { name: 'A', data: [null, 4, Number.NaN, 2, undefined] },
+        ]);
+        expect(result.min).toBe(2);
+        expect(result.max).toBe(4);
+        expect(result.maxLength).toBe(5);
+    });
+
+    it('should use index-based X extent without X values', () => {
+        const result = computeSeriesExtent([{ name: 'A', data: [1, 2, 3, 4] }]);
+        expect(result.xMin).toBe(0);
+        expect(result.xMax).toBe(3);
+    });
+
+    it('should compute X extent from X values', () => {
+        const result = computeSeriesExtent([
+            { name: 'A', data: [1, 2], x: [100, 300] },
+            { name: 'B', data: [3], x: [50] },
+        ]);
+        expect(result.xMin).toBe(50);
+        expect(result.xMax).toBe(300);
+    });
+
     it('should handle series containing empty data', () => {
         const series = [{ name: 'A', data: [] }];
         const result = computeSeriesExtent(series);
@@ -132,6 +242,33 @@ describe('computeSeriesExtent', () => {
     });
 });
 
+describe('computePointExtent', () => {
+    it('should compute X and Y extent across all point sets', () => {
+        const result = computePointExtent([
+            [
+                { x: 1, y: 10 },
+                { x: 5, y: -2 },
+            ],
+            [{ x: -3, y: 4 }],
+        ]);
+        expect(result).toEqual({ xMin: -3, xMax: 5, yMin: -2, yMax: 10 });
+    });
+
+    it('should ignore non-finite points', () => {
+        const result = computePointExtent([
+            [
+                { x: Number.NaN, y: 100 },
+                { x: 2, y: 3 },
+            ],
+        ]);
+        expect(result).toEqual({ xMin: 2, xMax: 2, yMin: 3, yMax: 3 });
+    });
+
+    it('should return zero extent when there are no points', () => {
+        expect(computePointExtent([])).toEqual({ xMin: 0, xMax: 0, yMin: 0, yMax: 0 });
+    });
+});
+
 describe('defaultTickFormat', () => {
     it('should display integer for values less than 1000', () => {
         expect(defaultTickFormat(0)).toBe('0');
@@ -265,3 +402,124 @@ describe('computeBaselineY', () => {
         expect(result).toBe(99);
     });
 });
+
+describe('computeStack', () => {
+    const series = [
+        { name: 'A', data: [1, 2, 3] },
+        { name: 'B', data: [3, null, 1] },
+    ];
+
+    it('should stack layers cumulatively in series order', () => {
+        const { layers, min, max } = computeStack(series, 'stacked');
+        expect(layers[0]).toEqual({ lower: [0, 0, 0], upper: [1, 2, 3] });
+        expect(layers[1]).toEqual({ lower: [1, null, 3], upper: [4, null, 4] });
+        expect(min).toBe(0);
+        expect(max).toBe(4);
+    });
+
+    it('should normalize each index to 100 in percent mode', () => {
+        const { layers, min, max } = computeStack(series, 'percent');
+        expect(layers[0]?.upper).toEqual([25, 100, 75]);
+        expect(layers[1]?.upper).toEqual([100, null, 100]);
+        expect(min).toBe(0);
+        expect(max).toBe(100);
+    });
+
+    it('should stack negative values downward from zero', () => {
+        const { layers, min, max } = computeStack(
+            [
+                { name: 'A', data: [-2] },
+                { name: 'B', data: [3] },
+                { name: 'C', data: [-1] },
+            ],
+            'stacked',
+        );
+        expect(layers[2]).toEqual({ lower: [-2], upper: [-3] });
+        expect(min).toBe(-3);
+        expect(max).toBe(3);
+    });
+});
+
+describe('percentTickFormat', () => {
+    it('should format values as rounded percentages', () => {
+        expect(percentTickFormat(33.3)).toBe('33%');
+    });
+});
+
+describe('viewport helpers', () => {
+    it('should clamp the viewport to the data', () => {
+        expect(clampViewport({ start: -5, end: 50 }, 10)).toEqual({ start: 0, end: 10 });
+        expect(clampViewport({ start: 12, end: 20 }, 10)).toEqual({ start: 9, end: 10 });
+        expect(clampViewport({ start: 0, end: 5 }, 0)).toEqual({ start: 0, end: 0 });
+    });
+
+    it('should zoom around the center and respect the minimum size', () => {
+        expect(zoomViewport({ start: 0, end: 100 }, 0.5, 100)).toEqual({ start: 25, end: 75 });
+        expect(zoomViewport({ start: 25, end: 75 }, 2, 100)).toEqual({ start: 0, end: 100 });
+        expect(zoomViewport({ start: 4, end: 6 }, 0.5, 10)).toEqual({ start: 4, end: 6 });
+    });
+
+    it('should pan without leaving the data', () => {
+        expect(panViewport({ start: 10, end: 20 }, 5, 100)).toEqual({ start: 15, end: 25 });
+        expect(panViewport({ start: 10, end: 20 }, -50, 100)).toEqual({ start: 0, end: 10 });
+        expect(panViewport({ start: 80, end: 90 }, 50, 100)).toEqual({ start: 90, end: 100 });
+    });
+
+    it('should slice data and X values together', () => {
+        const [sliced] = sliceSeries([{ name: 'A', data: [1, 2, 3, 4], x: [10, 20, 30, 40] }], {
+            start: 1,
+            end: 3,
+        });
+        expect(sliced?.data).toEqual([2, 3]);
+        expect(sliced?.x).toEqual([20, 30]);
+    });
+});
+
+describe('resolveValueDomain', () => {
+    const series = [{ name: 'A', data: [0, 4, null, 250] }];
+
+    it('should keep the extent for linear and symlog scales', () => {
+        expect(resolveValueDomain(0, 250, 'linear', series)).toEqual({ min: 0, max: 250 });
+        expect(resolveValueDomain(-5, 250, 'symlog', series)).toEqual({ min: -5, max: 250 });
+    });
+
+    it('should snap log domains to decades from the smallest positive value', () => {
+        expect(resolveValueDomain(0, 250, 'log', series)).toEqual({ min: 1, max: 1000 });
+    });
+});
+
+describe('logTickFormat', () => {
+    it('should keep fractions and abbreviate large values', () => {
+        expect(logTickFormat(0.01)).toBe('0.01');
+        expect(logTickFormat(1000)).toBe('1k');
+        expect(logTickFormat(-0.5)).toBe('-0.5');
+    });
+});
+
+describe('applyMonoPatterns', () => {
+    const canvas = (color: string) =>
+        Array.from({ length: 4 }, () => Array.from({ length: 4 }, () => ({ active: true, color })));
+    const count = (pixels: Array<Array<{ active: boolean }>>) =>
+        pixels.flat().filter((pixel) => pixel.active).length;
+
+    it('should thin out each series after the first by its pattern', () => {
+        const colors = ['red', 'green', 'blue', 'cyan'];
+        const counts = colors.map((color) => {
+            const pixels = canvas(color);
+            applyMonoPatterns(pixels, colors);
+            return count(pixels);
+        });
+        expect(counts).toEqual([16, 12, 8, 4]);
+    });
+
+    it('should keep pixels of other colors solid', () => {
+        const pixels = canvas('white');
+        applyMonoPatterns(pixels, ['red', 'green']);
+        expect(count(pixels)).toBe(16);
+    });
+
+    it('should give each pattern its own legend symbol', () => {
+        const symbols = MONO_PATTERNS.map((pattern) => pattern.symbol);
+        expect(new Set(symbols).size).toBe(symbols.length);
+    });
+});
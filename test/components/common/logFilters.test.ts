@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+    matchesLogFilters,
+    meetsLevel,
+    nextMinLevel,
+    splitHighlights,
+} from '../../../src/components/common/logFilters';
+import { parseLogLine } from '../../../src/components/common/logParsers';
+
+describe('meetsLevel', () => {
+    it('should compare by severity', () => {
+        expect(meetsLevel('error', 'warn')).toBe(true);
+        expect(meetsLevel('info', 'warn')).toBe(false);
+        expect(meetsLevel('unknown', 'info')).toBe(true);
+        expect(meetsLevel('debug', 'info')).toBe(false);
+        expect(meetsLevel('debug', undefined)).toBe(true);
+    });
+
+    it('should cycle thresholds back to all lines', () => {
+        expect(nextMinLevel(undefined)).toBe('info');
+        expect(nextMinLevel('warn')).toBe('error');
+        expect(nextMinLevel('error')).toBeUndefined();
+    });
+});
+
+describe('matchesLogFilters', () => {
+    const line = parseLogLine('[WARN] GET /health took 900ms');
+
+    it('should apply include and exclude patterns to the raw line', () => {
+        expect(matchesLogFilters(line, { include: /GET/ })).toBe(true);
+        expect(matchesLogFilters(line, { include: [/POST/, /PUT/] })).toBe(false);
+        expect(matchesLogFilters(line, { exclude: /health/ })).toBe(false);
+        expect(matchesLogFilters(line, { minLevel: 'error' })).toBe(false);
+    });
+
+    it('should not carry state between calls with global patterns', () => {
+        const include = /GET/g;
+        expect(matchesLogFilters(line, { include })).toBe(true);
+        expect(matchesLogFilters(line, { include })).toBe(true);
+    });
+});
+
+describe('splitHighlights', () => {
+    it('should split text around matches of every rule', () => {
+        const segments = splitHighlights('req=ab12 from 10.0.0.1 and 10.0.0.2', [
+            { pattern: /\d+\.\d+\.\d+\.\d+/, color: 'info' },
+            { pattern: /req=\w+/, color: 'warning' },
+        ]);
+        expect(segments.map((s) => [s.text, s.rule?.color])).toEqual([
+            ['req=ab12', 'warning'],
+            [' from ', undefined],
+            ['10.0.0.1', 'info'],
+            [' and ', undefined],
+            ['10.0.0.2', 'info'],
+        ]);
+    });
+
+    it('should let the earliest match win where rules overlap', () => {
+        const segments = splitHighlights('abcdef', [
+            { pattern: /cde/, color: 'info' },
+            { pattern: /bcd/, color: 'error' },
+        ]);
+        expect(segments.map((s) => s.text)).toEqual(['a', 'bcd', 'ef']);
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+    LOG_PARSERS,
+    normalizeLevel,
+    parseLogLine,
+} from '../../../src/components/common/logParsers';
+
+describe('normalizeLevel', () => {
+    it('should map names and pino numbers', () => {
+        expect(normalizeLevel('WARNING')).toBe('warn');
+        expect(normalizeLevel('fatal')).toBe('error');
+        expect(normalizeLevel('trace')).toBe('debug');
+        expect(normalizeLevel(30)).toBe('info');
+        expect(normalizeLevel(50)).toBe('error');
+        expect(normalizeLevel('nope')).toBe('unknown');
+    });
+});
+
+describe('parseLogLine', () => {
+    it('should only read a level tag at the start of plain lines', () => {
+        expect(parseLogLine('[12:00:01] [ERROR] Disk full')).toMatchObject({
+            timestamp: '12:00:01',
+            level: 'error',
+            message: 'Disk full',
+        });
+        expect(parseLogLine('WARN: slow query')).toMatchObject({
+            level: 'warn',
+            message: 'slow query',
+        });
+        // Level words inside the message are not levels
+        expect(parseLogLine('Retried after error in worker')).toMatchObject({
+            level: 'unknown',
+            message: 'Retried after error in worker',
+        });
+    });
+
+    it('should parse JSON lines into message, level and fields', () => {
+        const parsed = parseLogLine(
+            '{"time":"2024-05-01T12:34:56Z","level":"warn","msg":"slow request","ms":812,"path":"/api"}',
+            'json',
+        );
+        expect(parsed).toMatchObject({
+            timestamp: '12:34:56',
+            level: 'warn',
+            message: 'slow request',
+        });
+        expect(parsed.fields).toEqual([
+            ['ms', '812'],
+            ['path', '/api'],
+        ]);
+    });
+
+    it('should read the level from a configurable field', () => {
+        const parsed = parseLogLine('{"severity":"error","msg":"boom"}', 'json', 'severity');
+        expect(parsed.level).toBe('error');
+        expect(parsed.fields).toEqual([]);
+    });
+
+    it('should parse logfmt with quoted values', () => {
+        const parsed = parseLogLine(
+            'level=info msg="user logged in" user=alice dur=12ms',
+            'logfmt',
+        );
+        expect(parsed).toMatchObject({ level: 'info', message: 'user logged in' });
+        expect(parsed.fields).toEqual([
+            ['user', 'alice'],
+            ['dur', '12ms'],
+        ]);
+    });
+
+    it('should keep words outside logfmt pairs in the message', () => {
+        const parsed = parseLogLine('level=warn retrying host=db1 attempt=3', 'logfmt');
+        expect(parsed).toMatchObject({ level: 'warn', message: 'retrying' });
+        expect(parsed.fields).toEqual([
+            ['host', 'db1'],
+            ['attempt', '3'],
+        ]);
+    });
+
+    it('should leave plain text with a few pairs to the plain parser', () => {
+        expect(parseLogLine('INFO Started server with port=8080', 'auto')).toMatchObject({
+            level: 'info',
+            message: 'Started server with port=8080',
+            fields: [],
+        });
+    });
+
+    it('should parse syslog lines', () => {
+        expect(
+            parseLogLine(
+                '<11>Oct 11 22:14:15 web01 sshd[4321]: Failed password for root',
+                'syslog',
+            ),
+        ).toMatchObject({
+            timestamp: '22:14:15',
+            level: 'error',
+            message: 'Failed password for root',
+            fields: [
+                ['host', 'web01'],
+                ['app', 'sshd'],
+                ['pid', '4321'],
+            ],
+        });
+        expect(
+            parseLogLine('<165>1 2003-10-11T22:14:15.003Z host app - ID47 - Started', 'syslog'),
+        ).toMatchObject({ level: 'info', message: 'Started' });
+    });
+
+    it('should parse nginx access and error logs', () => {
+        const access = parseLogLine(
+            '10.0.0.1 - - [10/Oct/2024:13:55:36 +0000] "GET /index.html HTTP/1.1" 503 612 "-" "curl/8.0"',
+            'nginx',
+        );
+        expect(access).toMatchObject({
+            timestamp: '13:55:36',
+            level: 'error',
+            message: 'GET /index.html HTTP/1.1',
+        });
+        expect(access.fields).toContainEqual(['status', '503']);
+
+        expect(
+            parseLogLine('2024/10/10 13:55:36 [warn] 12#0: upstream response buffered', 'nginx'),
+        ).toMatchObject({ level: 'warn', message: 'upstream response buffered' });
+    });
+
+    it('should fall back to plain text and accept custom parsers', () => {
+        expect(parseLogLine('[INFO] not json', 'json')).toMatchObject({
+            level: 'info',
+            message: 'not json',
+        });
+        expect(LOG_PARSERS.auto('a=1 b=2')?.fields).toEqual({ a: '1', b: '2' });
+        expect(LOG_PARSERS.auto('Started server with port=8080')).toBeNull();
+
+        const custom = (line: string) => {
+            const [level = '', message = ''] = line.split('|');
+            return { level, message, fields: { source: 'custom' } };
+        };
+        expect(parseLogLine('debug|hello', custom)).toMatchObject({
+            level: 'debug',
+            message: 'hello',
+            fields: [['source', 'custom']],
+        });
+    });
+});
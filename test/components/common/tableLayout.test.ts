@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { TableColumn } from '../../../src/components/Table';
+import {
+    type ColumnSpec,
+    fitColumns,
+    layoutColumns,
+    resolveColumnSpecs,
+    wrapHeader,
+} from '../../../src/components/common/tableLayout';
+
+const spec = (width: number, extra: Partial<ColumnSpec> = {}): ColumnSpec => ({
+    width,
+    min: 3,
+    max: Number.POSITIVE_INFINITY,
+    flex: undefined,
+    priority: undefined,
+    pinned: false,
+    ...extra,
+});
+
+describe('resolveColumnSpecs', () => {
+    it('should clamp content widths and keep fixed widths exact', () => {
+        const columns: TableColumn<{ a: string }>[] = [
+            { header: 'A', accessor: 'a', maxWidth: 10 },
+            { header: 'B', accessor: 'a', width: 6 },
+            { header: 'C', accessor: 'a', minWidth: 12 },
+        ];
+        const [a, b, c] = resolveColumnSpecs(columns, [20, 30, 5]);
+        expect(a).toMatchObject({ width: 10, min: 3, max: 10 });
+        expect(b).toMatchObject({ width: 6, min: 6, max: 6, flex: 0 });
+        expect(c).toMatchObject({ width: 12, min: 12 });
+    });
+});
+
+describe('fitColumns', () => {
+    it('should grow in proportion to content when no column sets flex', () => {
+        expect(fitColumns([spec(10), spec(30)], 80)).toEqual([20, 60]);
+    });
+
+    it('should give extra space to flex columns only, up to their max width', () => {
+        expect(fitColumns([spec(10), spec(10, { flex: 1 }), spec(10, { flex: 1 })], 50)).toEqual([
+            10, 20, 20,
+        ]);
+        expect(fitColumns([spec(10, { flex: 1, max: 12 }), spec(10, { flex: 1 })], 40)).toEqual([
+            12, 28,
+        ]);
+    });
+
+    it('should shrink toward minimum widths in proportion to their slack', () => {
+        expect(fitColumns([spec(20, { min: 15 }), spec(20, { min: 5 })], 30)).toEqual([18, 12]);
+    });
+});
+
+describe('layoutColumns', () => {
+    it('should keep natural widths without an available width', () => {
+        const layout = layoutColumns([spec(10), spec(20)], undefined);
+        expect(layout.columns).toEqual([
+            { index: 0, width: 10 },
+            { index: 1, width: 20 },
+        ]);
+    });
+
+    it('should hide the lowest priority columns first when minimums do not fit', () => {
+        const specs = [
+            spec(10, { min: 10 }),
+            spec(10, { min: 10, priority: 2 }),
+            spec(10, { min: 10, priority: 1 }),
+            spec(10, { min: 10 }),
+        ];
+        const layout = layoutColumns(specs, 30);
+        expect(layout.hidden).toEqual([2]);
+        expect(layout.columns.map((c) => c.index)).toEqual([0, 1, 3]);
+        expect(layout.scrollCount).toBe(0);
+    });
+
+    it('should scroll unpinned columns while pinned columns stay', () => {
+        const specs = [
+            spec(10, { min: 10, pinned: true }),
+            spec(10, { min: 10 }),
+            spec(10, { min: 10 }),
+            spec(10, { min: 10 }),
+        ];
+        const first = layoutColumns(specs, 30);
+        expect(first.columns.map((c) => c.index)).toEqual([0, 1, 2]);
+        expect(first).toMatchObject({ scrollCount: 3, scrollOffset: 0, scrollVisible: 2 });
+
+        const scrolled = layoutColumns(specs, 30, 5);
+        // Clamped so the last column is on screen without leaving space unused
+        expect(scrolled.columns.map((c) => c.index)).toEqual([0, 2, 3]);
+        expect(scrolled.scrollOffset).toBe(1);
+    });
+});
+
+describe('wrapHeader', () => {
+    it('should break at the last space that fits', () => {
+        expect(wrapHeader('Process Name', 8)).toEqual(['Process', 'Name']);
+        expect(wrapHeader('Short', 8)).toEqual(['Short']);
+    });
+
+    it('should hard-break long words and truncate the second line', () => {
+        expect(wrapHeader('Throughput', 6)).toEqual(['Throug', 'hput']);
+        expect(wrapHeader('Requests per second', 8)).toEqual(['Requests', 'per sec…']);
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { TableColumn } from '../../../src/components/Table';
+import {
+    aggregateValues,
+    flattenTree,
+    maxTreePrefixWidth,
+    treePrefix,
+} from '../../../src/components/common/tableTree';
+
+interface Node {
+    name: string;
+    cpu: number;
+    children?: Node[];
+}
+
+const tree: Node[] = [
+    {
+        name: 'web',
+        cpu: 0,
+        children: [
+            { name: 'nginx', cpu: 10 },
+            { name: 'node', cpu: 30 },
+        ],
+    },
+    {
+        name: 'db',
+        cpu: 0,
+        children: [{ name: 'postgres', cpu: 50 }],
+    },
+];
+
+const columns: TableColumn<Node>[] = [
+    { header: 'Name', accessor: 'name' },
+    { header: 'CPU', accessor: 'cpu', aggregate: 'sum' },
+];
+
+const getChildren = (node: Node) => node.children;
+
+const flatten = (options: { expanded?: string[]; query?: string; sort?: boolean } = {}) =>
+    flattenTree({
+        data: tree,
+        columns,
+        getChildren,
+        isExpanded: (key) => options.expanded?.includes(key) ?? false,
+        sortColumn: options.sort ? columns[1] : undefined,
+        sortDirection: 'desc',
+        query: options.query ?? '',
+    });
+
+describe('aggregateValues', () => {
+    it('should combine values', () => {
+        expect(aggregateValues([1, 2, 6], 'sum')).toBe(9);
+        expect(aggregateValues([1, 2, 6], 'avg')).toBe(3);
+        expect(aggregateValues([1, 2, 6], 'max')).toBe(6);
+        expect(aggregateValues([1, 2, 6], 'min')).toBe(1);
+        expect(aggregateValues([], 'sum')).toBeUndefined();
+    });
+
+    it('should handle groups larger than the argument limit', () => {
+        const values = Array.from({ length: 200_000 }, (_, i) => i);
+        expect(aggregateValues(values, 'max')).toBe(199_999);
+        expect(aggregateValues(values, 'min')).toBe(0);
+    });
+});
+
+describe('flattenTree', () => {
+    it('should show children of expanded groups only', () => {
+        expect(flatten().map((row) => row.item.name)).toEqual(['web', 'db']);
+        const rows = flatten({ expanded: ['0'] });
+        expect(rows.map((row) => `${row.key}:${row.item.name}`)).toEqual([
+            '0:web',
+            '0/0:nginx',
+            '0/1:node',
+            '1:db',
+        ]);
+        expect(rows[0]).toMatchObject({ depth: 0, hasChildren: true, expanded: true });
+        expect(rows[2]).toMatchObject({ depth: 1, isLast: true });
+    });
+
+    it('should aggregate leaf values on group rows', () => {
+        const [web, db] = flatten();
+        expect(web?.aggregates?.get(1)).toBe(40);
+        expect(db?.aggregates?.get(1)).toBe(50);
+        expect(web?.aggregates?.has(0)).toBe(false);
+    });
+
+    it('should sort groups by their aggregate and keep keys stable', () => {
+        const rows = flatten({ expanded: ['0'], sort: true });
+        expect(rows.map((row) => `${row.key}:${row.item.name}`)).toEqual([
+            '1:db',
+            '0:web',
+            '0/1:node',
+            '0/0:nginx',
+        ]);
+    });
+
+    it('should reveal search matches inside collapsed groups', () => {
+        expect(flatten({ query: 'post' }).map((row) => row.item.name)).toEqual(['db', 'postgres']);
+        // A matching group keeps its own expansion state
+        expect(flatten({ query: 'web' }).map((row) => row.item.name)).toEqual(['web']);
+    });
+});
+
+describe('treePrefix', () => {
+    it('should draw guides and expand markers', () => {
+        const nested: Node[] = [
+            {
+                name: 'a',
+                cpu: 0,
+                children: [
+                    { name: 'b', cpu: 0, children: [{ name: 'c', cpu: 1 }] },
+                    { name: 'd', cpu: 2 },
+                ],
+            },
+        ];
+        const rows = flattenTree({
+            data: nested,
+            columns,
+            getChildren,
+            isExpanded: () => true,
+            sortColumn: undefined,
+            sortDirection: 'asc',
+            query: '',
+        });
+        expect(rows.map((row) => treePrefix(row, 'unicode'))).toEqual([
+            '▾ ',
+            '├─ ▾ ',
+            '│  └─ ',
+            '└─ ',
+        ]);
+        expect(rows.map((row) => treePrefix(row, 'ascii'))).toEqual([
+            'v ',
+            '|- v ',
+            '|  `- ',
+            '`- ',
+        ]);
+        expect(maxTreePrefixWidth(nested, getChildren)).toBe(6);
+    });
+});
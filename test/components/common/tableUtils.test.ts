@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import type { TableColumn } from '../../../src/components/Table';
+import {
+    GAUGE_PERCENT_WIDTH,
+    GAUGE_WIDTH,
+    compareCellValues,
+    filterRows,
+    findMatch,
+    formatDelta,
+    getCellText,
+    getCellValue,
+    getRuleValue,
+    matchColorRule,
+    measureCellContent,
+    resolveColumnIndex,
+    scrollToRow,
+    sortRows,
+} from '../../../src/components/common/tableUtils';
+
+interface Row {
+    host: string;
+    cpu: number | null;
+}
+
+const host: TableColumn<Row> = { header: 'Host', accessor: 'host' };
+const cpu: TableColumn<Row> = { header: 'CPU', accessor: (row) => row.cpu };
+
+const rows: Row[] = [
+    { host: 'node10', cpu: 40 },
+    { host: 'node9', cpu: null },
+    { host: 'node2', cpu: 75 },
+];
+
+describe('getCellValue', () => {
+    it('should read keys and call accessor functions', () => {
+        expect(getCellValue(rows[0], host)).toBe('node10');
+        expect(getCellValue(rows[2], cpu)).toBe(75);
+    });
+});
+
+describe('getCellText', () => {
+    it('should return text for values and null for rendered elements', () => {
+        expect(getCellText(rows[0], cpu)).toBe('40');
+        expect(getCellText(rows[1], cpu)).toBe('');
+        expect(getCellText(rows[0], { header: 'X', accessor: () => ({}) })).toBeNull();
+    });
+});
+
+describe('compareCellValues', () => {
+    it('should compare numbers, dates and text', () => {
+        expect(compareCellValues(2, 10)).toBeLessThan(0);
+        expect(compareCellValues(new Date(2000), new Date(1000))).toBeGreaterThan(0);
+        expect(compareCellValues('node9', 'node10')).toBeLessThan(0);
+    });
+
+    it('should sort empty values last', () => {
+        expect(compareCellValues(null, 1)).toBeGreaterThan(0);
+        expect(compareCellValues('', 'a')).toBeGreaterThan(0);
+        expect(compareCellValues(undefined, null)).toBe(0);
+    });
+});
+
+describe('resolveColumnIndex', () => {
+    it('should match an index or a header title', () => {
+        expect(resolveColumnIndex([host, cpu], 1)).toBe(1);
+        expect(resolveColumnIndex([host, cpu], 'Host')).toBe(0);
+        expect(resolveColumnIndex([host, cpu], 'Memory')).toBe(-1);
+        expect(resolveColumnIndex([host, cpu], 5)).toBe(-1);
+        expect(resolveColumnIndex([host, cpu], undefined)).toBe(-1);
+    });
+});
+
+describe('sortRows', () => {
+    it('should keep data order without a column', () => {
+        expect(sortRows(rows, undefined, 'asc').map((r) => r.index)).toEqual([0, 1, 2]);
+    });
+
+    it('should sort by accessor value and keep empty values last', () => {
+        expect(sortRows(rows, cpu, 'asc').map((r) => r.item.host)).toEqual([
+            'node10',
+            'node2',
+            'node9',
+        ]);
+        expect(sortRows(rows, cpu, 'desc').map((r) => r.item.host)).toEqual([
+            'node2',
+            'node10',
+            'node9',
+        ]);
+    });
+
+    it('should prefer the column compare function', () => {
+        const byLength: TableColumn<Row> = {
+            ...host,
+            compare: (a, b) => a.host.length - b.host.length,
+        };
+        // Equal lengths keep their data order
+        expect(sortRows(rows, byLength, 'asc').map((r) => r.item.host)).toEqual([
+            'node9',
+            'node2',
+            'node10',
+        ]);
+    });
+});
+
+describe('scrollToRow', () => {
+    it('should move the window only when the cursor leaves it', () => {
+        expect(scrollToRow(0, 3, 5, 20)).toBe(0);
+        expect(scrollToRow(0, 7, 5, 20)).toBe(3);
+        expect(scrollToRow(10, 4, 5, 20)).toBe(4);
+    });
+
+    it('should not scroll past the last row', () => {
+        expect(scrollToRow(18, 19, 5, 20)).toBe(15);
+        expect(scrollToRow(3, 0, 5, 2)).toBe(0);
+    });
+});
+
+describe('findMatch', () => {
+    it('should find a case-insensitive match', () => {
+        expect(findMatch('Node10', 'de1')).toEqual({ start: 2, end: 5 });
+        expect(findMatch('Node10', 'x')).toBeNull();
+        expect(findMatch('Node10', '')).toBeNull();
+    });
+});
+
+describe('filterRows', () => {
+    const all = rows.map((item, index) => ({ item, index }));
+
+    it('should match the query in searchable columns only', () => {
+        expect(filterRows(all, [host, cpu], '75').map((r) => r.index)).toEqual([2]);
+        expect(
+            filterRows(all, [host, { ...cpu, searchable: false }], '75').map((r) => r.index),
+        ).toEqual([]);
+    });
+
+    it('should apply every column filter', () => {
+        const busy = { ...cpu, filter: (row: Row) => (row.cpu ?? 0) > 50 };
+        expect(filterRows(all, [host, busy], '').map((r) => r.index)).toEqual([2]);
+        expect(filterRows(all, [host, busy], 'node1').map((r) => r.index)).toEqual([]);
+    });
+});
+
+describe('formatDelta', () => {
+    it('should pick the trend arrow from the sign and format the magnitude', () => {
+        expect(formatDelta(12, undefined)).toEqual({ direction: 'up', text: '▲ 12' });
+        expect(formatDelta(-3.5, (v) => `${v}%`)).toEqual({ direction: 'down', text: '▼ 3.5%' });
+        expect(formatDelta(0, undefined)).toEqual({ direction: 'neutral', text: '─ 0' });
+    });
+});
+
+describe('column types', () => {
+    const series = { host: 'a', cpu: 40, history: [1, null, 3] };
+    type Series = typeof series;
+
+    it('should only expose text for text and delta cells', () => {
+        const delta: TableColumn<Series> = { header: 'D', accessor: 'cpu', type: 'delta' };
+        const gauge: TableColumn<Series> = { header: 'G', accessor: 'cpu', type: 'gauge' };
+        const formatted: TableColumn<Series> = {
+            header: 'F',
+            accessor: 'cpu',
+            format: (v) => `${v}%`,
+        };
+        expect(getCellText(series, delta)).toBe('▲ 40');
+        expect(getCellText(series, gauge)).toBeNull();
+        expect(getCellText(series, formatted)).toBe('40%');
+    });
+
+    it('should measure chart columns by their default widths', () => {
+        const gauge: TableColumn<Series> = { header: 'G', accessor: 'cpu', type: 'gauge' };
+        const spark: TableColumn<Series> = {
+            header: 'S',
+            accessor: 'history',
+            type: 'sparkline',
+        };
+        expect(measureCellContent(series, gauge)).toBe(GAUGE_WIDTH + GAUGE_PERCENT_WIDTH);
+        expect(measureCellContent(series, spark)).toBe(3);
+    });
+
+    it('should check color rules against numbers and the latest sparkline sample', () => {
+        const spark: TableColumn<Series> = {
+            header: 'S',
+            accessor: 'history',
+            type: 'sparkline',
+        };
+        expect(getRuleValue(series, spark)).toBe(3);
+        expect(getRuleValue(series, { header: 'H', accessor: 'host' })).toBeUndefined();
+    });
+});
+
+describe('matchColorRule', () => {
+    const rules = [
+        { min: 90, color: 'error' as const },
+        { min: 70, max: 90, color: 'warning' as const },
+        { max: 70, color: 'success' as const },
+    ];
+
+    it('should return the first rule whose range contains the value', () => {
+        expect(matchColorRule(95, rules)).toBe('error');
+        expect(matchColorRule(90, rules)).toBe('error');
+        expect(matchColorRule(70, rules)).toBe('warning');
+        expect(matchColorRule(12, rules)).toBe('success');
+        expect(matchColorRule(12, undefined)).toBeUndefined();
+    });
+});
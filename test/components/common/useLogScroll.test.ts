@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { lineShift } from '../../../src/components/common/useLogScroll';
+
+describe('lineShift', () => {
+    it('should be 0 when lines are only appended', () => {
+        expect(lineShift(['a', 'b'], ['a', 'b', 'c'])).toBe(0);
+        expect(lineShift([], ['a'])).toBe(0);
+    });
+
+    it('should count lines trimmed from the front', () => {
+        expect(lineShift(['a', 'b', 'c'], ['c', 'd', 'e'])).toBe(2);
+        expect(lineShift(['a', 'b', 'c'], ['b', 'c', 'd'])).toBe(1);
+    });
+
+    it('should treat a replaced buffer as all new lines', () => {
+        expect(lineShift(['a', 'b'], ['x', 'y'])).toBe(2);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { KittyRenderer } from '../../src/core/kitty';
+
+describe('KittyRenderer', () => {
+    describe('getMetadata', () => {
+        it('should return correct renderer metadata', () => {
+            const renderer = new KittyRenderer();
+            const metadata = renderer.getMetadata();
+
+            expect(metadata.name).toBe('kitty');
+            expect(metadata.resolution).toEqual({ horizontal: 8, vertical: 16 });
+            expect(metadata.requiresUtf8).toBe(false);
+            expect(metadata.requiresUnicode).toBe(false);
+        });
+
+        it('should use custom cell size as resolution', () => {
+            const renderer = new KittyRenderer({ cellSize: { horizontal: 4, vertical: 8 } });
+
+            expect(renderer.getResolution()).toEqual({ horizontal: 4, vertical: 8 });
+        });
+    });
+
+    describe('renderCanvas', () => {
+        it('should emit blank lines with the image attached to the first segment', () => {
+            const renderer = new KittyRenderer({ cellSize: { horizontal: 2, vertical: 2 } });
+            const canvas = renderer.createCanvas(6, 4);
+            renderer.setPixel(canvas, 0, 0, { active: true, color: '#ff0000' });
+
+            const lines = renderer.renderCanvas(canvas, 6, 4);
+            const image = lines[0]?.[0]?.image;
+
+            expect(lines).toHaveLength(2);
+            expect(lines[0]?.[0]?.text).toBe('   ');
+            expect(image?.sequence.startsWith('\x1b_G')).toBe(true);
+            expect(image?.sequence).toContain('s=6,v=4,c=3,r=2');
+            expect(lines[1]).toEqual([{ text: '   ' }]);
+        });
+
+        it('should reuse one image id per renderer and delete it on clear', () => {
+            const renderer = new KittyRenderer();
+            const other = new KittyRenderer();
+            const canvas = renderer.createCanvas(8, 16);
+
+            const first = renderer.renderCanvas(canvas, 8, 16)[0]?.[0]?.image;
+            const second = renderer.renderCanvas(canvas, 8, 16)[0]?.[0]?.image;
+            const id = first?.sequence.match(/i=(\d+),p=1/)?.[1];
+
+            expect(id).toBeDefined();
+            expect(second?.sequence).toContain(`i=${id},p=1`);
+            expect(first?.clear).toBe(`\x1b_Ga=d,d=I,i=${id},q=2\x1b\\`);
+            expect(other.renderCanvas(canvas, 8, 16)[0]?.[0]?.image?.sequence).not.toContain(
+                `i=${id},`,
+            );
+        });
+
+        it('should encode pixels as RGBA with transparent background', () => {
+            const renderer = new KittyRenderer({ cellSize: { horizontal: 2, vertical: 1 } });
+            const canvas = renderer.createCanvas(2, 1);
+            renderer.setPixel(canvas, 1, 0, { active: true, color: '#102030' });
+
+            const sequence = renderer.renderCanvas(canvas, 2, 1)[0]?.[0]?.image?.sequence ?? '';
+            const payload = sequence.slice(sequence.indexOf(';') + 1, -2);
+
+            expect([...Buffer.from(payload, 'base64')]).toEqual([0, 0, 0, 0, 16, 32, 48, 255]);
+        });
+
+        it('should split large payloads into chunks', () => {
+            const renderer = new KittyRenderer();
+            const canvas = renderer.createCanvas(64, 64);
+
+            const sequence = renderer.renderCanvas(canvas, 64, 64)[0]?.[0]?.image?.sequence ?? '';
+
+            expect(sequence).toContain('m=1;');
+            expect(sequence).toContain('\x1b_Gm=0;');
+        });
+
+        it('should return empty array for empty canvas', () => {
+            const renderer = new KittyRenderer();
+
+            expect(renderer.renderCanvas([], 0, 0)).toEqual([]);
+        });
+    });
+});
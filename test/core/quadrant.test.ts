@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { QuadrantRenderer } from '../../src/core/quadrant';
+
+describe('QuadrantRenderer', () => {
+    describe('getMetadata', () => {
+        it('should return correct renderer metadata', () => {
+            const metadata = new QuadrantRenderer().getMetadata();
+
+            expect(metadata.name).toBe('quadrant');
+            expect(metadata.resolution).toEqual({ horizontal: 2, vertical: 2 });
+            expect(metadata.requiresUtf8).toBe(true);
+            expect(metadata.requiresUnicode).toBe(true);
+        });
+    });
+
+    describe('renderCanvas', () => {
+        it('should draw each sub-cell pattern as its quadrant character', () => {
+            const renderer = new QuadrantRenderer();
+            const canvas = renderer.createCanvas(8, 2);
+            // Cells: top-left | diagonal | bottom row | full
+            renderer.setPixel(canvas, 0, 0);
+            renderer.setPixel(canvas, 2, 0);
+            renderer.setPixel(canvas, 3, 1);
+            renderer.setPixel(canvas, 4, 1);
+            renderer.setPixel(canvas, 5, 1);
+            renderer.drawRect(canvas, 6, 0, 2, 2, true);
+
+            const lines = renderer.renderCanvas(canvas, 8, 2);
+            expect(lines.map((line) => line.map((s) => s.text).join(''))).toEqual(['▘▚▄█']);
+        });
+
+        it('should render blank cells as spaces and round partial cells up', () => {
+            const renderer = new QuadrantRenderer();
+            const lines = renderer.renderCanvas(renderer.createCanvas(3, 3), 3, 3);
+
+            expect(lines).toHaveLength(2);
+            expect(lines[0]?.map((s) => s.text).join('')).toBe('  ');
+        });
+
+        it('should color each cell with the majority color of its pixels', () => {
+            const renderer = new QuadrantRenderer();
+            const canvas = renderer.createCanvas(4, 2);
+            renderer.setPixel(canvas, 0, 0, { active: true, color: 'red' });
+            renderer.setPixel(canvas, 1, 0, { active: true, color: 'blue' });
+            renderer.setPixel(canvas, 0, 1, { active: true, color: 'blue' });
+            renderer.setPixel(canvas, 2, 0, { active: true, color: 'green' });
+
+            const [line] = renderer.renderCanvas(canvas, 4, 2);
+            expect(line).toEqual([
+                { text: '▛', color: 'blue' },
+                { text: '▘', color: 'green' },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SextantRenderer } from '../../src/core/sextant';
+
+/**
+ * Render a single 2x3 cell with the given sub-cells (1-6, row by row) active
+ */
+function renderCell(...sextants: number[]): string {
+    const renderer = new SextantRenderer();
+    const canvas = renderer.createCanvas(2, 3);
+    for (const sextant of sextants) {
+        renderer.setPixel(canvas, (sextant - 1) % 2, Math.floor((sextant - 1) / 2));
+    }
+    return renderer
+        .renderCanvas(canvas, 2, 3)
+        .map((line) => line.map((s) => s.text).join(''))
+        .join('\n');
+}
+
+describe('SextantRenderer', () => {
+    describe('getMetadata', () => {
+        it('should return correct renderer metadata', () => {
+            const metadata = new SextantRenderer().getMetadata();
+
+            expect(metadata.name).toBe('sextant');
+            expect(metadata.resolution).toEqual({ horizontal: 2, vertical: 3 });
+            expect(metadata.requiresUtf8).toBe(true);
+        });
+    });
+
+    describe('renderCanvas', () => {
+        it('should map sub-cell patterns to sextant characters', () => {
+            expect(renderCell(1)).toBe('\u{1FB00}');
+            expect(renderCell(1, 2)).toBe('\u{1FB02}');
+            expect(renderCell(1, 3, 5, 6)).toBe('\u{1FB32}');
+            expect(renderCell(2, 3, 4, 5, 6)).toBe('\u{1FB3B}');
+        });
+
+        it('should use Block Elements for patterns without a sextant character', () => {
+            expect(renderCell()).toBe(' ');
+            expect(renderCell(1, 3, 5)).toBe('▌');
+            expect(renderCell(2, 4, 6)).toBe('▐');
+            expect(renderCell(1, 2, 3, 4, 5, 6)).toBe('█');
+        });
+
+        it('should merge cells of the same color into one segment', () => {
+            const renderer = new SextantRenderer();
+            const canvas = renderer.createCanvas(4, 3);
+            renderer.drawRect(canvas, 0, 0, 4, 3, true, { active: true, color: '#98c379' });
+
+            const lines = renderer.renderCanvas(canvas, 4, 3);
+            expect(lines).toEqual([[{ text: '██', color: '#98c379' }]]);
+        });
+    });
+});
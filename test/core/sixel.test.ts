@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { SixelRenderer } from '../../src/core/sixel';
+
+describe('SixelRenderer', () => {
+    describe('getMetadata', () => {
+        it('should return correct renderer metadata', () => {
+            const renderer = new SixelRenderer();
+            const metadata = renderer.getMetadata();
+
+            expect(metadata.name).toBe('sixel');
+            expect(metadata.resolution).toEqual({ horizontal: 8, vertical: 16 });
+            expect(metadata.requiresUtf8).toBe(false);
+        });
+    });
+
+    describe('renderCanvas', () => {
+        it('should wrap the image in a DCS sequence with raster attributes', () => {
+            const renderer = new SixelRenderer({ cellSize: { horizontal: 2, vertical: 6 } });
+            const canvas = renderer.createCanvas(4, 6);
+
+            const lines = renderer.renderCanvas(canvas, 4, 6);
+            const sequence = lines[0]?.[0]?.image?.sequence ?? '';
+
+            expect(lines).toEqual([[{ text: '  ', image: { sequence } }]]);
+            expect(sequence.startsWith('\x1bP0;1;0q"1;1;4;6')).toBe(true);
+            expect(sequence.endsWith('\x1b\\')).toBe(true);
+        });
+
+        it('should define one color register per distinct color', () => {
+            const renderer = new SixelRenderer({ cellSize: { horizontal: 2, vertical: 6 } });
+            const canvas = renderer.createCanvas(4, 6);
+            renderer.setPixel(canvas, 0, 0, { active: true, color: '#ff0000' });
+            renderer.setPixel(canvas, 1, 0, { active: true, color: '#ff0000' });
+            renderer.setPixel(canvas, 2, 0, { active: true, color: '#0000ff' });
+
+            const sequence = renderer.renderCanvas(canvas, 4, 6)[0]?.[0]?.image?.sequence ?? '';
+
+            expect(sequence).toContain('#0;2;100;0;0');
+            expect(sequence).toContain('#1;2;0;0;100');
+            expect(sequence).not.toContain('#2;2;');
+        });
+
+        it('should map colors beyond the last register to the nearest defined one', () => {
+            const renderer = new SixelRenderer({ cellSize: { horizontal: 1, vertical: 6 } });
+            const canvas = renderer.createCanvas(257, 6);
+            const hex = (value: number) => value.toString(16).padStart(2, '0');
+            for (let i = 0; i < 256; i++) {
+                const color = `#${hex((i % 16) * 17)}${hex(Math.floor(i / 16) * 17)}00`;
+                renderer.setPixel(canvas, i, 0, { active: true, color });
+            }
+            // Closest to register 15 (#ff0000)
+            renderer.setPixel(canvas, 256, 0, { active: true, color: '#ff0005' });
+
+            const sequence = renderer.renderCanvas(canvas, 257, 6)[0]?.[0]?.image?.sequence ?? '';
+
+            expect(sequence).toContain('#15;2;100;0;0');
+            expect(sequence).not.toContain('#256');
+            expect(sequence).toContain('#15!15?@!240?@');
+        });
+
+        it('should encode vertical pixels as sixel bits', () => {
+            const renderer = new SixelRenderer({ cellSize: { horizontal: 1, vertical: 6 } });
+            const canvas = renderer.createCanvas(1, 6);
+            renderer.setPixel(canvas, 0, 0, { active: true, color: 'white' });
+            renderer.setPixel(canvas, 0, 2, { active: true, color: 'white' });
+
+            const sequence = renderer.renderCanvas(canvas, 1, 6)[0]?.[0]?.image?.sequence ?? '';
+
+            // bits 0 and 2 -> 0b101 = 5 -> '?' + 5 = 'D'
+            expect(sequence).toContain('#0D-');
+        });
+
+        it('should run-length encode repeated sixels', () => {
+            const renderer = new SixelRenderer({ cellSize: { horizontal: 10, vertical: 6 } });
+            const canvas = renderer.createCanvas(10, 6);
+            renderer.drawRect(canvas, 0, 0, 10, 1, true, { active: true, color: 'white' });
+
+            const sequence = renderer.renderCanvas(canvas, 10, 6)[0]?.[0]?.image?.sequence ?? '';
+
+            expect(sequence).toContain('#0!10@');
+        });
+    });
+});
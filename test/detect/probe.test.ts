@@ -0,0 +1,107 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { clearProbeCache, parseProbeReplies, probeTerminal } from '../../src/detect/probe';
+import { createFakeTty } from '../helpers/fakeTty';
+
+const ESC = '\u001b';
+
+/** Replies of a WezTerm-like terminal */
+const REPLIES = [
+    `${ESC}_Gi=31;OK${ESC}\\`,
+    `${ESC}P>|WezTerm 20240203${ESC}\\`,
+    `${ESC}[>1;277;0c`,
+    `${ESC}]10;rgb:abab/b2b2/bfbf${ESC}\\`,
+    `${ESC}]11;rgb:2828/2c2c/3434\u0007`,
+    `${ESC}[12;2R`,
+    `${ESC}[12;2R`,
+    `${ESC}[?65;4;6;22c`,
+].join('');
+
+describe('parseProbeReplies', () => {
+    it('should parse every reply', () => {
+        expect(parseProbeReplies(REPLIES)).toEqual({
+            responded: true,
+            deviceAttributes: [65, 4, 6, 22],
+            secondaryAttributes: [1, 277, 0],
+            version: 'WezTerm 20240203',
+            kittyGraphics: true,
+            foreground: { r: 171, g: 178, b: 191 },
+            background: { r: 40, g: 44, b: 52 },
+            brailleWidth: 1,
+            blockWidth: 1,
+        });
+    });
+
+    it('should leave unanswered queries undefined', () => {
+        const result = parseProbeReplies(`${ESC}[?1;2c`);
+        expect(result).toEqual({ responded: true, deviceAttributes: [1, 2], kittyGraphics: false });
+    });
+
+    it('should not report a response without DA1', () => {
+        expect(parseProbeReplies(`${ESC}[3;4R`)).toMatchObject({
+            responded: false,
+            brailleWidth: 3,
+        });
+    });
+
+    it('should scale short color channels', () => {
+        const result = parseProbeReplies(`${ESC}]11;rgb:f/8/0${ESC}\\`);
+        expect(result.background).toEqual({ r: 255, g: 136, b: 0 });
+    });
+});
+
+describe('probeTerminal', () => {
+    it('should query the terminal in raw mode and restore it', async () => {
+        const { input, output } = createFakeTty(REPLIES);
+        const result = await probeTerminal({ input, output });
+
+        expect(result.responded).toBe(true);
+        expect(result.version).toBe('WezTerm 20240203');
+        expect(output.written.endsWith(`${ESC}[c`)).toBe(true);
+        expect(input.rawModes).toEqual([true, false]);
+        expect(input.listenerCount('data')).toBe(0);
+    });
+
+    it('should pause a fresh stdin again after the probe', async () => {
+        const input = Object.assign(new Readable({ read() {} }), { isTTY: true });
+        const output = {
+            isTTY: true,
+            write: () => setTimeout(() => input.push(REPLIES), 5),
+        };
+        const result = await probeTerminal({ input, output });
+
+        expect(result.responded).toBe(true);
+        expect(input.readableFlowing).toBe(false);
+        expect(input.listenerCount('data')).toBe(0);
+    });
+
+    it('should give up after the timeout', async () => {
+        const { input, output } = createFakeTty(null);
+        const result = await probeTerminal({ input, output, timeout: 20 });
+
+        expect(result).toEqual({ responded: false, deviceAttributes: [], kittyGraphics: false });
+        expect(input.listenerCount('data')).toBe(0);
+    });
+
+    it('should not write to a non-TTY', async () => {
+        const { input, output } = createFakeTty(REPLIES);
+        output.isTTY = false;
+        const result = await probeTerminal({ input, output });
+
+        expect(result.responded).toBe(false);
+        expect(output.written).toBe('');
+    });
+
+    it('should cache results per input', async () => {
+        const { input, output } = createFakeTty(REPLIES);
+        const first = await probeTerminal({ input, output });
+        const second = await probeTerminal({ input, output });
+        expect(second).toBe(first);
+        expect(output.written.split(`${ESC}[c`)).toHaveLength(2);
+
+        await probeTerminal({ input, output, refresh: true });
+        clearProbeCache(input);
+        await probeTerminal({ input, output });
+        expect(output.written.split(`${ESC}[c`)).toHaveLength(4);
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AsciiRenderer } from '../../src/core/ascii';
+import type { RendererMetadata } from '../../src/core/renderer';
+import type { Pixel, RenderedLine } from '../../src/core/types';
+import { RendererRegistry } from '../../src/detect/registry';
+import { TerminalDetector } from '../../src/detect/terminal';
+
+/**
+ * Renderer drawing every active cell as '@'
+ */
+class AtRenderer extends AsciiRenderer {
+    override getMetadata(): RendererMetadata {
+        return { ...super.getMetadata(), name: 'at', displayName: 'At', minScore: 20 };
+    }
+
+    override renderCanvas(pixels: Pixel[][], width: number, height: number): RenderedLine[] {
+        return super
+            .renderCanvas(pixels, width, height)
+            .map((line) =>
+                line.map((segment) => ({ ...segment, text: segment.text.replace(/\S/g, '@') })),
+            );
+    }
+}
+
+const utf8Terminal = new TerminalDetector({ LANG: 'en_US.UTF-8', TERM: 'xterm-256color' }).detect();
+const legacyTerminal = new TerminalDetector({ TERM: 'vt100' }).detect();
+
+describe('RendererRegistry', () => {
+    it('should start with the built-in renderers', () => {
+        const registry = new RendererRegistry();
+
+        expect(registry.names()).toEqual([
+            'braille',
+            'block',
+            'quadrant',
+            'sextant',
+            'ascii',
+            'kitty',
+            'sixel',
+        ]);
+        expect(registry.create('block')?.getName()).toBe('block');
+        expect(registry.getMetadata('braille')?.resolution).toEqual({ horizontal: 2, vertical: 4 });
+    });
+
+    it('should register a custom renderer under its metadata name', () => {
+        const registry = new RendererRegistry().register({
+            metadata: new AtRenderer().getMetadata(),
+            create: () => new AtRenderer(),
+        });
+
+        expect(registry.has('at')).toBe(true);
+        expect(registry.create('at')).toBeInstanceOf(AtRenderer);
+        expect(registry.names()).toContain('at');
+    });
+
+    it('should replace a renderer registered under an existing name', () => {
+        const registry = new RendererRegistry().register({
+            metadata: { ...new AtRenderer().getMetadata(), name: 'ascii' },
+            create: () => new AtRenderer(),
+        });
+
+        expect(registry.create('ascii')).toBeInstanceOf(AtRenderer);
+        expect(registry.names()).toHaveLength(7);
+    });
+
+    it('should unregister renderers', () => {
+        const registry = new RendererRegistry();
+
+        expect(registry.unregister('sixel')).toBe(true);
+        expect(registry.unregister('sixel')).toBe(false);
+        expect(registry.create('sixel')).toBeUndefined();
+    });
+
+    it('should check metadata requirements and the capability predicate', () => {
+        const registry = new RendererRegistry().register({
+            metadata: new AtRenderer().getMetadata(),
+            create: () => new AtRenderer(),
+            supports: (capabilities) => capabilities.supportsColor,
+        });
+
+        expect(registry.isSupported('at', utf8Terminal)).toBe(true);
+        // Below minScore and without colors
+        expect(registry.isSupported('at', legacyTerminal)).toBe(false);
+        expect(registry.isSupported('at', { ...utf8Terminal, supportsColor: false })).toBe(false);
+        expect(registry.isSupported('missing', utf8Terminal)).toBe(false);
+    });
+
+    it('should apply the built-in capability predicates', () => {
+        const registry = new RendererRegistry();
+
+        expect(registry.isSupported('braille', utf8Terminal)).toBe(false);
+        expect(registry.isSupported('block', utf8Terminal)).toBe(true);
+        expect(registry.isSupported('ascii', legacyTerminal)).toBe(true);
+        expect(registry.isSupported('kitty', utf8Terminal)).toBe(false);
+        expect(registry.isSupported('quadrant', utf8Terminal)).toBe(true);
+        expect(registry.isSupported('sextant', utf8Terminal)).toBe(false);
+        expect(registry.isSupported('sextant', { ...utf8Terminal, supportsSextants: true })).toBe(
+            true,
+        );
+    });
+});
@@ -1,4 +1,6 @@
 import { describe, expect, it } from 'vitest';
+import { BlockRenderer } from '../../src/core/block';
+import { RendererRegistry } from '../../src/detect/registry';
 import { RendererSelector } from '../../src/detect/selector';
 import { TerminalDetector } from '../../src/detect/terminal';
 
@@ -64,6 +66,58 @@ describe('RendererSelector', () => {
         });
     });
 
+    describe('selectBest - graphics capable terminal', () => {
+        it('should not select image protocols the chain leaves out', () => {
+            const detector = new TerminalDetector({
+                LANG: 'en_US.UTF-8',
+                TERM: 'xterm-256color',
+                TERM_PROGRAM: 'WezTerm',
+            });
+
+            const selector = new RendererSelector(detector);
+
+            expect(selector.selectBest(['braille', 'block', 'ascii']).getName()).toBe('braille');
+        });
+
+        it('should select kitty renderer for kitty terminal', () => {
+            const detector = new TerminalDetector({
+                LANG: 'en_US.UTF-8',
+                TERM: 'xterm-kitty',
+                KITTY_WINDOW_ID: '1',
+            });
+
+            const selector = new RendererSelector(detector);
+            const renderer = selector.selectBest();
+
+            expect(renderer.getName()).toBe('kitty');
+        });
+
+        it('should select Sixel renderer when kitty is not in the chain', () => {
+            const detector = new TerminalDetector({
+                LANG: 'en_US.UTF-8',
+                TERM_PROGRAM: 'WezTerm',
+            });
+
+            const selector = new RendererSelector(detector);
+            const renderer = selector.selectBest(['sixel', 'braille', 'ascii']);
+
+            expect(renderer.getName()).toBe('sixel');
+        });
+
+        it('should fall back to Braille when no image protocol is supported', () => {
+            const detector = new TerminalDetector({
+                LANG: 'en_US.UTF-8',
+                TERM: 'xterm-256color',
+                TERM_PROGRAM: 'Warp',
+            });
+
+            const selector = new RendererSelector(detector);
+            const renderer = selector.selectBest();
+
+            expect(renderer.getName()).toBe('braille');
+        });
+    });
+
     describe('selectBest - medium capability terminal', () => {
         it('should select Block renderer for terminals that do not support Braille', () => {
             const detector = new TerminalDetector({
@@ -156,6 +210,36 @@ describe('RendererSelector', () => {
         });
     });
 
+    describe('custom registry', () => {
+        const createRegistry = () =>
+            new RendererRegistry().register({
+                metadata: { ...new BlockRenderer().getMetadata(), name: 'fine-block' },
+                create: () => new BlockRenderer(),
+                supports: (capabilities) => capabilities.supportsTrueColor,
+            });
+
+        it('should select registered renderers by name', () => {
+            const detector = new TerminalDetector({ LANG: 'en_US.UTF-8', COLORTERM: 'truecolor' });
+            const selector = new RendererSelector(detector, createRegistry());
+
+            expect(selector.selectBest(['fine-block', 'ascii'])).toBeInstanceOf(BlockRenderer);
+        });
+
+        it('should skip registered renderers whose predicate fails', () => {
+            const detector = new TerminalDetector({ LANG: 'en_US.UTF-8', TERM: 'xterm-256color' });
+            const selector = new RendererSelector(detector, createRegistry());
+
+            expect(selector.selectBest(['fine-block', 'ascii']).getName()).toBe('ascii');
+        });
+
+        it('should skip and fall back from names that are not registered', () => {
+            const selector = new RendererSelector(new TerminalDetector({}), createRegistry());
+
+            expect(selector.selectBest(['missing']).getName()).toBe('ascii');
+            expect(selector.getRenderer('missing').getName()).toBe('ascii');
+        });
+    });
+
     describe('getTerminalCapabilities', () => {
         it('should return terminal capability information', () => {
             const detector = new TerminalDetector({
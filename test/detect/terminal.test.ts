@@ -1,5 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import { TerminalDetector } from '../../src/detect/terminal';
+import { createFakeTty } from '../helpers/fakeTty';
+
+const ESC = '\u001b';
 
 describe('TerminalDetector', () => {
     describe('UTF-8 detection', () => {
@@ -89,6 +92,71 @@ describe('TerminalDetector', () => {
         });
     });
 
+    describe('sextant detection', () => {
+        it('should detect sextants in terminals that draw them', () => {
+            const sextants = (env: NodeJS.ProcessEnv) =>
+                new TerminalDetector({ LANG: 'en_US.UTF-8', ...env }).detect().supportsSextants;
+
+            expect(sextants({ TERM: 'xterm-kitty' })).toBe(true);
+            expect(sextants({ TERM_PROGRAM: 'WezTerm' })).toBe(true);
+            expect(sextants({ TERM: 'foot' })).toBe(true);
+            expect(sextants({ TMUX: '/tmp/tmux-1000/default,123,0', KITTY_WINDOW_ID: '1' })).toBe(
+                true,
+            );
+            expect(sextants({ TERM_PROGRAM: 'iTerm.app' })).toBe(false);
+        });
+
+        it('should require UTF-8 for sextants', () => {
+            const detector = new TerminalDetector({ TERM: 'xterm-kitty', LANG: 'C' });
+            expect(detector.detect().supportsSextants).toBe(false);
+        });
+    });
+
+    describe('graphics protocol detection', () => {
+        it('should detect kitty graphics support (KITTY_WINDOW_ID)', () => {
+            const detector = new TerminalDetector({
+                TERM: 'xterm-kitty',
+                KITTY_WINDOW_ID: '1',
+            });
+
+            const capabilities = detector.detect();
+            expect(capabilities.supportsKittyGraphics).toBe(true);
+            expect(capabilities.supportsSixel).toBe(false);
+        });
+
+        it('should detect kitty graphics and Sixel support (WezTerm)', () => {
+            const detector = new TerminalDetector({
+                TERM_PROGRAM: 'WezTerm',
+                LANG: 'en_US.UTF-8',
+            });
+
+            const capabilities = detector.detect();
+            expect(capabilities.supportsKittyGraphics).toBe(true);
+            expect(capabilities.supportsSixel).toBe(true);
+        });
+
+        it('should detect Sixel support (foot)', () => {
+            const detector = new TerminalDetector({
+                TERM: 'foot',
+            });
+
+            const capabilities = detector.detect();
+            expect(capabilities.supportsKittyGraphics).toBe(false);
+            expect(capabilities.supportsSixel).toBe(true);
+        });
+
+        it('should detect no graphics support (iTerm2)', () => {
+            const detector = new TerminalDetector({
+                TERM_PROGRAM: 'iTerm.app',
+                LANG: 'en_US.UTF-8',
+            });
+
+            const capabilities = detector.detect();
+            expect(capabilities.supportsKittyGraphics).toBe(false);
+            expect(capabilities.supportsSixel).toBe(false);
+        });
+    });
+
     describe('color detection', () => {
         it('should detect color support (TERM=xterm-256color)', () => {
             const detector = new TerminalDetector({
@@ -148,6 +216,52 @@ describe('TerminalDetector', () => {
         });
     });
 
+    describe('color depth detection', () => {
+        it('should detect each color depth from TERM and COLORTERM', () => {
+            const depth = (env: NodeJS.ProcessEnv) => new TerminalDetector(env).detect().colorDepth;
+
+            expect(depth({ TERM: 'xterm', COLORTERM: 'truecolor' })).toBe('truecolor');
+            expect(depth({ TERM: 'xterm-256color' })).toBe('ansi256');
+            expect(depth({ TERM: 'xterm-color' })).toBe('ansi16');
+            expect(depth({ TERM: 'vt100' })).toBe('mono');
+            expect(depth({ TERM: 'dumb', COLORTERM: 'truecolor' })).toBe('mono');
+        });
+
+        it('should turn colors off with NO_COLOR', () => {
+            const capabilities = new TerminalDetector({
+                TERM: 'xterm-256color',
+                COLORTERM: 'truecolor',
+                NO_COLOR: '1',
+            }).detect();
+
+            expect(capabilities.colorDepth).toBe('mono');
+            expect(capabilities.supportsColor).toBe(false);
+            expect(capabilities.supportsTrueColor).toBe(false);
+        });
+
+        it('should ignore an empty NO_COLOR', () => {
+            const detector = new TerminalDetector({ TERM: 'xterm-256color', NO_COLOR: '' });
+            expect(detector.detect().colorDepth).toBe('ansi256');
+        });
+
+        it('should follow FORCE_COLOR levels', () => {
+            const depth = (FORCE_COLOR: string) =>
+                new TerminalDetector({ TERM: 'xterm-256color', FORCE_COLOR }).detect().colorDepth;
+
+            expect(depth('0')).toBe('mono');
+            expect(depth('false')).toBe('mono');
+            expect(depth('1')).toBe('ansi16');
+            expect(depth('true')).toBe('ansi16');
+            expect(depth('2')).toBe('ansi256');
+            expect(depth('3')).toBe('truecolor');
+        });
+
+        it('should let NO_COLOR win over FORCE_COLOR', () => {
+            const detector = new TerminalDetector({ NO_COLOR: '1', FORCE_COLOR: '3' });
+            expect(detector.detect().colorDepth).toBe('mono');
+        });
+    });
+
     describe('overall score', () => {
         it('should give high score for iTerm2 + UTF-8 + TrueColor', () => {
             const detector = new TerminalDetector({
@@ -231,6 +345,245 @@ describe('TerminalDetector', () => {
         });
     });
 
+    describe('probe', () => {
+        it('should trust measured glyph widths over the environment', async () => {
+            const detector = new TerminalDetector({ TERM_PROGRAM: 'vscode', LANG: 'C' });
+            expect(detector.detect().supportsBraille).toBe(false);
+
+            const capabilities = await detector.probe(
+                createFakeTty(`${ESC}[5;2R${ESC}[5;2R${ESC}[?62;22c`),
+            );
+            expect(capabilities.supportsUtf8).toBe(true);
+            expect(capabilities.supportsBraille).toBe(true);
+            expect(capabilities.supportsBlockElements).toBe(true);
+            expect(capabilities.score).toBeGreaterThanOrEqual(70);
+        });
+
+        it('should detect a braille glyph that renders wider than one cell', async () => {
+            const detector = new TerminalDetector({ TERM_PROGRAM: 'iTerm.app' });
+            const capabilities = await detector.probe(
+                createFakeTty(`${ESC}[1;3R${ESC}[1;2R${ESC}[?62c`),
+            );
+            expect(capabilities.supportsBraille).toBe(false);
+            expect(capabilities.supportsBlockElements).toBe(true);
+        });
+
+        it('should detect graphics protocols and background from replies', async () => {
+            const detector = new TerminalDetector({});
+            const capabilities = await detector.probe(
+                createFakeTty(
+                    `${ESC}_Gi=31;OK${ESC}\\${ESC}]11;rgb:ffff/ffff/f0f0${ESC}\\${ESC}[?62;4c`,
+                ),
+            );
+            expect(capabilities.supportsKittyGraphics).toBe(true);
+            expect(capabilities.supportsSixel).toBe(true);
+            expect(capabilities.background).toBe('light');
+        });
+
+        it('should match the XTVERSION name against terminal whitelists', async () => {
+            const detector = new TerminalDetector({ TERM: 'xterm-256color' });
+            await detector.probe(createFakeTty(`${ESC}P>|foot(1.16.2)${ESC}\\${ESC}[?62c`));
+            expect(detector.detect().supportsSixel).toBe(true);
+            expect(detector.getProbeResult()?.version).toBe('foot(1.16.2)');
+        });
+
+        it('should keep environment detection when the terminal does not answer', async () => {
+            const detector = new TerminalDetector({ TERM_PROGRAM: 'WezTerm', LANG: 'en_US.UTF-8' });
+            const capabilities = await detector.probe({ ...createFakeTty(null), timeout: 10 });
+            expect(capabilities).toEqual(
+                new TerminalDetector({ TERM_PROGRAM: 'WezTerm', LANG: 'en_US.UTF-8' }).detect(),
+            );
+        });
+    });
+
+    describe('locale precedence', () => {
+        it('should prefer LC_ALL over LC_CTYPE over LANG', () => {
+            const utf8 = (env: NodeJS.ProcessEnv) =>
+                new TerminalDetector(env).detect().supportsUtf8;
+
+            expect(utf8({ LC_ALL: 'C', LC_CTYPE: 'en_US.UTF-8', LANG: 'en_US.UTF-8' })).toBe(false);
+            expect(utf8({ LC_CTYPE: 'en_US.UTF-8', LANG: 'C' })).toBe(true);
+            expect(utf8({ LC_ALL: '', LANG: 'de_DE.utf8' })).toBe(true);
+        });
+    });
+
+    describe('environment awareness', () => {
+        it('should recognize multiplexers', () => {
+            const multiplexer = (env: NodeJS.ProcessEnv) =>
+                new TerminalDetector(env).getTerminalEnvironment().multiplexer;
+
+            expect(multiplexer({ TMUX: '/tmp/tmux-1000/default,123,0' })).toBe('tmux');
+            expect(multiplexer({ TERM_PROGRAM: 'tmux' })).toBe('tmux');
+            expect(multiplexer({ TERM: 'tmux-256color' })).toBe('tmux');
+            expect(multiplexer({ STY: '123.pts-0.host' })).toBe('screen');
+            expect(multiplexer({ TERM: 'screen-256color' })).toBe('screen');
+            expect(multiplexer({ ZELLIJ: '0' })).toBe('zellij');
+            expect(multiplexer({ TERM: 'xterm-256color' })).toBeUndefined();
+        });
+
+        it('should recognize SSH, WSL, CI and Windows Terminal', () => {
+            const environment = new TerminalDetector({
+                LANG: 'C.UTF-8',
+                SSH_CONNECTION: '10.0.0.2 52000 10.0.0.1 22',
+                WSL_DISTRO_NAME: 'Ubuntu',
+                WT_SESSION: 'b2a1c3',
+                CI: 'true',
+            }).getTerminalEnvironment();
+
+            expect(environment).toEqual({
+                locale: 'C.UTF-8',
+                remote: true,
+                wsl: true,
+                ci: true,
+                windowsTerminal: true,
+            });
+            expect(new TerminalDetector({ CI: 'false' }).getTerminalEnvironment().ci).toBe(false);
+        });
+
+        it('should keep braille under tmux with a UTF-8 locale', () => {
+            const capabilities = new TerminalDetector({
+                TMUX: '/tmp/tmux-1000/default,123,0',
+                TERM: 'tmux-256color',
+                TERM_PROGRAM: 'tmux',
+                LANG: 'en_US.UTF-8',
+            }).detect();
+
+            expect(capabilities.supportsBraille).toBe(true);
+            expect(capabilities.score).toBeGreaterThanOrEqual(80);
+        });
+
+        it('should not assume braille under screen without UTF-8', () => {
+            const detector = new TerminalDetector({ STY: '123.pts-0.host', TERM: 'screen' });
+            expect(detector.detect().supportsBraille).toBe(false);
+        });
+
+        it('should use the outer terminal name forwarded over SSH', () => {
+            const capabilities = new TerminalDetector({
+                SSH_TTY: '/dev/pts/1',
+                LC_TERMINAL: 'iTerm2',
+                LANG: 'en_US.UTF-8',
+            }).detect();
+
+            expect(capabilities.supportsBraille).toBe(true);
+        });
+
+        it('should detect Windows Terminal capabilities inside WSL', () => {
+            const capabilities = new TerminalDetector({
+                WSL_DISTRO_NAME: 'Ubuntu',
+                WT_SESSION: 'b2a1c3',
+                TERM: 'xterm-256color',
+            }).detect();
+
+            expect(capabilities.supportsUtf8).toBe(true);
+            expect(capabilities.supportsBraille).toBe(true);
+            expect(capabilities.colorDepth).toBe('truecolor');
+        });
+
+        it('should ignore the remote TERM_PROGRAM and images over SSH unless probed', () => {
+            const detector = new TerminalDetector({
+                SSH_CONNECTION: '10.0.0.2 52000 10.0.0.1 22',
+                TERM_PROGRAM: 'WezTerm',
+                KITTY_WINDOW_ID: '1',
+                LANG: 'en_US.UTF-8',
+            });
+            const { capabilities } = detector.explain();
+
+            expect(capabilities.supportsBraille).toEqual({
+                value: false,
+                reason: 'over SSH only LC_TERMINAL names the outer terminal',
+            });
+            expect(capabilities.supportsKittyGraphics.value).toBe(false);
+            expect(capabilities.supportsSixel.reason).toBe(
+                'over SSH images are only used when probed',
+            );
+        });
+
+        it('should fall back to the Windows console inside WSL without WT_SESSION', () => {
+            const { capabilities } = new TerminalDetector({
+                WSL_DISTRO_NAME: 'Ubuntu',
+                TERM: 'xterm-256color',
+            }).explain();
+
+            expect(capabilities.supportsUtf8).toEqual({
+                value: true,
+                reason: 'Windows console (WSL) uses UTF-8 and no locale is set',
+            });
+            expect(capabilities.colorDepth.value).toBe('truecolor');
+            expect(capabilities.supportsBraille.value).toBe(false);
+        });
+
+        it('should give multiplexers and CI at least 16 colors', () => {
+            const depth = (env: NodeJS.ProcessEnv) => new TerminalDetector(env).detect().colorDepth;
+
+            expect(depth({ STY: '123.pts-0.host', TERM: 'screen' })).toBe('ansi16');
+            expect(depth({ CI: 'true' })).toBe('ansi16');
+            expect(depth({ CI: 'true', NO_COLOR: '1' })).toBe('mono');
+        });
+
+        it('should not offer graphics protocols through a multiplexer or in CI', () => {
+            const inTmux = new TerminalDetector({
+                TMUX: '/tmp/tmux-1000/default,123,0',
+                KITTY_WINDOW_ID: '1',
+                TERM_PROGRAM: 'WezTerm',
+            }).detect();
+            const inCi = new TerminalDetector({ CI: '1', TERM: 'foot' }).detect();
+
+            expect(inTmux.supportsKittyGraphics).toBe(false);
+            expect(inTmux.supportsSixel).toBe(false);
+            expect(inCi.supportsSixel).toBe(false);
+        });
+
+        it('should trust a probed Sixel reply through tmux', async () => {
+            const detector = new TerminalDetector({ TMUX: '/tmp/tmux-1000/default,123,0' });
+            const { input, output } = createFakeTty(`${ESC}[?62;4;22c`);
+
+            const capabilities = await detector.probe({ input, output, timeout: 200 });
+            expect(capabilities.supportsSixel).toBe(true);
+        });
+    });
+
+    describe('explain', () => {
+        it('should give a reason for every capability', () => {
+            const report = new TerminalDetector({
+                TMUX: '/tmp/tmux-1000/default,123,0',
+                TERM: 'tmux-256color',
+                LC_CTYPE: 'en_US.UTF-8',
+            }).explain();
+
+            expect(report.environment.multiplexer).toBe('tmux');
+            expect(report.capabilities.supportsUtf8).toEqual({
+                value: true,
+                reason: 'LC_CTYPE=en_US.UTF-8 is a UTF-8 locale',
+            });
+            expect(report.capabilities.supportsBraille.reason).toContain('tmux');
+            expect(report.capabilities.colorDepth).toEqual({
+                value: 'ansi256',
+                reason: 'TERM=tmux-256color',
+            });
+            expect(report.capabilities.supportsKittyGraphics.reason).toBe(
+                'tmux does not pass images through',
+            );
+            expect(report.capabilities.background.value).toBeUndefined();
+            for (const explanation of Object.values(report.capabilities)) {
+                expect(explanation.reason).not.toBe('');
+            }
+        });
+
+        it('should match detect()', () => {
+            const detector = new TerminalDetector({
+                LANG: 'en_US.UTF-8',
+                COLORTERM: 'truecolor',
+                TERM_PROGRAM: 'WezTerm',
+            });
+            const { capabilities } = detector.explain();
+
+            expect(capabilities.score.value).toBe(detector.detect().score);
+            expect(capabilities.score.reason).toBe(
+                'UTF-8 +20, Unicode +10, Braille +30, Block Elements +10, color +15, true color +15',
+            );
+        });
+    });
+
     describe('getEnvironmentInfo', () => {
         it('should return environment information', () => {
             const detector = new TerminalDetector({
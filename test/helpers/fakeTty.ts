@@ -0,0 +1,29 @@
+import { EventEmitter } from 'node:events';
+
+/**
+ * Fake TTY pair: the output answers every write with `replies`, split in chunks
+ * (`null` never answers)
+ */
+export function createFakeTty(replies: string | null) {
+    const input = Object.assign(new EventEmitter(), {
+        isTTY: true,
+        isRaw: false,
+        rawModes: [] as boolean[],
+        setRawMode(mode: boolean) {
+            input.isRaw = mode;
+            input.rawModes.push(mode);
+        },
+    });
+    const output = {
+        isTTY: true,
+        written: '',
+        write(data: string) {
+            output.written += data;
+            if (replies === null) return;
+            const middle = Math.floor(replies.length / 2);
+            setTimeout(() => input.emit('data', Buffer.from(replies.slice(0, middle))), 5);
+            setTimeout(() => input.emit('data', replies.slice(middle)), 10);
+        },
+    };
+    return { input, output };
+}
@@ -0,0 +1,43 @@
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { describe, expect, it } from 'vitest';
+import { usePoller } from '../../src/hooks/usePoller';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('usePoller', () => {
+    it('should poll on mount and on every interval', async () => {
+        let calls = 0;
+        const Poll = () => {
+            const { items, latest } = usePoller(() => ++calls, 20, { capacity: 3, fps: 100 });
+            return <Text>{`${items.join(',')} latest=${latest ?? '-'}`}</Text>;
+        };
+        const { lastFrame, unmount } = render(<Poll />);
+        await wait(130);
+        const frame = lastFrame() ?? '';
+        unmount();
+        expect(calls).toBeGreaterThanOrEqual(4);
+        const [, items = '', latest] = frame.match(/^(.*) latest=(\d+)$/) ?? [];
+        expect(items.split(',')).toHaveLength(3);
+        expect(items.endsWith(latest ?? 'x')).toBe(true);
+    });
+
+    it('should not overlap slow polls', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const Poll = () => {
+            usePoller(async () => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await wait(50);
+                running--;
+                return running;
+            }, 10);
+            return <Text>polling</Text>;
+        };
+        const { unmount } = render(<Poll />);
+        await wait(150);
+        unmount();
+        expect(maxRunning).toBe(1);
+    });
+});
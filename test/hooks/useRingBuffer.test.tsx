@@ -0,0 +1,64 @@
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { useEffect } from 'react';
+import { describe, expect, it } from 'vitest';
+import { RingBuffer, useRingBuffer } from '../../src/hooks/useRingBuffer';
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RingBuffer', () => {
+    it('should keep the newest items in order', () => {
+        const buffer = new RingBuffer<number>(3);
+        buffer.push(1, 2);
+        expect(buffer.toArray()).toEqual([1, 2]);
+        buffer.pushAll([3, 4, 5]);
+        expect(buffer.toArray()).toEqual([3, 4, 5]);
+        expect(buffer.size).toBe(3);
+        buffer.clear();
+        expect(buffer.toArray()).toEqual([]);
+    });
+
+    it('should count the items dropped from the front', () => {
+        const buffer = new RingBuffer<number>(3);
+        buffer.pushAll([1, 2, 3, 4, 5]);
+        expect(buffer.dropped).toBe(2);
+        buffer.clear();
+        buffer.push(6);
+        expect(buffer.dropped).toBe(5);
+    });
+});
+
+describe('useRingBuffer', () => {
+    it('should publish throttled snapshots of pushed items', async () => {
+        const Feed = () => {
+            const { items, push } = useRingBuffer<number>(3, 20);
+            useEffect(() => {
+                for (let i = 1; i <= 5; i++) push(i);
+            }, [push]);
+            return <Text>{items.join(',') || 'empty'}</Text>;
+        };
+        const { lastFrame } = render(<Feed />);
+        expect(lastFrame()).toBe('empty');
+        await wait(100);
+        expect(lastFrame()).toBe('3,4,5');
+    });
+
+    it('should re-render at most fps times per second while pushing', async () => {
+        let renders = 0;
+        const Feed = () => {
+            const { items, push } = useRingBuffer<number>(100, 10);
+            renders++;
+            useEffect(() => {
+                let i = 0;
+                const timer = setInterval(() => push(i++), 1);
+                return () => clearInterval(timer);
+            }, [push]);
+            return <Text>{items.length}</Text>;
+        };
+        const { unmount } = render(<Feed />);
+        await wait(150);
+        unmount();
+        // Initial render plus at most two flushes (every 100ms)
+        expect(renders).toBeLessThanOrEqual(3);
+    });
+});
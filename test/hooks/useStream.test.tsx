@@ -0,0 +1,61 @@
+import { Readable } from 'node:stream';
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { useMemo } from 'react';
+import { describe, expect, it } from 'vitest';
+import { type StreamOptions, splitLines, useStream } from '../../src/hooks/useStream';
+
+const wait = (ms = 100) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('splitLines', () => {
+    it('should keep the unterminated rest for the next chunk', () => {
+        expect(splitLines('', 'a\nb\r\nc')).toEqual({ lines: ['a', 'b'], rest: 'c' });
+        expect(splitLines('c', 'd\n')).toEqual({ lines: ['cd'], rest: '' });
+    });
+});
+
+describe('useStream', () => {
+    const Tail = <T,>({ chunks, options }: { chunks: unknown[]; options?: StreamOptions<T> }) => {
+        const source = useMemo(() => Readable.from(chunks), [chunks]);
+        const { items, done } = useStream<T>(source, options);
+        return (
+            <Text>
+                {items.join('|')}
+                {done ? ' (done)' : ''}
+            </Text>
+        );
+    };
+
+    it('should read lines across chunk boundaries', async () => {
+        const chunks = [Buffer.from('GET /a\nGET'), Buffer.from(' /b\nGET /c')];
+        const { lastFrame } = render(<Tail chunks={chunks} />);
+        await wait();
+        expect(lastFrame()).toBe('GET /a|GET /b|GET /c (done)');
+    });
+
+    it('should keep the latest items and map them', async () => {
+        const chunks = ['1\n2\n3\n', '4\nskip\n5\n'];
+        const options: StreamOptions<number> = {
+            capacity: 3,
+            map: (line) => (line === 'skip' ? undefined : Number(line) * 10),
+        };
+        const { lastFrame } = render(<Tail chunks={chunks} options={options} />);
+        await wait();
+        expect(lastFrame()).toBe('30|40|50 (done)');
+    });
+
+    it('should report source errors', async () => {
+        async function* failing() {
+            yield 'ok\n';
+            throw new Error('broken pipe');
+        }
+        const Failing = () => {
+            const source = useMemo(() => failing(), []);
+            const { items, error } = useStream(source);
+            return <Text>{`${items.join('|')} ${error?.message ?? ''}`}</Text>;
+        };
+        const { lastFrame } = render(<Failing />);
+        await wait();
+        expect(lastFrame()).toBe('ok broken pipe');
+    });
+});
@@ -0,0 +1,65 @@
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { useEffect } from 'react';
+import { describe, expect, it } from 'vitest';
+import { useWindowedSeries } from '../../src/hooks/useWindowedSeries';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('useWindowedSeries', () => {
+    it('should emit a series of the requested length', () => {
+        const Series = () => {
+            const { values } = useWindowedSeries({ window: 1000, points: 5 });
+            return <Text>{values.map((v) => v ?? '-').join(',')}</Text>;
+        };
+        const { lastFrame, unmount } = render(<Series />);
+        expect(lastFrame()).toBe('-,-,-,-,-');
+        unmount();
+    });
+
+    it('should aggregate recorded samples on the next tick', async () => {
+        const Series = () => {
+            const { values, record } = useWindowedSeries({
+                window: 10_000,
+                points: 3,
+                aggregate: 'sum',
+                interval: 20,
+            });
+            useEffect(() => {
+                record(2);
+                record(3);
+            }, [record]);
+            return <Text>{values.map((v) => v ?? '-').join(',')}</Text>;
+        };
+        const { lastFrame, unmount } = render(<Series />);
+        await wait(80);
+        const frame = lastFrame();
+        unmount();
+        // Both samples land in the newest (or, on a boundary, the previous) window
+        expect(['-,-,5', '-,5,-']).toContain(frame);
+    });
+
+    it('should chart counter readings as rates', async () => {
+        const Series = () => {
+            const { values, record } = useWindowedSeries({
+                window: 10_000,
+                points: 2,
+                aggregate: 'max',
+                mode: 'sliding',
+                step: 20,
+                counter: true,
+            });
+            useEffect(() => {
+                const now = Date.now();
+                record(100, now - 2000);
+                record(300, now - 1000);
+            }, [record]);
+            return <Text>{values.map((v) => v ?? '-').join(',')}</Text>;
+        };
+        const { lastFrame, unmount } = render(<Series />);
+        await wait(80);
+        const frame = lastFrame();
+        unmount();
+        expect(frame).toBe('200,200');
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isDarkColor, resolveColor, toAnsi16, toAnsi256 } from '../../src/utils/colorDepth';
+
+describe('colorDepth', () => {
+    describe('toAnsi256', () => {
+        it('should map to the nearest color cube entry', () => {
+            expect(toAnsi256({ r: 255, g: 0, b: 0 })).toBe(196);
+            expect(toAnsi256({ r: 97, g: 175, b: 239 })).toBe(75);
+        });
+
+        it('should prefer the grayscale ramp for grays', () => {
+            expect(toAnsi256({ r: 128, g: 128, b: 128 })).toBe(244);
+            expect(toAnsi256({ r: 0, g: 0, b: 0 })).toBe(16);
+        });
+    });
+
+    describe('toAnsi16', () => {
+        it('should keep the hue of saturated colors', () => {
+            expect(toAnsi16({ r: 205, g: 0, b: 0 })).toBe('red');
+            expect(toAnsi16({ r: 152, g: 195, b: 121 })).toBe('greenBright');
+            expect(toAnsi16({ r: 0, g: 0, b: 180 })).toBe('blue');
+            expect(toAnsi16({ r: 198, g: 120, b: 221 })).toBe('magentaBright');
+        });
+
+        it('should map unsaturated colors to grays', () => {
+            expect(toAnsi16({ r: 20, g: 20, b: 20 })).toBe('black');
+            expect(toAnsi16({ r: 92, g: 99, b: 112 })).toBe('gray');
+            expect(toAnsi16({ r: 171, g: 178, b: 191 })).toBe('white');
+            expect(toAnsi16({ r: 250, g: 250, b: 250 })).toBe('whiteBright');
+        });
+    });
+
+    describe('resolveColor', () => {
+        it('should downgrade hex colors step by step', () => {
+            expect(resolveColor('#61afef', 'truecolor')).toBe('#61afef');
+            expect(resolveColor('#61afef', 'ansi256')).toBe('ansi256(75)');
+            expect(resolveColor('#e06c75', 'ansi16')).toBe('redBright');
+            expect(resolveColor('#61afef', 'mono')).toBe('');
+        });
+
+        it('should pass terminal color names through unless colors are off', () => {
+            expect(resolveColor('cyan', 'ansi16')).toBe('cyan');
+            expect(resolveColor('gray', 'ansi256')).toBe('gray');
+            expect(resolveColor('cyan', 'mono')).toBe('');
+        });
+
+        it('should leave colors it cannot parse unchanged', () => {
+            expect(resolveColor('ansi256(42)', 'ansi16')).toBe('ansi256(42)');
+        });
+    });
+
+    describe('isDarkColor', () => {
+        it('should tell dark colors apart', () => {
+            expect(isDarkColor('#5c6370')).toBe(true);
+            expect(isDarkColor('#abb2bf')).toBe(false);
+            expect(isDarkColor('gray')).toBe(false);
+            expect(isDarkColor('unknown')).toBe(false);
+        });
+    });
+});
@@ -63,4 +63,36 @@ describe('downsampling', () => {
             expect(sampled).toEqual([1, 5, 2, 8, 3, 6, 4, 7]);
         });
     });
+
+    describe('gaps', () => {
+        const data = [1, 2, 3, 4, null, 6, 7, 8, 9, 10, 11, 12];
+
+        it('lttb should emit null for buckets containing a gap', () => {
+            const sampled = lttb(data, 6);
+            expect(sampled).toHaveLength(6);
+            expect(sampled).toContain(null);
+            expect(sampled[0]).toBe(1);
+            expect(sampled[5]).toBe(12);
+        });
+
+        it('lttb should keep gaps at the edges', () => {
+            const sampled = lttb([Number.NaN, ...data.slice(1)], 6);
+            expect(sampled[0]).toBeNull();
+        });
+
+        it('fixedIntervalDownsampling should return null for sampled gaps', () => {
+            expect(fixedIntervalDownsampling([1, Number.NaN, 3, undefined, 5], 3)).toEqual([
+                1, 3, 5,
+            ]);
+            expect(fixedIntervalDownsampling([1, 2, Number.NaN, 4, 5], 3)).toEqual([1, null, 5]);
+        });
+
+        it('averageDownsampling should not average across gaps', () => {
+            expect(averageDownsampling([1, 3, null, 5, 6, 8], 3)).toEqual([2, null, 7]);
+        });
+
+        it('minMaxDownsampling should emit a null pair for buckets with gaps', () => {
+            expect(minMaxDownsampling([1, 3, 5, undefined], 2)).toEqual([1, 3, null, null]);
+        });
+    });
 });
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { fillGaps, isPresent } from '../../src/utils/gaps';
+
+describe('gaps', () => {
+    describe('isPresent', () => {
+        it('should accept finite numbers', () => {
+            expect(isPresent(0)).toBe(true);
+            expect(isPresent(-3.5)).toBe(true);
+        });
+
+        it('should reject null, undefined and NaN', () => {
+            expect(isPresent(null)).toBe(false);
+            expect(isPresent(undefined)).toBe(false);
+            expect(isPresent(Number.NaN)).toBe(false);
+        });
+    });
+
+    describe('fillGaps', () => {
+        it('should interpolate interior gaps linearly', () => {
+            expect(fillGaps([0, null, Number.NaN, 6])).toEqual([0, 2, 4, 6]);
+        });
+
+        it('should keep leading and trailing gaps as null', () => {
+            expect(fillGaps([undefined, 1, null, 3, null])).toEqual([null, 1, 2, 3, null]);
+        });
+
+        it('should return all nulls when there is no value', () => {
+            expect(fillGaps([null, undefined])).toEqual([null, null]);
+        });
+    });
+});
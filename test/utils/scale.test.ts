@@ -1,5 +1,16 @@
 import { describe, expect, it } from 'vitest';
-import { clamp, linearScale, normalize, scaleToRange } from '../../src/utils/scale';
+import {
+    clamp,
+    linearScale,
+    logDomain,
+    logScale,
+    logTicks,
+    normalize,
+    scaleByType,
+    scaleToRange,
+    symlogScale,
+    symlogTicks,
+} from '../../src/utils/scale';
 
 describe('linearScale', () => {
     it('should correctly perform linear mapping', () => {
@@ -108,3 +119,68 @@ describe('clamp', () => {
         expect(clamp(-0.5, 0, 1)).toBe(0);
     });
 });
+
+describe('logScale', () => {
+    it('should space powers of ten evenly', () => {
+        expect(logScale(1, [1, 10000], [0, 4])).toBeCloseTo(0);
+        expect(logScale(100, [1, 10000], [0, 4])).toBeCloseTo(2);
+        expect(logScale(10000, [1, 10000], [0, 4])).toBeCloseTo(4);
+    });
+
+    it('should clamp zero and negative values to the start of the range', () => {
+        expect(logScale(0, [1, 100], [10, 0])).toBe(10);
+        expect(logScale(-5, [1, 100], [10, 0])).toBe(10);
+    });
+});
+
+describe('symlogScale', () => {
+    it('should be symmetric around zero', () => {
+        expect(symlogScale(0, [-99, 99], [0, 4])).toBeCloseTo(2);
+        expect(symlogScale(-99, [-99, 99], [0, 4])).toBeCloseTo(0);
+        expect(symlogScale(9, [-99, 99], [0, 4])).toBeCloseTo(3);
+    });
+});
+
+describe('scaleByType', () => {
+    it('should dispatch on the scale type', () => {
+        expect(scaleByType(50, [0, 100], [0, 10])).toBe(5);
+        expect(scaleByType(10, [1, 100], [0, 10], 'log')).toBeCloseTo(5);
+        expect(scaleByType(0, [-9, 9], [0, 10], 'symlog')).toBeCloseTo(5);
+    });
+});
+
+describe('logDomain', () => {
+    it('should widen the extent to whole decades', () => {
+        expect(logDomain(3, 420)).toEqual([1, 1000]);
+        expect(logDomain(0.02, 5)).toEqual([0.01, 10]);
+        expect(logDomain(10, 10)).toEqual([10, 100]);
+    });
+});
+
+describe('logTicks', () => {
+    it('should return powers of ten', () => {
+        expect(logTicks(1, 10000, 5)).toEqual([1, 10, 100, 1000, 10000]);
+    });
+
+    it('should skip decades when there are too many', () => {
+        expect(logTicks(1, 1e6, 4)).toEqual([1, 100, 10000, 1e6]);
+    });
+
+    it('should add 2x and 5x steps within a narrow domain', () => {
+        expect(logTicks(1, 10, 5)).toEqual([1, 2, 5, 10]);
+    });
+
+    it('should return nothing for non-positive domains', () => {
+        expect(logTicks(0, 100, 5)).toEqual([]);
+    });
+});
+
+describe('symlogTicks', () => {
+    it('should include zero and signed powers of ten', () => {
+        expect(symlogTicks(-100, 1000, 8)).toEqual([-100, -10, -1, 0, 1, 10, 100, 1000]);
+    });
+
+    it('should thin ticks out from zero', () => {
+        expect(symlogTicks(-1000, 1000, 5)).toEqual([-1000, -10, 0, 10, 1000]);
+    });
+});
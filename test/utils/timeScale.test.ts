@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { chooseTimeInterval, createTimeTickFormat, timeTicks } from '../../src/utils/timeScale';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('timeScale', () => {
+    describe('chooseTimeInterval', () => {
+        it('should choose second intervals for short ranges', () => {
+            expect(chooseTimeInterval(0, 20 * SECOND, 5)).toBe(5 * SECOND);
+        });
+
+        it('should choose minute intervals for ranges under an hour', () => {
+            expect(chooseTimeInterval(0, 56 * MINUTE, 5)).toBe(15 * MINUTE);
+        });
+
+        it('should choose hour intervals for ranges under a day', () => {
+            expect(chooseTimeInterval(0, 20 * HOUR, 5)).toBe(6 * HOUR);
+        });
+
+        it('should choose day intervals for multi-day ranges', () => {
+            expect(chooseTimeInterval(0, 6 * DAY, 4)).toBe(2 * DAY);
+        });
+
+        it('should use multiples of the largest interval for very long ranges', () => {
+            expect(chooseTimeInterval(0, 400 * DAY, 5)).toBe(120 * DAY);
+        });
+    });
+
+    describe('timeTicks', () => {
+        it('should align ticks to round local boundaries', () => {
+            const min = new Date(2024, 0, 1, 10, 2).getTime();
+            const max = new Date(2024, 0, 1, 10, 58).getTime();
+
+            expect(timeTicks(min, max, 5)).toEqual([
+                new Date(2024, 0, 1, 10, 15).getTime(),
+                new Date(2024, 0, 1, 10, 30).getTime(),
+                new Date(2024, 0, 1, 10, 45).getTime(),
+            ]);
+        });
+
+        it('should align day ticks to local midnight', () => {
+            const min = new Date(2024, 0, 1, 6).getTime();
+            const max = new Date(2024, 0, 4, 6).getTime();
+
+            expect(timeTicks(min, max, 5)).toEqual([
+                new Date(2024, 0, 2).getTime(),
+                new Date(2024, 0, 3).getTime(),
+                new Date(2024, 0, 4).getTime(),
+            ]);
+        });
+
+        it('should return single tick when min === max', () => {
+            expect(timeTicks(1000, 1000, 5)).toEqual([1000]);
+        });
+
+        it('should return empty array for non-positive tick count', () => {
+            expect(timeTicks(0, HOUR, 0)).toEqual([]);
+        });
+    });
+
+    describe('createTimeTickFormat', () => {
+        const time = new Date(2024, 2, 5, 9, 7, 3).getTime();
+
+        it('should include seconds for sub-minute intervals', () => {
+            expect(createTimeTickFormat(15 * SECOND)(time)).toBe('09:07:03');
+        });
+
+        it('should format hours and minutes for sub-day intervals', () => {
+            expect(createTimeTickFormat(HOUR)(time)).toBe('09:07');
+        });
+
+        it('should format month and day for day intervals', () => {
+            expect(createTimeTickFormat(DAY)(time)).toBe('03-05');
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+    aggregateWindow,
+    counterRate,
+    percentile,
+    slidingWindows,
+    tumblingWindows,
+} from '../../src/utils/windowing';
+
+describe('windowing', () => {
+    describe('percentile', () => {
+        it('should interpolate between closest ranks', () => {
+            expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+            expect(percentile([1, 2, 3, 4, 5], 0)).toBe(1);
+            expect(percentile([1, 2, 3, 4, 5], 100)).toBe(5);
+            expect(percentile([10, 20], 90)).toBe(19);
+        });
+
+        it('should return null for no values', () => {
+            expect(percentile([], 95)).toBeNull();
+        });
+    });
+
+    describe('aggregateWindow', () => {
+        it('should apply each aggregate', () => {
+            const values = [2, 8, 4, 6];
+            expect(aggregateWindow(values, 'count')).toBe(4);
+            expect(aggregateWindow(values, 'sum')).toBe(20);
+            expect(aggregateWindow(values, 'avg')).toBe(5);
+            expect(aggregateWindow(values, 'min')).toBe(2);
+            expect(aggregateWindow(values, 'max')).toBe(8);
+            expect(aggregateWindow(values, 'p50')).toBe(5);
+        });
+
+        it('should handle buckets larger than the argument limit', () => {
+            const values = Array.from({ length: 200_000 }, (_, i) => i);
+            expect(aggregateWindow(values, 'min')).toBe(0);
+            expect(aggregateWindow(values, 'max')).toBe(199_999);
+        });
+
+        it('should compute rate per second of window size', () => {
+            expect(aggregateWindow([1, 1, 1, 1], 'rate', 2000)).toBe(2);
+        });
+
+        it('should return 0 for count and null otherwise on empty windows', () => {
+            expect(aggregateWindow([], 'count')).toBe(0);
+            expect(aggregateWindow([], 'avg')).toBeNull();
+            expect(aggregateWindow([], 'p99')).toBeNull();
+        });
+    });
+
+    describe('tumblingWindows', () => {
+        it('should bucket samples in windows aligned to the size', () => {
+            const samples = [
+                { time: 1200, value: 1 },
+                { time: 1800, value: 3 },
+                { time: 3100, value: 10 },
+            ];
+            expect(tumblingWindows(samples, { size: 1000, aggregate: 'avg' })).toEqual([
+                { start: 1000, end: 2000, value: 2 },
+                { start: 2000, end: 3000, value: null },
+                { start: 3000, end: 4000, value: 10 },
+            ]);
+        });
+
+        it('should honor end and count', () => {
+            const samples = [
+                { time: 500, value: 1 },
+                { time: 4500, value: 2 },
+            ];
+            const buckets = tumblingWindows(samples, {
+                size: 1000,
+                aggregate: 'count',
+                end: 5200,
+                count: 3,
+            });
+            expect(buckets.map((b) => b.start)).toEqual([3000, 4000, 5000]);
+            expect(buckets.map((b) => b.value)).toEqual([0, 1, 0]);
+        });
+
+        it('should return nothing without samples or range', () => {
+            expect(tumblingWindows([], { size: 1000, aggregate: 'sum' })).toEqual([]);
+        });
+    });
+
+    describe('slidingWindows', () => {
+        it('should aggregate overlapping windows ending every step', () => {
+            const samples = [1000, 2000, 3000, 4000].map((time) => ({ time, value: time / 1000 }));
+            const buckets = slidingWindows(samples, {
+                size: 2000,
+                step: 1000,
+                aggregate: 'sum',
+                end: 4000,
+                count: 3,
+            });
+            expect(buckets).toEqual([
+                { start: 0, end: 2000, value: 3 },
+                { start: 1000, end: 3000, value: 5 },
+                { start: 2000, end: 4000, value: 7 },
+            ]);
+        });
+
+        it('should default the step to a tenth of the size', () => {
+            const samples = [{ time: 1000, value: 1 }];
+            const buckets = slidingWindows(samples, { size: 1000, aggregate: 'max', count: 2 });
+            expect(buckets.map((b) => b.end)).toEqual([900, 1000]);
+            expect(buckets.map((b) => b.value)).toEqual([null, 1]);
+        });
+
+        it('should skip samples between windows when the step exceeds the size', () => {
+            const samples = [4500, 500, 2500, 1500, 3500].map((time) => ({ time, value: 1 }));
+            const buckets = slidingWindows(samples, {
+                size: 1000,
+                step: 2000,
+                aggregate: 'count',
+                end: 5000,
+                count: 3,
+            });
+            expect(buckets.map((b) => [b.start, b.end, b.value])).toEqual([
+                [0, 1000, 1],
+                [2000, 3000, 1],
+                [4000, 5000, 1],
+            ]);
+        });
+    });
+
+    describe('counterRate', () => {
+        it('should compute per-second rates between readings', () => {
+            expect(
+                counterRate([
+                    { time: 2000, value: 300 },
+                    { time: 0, value: 100 },
+                    { time: 3000, value: 400 },
+                ]),
+            ).toEqual([
+                { time: 2000, value: 100 },
+                { time: 3000, value: 100 },
+            ]);
+        });
+
+        it('should treat a decrease as a counter reset', () => {
+            expect(
+                counterRate([
+                    { time: 0, value: 500 },
+                    { time: 1000, value: 20 },
+                ]),
+            ).toEqual([{ time: 1000, value: 20 }]);
+        });
+    });
+});